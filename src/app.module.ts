@@ -1,15 +1,36 @@
-import { Module } from '@nestjs/common';
+import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { APP_INTERCEPTOR, APP_FILTER } from '@nestjs/core';
 import { PollsModule } from './polls/polls.module';
-import { AppDataSource } from './data-source';
+import { RateLimitModule } from './common/rate-limit/rate-limit.module';
+import { IdempotencyModule } from './common/idempotency/idempotency.module';
+import { CacheModule } from './common/cache/cache.module';
+import { PubSubModule } from './common/pubsub/pub-sub.module';
+import { MonitoringModule } from './monitoring/monitoring.module';
+import { AppConfigModule } from './config/app-config.module';
+import { APP_CONFIG, AppConfig } from './config/app-config';
+import { buildDataSourceOptions } from './database/data-source-options';
 import { LoggingInterceptor } from './common/interceptors/logging.interceptor';
+import { RequestIdMiddleware } from './common/logging/request-id.middleware';
 import { HttpExceptionFilter, AllExceptionsFilter } from './common/filters/http-exception.filter';
 
 @Module({
   imports: [
-    // Configure TypeORM with our data source
-    TypeOrmModule.forRoot(AppDataSource.options),
+    // Validated settings - first, so a bad environment stops the app before anything connects
+    AppConfigModule,
+
+    // Configure TypeORM from the database settings
+    TypeOrmModule.forRootAsync({
+      inject: [APP_CONFIG],
+      useFactory: (config: AppConfig) => buildDataSourceOptions(config.database),
+    }),
+
+    // Shared infrastructure
+    RateLimitModule,
+    IdempotencyModule,
+    CacheModule,
+    PubSubModule,
+    MonitoringModule,
 
     // Feature modules
     PollsModule,
@@ -22,14 +43,21 @@ import { HttpExceptionFilter, AllExceptionsFilter } from './common/filters/http-
     },
 
     // Global exception filters for consistent error handling
+    // Nest tries the last one registered first, so the catch-all goes on top
+    // and HttpExceptionFilter gets first go at HttpExceptions
     {
       provide: APP_FILTER,
-      useClass: HttpExceptionFilter,
+      useClass: AllExceptionsFilter,
     },
     {
       provide: APP_FILTER,
-      useClass: AllExceptionsFilter,
+      useClass: HttpExceptionFilter,
     },
   ],
 })
-export class AppModule {}
\ No newline at end of file
+export class AppModule implements NestModule {
+  // Request IDs go on first, so everything after - including the interceptor's logs - sees them
+  configure(consumer: MiddlewareConsumer): void {
+    consumer.apply(RequestIdMiddleware).forRoutes('*');
+  }
+}
\ No newline at end of file
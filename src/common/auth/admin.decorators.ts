@@ -0,0 +1,13 @@
+import { applyDecorators, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiResponse } from '@nestjs/swagger';
+import { AdminGuard } from './admin.guard';
+
+// Admin-only endpoint: ADMIN_TOKEN has to be set and sent as a bearer token
+export function RequireAdmin() {
+  return applyDecorators(
+    UseGuards(AdminGuard),
+    ApiBearerAuth('admin-token'),
+    ApiResponse({ status: 401, description: 'Admin token missing' }),
+    ApiResponse({ status: 403, description: 'Admin token is wrong, or admin endpoints are disabled' }),
+  );
+}
@@ -0,0 +1,32 @@
+import { ExecutionContext, ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { AdminGuard } from './admin.guard';
+import { loadAppConfig } from '../../config/app-config';
+
+describe('AdminGuard', () => {
+  const guard = new AdminGuard(loadAppConfig({ ADMIN_TOKEN: 'admin-secret' }));
+
+  // Builds just enough of an ExecutionContext for the guard to read the request
+  const buildContext = (authorization?: string): ExecutionContext => ({
+    switchToHttp: () => ({
+      getRequest: () => ({ method: 'POST', url: '/admin/vote-counters/rebuild', headers: { authorization } }),
+    }),
+  }) as any;
+
+  it('should let the admin token through', () => {
+    expect(guard.canActivate(buildContext('Bearer admin-secret'))).toBe(true);
+  });
+
+  it('should reject requests without a token', () => {
+    expect(() => guard.canActivate(buildContext())).toThrow(UnauthorizedException);
+  });
+
+  it('should reject the wrong token', () => {
+    expect(() => guard.canActivate(buildContext('Bearer admin-secre'))).toThrow(ForbiddenException);
+  });
+
+  it('should keep admin endpoints closed when ADMIN_TOKEN is not set', () => {
+    const disabledGuard = new AdminGuard(loadAppConfig({}));
+
+    expect(() => disabledGuard.canActivate(buildContext('Bearer '))).toThrow(ForbiddenException);
+  });
+});
@@ -0,0 +1,66 @@
+import {
+  Injectable,
+  Inject,
+  CanActivate,
+  ExecutionContext,
+  Logger,
+  UnauthorizedException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+import { APP_CONFIG, AppConfig } from '../../config/app-config';
+import { ErrorCode, coded } from '../errors/error-codes';
+
+/**
+ * Guards the admin endpoints with a single shared token
+ *
+ * The token is set with ADMIN_TOKEN and sent as "Authorization: Bearer <token>".
+ * Without ADMIN_TOKEN the admin endpoints are switched off entirely - there's
+ * no default password to forget about.
+ */
+@Injectable()
+export class AdminGuard implements CanActivate {
+  private readonly logger = new Logger(AdminGuard.name);
+
+  constructor(
+    @Inject(APP_CONFIG)
+    private readonly config: AppConfig,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const adminToken = this.config.adminToken;
+    if (!adminToken) {
+      throw new ForbiddenException(coded(ErrorCode.ADMIN_DISABLED, 'Admin endpoints are disabled - set ADMIN_TOKEN to enable them'));
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const token = this.extractToken(request);
+    if (!token) {
+      throw new UnauthorizedException(coded(ErrorCode.ADMIN_TOKEN_REQUIRED, 'Admin token required - send it as "Authorization: Bearer <token>"'));
+    }
+
+    if (!this.tokensMatch(token, adminToken)) {
+      this.logger.warn(`Invalid admin token for ${request.method} ${request.url}`);
+      throw new ForbiddenException(coded(ErrorCode.ADMIN_TOKEN_INVALID, 'Invalid admin token'));
+    }
+
+    return true;
+  }
+
+  private extractToken(request: Request): string | null {
+    const header = request.headers.authorization;
+    if (!header) {
+      return null;
+    }
+
+    const [scheme, token] = header.split(' ');
+    return scheme === 'Bearer' && token ? token : null;
+  }
+
+  // Compares hashes so the lengths always match and timing doesn't leak anything
+  private tokensMatch(token: string, expected: string): boolean {
+    const hash = (value: string) => createHash('sha256').update(value).digest();
+    return timingSafeEqual(hash(token), hash(expected));
+  }
+}
@@ -0,0 +1,32 @@
+import { Global, Module } from '@nestjs/common';
+import { CACHE_STORE, CacheStore } from './cache.store';
+import { LruCacheStore } from './lru-cache.store';
+import { KeyValueCacheStore, LocalKeyValueClient } from './key-value-cache.store';
+import { APP_CONFIG, AppConfig } from '../../config/app-config';
+
+// Picks the cache backend from RESULTS_CACHE_BACKEND ("memory" by default)
+function createCacheStore(config: AppConfig): CacheStore {
+  const { backend, maxEntries, cleanupIntervalMs } = config.resultsCache;
+
+  switch (backend) {
+    case 'memory':
+      return new LruCacheStore(maxEntries, cleanupIntervalMs);
+    case 'key-value':
+      // Local stand-in for now - pass a client for a real key-value server here
+      return new KeyValueCacheStore(new LocalKeyValueClient());
+  }
+}
+
+// Global so any service can inject CACHE_STORE without importing this module
+@Global()
+@Module({
+  providers: [
+    {
+      provide: CACHE_STORE,
+      useFactory: createCacheStore,
+      inject: [APP_CONFIG],
+    },
+  ],
+  exports: [CACHE_STORE],
+})
+export class CacheModule {}
@@ -0,0 +1,27 @@
+// Injection token for whichever store keeps cached results
+export const CACHE_STORE = 'CACHE_STORE';
+
+// Counters since the process started - handy for tuning size and TTL
+export interface CacheStats {
+  backend: string; // which implementation is bound, e.g. "memory"
+  size: number; // entries stored right now
+  maxEntries: number | null; // size limit, null if the backend manages its own
+  hits: number;
+  misses: number;
+  evictions: number; // entries dropped to make room for new ones
+  expirations: number; // entries dropped because their TTL ran out
+}
+
+/**
+ * Anything that can keep values for a while under a string key
+ *
+ * Async on purpose: the in-memory LRU doesn't need it, but a shared store
+ * (Redis or similar) does, and callers shouldn't have to care which one
+ * is bound to CACHE_STORE. Values have to survive a JSON round trip.
+ */
+export interface CacheStore {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  stats(): Promise<CacheStats>;
+}
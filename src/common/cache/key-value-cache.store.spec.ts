@@ -0,0 +1,61 @@
+import { KeyValueCacheStore, KeyValueClient, LocalKeyValueClient } from './key-value-cache.store';
+
+describe('KeyValueCacheStore', () => {
+  let client: LocalKeyValueClient;
+  let store: KeyValueCacheStore;
+
+  beforeEach(() => {
+    client = new LocalKeyValueClient();
+    store = new KeyValueCacheStore(client, 'test:');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should store values as JSON under the namespaced key', async () => {
+    await store.set('poll-results:1', { total: 3 }, 1000);
+
+    expect(await client.get('test:poll-results:1')).toBe('{"total":3}');
+    expect(await store.get('poll-results:1')).toEqual({ total: 3 });
+  });
+
+  it('should let the key-value server expire entries', async () => {
+    jest.useFakeTimers({ now: 0 });
+    await store.set('a', 1, 1000);
+
+    jest.setSystemTime(1000);
+
+    expect(await store.get('a')).toBeUndefined();
+  });
+
+  it('should count hits and misses and report the server size', async () => {
+    await store.set('a', 1, 1000);
+    await store.get('a');
+    await store.get('b');
+    await client.set('other-app:key', 'x', 1000); // not ours, not counted
+
+    expect(await store.stats()).toEqual({
+      backend: 'key-value',
+      size: 1,
+      maxEntries: null,
+      hits: 1,
+      misses: 1,
+      evictions: 0,
+      expirations: 0,
+    });
+  });
+
+  it('should treat an unreachable server as a miss instead of failing', async () => {
+    const brokenClient: KeyValueClient = {
+      get: jest.fn().mockRejectedValue(new Error('connection refused')),
+      set: jest.fn().mockRejectedValue(new Error('connection refused')),
+      del: jest.fn(),
+      count: jest.fn(),
+    };
+    const brokenStore = new KeyValueCacheStore(brokenClient);
+
+    await expect(brokenStore.set('a', 1, 1000)).resolves.toBeUndefined();
+    await expect(brokenStore.get('a')).resolves.toBeUndefined();
+  });
+});
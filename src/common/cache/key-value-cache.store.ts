@@ -0,0 +1,134 @@
+import { Logger } from '@nestjs/common';
+import { CacheStats, CacheStore } from './cache.store';
+
+/**
+ * The handful of commands the cache needs from a key-value server
+ *
+ * Shaped after Redis (GET, SET with PX, DEL, DBSIZE) so a real client only
+ * needs a thin wrapper. Values are plain strings, like on the wire.
+ */
+export interface KeyValueClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+  del(key: string): Promise<void>;
+  count(prefix: string): Promise<number>;
+}
+
+/**
+ * Stand-in key-value server living in this process
+ *
+ * Behaves like the real thing from the cache's point of view (strings in,
+ * strings out, keys expire by themselves) so the adapter can be run and
+ * tested without a server. It is NOT shared between instances - swap in a
+ * real client for that.
+ */
+export class LocalKeyValueClient implements KeyValueClient {
+  private readonly data = new Map<string, { value: string; expiresAt: number }>();
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.data.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    // Expire lazily on read, like Redis does
+    if (entry.expiresAt <= Date.now()) {
+      this.data.delete(key);
+      return null;
+    }
+
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    this.data.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+
+  async del(key: string): Promise<void> {
+    this.data.delete(key);
+  }
+
+  async count(prefix: string): Promise<number> {
+    const now = Date.now();
+    let count = 0;
+
+    for (const [key, entry] of this.data) {
+      if (entry.expiresAt <= now) {
+        this.data.delete(key);
+      } else if (key.startsWith(prefix)) {
+        count++;
+      }
+    }
+
+    return count;
+  }
+}
+
+/**
+ * Cache adapter for a key-value server
+ *
+ * Values are stored as JSON under a namespaced key and expire server-side,
+ * so there's nothing to sweep here. Size limits and evictions are the
+ * server's business (e.g. maxmemory + allkeys-lru on Redis), which is why
+ * those show up as null/0 in the stats. Hits and misses are counted per
+ * instance.
+ *
+ * A cache that can't be reached shouldn't take results down with it, so
+ * client errors are logged and treated as misses.
+ */
+export class KeyValueCacheStore implements CacheStore {
+  private readonly logger = new Logger(KeyValueCacheStore.name);
+
+  private hits = 0;
+  private misses = 0;
+
+  constructor(
+    private readonly client: KeyValueClient,
+    private readonly keyPrefix = 'onevote:cache:',
+  ) {}
+
+  async get<T>(key: string): Promise<T | undefined> {
+    try {
+      const raw = await this.client.get(this.keyPrefix + key);
+      if (raw === null) {
+        this.misses++;
+        return undefined;
+      }
+
+      this.hits++;
+      return JSON.parse(raw) as T;
+    } catch (error) {
+      this.logger.warn(`Cache read for ${key} failed: ${error.message}`);
+      this.misses++;
+      return undefined;
+    }
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    try {
+      await this.client.set(this.keyPrefix + key, JSON.stringify(value), ttlMs);
+    } catch (error) {
+      this.logger.warn(`Cache write for ${key} failed: ${error.message}`);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await this.client.del(this.keyPrefix + key);
+    } catch (error) {
+      this.logger.warn(`Cache delete for ${key} failed: ${error.message}`);
+    }
+  }
+
+  async stats(): Promise<CacheStats> {
+    return {
+      backend: 'key-value',
+      size: await this.client.count(this.keyPrefix).catch(() => 0),
+      maxEntries: null,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: 0,
+      expirations: 0,
+    };
+  }
+}
@@ -0,0 +1,65 @@
+import { LruCacheStore } from './lru-cache.store';
+
+describe('LruCacheStore', () => {
+  let store: LruCacheStore;
+
+  beforeEach(() => {
+    store = new LruCacheStore(2, 60 * 1000);
+  });
+
+  afterEach(() => {
+    store.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  it('should return what was stored and count hits and misses', async () => {
+    await store.set('a', { total: 1 }, 1000);
+
+    expect(await store.get('a')).toEqual({ total: 1 });
+    expect(await store.get('missing')).toBeUndefined();
+
+    const stats = await store.stats();
+    expect(stats).toMatchObject({ backend: 'memory', size: 1, maxEntries: 2, hits: 1, misses: 1 });
+  });
+
+  it('should evict the least recently used entry when full', async () => {
+    await store.set('a', 1, 1000);
+    await store.set('b', 2, 1000);
+    await store.get('a'); // a is now more recent than b
+    await store.set('c', 3, 1000);
+
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('a')).toBe(1);
+    expect(await store.get('c')).toBe(3);
+    expect((await store.stats()).evictions).toBe(1);
+  });
+
+  it('should treat expired entries as misses', async () => {
+    jest.useFakeTimers({ now: 0 });
+    await store.set('a', 1, 1000);
+
+    jest.setSystemTime(1000);
+
+    expect(await store.get('a')).toBeUndefined();
+    expect(await store.stats()).toMatchObject({ size: 0, misses: 1, expirations: 1 });
+  });
+
+  it('should sweep expired entries on its own schedule', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const scheduled = new LruCacheStore(10, 5000);
+    await scheduled.set('short', 1, 1000);
+    await scheduled.set('long', 2, 60 * 1000);
+
+    jest.advanceTimersByTime(5000);
+
+    expect(await scheduled.stats()).toMatchObject({ size: 1, expirations: 1 });
+    scheduled.onModuleDestroy();
+  });
+
+  it('should forget deleted entries', async () => {
+    await store.set('a', 1, 1000);
+    await store.delete('a');
+
+    expect(await store.get('a')).toBeUndefined();
+  });
+});
@@ -0,0 +1,113 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { CacheStats, CacheStore } from './cache.store';
+
+interface LruEntry {
+  value: unknown;
+  expiresAt: number; // epoch ms
+}
+
+/**
+ * Bounded in-memory cache that drops the least recently used entry when full
+ *
+ * A Map remembers insertion order, so moving an entry to the end on every
+ * read keeps the least recently used one at the front - no linked list
+ * needed. Expired entries are swept on a timer so stale results don't sit
+ * in memory until someone happens to ask for them.
+ *
+ * Per process only - several instances each keep their own copy.
+ */
+export class LruCacheStore implements CacheStore, OnModuleDestroy {
+  private readonly logger = new Logger(LruCacheStore.name);
+
+  private readonly entries = new Map<string, LruEntry>();
+  private readonly sweepTimer: NodeJS.Timeout;
+
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private expirations = 0;
+
+  constructor(
+    private readonly maxEntries: number,
+    cleanupIntervalMs: number,
+  ) {
+    this.sweepTimer = setInterval(() => this.sweep(), cleanupIntervalMs);
+    // Don't keep the process alive just for housekeeping
+    this.sweepTimer.unref();
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      this.expirations++;
+      this.misses++;
+      return undefined;
+    }
+
+    // Move it to the back of the line - it was just used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    this.hits++;
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    // Full? The first key is the one nobody has touched for longest
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      this.entries.delete(oldestKey);
+      this.evictions++;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async stats(): Promise<CacheStats> {
+    return {
+      backend: 'memory',
+      size: this.entries.size,
+      maxEntries: this.maxEntries,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      expirations: this.expirations,
+    };
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.sweepTimer);
+  }
+
+  /**
+   * Drops everything whose TTL has run out
+   */
+  sweep(now = Date.now()): number {
+    let swept = 0;
+
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+        swept++;
+      }
+    }
+
+    if (swept > 0) {
+      this.expirations += swept;
+      this.logger.debug(`Swept ${swept} expired cache entries`);
+    }
+
+    return swept;
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Stable codes for everything the API can refuse
+ *
+ * Clients should branch on these, never on the human-readable detail text,
+ * which can change. Codes are never renamed or reused - add new ones instead.
+ */
+export enum ErrorCode {
+  // --- Polls ---
+  POLL_NOT_FOUND = 'POLL_NOT_FOUND',
+  OPTION_NOT_IN_POLL = 'OPTION_NOT_IN_POLL',
+  INVALID_POLL_SCHEDULE = 'INVALID_POLL_SCHEDULE',
+  DUPLICATE_OPTIONS = 'DUPLICATE_OPTIONS',
+  INVALID_SELECTION_LIMITS = 'INVALID_SELECTION_LIMITS',
+  POLL_HAS_VOTES = 'POLL_HAS_VOTES',
+  POLL_NOT_DRAFT = 'POLL_NOT_DRAFT',
+  POLL_ALREADY_CLOSED = 'POLL_ALREADY_CLOSED',
+  RESULTS_HIDDEN = 'RESULTS_HIDDEN',
+  INVALID_CURSOR = 'INVALID_CURSOR',
+
+  // --- Voting ---
+  POLL_NOT_OPEN = 'POLL_NOT_OPEN',
+  POLL_CLOSED = 'POLL_CLOSED',
+  INVALID_BALLOT = 'INVALID_BALLOT',
+  DUPLICATE_VOTE = 'DUPLICATE_VOTE',
+  VOTE_NOT_FOUND = 'VOTE_NOT_FOUND',
+  VOTE_CHANGES_NOT_ALLOWED = 'VOTE_CHANGES_NOT_ALLOWED',
+  INVALID_IMPORT_FILE = 'INVALID_IMPORT_FILE',
+
+  // --- Voter tokens ---
+  VOTER_TOKEN_REQUIRED = 'VOTER_TOKEN_REQUIRED',
+  VOTER_TOKEN_INVALID = 'VOTER_TOKEN_INVALID',
+  VOTER_TOKEN_USED = 'VOTER_TOKEN_USED',
+  POLL_NOT_INVITE_ONLY = 'POLL_NOT_INVITE_ONLY',
+  VOTER_TOKENS_ALREADY_ISSUED = 'VOTER_TOKENS_ALREADY_ISSUED',
+
+  // --- Webhooks ---
+  WEBHOOK_NOT_FOUND = 'WEBHOOK_NOT_FOUND',
+  WEBHOOK_URL_NOT_ALLOWED = 'WEBHOOK_URL_NOT_ALLOWED',
+  WEBHOOK_LIMIT_REACHED = 'WEBHOOK_LIMIT_REACHED',
+
+  // --- Auth ---
+  MANAGEMENT_TOKEN_REQUIRED = 'MANAGEMENT_TOKEN_REQUIRED',
+  MANAGEMENT_TOKEN_INVALID = 'MANAGEMENT_TOKEN_INVALID',
+  ADMIN_TOKEN_REQUIRED = 'ADMIN_TOKEN_REQUIRED',
+  ADMIN_TOKEN_INVALID = 'ADMIN_TOKEN_INVALID',
+  ADMIN_DISABLED = 'ADMIN_DISABLED',
+
+  // --- Live results ---
+  SUBSCRIPTION_LIMIT_REACHED = 'SUBSCRIPTION_LIMIT_REACHED',
+
+  // --- Idempotency keys ---
+  IDEMPOTENCY_KEY_INVALID = 'IDEMPOTENCY_KEY_INVALID',
+  IDEMPOTENCY_KEY_IN_USE = 'IDEMPOTENCY_KEY_IN_USE',
+  IDEMPOTENCY_KEY_REUSED = 'IDEMPOTENCY_KEY_REUSED',
+
+  // --- Anything else, by HTTP status ---
+  VALIDATION_FAILED = 'VALIDATION_FAILED',
+  BAD_REQUEST = 'BAD_REQUEST',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+  FORBIDDEN = 'FORBIDDEN',
+  NOT_FOUND = 'NOT_FOUND',
+  CONFLICT = 'CONFLICT',
+  UNPROCESSABLE_ENTITY = 'UNPROCESSABLE_ENTITY',
+  RATE_LIMITED = 'RATE_LIMITED',
+  SERVICE_UNAVAILABLE = 'SERVICE_UNAVAILABLE',
+  INTERNAL_ERROR = 'INTERNAL_ERROR',
+}
+
+// What each code means - shown in the Swagger docs
+export const ERROR_CODE_DESCRIPTIONS: Record<ErrorCode, string> = {
+  [ErrorCode.POLL_NOT_FOUND]: '404 - no poll with that ID',
+  [ErrorCode.OPTION_NOT_IN_POLL]: '404 - the ballot names an option that isn\'t part of this poll',
+  [ErrorCode.INVALID_POLL_SCHEDULE]: '400 - opening/closing times are in the past or in the wrong order',
+  [ErrorCode.DUPLICATE_OPTIONS]: '400 - the same option text appears twice',
+  [ErrorCode.INVALID_SELECTION_LIMITS]: '400 - minSelections/maxSelections don\'t fit the poll',
+  [ErrorCode.POLL_HAS_VOTES]: '409 - question and options can\'t change once someone has voted',
+  [ErrorCode.POLL_NOT_DRAFT]: '409 - only draft polls can be opened',
+  [ErrorCode.POLL_ALREADY_CLOSED]: '409 - the poll was closed already',
+  [ErrorCode.RESULTS_HIDDEN]: '403 - results are hidden until the poll closes',
+  [ErrorCode.INVALID_CURSOR]: '400 - the pagination cursor is malformed or from a different sort',
+  [ErrorCode.POLL_NOT_OPEN]: '422 - the poll is a draft or hasn\'t reached opensAt yet',
+  [ErrorCode.POLL_CLOSED]: '422 - voting has ended',
+  [ErrorCode.INVALID_BALLOT]: '400 - the ballot doesn\'t match the poll\'s voting method or selection limits',
+  [ErrorCode.DUPLICATE_VOTE]: '409 - this user has already voted in this poll',
+  [ErrorCode.VOTE_NOT_FOUND]: '404 - this user hasn\'t voted in this poll',
+  [ErrorCode.VOTE_CHANGES_NOT_ALLOWED]: '403 - the poll doesn\'t allow changing or withdrawing votes',
+  [ErrorCode.INVALID_IMPORT_FILE]: '400 - a ballot import that isn\'t {"ballots": [...]} or a CSV with a header row, is empty, or is too big',
+  [ErrorCode.VOTER_TOKEN_REQUIRED]: '403 - invite-only poll, send a voter token',
+  [ErrorCode.VOTER_TOKEN_INVALID]: '403 - the voter token doesn\'t belong to this poll or ballot',
+  [ErrorCode.VOTER_TOKEN_USED]: '409 - the voter token has already cast a ballot',
+  [ErrorCode.POLL_NOT_INVITE_ONLY]: '409 - voter tokens are only for invite-only polls',
+  [ErrorCode.VOTER_TOKENS_ALREADY_ISSUED]: '409 - some of these voter IDs already have tokens',
+  [ErrorCode.WEBHOOK_NOT_FOUND]: '404 - no webhook with that ID on this poll',
+  [ErrorCode.WEBHOOK_URL_NOT_ALLOWED]: '400 - webhook URLs must point at a public host, not localhost or a private network',
+  [ErrorCode.WEBHOOK_LIMIT_REACHED]: '409 - the poll already has as many webhooks as it may',
+  [ErrorCode.MANAGEMENT_TOKEN_REQUIRED]: '401 - send the poll\'s management token as a bearer token',
+  [ErrorCode.MANAGEMENT_TOKEN_INVALID]: '403 - wrong management token for this poll',
+  [ErrorCode.ADMIN_TOKEN_REQUIRED]: '401 - send ADMIN_TOKEN as a bearer token',
+  [ErrorCode.ADMIN_TOKEN_INVALID]: '403 - wrong admin token',
+  [ErrorCode.ADMIN_DISABLED]: '403 - admin endpoints are off because ADMIN_TOKEN isn\'t set',
+  [ErrorCode.SUBSCRIPTION_LIMIT_REACHED]: '400 (WebSocket) - this connection follows as many polls as it may',
+  [ErrorCode.IDEMPOTENCY_KEY_INVALID]: '400 - Idempotency-Key must be 1-255 visible ASCII characters',
+  [ErrorCode.IDEMPOTENCY_KEY_IN_USE]: '409 - the first request with this Idempotency-Key is still running, retry shortly',
+  [ErrorCode.IDEMPOTENCY_KEY_REUSED]: '422 - this Idempotency-Key was already used with a different request body',
+  [ErrorCode.VALIDATION_FAILED]: '400 - the request body or query failed validation, see `errors` for each field',
+  [ErrorCode.BAD_REQUEST]: '400 - anything else malformed, e.g. an ID that isn\'t a UUID',
+  [ErrorCode.UNAUTHORIZED]: '401 - credentials missing',
+  [ErrorCode.FORBIDDEN]: '403 - not allowed',
+  [ErrorCode.NOT_FOUND]: '404 - no such route or resource',
+  [ErrorCode.CONFLICT]: '409 - clashes with the current state',
+  [ErrorCode.UNPROCESSABLE_ENTITY]: '422 - understood, but can\'t be done right now',
+  [ErrorCode.RATE_LIMITED]: '429 - too many requests, wait Retry-After seconds',
+  [ErrorCode.SERVICE_UNAVAILABLE]: '503 - a dependency (the database) is down',
+  [ErrorCode.INTERNAL_ERROR]: '500 - something broke on our side, quote the requestId',
+};
+
+// Used when an HttpException was thrown without a code of its own
+const CODES_BY_STATUS: Record<number, ErrorCode> = {
+  400: ErrorCode.BAD_REQUEST,
+  401: ErrorCode.UNAUTHORIZED,
+  403: ErrorCode.FORBIDDEN,
+  404: ErrorCode.NOT_FOUND,
+  409: ErrorCode.CONFLICT,
+  422: ErrorCode.UNPROCESSABLE_ENTITY,
+  429: ErrorCode.RATE_LIMITED,
+  503: ErrorCode.SERVICE_UNAVAILABLE,
+};
+
+export function getDefaultErrorCode(status: number): ErrorCode {
+  return CODES_BY_STATUS[status] ?? (status >= 500 ? ErrorCode.INTERNAL_ERROR : ErrorCode.BAD_REQUEST);
+}
+
+/**
+ * Body for a Nest HttpException that carries a code
+ *
+ *   throw new NotFoundException(coded(ErrorCode.POLL_NOT_FOUND, `Poll with ID ${pollId} not found`));
+ *
+ * The exception keeps its usual class, status and message - the filters
+ * pick the code up from the response body.
+ */
+export function coded(code: ErrorCode, message: string, extra: Record<string, unknown> = {}) {
+  return { code, message, ...extra };
+}
@@ -0,0 +1,49 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ErrorCode } from './error-codes';
+
+export const PROBLEM_JSON = 'application/problem+json';
+
+export class FieldErrorDto {
+  @ApiProperty({ description: 'Path of the field that failed, nested fields joined with dots', example: 'options.0' })
+  field!: string;
+
+  @ApiProperty({ description: 'Every rule the field broke', type: [String], example: ['Option text cannot be empty'] })
+  messages!: string[];
+}
+
+/**
+ * Body of every error response, per RFC 9457 (problem details)
+ *
+ * `code` is what clients should switch on; `detail` is for humans.
+ */
+export class ProblemDetailsDto {
+  @ApiProperty({ description: 'URI naming the problem type - one per code', example: 'urn:onevote:error:POLL_NOT_FOUND' })
+  type!: string;
+
+  @ApiProperty({ description: 'Short summary, the HTTP status phrase', example: 'Not Found' })
+  title!: string;
+
+  @ApiProperty({ description: 'HTTP status code', example: 404 })
+  status!: number;
+
+  @ApiProperty({ description: 'What went wrong this time, in words', example: 'Poll with ID 123e4567-e89b-12d3-a456-426614174000 not found' })
+  detail!: string;
+
+  @ApiProperty({ description: 'The request path', example: '/polls/123e4567-e89b-12d3-a456-426614174000' })
+  instance!: string;
+
+  @ApiProperty({ description: 'Stable error code - see the list at the top of these docs', enum: ErrorCode, enumName: 'ErrorCode', example: ErrorCode.POLL_NOT_FOUND })
+  code!: ErrorCode;
+
+  @ApiProperty({ description: 'ID of the request, also in the X-Request-Id header - quote it in bug reports', example: '9f1c2d7e-4b0a-4c53-8a51-0c2f3e4d5a6b' })
+  requestId!: string;
+
+  @ApiProperty({ description: 'When the error happened', example: '2024-01-15T10:30:00.000Z' })
+  timestamp!: string;
+
+  @ApiPropertyOptional({ description: 'Field-level failures, for VALIDATION_FAILED', type: [FieldErrorDto] })
+  errors?: FieldErrorDto[];
+
+  @ApiPropertyOptional({ description: 'Seconds to wait before retrying, for RATE_LIMITED', example: 30 })
+  retryAfter?: number;
+}
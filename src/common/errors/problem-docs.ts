@@ -0,0 +1,45 @@
+import { OpenAPIObject, getSchemaPath } from '@nestjs/swagger';
+import { ErrorCode, ERROR_CODE_DESCRIPTIONS } from './error-codes';
+import { PROBLEM_JSON, ProblemDetailsDto } from './problem-details.dto';
+
+// Markdown table of every error code, for the top of the Swagger page
+export function describeErrorCodes(): string {
+  const rows = Object.values(ErrorCode).map(code => `| \`${code}\` | ${ERROR_CODE_DESCRIPTIONS[code]} |`);
+
+  return [
+    'Errors are sent as `application/problem+json`. Switch on `code`, not on `detail`.',
+    '',
+    '| Code | Meaning |',
+    '| --- | --- |',
+    ...rows,
+  ].join('\n');
+}
+
+/**
+ * Points every 4xx/5xx response in the document at ProblemDetailsDto
+ *
+ * Saves repeating `type: ProblemDetailsDto` on each @ApiResponse - the
+ * filters guarantee the shape for every error anyway. Pass ProblemDetailsDto
+ * in extraModels when creating the document so the reference resolves.
+ */
+export function addProblemResponses(document: OpenAPIObject): OpenAPIObject {
+  for (const pathItem of Object.values(document.paths)) {
+    for (const operation of Object.values(pathItem)) {
+      // Path items also hold non-operation fields like `parameters`
+      const responses: Record<string, any> | undefined = (operation as any)?.responses;
+      if (!responses) {
+        continue;
+      }
+
+      for (const [status, response] of Object.entries(responses)) {
+        if (Number(status) >= 400 && !response.$ref) {
+          response.content = {
+            [PROBLEM_JSON]: { schema: { $ref: getSchemaPath(ProblemDetailsDto) } },
+          };
+        }
+      }
+    }
+  }
+
+  return document;
+}
@@ -0,0 +1,54 @@
+import 'reflect-metadata';
+import { BadRequestException, ValidationPipe } from '@nestjs/common';
+import { CreatePollDto } from '../../polls/dtos/create-poll.dto';
+import { ErrorCode } from './error-codes';
+import { validationExceptionFactory } from './validation-exception.factory';
+
+describe('validationExceptionFactory', () => {
+  const pipe = new ValidationPipe({
+    whitelist: true,
+    forbidNonWhitelisted: true,
+    transform: true,
+    exceptionFactory: validationExceptionFactory,
+  });
+
+  // Runs a body through the pipe the way the app does and hands back what it threw
+  const validate = (body: Record<string, unknown>) =>
+    pipe.transform(body, { type: 'body', metatype: CreatePollDto }).catch(e => e);
+
+  it('should group messages by field under VALIDATION_FAILED', async () => {
+    const error = await validate({ question: 'Lunch?', options: ['Pizza'], closesAt: 'tomorrow' });
+
+    expect(error).toBeInstanceOf(BadRequestException);
+    expect(error.getResponse()).toMatchObject({
+      code: ErrorCode.VALIDATION_FAILED,
+      errors: expect.arrayContaining([
+        { field: 'options', messages: ['please provide at least two options'] },
+        { field: 'closesAt', messages: ['closesAt must be a valid ISO date string'] },
+      ]),
+    });
+  });
+
+  it('should name nested fields with their path', async () => {
+    const error = await validate({
+      question: 'Lunch?',
+      options: ['Pizza', 'Tacos'],
+      closesAt: new Date(Date.now() + 86400000).toISOString(),
+      webhooks: [{ url: 'not a url', events: ['vote-cast'] }],
+    });
+
+    expect(error.getResponse().errors).toContainEqual({ field: 'webhooks.0.url', messages: ['url must be an http(s) URL'] });
+  });
+
+  it('should list unknown properties as their own field', async () => {
+    const error = await validate({ question: 'Lunch?', options: ['Pizza', 'Tacos'], closesAt: new Date().toISOString(), colour: 'red' });
+
+    expect(error.getResponse().errors).toContainEqual({ field: 'colour', messages: ['property colour should not exist'] });
+  });
+
+  it('should still read sensibly as a single message', async () => {
+    const error = await validate({ question: 'Lunch?', options: ['Pizza'], closesAt: new Date().toISOString() });
+
+    expect(error.message).toBe('please provide at least two options');
+  });
+});
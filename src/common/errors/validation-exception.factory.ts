@@ -0,0 +1,34 @@
+import { BadRequestException } from '@nestjs/common';
+import { ValidationError } from 'class-validator';
+import { ErrorCode, coded } from './error-codes';
+
+// One entry per field that failed - nested fields use dots, e.g. "options.2"
+export interface FieldError {
+  field: string;
+  messages: string[];
+}
+
+/**
+ * exceptionFactory for every ValidationPipe in the app
+ *
+ * Nest's default puts all the messages in one flat array, so a client has to
+ * guess which field each belongs to. This keeps them grouped by field under
+ * `errors`, and the detail still reads fine on its own.
+ */
+export function validationExceptionFactory(validationErrors: ValidationError[]): BadRequestException {
+  const errors = flattenValidationErrors(validationErrors);
+  const detail = errors.flatMap(error => error.messages).join('; ') || 'Request validation failed';
+
+  return new BadRequestException(coded(ErrorCode.VALIDATION_FAILED, detail, { errors }));
+}
+
+export function flattenValidationErrors(validationErrors: ValidationError[], parentPath = ''): FieldError[] {
+  return validationErrors.flatMap(error => {
+    const field = parentPath ? `${parentPath}.${error.property}` : error.property;
+    const own = error.constraints
+      ? [{ field, messages: Object.values(error.constraints) }]
+      : [];
+
+    return [...own, ...flattenValidationErrors(error.children ?? [], field)];
+  });
+}
@@ -0,0 +1,99 @@
+import { ArgumentsHost, BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { HttpExceptionFilter, AllExceptionsFilter } from './http-exception.filter';
+import { ErrorCode, coded } from '../errors/error-codes';
+import { TooManyRequestsException } from '../rate-limit/too-many-requests.exception';
+import { runWithRequestId } from '../logging/request-context';
+
+describe('Exception filters', () => {
+  let response: { status: jest.Mock; setHeader: jest.Mock; json: jest.Mock };
+
+  // Just enough of an HTTP ArgumentsHost for the filters
+  const hostFor = (url: string) => ({
+    switchToHttp: () => ({
+      getRequest: () => ({ method: 'GET', url }),
+      getResponse: () => response,
+    }),
+  }) as unknown as ArgumentsHost;
+
+  const sentBody = () => response.json.mock.calls[0][0];
+
+  beforeEach(() => {
+    response = { status: jest.fn(), setHeader: jest.fn(), json: jest.fn() };
+    response.status.mockReturnValue(response);
+  });
+
+  describe('HttpExceptionFilter', () => {
+    const filter = new HttpExceptionFilter();
+
+    it('should send problem details with the code the service threw', () => {
+      runWithRequestId('req-1', () => {
+        filter.catch(
+          new NotFoundException(coded(ErrorCode.POLL_NOT_FOUND, 'Poll with ID abc not found')),
+          hostFor('/polls/abc'),
+        );
+      });
+
+      expect(response.status).toHaveBeenCalledWith(404);
+      expect(response.setHeader).toHaveBeenCalledWith('Content-Type', 'application/problem+json; charset=utf-8');
+      expect(sentBody()).toEqual({
+        type: 'urn:onevote:error:POLL_NOT_FOUND',
+        title: 'Not Found',
+        status: 404,
+        detail: 'Poll with ID abc not found',
+        instance: '/polls/abc',
+        code: ErrorCode.POLL_NOT_FOUND,
+        requestId: 'req-1',
+        timestamp: expect.any(String),
+      });
+    });
+
+    it('should fall back to the generic code for the status', () => {
+      filter.catch(new ConflictException('Something clashed'), hostFor('/polls'));
+
+      expect(sentBody()).toMatchObject({ code: ErrorCode.CONFLICT, detail: 'Something clashed' });
+    });
+
+    it('should pass field errors through and join array messages', () => {
+      const errors = [{ field: 'options', messages: ['please provide at least two options'] }];
+      filter.catch(
+        new BadRequestException(coded(ErrorCode.VALIDATION_FAILED, 'please provide at least two options', { errors })),
+        hostFor('/polls'),
+      );
+      filter.catch(new BadRequestException(['a is wrong', 'b is wrong']), hostFor('/polls'));
+
+      expect(response.json.mock.calls[0][0]).toMatchObject({ code: ErrorCode.VALIDATION_FAILED, errors });
+      expect(response.json.mock.calls[1][0]).toMatchObject({ code: ErrorCode.BAD_REQUEST, detail: 'a is wrong; b is wrong' });
+    });
+
+    it('should tell rate-limited clients when to come back', () => {
+      filter.catch(new TooManyRequestsException(30), hostFor('/polls/abc/votes'));
+
+      expect(response.setHeader).toHaveBeenCalledWith('Retry-After', '30');
+      expect(sentBody()).toMatchObject({ status: 429, code: ErrorCode.RATE_LIMITED, retryAfter: 30 });
+    });
+
+    it('should not let the exception body overwrite the standard members', () => {
+      filter.catch(new ConflictException({ message: 'Nope', status: 'weird', instance: '/elsewhere' }), hostFor('/polls'));
+
+      expect(sentBody()).toMatchObject({ status: 409, instance: '/polls' });
+    });
+  });
+
+  describe('AllExceptionsFilter', () => {
+    const filter = new AllExceptionsFilter();
+
+    it('should turn SQLite unique violations into CONFLICT', () => {
+      filter.catch(new Error('SQLITE_CONSTRAINT: UNIQUE constraint failed: votes.pollId'), hostFor('/polls/abc/votes'));
+
+      expect(response.status).toHaveBeenCalledWith(409);
+      expect(sentBody()).toMatchObject({ code: ErrorCode.CONFLICT });
+    });
+
+    it('should hide anything else behind INTERNAL_ERROR', () => {
+      filter.catch(new Error('secret connection string in here'), hostFor('/polls'));
+
+      expect(response.status).toHaveBeenCalledWith(500);
+      expect(sentBody()).toMatchObject({ code: ErrorCode.INTERNAL_ERROR, detail: 'Internal server error' });
+    });
+  });
+});
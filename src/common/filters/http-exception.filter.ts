@@ -6,11 +6,51 @@ import {
   HttpStatus,
   Logger,
 } from '@nestjs/common';
+import { STATUS_CODES } from 'http';
 import { Request, Response } from 'express';
+import { TooManyRequestsException } from '../rate-limit/too-many-requests.exception';
+import { getRequestId } from '../logging/request-context';
+import { ErrorCode, getDefaultErrorCode } from '../errors/error-codes';
+import { PROBLEM_JSON } from '../errors/problem-details.dto';
+
+// Fields Nest puts in its own exception bodies - replaced by the problem details ones
+const NEST_BODY_FIELDS = ['statusCode', 'message', 'error', 'code'];
+
+// Members every problem has - extra fields from an exception body can't override these
+const PROBLEM_FIELDS = ['type', 'title', 'status', 'detail', 'instance', 'requestId', 'timestamp'];
+
+
+// Writes an application/problem+json response (RFC 9457)
+// Both filters end up here, so every error the API sends has the same shape
+function sendProblem(
+  request: Request,
+  response: Response,
+  status: number,
+  code: ErrorCode | string,
+  detail: string,
+  extensions: Record<string, unknown> = {},
+) {
+  const problem = {
+    type: `urn:onevote:error:${code}`,
+    title: STATUS_CODES[status] ?? 'Error',
+    status,
+    detail,
+    instance: request.url,
+    code,
+    requestId: getRequestId(),
+    timestamp: new Date().toISOString(),
+    ...extensions,
+  };
+
+  // Express only sets application/json when nothing else is set
+  response.status(status).setHeader('Content-Type', `${PROBLEM_JSON}; charset=utf-8`);
+  response.json(problem);
+}
 
 
 // Global exception filter to handle HTTP exceptions
-// Provides consistent error response format with helpful messages
+// Services throw Nest exceptions with a body from coded(), so the code comes along;
+// exceptions without one get the generic code for their status
 @Catch(HttpException)
 export class HttpExceptionFilter implements ExceptionFilter {
   private readonly logger = new Logger(HttpExceptionFilter.name);
@@ -23,29 +63,35 @@ export class HttpExceptionFilter implements ExceptionFilter {
 
     // Extract error details
     const exceptionResponse = exception.getResponse();
-    const errorMessage = typeof exceptionResponse === 'string'
+    const body: Record<string, any> = typeof exceptionResponse === 'object' && exceptionResponse !== null
       ? exceptionResponse
-      : (exceptionResponse as any).message || exception.message;
+      : { message: exceptionResponse };
 
-    const errorDetails = typeof exceptionResponse === 'object'
-      ? exceptionResponse
-      : { message: errorMessage };
+    // Nest's own ValidationPipe and ParseUUIDPipe messages can be arrays
+    const rawMessage = body.message ?? exception.message;
+    const errorMessage = Array.isArray(rawMessage) ? rawMessage.join('; ') : String(rawMessage);
+    const code = body.code ?? getDefaultErrorCode(status);
 
     // Log the error
-    this.logger.error(
-      `HTTP Exception: ${request.method} ${request.url} - Status: ${status} - Message: ${errorMessage}`
-    );
-
-    // Send consistent error response
-    const errorResponse = {
-      statusCode: status,
-      timestamp: new Date().toISOString(),
-      path: request.url,
+    this.logger.error({
+      message: `HTTP Exception: ${request.method} ${request.url} - Status: ${status} - Code: ${code} - Message: ${errorMessage}`,
       method: request.method,
-      ...errorDetails,
-    };
+      url: request.url,
+      statusCode: status,
+      code,
+    });
+
+    // Rate-limited clients get told when to come back
+    if (exception instanceof TooManyRequestsException) {
+      response.setHeader('Retry-After', String(exception.retryAfterSeconds));
+    }
 
-    response.status(status).json(errorResponse);
+    // Anything else in the body (errors, retryAfter, checks...) goes along as an extension member
+    const extensions = Object.fromEntries(
+      Object.entries(body).filter(([key]) => !NEST_BODY_FIELDS.includes(key) && !PROBLEM_FIELDS.includes(key)),
+    );
+
+    sendProblem(request, response, status, code, errorMessage, extensions);
   }
 }
 
@@ -62,37 +108,38 @@ export class AllExceptionsFilter implements ExceptionFilter {
     const request = ctx.getRequest<Request>();
 
     let status = HttpStatus.INTERNAL_SERVER_ERROR;
+    let code = ErrorCode.INTERNAL_ERROR;
     let message = 'Internal server error';
 
     // Handle specific database errors
     if (exception instanceof Error) {
       this.logger.error(
-        `Unhandled Exception: ${request.method} ${request.url} - ${exception.message}`,
+        {
+          message: `Unhandled Exception: ${request.method} ${request.url} - ${exception.message}`,
+          method: request.method,
+          url: request.url,
+        },
         exception.stack
       );
 
       // Handle SQLite constraint errors
       if (exception.message.includes('UNIQUE constraint failed')) {
         status = HttpStatus.CONFLICT;
+        code = ErrorCode.CONFLICT;
         message = 'Duplicate entry - this action has already been performed';
       } else if (exception.message.includes('FOREIGN KEY constraint failed')) {
         status = HttpStatus.BAD_REQUEST;
+        code = ErrorCode.BAD_REQUEST;
         message = 'Invalid reference - related entity not found';
       }
     } else {
-      this.logger.error(
-        `Unknown Exception: ${request.method} ${request.url} - ${String(exception)}`
-      );
+      this.logger.error({
+        message: `Unknown Exception: ${request.method} ${request.url} - ${String(exception)}`,
+        method: request.method,
+        url: request.url,
+      });
     }
 
-    const errorResponse = {
-      statusCode: status,
-      timestamp: new Date().toISOString(),
-      path: request.url,
-      method: request.method,
-      message,
-    };
-
-    response.status(status).json(errorResponse);
+    sendProblem(request, response, status, code, message);
   }
-}
\ No newline at end of file
+}
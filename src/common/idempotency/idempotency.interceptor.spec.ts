@@ -0,0 +1,162 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CallHandler, ConflictException, ExecutionContext, UnprocessableEntityException } from '@nestjs/common';
+import { lastValueFrom, of, throwError, Subject } from 'rxjs';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+import { IDEMPOTENCY_STORE } from './idempotency.store';
+import { InMemoryIdempotencyStore } from './in-memory-idempotency.store';
+import { APP_CONFIG, loadAppConfig } from '../../config/app-config';
+import { ErrorCode } from '../errors/error-codes';
+
+interface Caller {
+  ip?: string;
+  authorization?: string;
+}
+
+describe('IdempotencyInterceptor', () => {
+  let interceptor: IdempotencyInterceptor;
+  let store: InMemoryIdempotencyStore;
+
+  // Builds just enough of an ExecutionContext for the interceptor to read the request
+  const buildContext = (key: string | undefined, body: unknown, path = '/polls', caller: Caller = {}) => {
+    const response = { setHeader: jest.fn() };
+    const headers: Record<string, string | undefined> = { 'Idempotency-Key': key, Authorization: caller.authorization };
+    const request = {
+      method: 'POST',
+      path,
+      body,
+      ip: caller.ip ?? '203.0.113.7',
+      get: (name: string) => headers[name],
+    };
+
+    const context = {
+      getType: () => 'http',
+      switchToHttp: () => ({ getRequest: () => request, getResponse: () => response }),
+    } as unknown as ExecutionContext;
+
+    return { context, response };
+  };
+
+  // A handler that counts how often it really ran
+  const buildHandler = (result: unknown = { id: 'poll-1' }) => {
+    const handler = { handle: jest.fn(() => of(result)) };
+    return handler as CallHandler & { handle: jest.Mock };
+  };
+
+  const run = async (key: string | undefined, body: unknown, handler: CallHandler, path?: string, caller?: Caller) => {
+    const { context, response } = buildContext(key, body, path, caller);
+    const result = await lastValueFrom(await interceptor.intercept(context, handler));
+    return { result, response };
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IdempotencyInterceptor,
+        { provide: IDEMPOTENCY_STORE, useClass: InMemoryIdempotencyStore },
+        { provide: APP_CONFIG, useValue: loadAppConfig({}) },
+      ],
+    }).compile();
+
+    interceptor = module.get<IdempotencyInterceptor>(IdempotencyInterceptor);
+    store = module.get<InMemoryIdempotencyStore>(IDEMPOTENCY_STORE);
+  });
+
+  afterEach(() => {
+    store.onModuleDestroy();
+  });
+
+  it('should leave requests without a key alone', async () => {
+    const handler = buildHandler();
+
+    await run(undefined, { question: 'Lunch?' }, handler);
+    await run(undefined, { question: 'Lunch?' }, handler);
+
+    expect(handler.handle).toHaveBeenCalledTimes(2);
+  });
+
+  it('should replay the first response for a repeat with the same key and body', async () => {
+    const handler = buildHandler({ id: 'poll-1' });
+
+    await run('key-1', { question: 'Lunch?', options: ['Pizza', 'Tacos'] }, handler);
+    // Same body with the keys in a different order still counts as the same request
+    const { result, response } = await run('key-1', { options: ['Pizza', 'Tacos'], question: 'Lunch?' }, handler);
+
+    expect(handler.handle).toHaveBeenCalledTimes(1);
+    expect(result).toEqual({ id: 'poll-1' });
+    expect(response.setHeader).toHaveBeenCalledWith('Idempotent-Replayed', 'true');
+  });
+
+  it('should reject the same key with a different body', async () => {
+    await run('key-1', { question: 'Lunch?' }, buildHandler());
+
+    const error = await run('key-1', { question: 'Dinner?' }, buildHandler()).catch(e => e);
+
+    expect(error).toBeInstanceOf(UnprocessableEntityException);
+    expect(error.getResponse().code).toBe(ErrorCode.IDEMPOTENCY_KEY_REUSED);
+  });
+
+  it('should treat the same key on another route as a different key', async () => {
+    const handler = buildHandler();
+
+    await run('key-1', { optionId: 'a' }, handler, '/polls/one/votes');
+    await run('key-1', { optionId: 'a' }, handler, '/polls/two/votes');
+
+    expect(handler.handle).toHaveBeenCalledTimes(2);
+  });
+
+  it('should never replay one caller\'s response to another', async () => {
+    const handler = buildHandler();
+
+    await run('key-1', { optionId: 'a', userUuid: 'user-1' }, handler, '/polls/one/votes');
+    await run('key-1', { optionId: 'a', userUuid: 'user-2' }, handler, '/polls/one/votes');
+    await run('key-1', { optionId: 'a', userUuid: 'user-1' }, handler, '/polls/one/votes', { authorization: 'Bearer other' });
+
+    expect(handler.handle).toHaveBeenCalledTimes(3);
+  });
+
+  it('should still replay a retry that comes from another network', async () => {
+    const handler = buildHandler();
+
+    await run('key-1', { optionId: 'a', userUuid: 'user-1' }, handler, '/polls/one/votes', { ip: '203.0.113.7' });
+    const { response } = await run('key-1', { optionId: 'a', userUuid: 'user-1' }, handler, '/polls/one/votes', { ip: '198.51.100.20' });
+
+    expect(handler.handle).toHaveBeenCalledTimes(1);
+    expect(response.setHeader).toHaveBeenCalledWith('Idempotent-Replayed', 'true');
+  });
+
+  it('should answer 409 while the first request is still running', async () => {
+    const pending = new Subject<unknown>();
+    const { context } = buildContext('key-1', { question: 'Lunch?' });
+    const first = lastValueFrom(await interceptor.intercept(context, { handle: () => pending }));
+
+    const error = await run('key-1', { question: 'Lunch?' }, buildHandler()).catch(e => e);
+
+    expect(error).toBeInstanceOf(ConflictException);
+    expect(error.getResponse().code).toBe(ErrorCode.IDEMPOTENCY_KEY_IN_USE);
+
+    pending.next({ id: 'poll-1' });
+    pending.complete();
+    await first;
+  });
+
+  it('should let a retry run for real when the first attempt failed', async () => {
+    const failing = { handle: () => throwError(() => new Error('database went away')) };
+    await expect(run('key-1', { question: 'Lunch?' }, failing)).rejects.toThrow('database went away');
+
+    const handler = buildHandler();
+    await run('key-1', { question: 'Lunch?' }, handler);
+
+    expect(handler.handle).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse keys that are empty or too long', async () => {
+    const tooLong = 'k'.repeat(256);
+
+    await expect(run(tooLong, {}, buildHandler())).rejects.toMatchObject({
+      response: expect.objectContaining({ code: ErrorCode.IDEMPOTENCY_KEY_INVALID }),
+    });
+    await expect(run('', {}, buildHandler())).rejects.toMatchObject({
+      response: expect.objectContaining({ code: ErrorCode.IDEMPOTENCY_KEY_INVALID }),
+    });
+  });
+});
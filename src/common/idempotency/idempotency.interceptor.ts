@@ -0,0 +1,124 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+  Inject,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { Observable, from, of, throwError } from 'rxjs';
+import { catchError, mergeMap } from 'rxjs/operators';
+import { createHash } from 'crypto';
+import { Request, Response } from 'express';
+import { IDEMPOTENCY_STORE, IdempotencyStore } from './idempotency.store';
+import { APP_CONFIG, AppConfig } from '../../config/app-config';
+import { ErrorCode, coded } from '../errors/error-codes';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+// Visible ASCII, so keys can't smuggle anything odd into logs
+const VALID_KEY = /^[\x21-\x7e]{1,255}$/;
+
+/**
+ * Makes a route safe to retry (see @Idempotent)
+ *
+ * The first request with a given Idempotency-Key runs as usual and its
+ * response is kept for IDEMPOTENCY_KEY_TTL_SECONDS. Repeats with the same
+ * key and body get that response back without running the handler again,
+ * marked with Idempotent-Replayed: true. Keys are per route and per caller
+ * (the token they send and the userUuid they vote as), so the same key on a
+ * different poll's votes, or from someone else, is a different key - nobody
+ * can replay another client's ballot or poll and walk off with its tokens.
+ *
+ * Only successes are kept - if the first attempt failed, the key is let go
+ * and a retry runs for real. Requests without the header aren't affected.
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(IdempotencyInterceptor.name);
+
+  constructor(
+    @Inject(IDEMPOTENCY_STORE)
+    private readonly store: IdempotencyStore,
+    @Inject(APP_CONFIG)
+    private readonly config: AppConfig,
+  ) {}
+
+  async intercept(context: ExecutionContext, next: CallHandler): Promise<Observable<unknown>> {
+    const request = context.switchToHttp().getRequest<Request>();
+    const key = request.get(IDEMPOTENCY_KEY_HEADER);
+    if (key === undefined) {
+      return next.handle();
+    }
+
+    if (!VALID_KEY.test(key)) {
+      throw new BadRequestException(
+        coded(ErrorCode.IDEMPOTENCY_KEY_INVALID, `${IDEMPOTENCY_KEY_HEADER} must be 1-255 visible ASCII characters`),
+      );
+    }
+
+    const { ttlMs } = this.config.idempotency;
+    const storeKey = `${request.method} ${request.path} ${identifyCaller(request)} ${key}`;
+    const fingerprint = fingerprintBody(request.body);
+    const existing = await this.store.claim(storeKey, fingerprint, ttlMs);
+
+    if (existing) {
+      if (existing.fingerprint !== fingerprint) {
+        throw new UnprocessableEntityException(
+          coded(ErrorCode.IDEMPOTENCY_KEY_REUSED, `This ${IDEMPOTENCY_KEY_HEADER} was already used with a different request body`),
+        );
+      }
+
+      if (existing.state === 'in-progress') {
+        throw new ConflictException(
+          coded(ErrorCode.IDEMPOTENCY_KEY_IN_USE, `A request with this ${IDEMPOTENCY_KEY_HEADER} is still being processed - retry shortly`),
+        );
+      }
+
+      this.logger.log(`Replaying stored response for ${request.method} ${request.path} (${IDEMPOTENCY_KEY_HEADER} ${key})`);
+      context.switchToHttp().getResponse<Response>().setHeader(IDEMPOTENT_REPLAYED_HEADER, 'true');
+      return of(existing.body);
+    }
+
+    return next.handle().pipe(
+      mergeMap(async body => {
+        await this.store.complete(storeKey, body, ttlMs);
+        return body;
+      }),
+      // Let the key go so the client's retry isn't stuck behind a failure
+      catchError(error => from(this.store.release(storeKey)).pipe(mergeMap(() => throwError(() => error)))),
+    );
+  }
+}
+
+// Who is asking: their management or voter token and the voter they act for.
+// Not the IP - a phone retrying from another network is still the same caller.
+// Hashed so the tokens never sit in the store
+function identifyCaller(request: Request): string {
+  const body = (request.body ?? {}) as Record<string, unknown>;
+  const caller = [request.get('Authorization'), request.get('X-Voter-Token'), body.voterToken, body.userUuid];
+  return createHash('sha256').update(JSON.stringify(caller.map(part => part ?? null))).digest('hex');
+}
+
+// Same JSON in a different key order is still the same request
+function fingerprintBody(body: unknown): string {
+  return createHash('sha256').update(JSON.stringify(sortKeys(body ?? {}))).digest('hex');
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value).sort().map(key => [key, sortKeys((value as Record<string, unknown>)[key])]),
+    );
+  }
+
+  return value;
+}
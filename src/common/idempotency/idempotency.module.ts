@@ -0,0 +1,19 @@
+import { Global, Module } from '@nestjs/common';
+import { IDEMPOTENCY_STORE } from './idempotency.store';
+import { InMemoryIdempotencyStore } from './in-memory-idempotency.store';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+
+// Global so any controller can use @Idempotent without importing this module
+// Swap useClass to keep the keys somewhere shared between instances
+@Global()
+@Module({
+  providers: [
+    {
+      provide: IDEMPOTENCY_STORE,
+      useClass: InMemoryIdempotencyStore,
+    },
+    IdempotencyInterceptor,
+  ],
+  exports: [IDEMPOTENCY_STORE, IdempotencyInterceptor],
+})
+export class IdempotencyModule {}
@@ -0,0 +1,26 @@
+// Injection token for whichever store remembers idempotency keys
+export const IDEMPOTENCY_STORE = 'IDEMPOTENCY_STORE';
+
+// What we remember about a key
+export interface IdempotencyRecord {
+  fingerprint: string; // hash of the request body the key was first used with
+  state: 'in-progress' | 'completed';
+  body?: unknown; // the response, once completed
+}
+
+/**
+ * Anything that can remember idempotency keys for a while
+ *
+ * claim() has to be atomic - two retries racing each other must not both
+ * get null back, or the request runs twice. The in-memory store is fine for
+ * a single node; several instances need a shared store (Redis SET NX or a
+ * unique-keyed table) bound to IDEMPOTENCY_STORE instead.
+ */
+export interface IdempotencyStore {
+  // Takes the key for a new request, or hands back the record already under it
+  claim(key: string, fingerprint: string, ttlMs: number): Promise<IdempotencyRecord | null>;
+  // Stores the response for replays - the TTL starts again from here
+  complete(key: string, body: unknown, ttlMs: number): Promise<void>;
+  // Forgets the key, so the request can be tried again from scratch
+  release(key: string): Promise<void>;
+}
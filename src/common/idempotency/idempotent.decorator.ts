@@ -0,0 +1,17 @@
+import { applyDecorators, UseInterceptors } from '@nestjs/common';
+import { ApiHeader } from '@nestjs/swagger';
+import { IdempotencyInterceptor, IDEMPOTENCY_KEY_HEADER } from './idempotency.interceptor';
+
+// Lets clients retry a route with an Idempotency-Key without doing the work twice
+// Mention IDEMPOTENCY_KEY_IN_USE (409) and IDEMPOTENCY_KEY_REUSED (422) in the route's own responses -
+// a second @ApiResponse for the same status would replace the route's description
+export function Idempotent() {
+  return applyDecorators(
+    UseInterceptors(IdempotencyInterceptor),
+    ApiHeader({
+      name: IDEMPOTENCY_KEY_HEADER,
+      required: false,
+      description: 'Any unique string (a UUID works) - retries with the same key and body get the original response back, with Idempotent-Replayed: true',
+    }),
+  );
+}
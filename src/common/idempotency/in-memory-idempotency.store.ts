@@ -0,0 +1,63 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { IdempotencyRecord, IdempotencyStore } from './idempotency.store';
+
+interface StoredRecord extends IdempotencyRecord {
+  expiresAt: number; // epoch ms
+}
+
+/**
+ * Idempotency keys kept in a Map
+ *
+ * Node runs one thing at a time, so checking and setting the key in the same
+ * synchronous step is all the atomicity claim() needs. Per process only, and
+ * forgotten on restart. Expired keys are swept once a minute.
+ */
+@Injectable()
+export class InMemoryIdempotencyStore implements IdempotencyStore, OnModuleDestroy {
+  private readonly records = new Map<string, StoredRecord>();
+  private readonly sweepTimer: NodeJS.Timeout;
+
+  constructor() {
+    this.sweepTimer = setInterval(() => this.sweep(), 60 * 1000);
+    // Don't keep the process alive just for housekeeping
+    this.sweepTimer.unref();
+  }
+
+  async claim(key: string, fingerprint: string, ttlMs: number): Promise<IdempotencyRecord | null> {
+    const now = Date.now();
+    const existing = this.records.get(key);
+
+    if (existing && existing.expiresAt > now) {
+      const { expiresAt, ...record } = existing;
+      return record;
+    }
+
+    this.records.set(key, { fingerprint, state: 'in-progress', expiresAt: now + ttlMs });
+    return null;
+  }
+
+  async complete(key: string, body: unknown, ttlMs: number): Promise<void> {
+    const existing = this.records.get(key);
+    if (!existing) {
+      return;
+    }
+
+    this.records.set(key, { ...existing, state: 'completed', body, expiresAt: Date.now() + ttlMs });
+  }
+
+  async release(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.sweepTimer);
+  }
+
+  private sweep(now = Date.now()): void {
+    for (const [key, record] of this.records) {
+      if (record.expiresAt <= now) {
+        this.records.delete(key);
+      }
+    }
+  }
+}
@@ -3,21 +3,32 @@ import {
   NestInterceptor,
   ExecutionContext,
   CallHandler,
+  HttpException,
   Logger,
 } from '@nestjs/common';
 import { Observable } from 'rxjs';
 import { tap } from 'rxjs/operators';
 import { Request, Response } from 'express';
+import { MetricsService } from '../../monitoring/metrics.service';
 
 /**
  * Interceptor for logging HTTP requests and responses
- * Logs request method, URL, and response time
+ * Logs request method, URL, and response time as separate fields (the
+ * request ID comes from AppLogger), and feeds the time into the HTTP
+ * latency histogram on /metrics
  */
 @Injectable()
 export class LoggingInterceptor implements NestInterceptor {
   private readonly logger = new Logger('HTTP');
 
+  constructor(private readonly metrics: MetricsService) {}
+
   intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    // Global interceptors see WebSocket messages too - those aren't ours to log
+    if (context.getType() !== 'http') {
+      return next.handle();
+    }
+
     const request = context.switchToHttp().getRequest<Request>();
     const response = context.switchToHttp().getResponse<Response>();
     const { method, url, ip } = request;
@@ -25,23 +36,44 @@ export class LoggingInterceptor implements NestInterceptor {
 
     const now = Date.now();
 
-    this.logger.log(`${method} ${url} - ${ip} - ${userAgent}`);
+    this.logger.log({ message: `${method} ${url}`, method, url, ip, userAgent });
 
     return next.handle().pipe(
       tap({
         next: () => {
           const responseTime = Date.now() - now;
-          this.logger.log(
-            `${method} ${url} ${response.statusCode} - ${responseTime}ms`
-          );
+          this.logger.log({
+            message: `${method} ${url} ${response.statusCode} - ${responseTime}ms`,
+            method,
+            url,
+            statusCode: response.statusCode,
+            durationMs: responseTime,
+          });
+          this.recordLatency(request, response.statusCode, responseTime);
         },
         error: (error) => {
           const responseTime = Date.now() - now;
-          this.logger.error(
-            `${method} ${url} ${response.statusCode || 500} - ${responseTime}ms - ${error.message}`
-          );
+          // The exception filters haven't set the status yet, so take it from the error
+          const statusCode = error instanceof HttpException ? error.getStatus() : 500;
+          this.logger.error({
+            message: `${method} ${url} ${statusCode} - ${responseTime}ms - ${error.message}`,
+            method,
+            url,
+            statusCode,
+            durationMs: responseTime,
+            error: error.message,
+          });
+          this.recordLatency(request, statusCode, responseTime);
         },
       })
     );
   }
+
+  // Labelled by the route pattern (/polls/:id), not the URL, so every poll shares one series
+  private recordLatency(request: Request, status: number, responseTimeMs: number): void {
+    this.metrics.httpRequestDuration.observe(
+      { method: request.method, route: request.route?.path ?? 'unmatched', status: String(status) },
+      responseTimeMs / 1000,
+    );
+  }
 }
\ No newline at end of file
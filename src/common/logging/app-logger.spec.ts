@@ -0,0 +1,73 @@
+import { AppLogger } from './app-logger';
+import { runWithRequestId } from './request-context';
+
+describe('AppLogger', () => {
+  let stdout: jest.SpyInstance;
+  let stderr: jest.SpyInstance;
+
+  // Every JSON line written so far, parsed
+  const linesFrom = (spy: jest.SpyInstance) => spy.mock.calls.map(([line]) => JSON.parse(line));
+
+  beforeEach(() => {
+    stdout = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    stderr = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should write one JSON line with level, context and the current request ID', () => {
+    const logger = new AppLogger({ level: 'log', format: 'json' });
+
+    runWithRequestId('req-123', () => logger.log('Vote cast successfully', 'PollsService'));
+
+    expect(linesFrom(stdout)).toEqual([{
+      time: expect.any(String),
+      level: 'log',
+      context: 'PollsService',
+      requestId: 'req-123',
+      message: 'Vote cast successfully',
+    }]);
+  });
+
+  it('should leave the request ID out when there is no request', () => {
+    const logger = new AppLogger({ level: 'log', format: 'json' });
+
+    logger.log('Checking lifecycle transitions', 'PollLifecycleScheduler');
+
+    expect(linesFrom(stdout)[0]).not.toHaveProperty('requestId');
+  });
+
+  it('should put the fields of an object message on the line', () => {
+    const logger = new AppLogger({ level: 'log', format: 'json' });
+
+    logger.log({ message: 'GET /polls 200 - 4ms', statusCode: 200, durationMs: 4 }, 'HTTP');
+
+    expect(linesFrom(stdout)[0]).toMatchObject({ message: 'GET /polls 200 - 4ms', statusCode: 200, durationMs: 4 });
+  });
+
+  it('should send errors to stderr with their stack trace', () => {
+    const logger = new AppLogger({ level: 'log', format: 'json' });
+
+    logger.error('Error casting vote: boom', 'Error: boom\n    at castVote (polls.service.ts:1:1)', 'PollsService');
+
+    expect(stdout).not.toHaveBeenCalled();
+    expect(linesFrom(stderr)[0]).toMatchObject({
+      level: 'error',
+      context: 'PollsService',
+      message: 'Error casting vote: boom',
+      stack: 'Error: boom\n    at castVote (polls.service.ts:1:1)',
+    });
+  });
+
+  it('should skip levels below LOG_LEVEL', () => {
+    const logger = new AppLogger({ level: 'warn', format: 'json' });
+
+    logger.log('not shown', 'Test');
+    logger.debug('not shown either', 'Test');
+    logger.warn('shown', 'Test');
+
+    expect(linesFrom(stdout).map(line => line.message)).toEqual(['shown']);
+  });
+});
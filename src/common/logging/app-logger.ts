@@ -0,0 +1,119 @@
+import { ConsoleLogger, LoggerService, LogLevel } from '@nestjs/common';
+import { getRequestId } from './request-context';
+
+export type LogFormat = 'json' | 'text';
+
+export interface LoggingConfig {
+  level: LogLevel; // this and everything more serious gets written
+  format: LogFormat;
+}
+
+// Most serious first - LOG_LEVEL=warn keeps fatal, error and warn
+export const LOG_LEVELS: LogLevel[] = ['fatal', 'error', 'warn', 'log', 'debug', 'verbose'];
+
+/**
+ * The logger behind every `new Logger(...)` in the app
+ *
+ * Set once in main.ts, so services keep using Nest's Logger as before. In
+ * json format each entry is one line with a timestamp, level, context and
+ * the current request ID; text is Nest's usual coloured output with the
+ * request ID added, for reading locally.
+ *
+ * Logging an object instead of a string puts its fields on the JSON line,
+ * e.g. logger.log({ message: 'Request completed', statusCode: 200 }).
+ */
+export class AppLogger implements LoggerService {
+  private enabledLevels: LogLevel[];
+  private readonly console = new ConsoleLogger();
+
+  constructor(private readonly options: LoggingConfig) {
+    this.setLogLevels(LOG_LEVELS.slice(0, LOG_LEVELS.indexOf(options.level) + 1));
+  }
+
+  log(message: any, ...optionalParams: any[]): void {
+    this.write('log', message, optionalParams);
+  }
+
+  error(message: any, ...optionalParams: any[]): void {
+    this.write('error', message, optionalParams);
+  }
+
+  warn(message: any, ...optionalParams: any[]): void {
+    this.write('warn', message, optionalParams);
+  }
+
+  debug(message: any, ...optionalParams: any[]): void {
+    this.write('debug', message, optionalParams);
+  }
+
+  verbose(message: any, ...optionalParams: any[]): void {
+    this.write('verbose', message, optionalParams);
+  }
+
+  fatal(message: any, ...optionalParams: any[]): void {
+    this.write('fatal', message, optionalParams);
+  }
+
+  setLogLevels(levels: LogLevel[]): void {
+    this.enabledLevels = levels;
+    this.console.setLogLevels(levels);
+  }
+
+  // --- Private helpers ---
+
+  private write(level: LogLevel, message: any, optionalParams: any[]): void {
+    if (!this.enabledLevels.includes(level)) {
+      return;
+    }
+
+    const requestId = getRequestId();
+
+    if (this.options.format === 'text') {
+      const prefixed = requestId && typeof message === 'string' ? `[${requestId}] ${message}` : message;
+      this.console[level](prefixed, ...optionalParams);
+      return;
+    }
+
+    const { context, stack } = this.splitParams(level, optionalParams);
+    const fields = message instanceof Error
+      ? { message: message.message, stack: stack ?? message.stack }
+      : typeof message === 'object' && message !== null
+        ? message
+        : { message: String(message) };
+
+    const entry = {
+      time: new Date().toISOString(),
+      level,
+      context,
+      requestId,
+      ...(stack ? { stack } : {}),
+      ...fields,
+    };
+
+    const stream = level === 'error' || level === 'fatal' ? process.stderr : process.stdout;
+    stream.write(`${JSON.stringify(entry)}\n`);
+  }
+
+  /**
+   * Nest passes the context last (Logger instances add it for you), and
+   * error() may have a stack trace before it - same rules as ConsoleLogger
+   */
+  private splitParams(level: LogLevel, params: any[]): { context?: string; stack?: string } {
+    const rest = [...params];
+    const context = rest.length > 0 && typeof rest[rest.length - 1] === 'string' ? rest.pop() : undefined;
+
+    if (level !== 'error' && level !== 'fatal') {
+      return { context };
+    }
+
+    const [first] = rest;
+    const stack = first instanceof Error ? first.stack : typeof first === 'string' ? first : undefined;
+
+    // Logger.error('message', stack) from a static call has no context - the "context" was the stack
+    if (stack === undefined && context?.includes('\n    at ')) {
+      return { stack: context };
+    }
+
+    return { context, stack };
+  }
+}
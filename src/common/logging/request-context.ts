@@ -0,0 +1,24 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Header a request ID arrives in (from a proxy or the caller) and goes back out in
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+interface RequestContext {
+  requestId: string;
+}
+
+// Follows each request through every await, timer and callback it starts
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Runs `work` with this request ID as the current one
+ * Anything it kicks off - service calls, logs, timers - sees the same ID
+ */
+export function runWithRequestId<T>(requestId: string, work: () => T): T {
+  return storage.run({ requestId }, work);
+}
+
+// The ID of the request we're handling right now, if any (background jobs have none)
+export function getRequestId(): string | undefined {
+  return storage.getStore()?.requestId;
+}
@@ -0,0 +1,46 @@
+import { Request, Response } from 'express';
+import { RequestIdMiddleware } from './request-id.middleware';
+import { getRequestId } from './request-context';
+
+describe('RequestIdMiddleware', () => {
+  const middleware = new RequestIdMiddleware();
+
+  // Runs the middleware and hands back the ID the rest of the request would see
+  const run = (incoming?: string) => {
+    const request = { get: jest.fn().mockReturnValue(incoming) } as unknown as Request;
+    const response = { setHeader: jest.fn() } as unknown as Response;
+    let seen: string | undefined;
+
+    middleware.use(request, response, () => {
+      seen = getRequestId();
+    });
+
+    return { seen, response };
+  };
+
+  it('should keep a sane incoming X-Request-Id and send it back', () => {
+    const { seen, response } = run('lb-7f3a9c.1');
+
+    expect(seen).toBe('lb-7f3a9c.1');
+    expect(response.setHeader).toHaveBeenCalledWith('X-Request-Id', 'lb-7f3a9c.1');
+  });
+
+  it('should make up an ID when none was sent', () => {
+    const { seen, response } = run();
+
+    expect(seen).toMatch(/^[0-9a-f-]{36}$/);
+    expect(response.setHeader).toHaveBeenCalledWith('X-Request-Id', seen);
+  });
+
+  it('should replace IDs that could mess up the logs', () => {
+    const { seen } = run('evil\nlevel=fatal');
+
+    expect(seen).not.toContain('evil');
+  });
+
+  it('should only apply the ID inside the request', () => {
+    run('inside');
+
+    expect(getRequestId()).toBeUndefined();
+  });
+});
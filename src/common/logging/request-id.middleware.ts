@@ -0,0 +1,26 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { Request, Response, NextFunction } from 'express';
+import { randomUUID } from 'crypto';
+import { REQUEST_ID_HEADER, runWithRequestId } from './request-context';
+
+// What we accept from outside - anything else could smuggle junk into the logs
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * Gives every HTTP request an ID and makes it the current one
+ *
+ * Keeps the caller's X-Request-Id when it looks sane (so IDs from a proxy
+ * or another service carry through), otherwise makes a new one. The ID
+ * goes back on the response, into every log line written while handling
+ * the request, and into error responses.
+ */
+@Injectable()
+export class RequestIdMiddleware implements NestMiddleware {
+  use(request: Request, response: Response, next: NextFunction): void {
+    const incoming = request.get(REQUEST_ID_HEADER);
+    const requestId = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : randomUUID();
+
+    response.setHeader(REQUEST_ID_HEADER, requestId);
+    runWithRequestId(requestId, () => next());
+  }
+}
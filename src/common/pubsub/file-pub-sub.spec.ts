@@ -0,0 +1,88 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FilePubSub } from './file-pub-sub';
+
+describe('FilePubSub', () => {
+  let dir: string;
+  let filePath: string;
+  let instanceA: FilePubSub;
+  let instanceB: FilePubSub;
+
+  // Long poll interval - the tests read by hand so nothing races them
+  const createInstance = () => new FilePubSub(filePath, 60 * 1000);
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'onevote-pubsub-'));
+    filePath = path.join(dir, 'events.ndjson');
+    instanceA = createInstance();
+    instanceB = createInstance();
+  });
+
+  afterEach(() => {
+    instanceA.onModuleDestroy();
+    instanceB.onModuleDestroy();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should deliver messages to the other instance', async () => {
+    const received: any[] = [];
+    instanceB.messages('vote-events').subscribe(message => received.push(message));
+
+    await instanceA.publish('vote-events', { pollId: 'poll-1', results: { total: 1 } });
+    await instanceB.readNewMessages();
+
+    expect(received).toEqual([{ pollId: 'poll-1', results: { total: 1 } }]);
+  });
+
+  it('should deliver to local subscribers once, straight away', async () => {
+    const received: any[] = [];
+    instanceA.messages('vote-events').subscribe(message => received.push(message));
+
+    await instanceA.publish('vote-events', { pollId: 'poll-1' });
+    expect(received).toHaveLength(1);
+
+    // Our own line coming back around is skipped
+    await instanceA.readNewMessages();
+    expect(received).toHaveLength(1);
+  });
+
+  it('should keep channels apart', async () => {
+    const received: any[] = [];
+    instanceB.messages('poll-lifecycle').subscribe(message => received.push(message));
+
+    await instanceA.publish('vote-events', { pollId: 'poll-1' });
+    await instanceB.readNewMessages();
+
+    expect(received).toEqual([]);
+  });
+
+  it('should wait for the rest of a line that is still being written', async () => {
+    const received: any[] = [];
+    instanceB.messages('vote-events').subscribe(message => received.push(message));
+
+    const line = JSON.stringify({ origin: 'elsewhere', channel: 'vote-events', message: { pollId: 'poll-é' } }) + '\n';
+    const bytes = Buffer.from(line);
+    const splitAt = bytes.indexOf(Buffer.from('é')) + 1; // in the middle of a multi-byte character
+
+    fs.appendFileSync(filePath, bytes.subarray(0, splitAt));
+    await instanceB.readNewMessages();
+    expect(received).toEqual([]);
+
+    fs.appendFileSync(filePath, bytes.subarray(splitAt));
+    await instanceB.readNewMessages();
+    expect(received).toEqual([{ pollId: 'poll-é' }]);
+  });
+
+  it('should ignore messages published before it started', async () => {
+    await instanceA.publish('vote-events', { pollId: 'old' });
+
+    const late = createInstance();
+    const received: any[] = [];
+    late.messages('vote-events').subscribe(message => received.push(message));
+    await late.readNewMessages();
+    late.onModuleDestroy();
+
+    expect(received).toEqual([]);
+  });
+});
@@ -0,0 +1,139 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { Observable, Subject } from 'rxjs';
+import { randomUUID } from 'crypto';
+import { StringDecoder } from 'string_decoder';
+import * as fs from 'fs';
+import { PubSub } from './pub-sub';
+
+// One line in the shared file
+interface FileMessage {
+  origin: string; // which process wrote it
+  channel: string;
+  message: unknown;
+}
+
+/**
+ * Pub/sub through an append-only file, for several processes on one machine
+ *
+ * Every instance appends its messages to the same file as JSON lines and
+ * keeps reading whatever the others add (checked every
+ * PUBSUB_FILE_POLL_INTERVAL_MS). Local subscribers get messages straight
+ * away; our own lines are skipped when they come back around.
+ *
+ * Meant for trying multi-instance setups on a laptop or in tests - the file
+ * only ever grows, and instances on different machines can't see it. Use a
+ * real broker (Redis pub/sub, NATS...) behind the same interface for that.
+ */
+export class FilePubSub implements PubSub, OnModuleDestroy {
+  private readonly logger = new Logger(FilePubSub.name);
+
+  private readonly origin = randomUUID();
+  private readonly channels = new Map<string, Subject<unknown>>();
+  private readonly pollTimer: NodeJS.Timeout;
+
+  private offset: number; // how far into the file we've read
+  private decoder = new StringDecoder('utf8'); // keeps multi-byte characters split across reads intact
+  private partialLine = '';
+  private reading = false;
+
+  constructor(
+    private readonly filePath: string,
+    pollIntervalMs: number,
+  ) {
+    // Only messages published from now on matter, so start at the end
+    fs.closeSync(fs.openSync(this.filePath, 'a'));
+    this.offset = fs.statSync(this.filePath).size;
+
+    this.pollTimer = setInterval(() => this.readNewMessages(), pollIntervalMs);
+    // Don't keep the process alive just for this
+    this.pollTimer.unref();
+  }
+
+  async publish<T>(channel: string, message: T): Promise<void> {
+    this.deliver(channel, message);
+
+    const line: FileMessage = { origin: this.origin, channel, message };
+    await fs.promises.appendFile(this.filePath, JSON.stringify(line) + '\n');
+  }
+
+  messages<T>(channel: string): Observable<T> {
+    return this.channel(channel).asObservable() as Observable<T>;
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.pollTimer);
+  }
+
+  /**
+   * Reads whatever was appended since last time and hands it out
+   */
+  async readNewMessages(): Promise<void> {
+    // A slow read shouldn't overlap with the next tick
+    if (this.reading) {
+      return;
+    }
+    this.reading = true;
+
+    try {
+      const { size } = await fs.promises.stat(this.filePath);
+
+      // Someone truncated or replaced the file - start over from the top
+      if (size < this.offset) {
+        this.offset = 0;
+        this.decoder = new StringDecoder('utf8');
+        this.partialLine = '';
+      }
+
+      if (size === this.offset) {
+        return;
+      }
+
+      const chunk = Buffer.alloc(size - this.offset);
+      const handle = await fs.promises.open(this.filePath, 'r');
+      try {
+        await handle.read(chunk, 0, chunk.length, this.offset);
+      } finally {
+        await handle.close();
+      }
+      this.offset = size;
+
+      // The last piece may be a line that's still being written
+      const lines = (this.partialLine + this.decoder.write(chunk)).split('\n');
+      this.partialLine = lines.pop();
+
+      lines.filter(line => line.trim()).forEach(line => this.handleLine(line));
+    } catch (error) {
+      this.logger.warn(`Error reading pub/sub file ${this.filePath}: ${error.message}`);
+    } finally {
+      this.reading = false;
+    }
+  }
+
+  private handleLine(line: string): void {
+    let parsed: FileMessage;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      this.logger.warn('Skipping a malformed line in the pub/sub file');
+      return;
+    }
+
+    // We already delivered our own messages when we published them
+    if (parsed.origin !== this.origin) {
+      this.deliver(parsed.channel, parsed.message);
+    }
+  }
+
+  private deliver(channel: string, message: unknown): void {
+    this.channel(channel).next(message);
+  }
+
+  private channel(name: string): Subject<unknown> {
+    let subject = this.channels.get(name);
+    if (!subject) {
+      subject = new Subject<unknown>();
+      this.channels.set(name, subject);
+    }
+    return subject;
+  }
+}
@@ -0,0 +1,29 @@
+import { Observable, Subject } from 'rxjs';
+import { PubSub } from './pub-sub';
+
+/**
+ * One Subject per channel, inside this process
+ *
+ * Same behaviour the app had before pub/sub existed - fine for a single
+ * instance, but other processes never hear a thing.
+ */
+export class InMemoryPubSub implements PubSub {
+  private readonly channels = new Map<string, Subject<unknown>>();
+
+  async publish<T>(channel: string, message: T): Promise<void> {
+    this.channel(channel).next(message);
+  }
+
+  messages<T>(channel: string): Observable<T> {
+    return this.channel(channel).asObservable() as Observable<T>;
+  }
+
+  private channel(name: string): Subject<unknown> {
+    let subject = this.channels.get(name);
+    if (!subject) {
+      subject = new Subject<unknown>();
+      this.channels.set(name, subject);
+    }
+    return subject;
+  }
+}
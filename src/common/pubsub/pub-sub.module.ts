@@ -0,0 +1,31 @@
+import { Global, Module } from '@nestjs/common';
+import { PUB_SUB, PubSub } from './pub-sub';
+import { InMemoryPubSub } from './in-memory-pub-sub';
+import { FilePubSub } from './file-pub-sub';
+import { APP_CONFIG, AppConfig } from '../../config/app-config';
+
+// Picks the pub/sub backend from PUBSUB_BACKEND ("memory" by default)
+function createPubSub(config: AppConfig): PubSub {
+  const { backend, filePath, pollIntervalMs } = config.pubSub;
+
+  switch (backend) {
+    case 'memory':
+      return new InMemoryPubSub();
+    case 'file':
+      return new FilePubSub(filePath, pollIntervalMs);
+  }
+}
+
+// Global so any service can inject PUB_SUB without importing this module
+@Global()
+@Module({
+  providers: [
+    {
+      provide: PUB_SUB,
+      useFactory: createPubSub,
+      inject: [APP_CONFIG],
+    },
+  ],
+  exports: [PUB_SUB],
+})
+export class PubSubModule {}
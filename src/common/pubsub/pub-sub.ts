@@ -0,0 +1,17 @@
+import { Observable } from 'rxjs';
+
+// Injection token for whichever pub/sub carries events between instances
+export const PUB_SUB = 'PUB_SUB';
+
+/**
+ * Fire-and-forget messages on named channels
+ *
+ * Everything published reaches every subscriber on every instance,
+ * including the publishing one - so code can treat a local event and one
+ * from another process the same way. Messages have to survive a JSON round
+ * trip. Delivery is best effort: an instance that's down misses them.
+ */
+export interface PubSub {
+  publish<T>(channel: string, message: T): Promise<void>;
+  messages<T>(channel: string): Observable<T>;
+}
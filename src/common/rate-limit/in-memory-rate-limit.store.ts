@@ -0,0 +1,47 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { RateLimitHit, RateLimitStore } from './rate-limit.store';
+
+/**
+ * Fixed-window counters kept in a Map
+ *
+ * Counts are per process, so this only works on a single node. Expired
+ * windows are swept once a minute so idle keys don't pile up forever.
+ */
+@Injectable()
+export class InMemoryRateLimitStore implements RateLimitStore, OnModuleDestroy {
+  private readonly windows = new Map<string, RateLimitHit>();
+  private readonly sweepTimer: NodeJS.Timeout;
+
+  constructor() {
+    this.sweepTimer = setInterval(() => this.sweep(), 60 * 1000);
+    // Don't keep the process alive just for housekeeping
+    this.sweepTimer.unref();
+  }
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    const current = this.windows.get(key);
+
+    // No window yet (or it ran out) - start a fresh one
+    if (!current || current.resetAt <= now) {
+      const fresh = { count: 1, resetAt: now + windowMs };
+      this.windows.set(key, fresh);
+      return { ...fresh };
+    }
+
+    current.count += 1;
+    return { ...current };
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.sweepTimer);
+  }
+
+  private sweep(now = Date.now()): void {
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,13 @@
+import { applyDecorators, SetMetadata, UseGuards } from '@nestjs/common';
+import { ApiResponse } from '@nestjs/swagger';
+import { RateLimitGuard, RATE_LIMIT_POLICY_KEY } from './rate-limit.guard';
+import { RateLimitPolicyName } from './rate-limit.policies';
+
+// Puts a route on one of the budgets from rate-limit.policies.ts
+export function RateLimit(policy: RateLimitPolicyName) {
+  return applyDecorators(
+    SetMetadata(RATE_LIMIT_POLICY_KEY, policy),
+    UseGuards(RateLimitGuard),
+    ApiResponse({ status: 429, description: 'Too many requests - see the Retry-After header' }),
+  );
+}
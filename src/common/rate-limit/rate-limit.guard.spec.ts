@@ -0,0 +1,116 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { RateLimitGuard } from './rate-limit.guard';
+import { RATE_LIMIT_STORE } from './rate-limit.store';
+import { InMemoryRateLimitStore } from './in-memory-rate-limit.store';
+import { TooManyRequestsException } from './too-many-requests.exception';
+import { APP_CONFIG, loadAppConfig } from '../../config/app-config';
+
+describe('RateLimitGuard', () => {
+  let guard: RateLimitGuard;
+  let reflector: Reflector;
+  let store: InMemoryRateLimitStore;
+
+  // Builds just enough of an ExecutionContext for the guard to read the request
+  const buildContext = (request: any): ExecutionContext => ({
+    getType: () => 'http',
+    switchToHttp: () => ({ getRequest: () => request }),
+    getHandler: () => jest.fn(),
+    getClass: () => jest.fn(),
+  }) as any;
+
+  const voteRequest = (ip: string, userUuid?: string) => ({ ip, body: { userUuid } });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RateLimitGuard,
+        Reflector,
+        { provide: RATE_LIMIT_STORE, useClass: InMemoryRateLimitStore },
+        // Small budgets so the tests don't have to loop much
+        { provide: APP_CONFIG, useValue: loadAppConfig({ RATE_LIMIT_VOTE_PER_IP: '3', RATE_LIMIT_VOTE_PER_USER: '2' }) },
+      ],
+    }).compile();
+
+    guard = module.get<RateLimitGuard>(RateLimitGuard);
+    reflector = module.get<Reflector>(Reflector);
+    store = module.get<InMemoryRateLimitStore>(RATE_LIMIT_STORE);
+
+    jest.spyOn(reflector, 'get').mockReturnValue('cast-vote');
+  });
+
+  afterEach(() => {
+    store.onModuleDestroy();
+    jest.restoreAllMocks();
+  });
+
+  it('should let requests through while under budget', async () => {
+    await expect(guard.canActivate(buildContext(voteRequest('1.1.1.1', 'user-1')))).resolves.toBe(true);
+    await expect(guard.canActivate(buildContext(voteRequest('1.1.1.1', 'user-1')))).resolves.toBe(true);
+  });
+
+  it('should limit one userUuid even across different IPs', async () => {
+    await guard.canActivate(buildContext(voteRequest('1.1.1.1', 'user-1')));
+    await guard.canActivate(buildContext(voteRequest('2.2.2.2', 'user-1')));
+
+    await expect(
+      guard.canActivate(buildContext(voteRequest('3.3.3.3', 'user-1')))
+    ).rejects.toThrow(TooManyRequestsException);
+  });
+
+  it('should limit one IP even when the userUuid keeps changing', async () => {
+    await guard.canActivate(buildContext(voteRequest('1.1.1.1', 'user-1')));
+    await guard.canActivate(buildContext(voteRequest('1.1.1.1', 'user-2')));
+    await guard.canActivate(buildContext(voteRequest('1.1.1.1', 'user-3')));
+
+    await expect(
+      guard.canActivate(buildContext(voteRequest('1.1.1.1', 'user-4')))
+    ).rejects.toThrow(TooManyRequestsException);
+  });
+
+  it('should say how long to wait', async () => {
+    await guard.canActivate(buildContext(voteRequest('1.1.1.1', 'user-1')));
+    await guard.canActivate(buildContext(voteRequest('1.1.1.1', 'user-1')));
+
+    const error = await guard.canActivate(buildContext(voteRequest('1.1.1.1', 'user-1'))).catch(e => e);
+
+    expect(error).toBeInstanceOf(TooManyRequestsException);
+    expect(error.retryAfterSeconds).toBeGreaterThan(0);
+    expect(error.retryAfterSeconds).toBeLessThanOrEqual(60);
+  });
+
+  it('should start counting again once the window resets', async () => {
+    jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    await guard.canActivate(buildContext(voteRequest('1.1.1.1', 'user-1')));
+    await guard.canActivate(buildContext(voteRequest('1.1.1.1', 'user-1')));
+
+    // 61 seconds later
+    jest.spyOn(Date, 'now').mockReturnValue(1_061_000);
+    await expect(guard.canActivate(buildContext(voteRequest('1.1.1.1', 'user-1')))).resolves.toBe(true);
+  });
+
+  it('should count WebSocket votes against the same budget', async () => {
+    const wsContext = {
+      getType: () => 'ws',
+      switchToWs: () => ({
+        getClient: () => ({ _socket: { remoteAddress: '1.1.1.1' } }),
+        getData: () => ({ userUuid: 'user-1' }),
+      }),
+      getHandler: () => jest.fn(),
+    } as any as ExecutionContext;
+
+    await guard.canActivate(buildContext(voteRequest('1.1.1.1', 'user-1')));
+    await guard.canActivate(wsContext);
+
+    await expect(guard.canActivate(wsContext)).rejects.toThrow(TooManyRequestsException);
+  });
+
+  it('should ignore routes without a policy', async () => {
+    jest.spyOn(reflector, 'get').mockReturnValue(undefined);
+
+    for (let i = 0; i < 10; i++) {
+      await expect(guard.canActivate(buildContext(voteRequest('1.1.1.1', 'user-1')))).resolves.toBe(true);
+    }
+  });
+});
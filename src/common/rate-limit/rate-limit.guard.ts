@@ -0,0 +1,88 @@
+import { Injectable, CanActivate, ExecutionContext, Inject, Logger } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { RATE_LIMIT_STORE, RateLimitStore } from './rate-limit.store';
+import { RateLimitPolicy, RateLimitPolicyName } from './rate-limit.policies';
+import { APP_CONFIG, AppConfig } from '../../config/app-config';
+import { TooManyRequestsException } from './too-many-requests.exception';
+
+export const RATE_LIMIT_POLICY_KEY = 'rateLimitPolicy';
+
+/**
+ * Counts requests against the route's budget (see @RateLimit)
+ *
+ * Every check that applies is counted - the client IP always, the userUuid
+ * from the body when the route has a per-user budget. Going over any of
+ * them is a 429, with Retry-After saying when the window resets.
+ *
+ * Runs before validation, so the userUuid is whatever the client sent;
+ * anything that isn't a string just isn't counted per user.
+ *
+ * Works on WebSocket messages too (the ws gateway's vote message).
+ */
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  private readonly logger = new Logger(RateLimitGuard.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    @Inject(RATE_LIMIT_STORE)
+    private readonly store: RateLimitStore,
+    @Inject(APP_CONFIG)
+    private readonly config: AppConfig,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const policyName = this.reflector.get<RateLimitPolicyName>(RATE_LIMIT_POLICY_KEY, context.getHandler());
+    const policy = policyName && this.config.rateLimits[policyName];
+    if (!policy) {
+      return true;
+    }
+
+    const { ip, body } = this.describeCaller(context);
+    const userUuid = body?.userUuid;
+
+    await this.check(policyName, policy, 'ip', ip, policy.perIp);
+    if (typeof userUuid === 'string') {
+      await this.check(policyName, policy, 'user', userUuid, policy.perUser);
+    }
+
+    return true;
+  }
+
+  /**
+   * Where the request came from and what it sent
+   * WebSocket messages count like HTTP requests: the message payload is the
+   * body and the IP is the one the socket connected from
+   */
+  private describeCaller(context: ExecutionContext): { ip: string | undefined; body: any } {
+    if (context.getType() === 'ws') {
+      const ws = context.switchToWs();
+      return { ip: ws.getClient()._socket?.remoteAddress, body: ws.getData() };
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    return { ip: request.ip, body: request.body };
+  }
+
+  private async check(
+    policyName: RateLimitPolicyName,
+    policy: RateLimitPolicy,
+    scope: 'ip' | 'user',
+    subject: string | undefined,
+    limit: number,
+  ): Promise<void> {
+    if (!limit || !subject) {
+      return;
+    }
+
+    const windowMs = policy.windowSeconds * 1000;
+    const { count, resetAt } = await this.store.hit(`${policyName}:${scope}:${subject}`, windowMs);
+
+    if (count > limit) {
+      const retryAfterSeconds = Math.max(1, Math.ceil((resetAt - Date.now()) / 1000));
+      this.logger.warn(`Rate limit hit for ${policyName} (${scope} ${subject}) - retry in ${retryAfterSeconds}s`);
+      throw new TooManyRequestsException(retryAfterSeconds);
+    }
+  }
+}
@@ -0,0 +1,19 @@
+import { Global, Module } from '@nestjs/common';
+import { RATE_LIMIT_STORE } from './rate-limit.store';
+import { InMemoryRateLimitStore } from './in-memory-rate-limit.store';
+import { RateLimitGuard } from './rate-limit.guard';
+
+// Global so any controller can use @RateLimit without importing this module
+// Swap useClass to move the counters somewhere shared between instances
+@Global()
+@Module({
+  providers: [
+    {
+      provide: RATE_LIMIT_STORE,
+      useClass: InMemoryRateLimitStore,
+    },
+    RateLimitGuard,
+  ],
+  exports: [RATE_LIMIT_STORE, RateLimitGuard],
+})
+export class RateLimitModule {}
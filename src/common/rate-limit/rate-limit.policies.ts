@@ -0,0 +1,9 @@
+export type RateLimitPolicyName = 'create-poll' | 'cast-vote';
+
+// One route's budget - a limit of 0 switches that check off
+// The budgets themselves come from the RATE_LIMIT_* settings (see AppConfig.rateLimits)
+export interface RateLimitPolicy {
+  windowSeconds: number;
+  perIp: number; // requests per window from one client IP
+  perUser: number; // requests per window for one userUuid (only routes that take one)
+}
@@ -0,0 +1,19 @@
+// Injection token for whichever store keeps the request counters
+export const RATE_LIMIT_STORE = 'RATE_LIMIT_STORE';
+
+// Where a key stands in its current window after a hit
+export interface RateLimitHit {
+  count: number; // hits so far in this window, including this one
+  resetAt: number; // epoch ms when the window ends and the count starts over
+}
+
+/**
+ * Anything that can count hits per key over a fixed window
+ *
+ * The in-memory store is fine for a single node. Running several instances
+ * behind a load balancer needs a shared store (Redis or similar) so they
+ * all see the same counts - just bind another class to RATE_LIMIT_STORE.
+ */
+export interface RateLimitStore {
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+}
@@ -0,0 +1,19 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { ErrorCode } from '../errors/error-codes';
+
+// 429 that remembers how long the client should back off
+// HttpExceptionFilter turns retryAfterSeconds into a Retry-After header
+export class TooManyRequestsException extends HttpException {
+  constructor(public readonly retryAfterSeconds: number, message = 'Too many requests - please slow down') {
+    super(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        code: ErrorCode.RATE_LIMITED,
+        message,
+        error: 'Too Many Requests',
+        retryAfter: retryAfterSeconds,
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+}
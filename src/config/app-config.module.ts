@@ -0,0 +1,16 @@
+import { Global, Module } from '@nestjs/common';
+import { APP_CONFIG, loadAppConfig } from './app-config';
+
+// Global so any provider can inject APP_CONFIG without importing this module.
+// The factory runs while the app boots, so bad settings stop it before it listens.
+@Global()
+@Module({
+  providers: [
+    {
+      provide: APP_CONFIG,
+      useFactory: () => loadAppConfig(),
+    },
+  ],
+  exports: [APP_CONFIG],
+})
+export class AppConfigModule {}
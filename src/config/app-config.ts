@@ -0,0 +1,205 @@
+import { plainToInstance } from 'class-transformer';
+import { validateSync, ValidationError } from 'class-validator';
+import { EnvironmentVariables } from './environment';
+import { RateLimitPolicy, RateLimitPolicyName } from '../common/rate-limit/rate-limit.policies';
+import { LoggingConfig } from '../common/logging/app-logger';
+
+// Injection token for the validated settings
+export const APP_CONFIG = Symbol('APP_CONFIG');
+
+export interface DatabaseConfig {
+  type: 'sqlite' | 'postgres';
+  path: string; // SQLite file
+  url: string | null; // Postgres connection string - wins over the separate settings below
+  host: string;
+  port: number;
+  username: string;
+  password: string | null;
+  name: string;
+  migrationsRun: boolean;
+  logging: boolean;
+}
+
+/**
+ * Everything the app can be configured with, already checked and converted
+ * Durations are in milliseconds whatever unit the environment variable uses
+ */
+export interface AppConfig {
+  nodeEnv: string;
+  port: number;
+  corsOrigins: string[]; // ['*'] = any origin
+  adminToken: string | null; // null = admin endpoints switched off
+  logging: LoggingConfig;
+  database: DatabaseConfig;
+  resultsCache: {
+    ttlMs: number;
+    backend: 'memory' | 'key-value';
+    maxEntries: number;
+    cleanupIntervalMs: number;
+  };
+  pubSub: {
+    backend: 'memory' | 'file';
+    filePath: string;
+    pollIntervalMs: number;
+  };
+  sse: {
+    heartbeatIntervalMs: number;
+    retryMs: number;
+    replayBufferSize: number;
+    replayMaxPolls: number;
+  };
+  ws: {
+    heartbeatIntervalMs: number;
+    maxSubscriptionsPerClient: number;
+  };
+  scheduler: {
+    intervalMs: number;
+  };
+  webhooks: {
+    dispatchIntervalMs: number;
+    timeoutMs: number;
+    maxAttempts: number;
+    allowPrivateUrls: boolean; // localhost, 10.x, 169.254.x... - only ever for local development
+  };
+  rateLimits: Record<RateLimitPolicyName, RateLimitPolicy>;
+  idempotency: {
+    ttlMs: number; // how long a key (and the response stored under it) is remembered
+  };
+}
+
+// Thrown at startup when the environment has bad values - lists every problem, not just the first
+export class ConfigValidationError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigValidationError';
+  }
+}
+
+/**
+ * Reads, validates and converts the environment
+ *
+ * Empty values count as unset, so a blank line copied from .env.example
+ * gets the default rather than failing. Pass your own env in tests.
+ */
+export function loadAppConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+  const { vars, provided } = parseEnvironment(env);
+  const errors = validateSync(vars);
+
+  if (errors.length > 0) {
+    throw new ConfigValidationError(errors.map(error => describeProblem(error, provided)));
+  }
+
+  const seconds = (value: number) => value * 1000;
+
+  return {
+    nodeEnv: vars.NODE_ENV,
+    port: vars.PORT,
+    corsOrigins: vars.CORS_ORIGINS,
+    adminToken: vars.ADMIN_TOKEN ?? null,
+    logging: {
+      level: vars.LOG_LEVEL,
+      format: vars.LOG_FORMAT,
+    },
+    database: {
+      type: vars.DATABASE_TYPE,
+      path: vars.DATABASE_PATH,
+      url: vars.DATABASE_URL ?? null,
+      host: vars.DATABASE_HOST,
+      port: vars.DATABASE_PORT,
+      username: vars.DATABASE_USER,
+      password: vars.DATABASE_PASSWORD ?? null,
+      name: vars.DATABASE_NAME,
+      migrationsRun: vars.DATABASE_MIGRATIONS_RUN,
+      logging: vars.NODE_ENV === 'development',
+    },
+    resultsCache: {
+      ttlMs: seconds(vars.RESULTS_CACHE_TTL_SECONDS),
+      backend: vars.RESULTS_CACHE_BACKEND,
+      maxEntries: vars.RESULTS_CACHE_MAX_ENTRIES,
+      cleanupIntervalMs: seconds(vars.RESULTS_CACHE_CLEANUP_INTERVAL_SECONDS),
+    },
+    pubSub: {
+      backend: vars.PUBSUB_BACKEND,
+      filePath: vars.PUBSUB_FILE_PATH,
+      pollIntervalMs: vars.PUBSUB_FILE_POLL_INTERVAL_MS,
+    },
+    sse: {
+      heartbeatIntervalMs: seconds(vars.SSE_HEARTBEAT_INTERVAL_SECONDS),
+      retryMs: seconds(vars.SSE_RETRY_SECONDS),
+      replayBufferSize: vars.SSE_REPLAY_BUFFER_SIZE,
+      replayMaxPolls: vars.SSE_REPLAY_MAX_POLLS,
+    },
+    ws: {
+      heartbeatIntervalMs: seconds(vars.WS_HEARTBEAT_INTERVAL_SECONDS),
+      maxSubscriptionsPerClient: vars.WS_MAX_SUBSCRIPTIONS_PER_CLIENT,
+    },
+    scheduler: {
+      intervalMs: seconds(vars.POLL_SCHEDULER_INTERVAL_SECONDS),
+    },
+    webhooks: {
+      dispatchIntervalMs: seconds(vars.WEBHOOK_DISPATCH_INTERVAL_SECONDS),
+      timeoutMs: seconds(vars.WEBHOOK_TIMEOUT_SECONDS),
+      maxAttempts: vars.WEBHOOK_MAX_ATTEMPTS,
+      allowPrivateUrls: vars.WEBHOOK_ALLOW_PRIVATE_URLS,
+    },
+    // Creating polls is limited per IP. Voting is limited per IP (think a script
+    // hammering the endpoint) and per userUuid (one user retrying over and over).
+    rateLimits: {
+      'create-poll': {
+        windowSeconds: vars.RATE_LIMIT_WINDOW_SECONDS,
+        perIp: vars.RATE_LIMIT_CREATE_POLL_PER_IP,
+        perUser: 0,
+      },
+      'cast-vote': {
+        windowSeconds: vars.RATE_LIMIT_WINDOW_SECONDS,
+        perIp: vars.RATE_LIMIT_VOTE_PER_IP,
+        perUser: vars.RATE_LIMIT_VOTE_PER_USER,
+      },
+    },
+    idempotency: {
+      ttlMs: seconds(vars.IDEMPOTENCY_KEY_TTL_SECONDS),
+    },
+  };
+}
+
+/**
+ * Just DATABASE_TYPE, read and checked the same way loadAppConfig does
+ *
+ * The entities need it while their files load, before the rest of the
+ * config is built. Only this variable is checked here - loadAppConfig
+ * reports everything else when the app starts.
+ */
+export function loadDatabaseType(env: NodeJS.ProcessEnv = process.env): DatabaseConfig['type'] {
+  const { vars, provided } = parseEnvironment(env);
+  const errors = validateSync(vars).filter(error => error.property === 'DATABASE_TYPE');
+
+  if (errors.length > 0) {
+    throw new ConfigValidationError(errors.map(error => describeProblem(error, provided)));
+  }
+
+  return vars.DATABASE_TYPE;
+}
+
+// Blank values count as unset, so they get the default
+function parseEnvironment(env: NodeJS.ProcessEnv): { vars: EnvironmentVariables; provided: Record<string, string> } {
+  const provided = Object.fromEntries(
+    Object.entries(env).filter(([, value]) => value !== undefined && value.trim() !== ''),
+  );
+
+  return { vars: plainToInstance(EnvironmentVariables, provided, { exposeDefaultValues: true }), provided };
+}
+
+// Never echoed back in a config error - startup errors end up in logs
+const SECRET_VARIABLES = new Set(['DATABASE_URL', 'DATABASE_PASSWORD', 'ADMIN_TOKEN']);
+
+// "PORT must be between 1 and 65535 (got "70000")"
+function describeProblem(error: ValidationError, provided: Record<string, string>): string {
+  // Min and Max often share one message - say it once
+  const messages = [...new Set(Object.values(error.constraints ?? {}))].join(', ');
+  const raw = provided[error.property];
+
+  if (raw === undefined) {
+    return messages;
+  }
+  return SECRET_VARIABLES.has(error.property) ? `${messages} (got <redacted>)` : `${messages} (got "${raw}")`;
+}
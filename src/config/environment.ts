@@ -0,0 +1,207 @@
+// @Type needs the metadata API, and the CLI data source loads this before anything from Nest does
+import 'reflect-metadata';
+import { IsBoolean, IsIn, IsInt, IsOptional, IsString, Matches, Max, Min } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { LogLevel } from '@nestjs/common';
+import { LOG_LEVELS, LogFormat } from '../common/logging/app-logger';
+
+// "true"/"false" from the environment - anything else is left alone so validation can complain
+const toBoolean = ({ value }: { value: unknown }) => (value === 'true' ? true : value === 'false' ? false : value);
+
+// Comma-separated lists, with the spaces people put after commas trimmed off
+const toList = ({ value }: { value: unknown }) =>
+  typeof value === 'string' ? value.split(',').map(item => item.trim()).filter(item => item.length > 0) : value;
+
+/**
+ * Every environment variable the app reads, with its default
+ *
+ * Validated once at startup (see loadAppConfig), so a typo like PORT=300o
+ * stops the app with a clear message instead of quietly falling back.
+ * Add new settings here, then expose them on AppConfig.
+ */
+export class EnvironmentVariables {
+  @IsString()
+  NODE_ENV: string = 'development';
+
+  @Type(() => Number)
+  @IsInt({ message: 'PORT must be a whole number' })
+  @Min(1, { message: 'PORT must be between 1 and 65535' })
+  @Max(65535, { message: 'PORT must be between 1 and 65535' })
+  PORT: number = 3000;
+
+  // "*" for any origin, or a list like https://vote.example.com,https://admin.example.com
+  @Transform(toList)
+  @Matches(/^(\*|https?:\/\/[^\s/]+)$/, {
+    each: true,
+    message: 'CORS_ORIGINS must be * or comma-separated origins like https://example.com (no paths)',
+  })
+  CORS_ORIGINS: string[] = ['*'];
+
+  @IsOptional()
+  @IsString()
+  ADMIN_TOKEN?: string;
+
+  // --- Logging ---
+
+  @IsIn(LOG_LEVELS, { message: `LOG_LEVEL must be one of ${LOG_LEVELS.join(', ')}` })
+  LOG_LEVEL: LogLevel = 'log';
+
+  @IsIn(['json', 'text'], { message: 'LOG_FORMAT must be json or text' })
+  LOG_FORMAT: LogFormat = 'json';
+
+  // --- Database ---
+
+  @IsIn(['sqlite', 'postgres'], { message: 'DATABASE_TYPE must be sqlite or postgres' })
+  DATABASE_TYPE: 'sqlite' | 'postgres' = 'sqlite';
+
+  @IsString()
+  DATABASE_PATH: string = './onevote.sqlite';
+
+  @IsOptional()
+  @Matches(/^postgres(ql)?:\/\//, { message: 'DATABASE_URL must be a postgres:// connection string' })
+  DATABASE_URL?: string;
+
+  @IsString()
+  DATABASE_HOST: string = 'localhost';
+
+  @Type(() => Number)
+  @IsInt({ message: 'DATABASE_PORT must be a whole number' })
+  @Min(1, { message: 'DATABASE_PORT must be between 1 and 65535' })
+  @Max(65535, { message: 'DATABASE_PORT must be between 1 and 65535' })
+  DATABASE_PORT: number = 5432;
+
+  @IsString()
+  DATABASE_USER: string = 'postgres';
+
+  @IsOptional()
+  @IsString()
+  DATABASE_PASSWORD?: string;
+
+  @IsString()
+  DATABASE_NAME: string = 'onevote';
+
+  @Transform(toBoolean)
+  @IsBoolean({ message: 'DATABASE_MIGRATIONS_RUN must be true or false' })
+  DATABASE_MIGRATIONS_RUN: boolean = true;
+
+  // --- Results cache ---
+
+  @Type(() => Number)
+  @IsInt({ message: 'RESULTS_CACHE_TTL_SECONDS must be a whole number of seconds' })
+  @Min(1, { message: 'RESULTS_CACHE_TTL_SECONDS must be at least 1' })
+  RESULTS_CACHE_TTL_SECONDS: number = 10;
+
+  @IsIn(['memory', 'key-value'], { message: 'RESULTS_CACHE_BACKEND must be memory or key-value' })
+  RESULTS_CACHE_BACKEND: 'memory' | 'key-value' = 'memory';
+
+  @Type(() => Number)
+  @IsInt({ message: 'RESULTS_CACHE_MAX_ENTRIES must be a whole number' })
+  @Min(1, { message: 'RESULTS_CACHE_MAX_ENTRIES must be at least 1' })
+  RESULTS_CACHE_MAX_ENTRIES: number = 1000;
+
+  @Type(() => Number)
+  @IsInt({ message: 'RESULTS_CACHE_CLEANUP_INTERVAL_SECONDS must be a whole number of seconds' })
+  @Min(1, { message: 'RESULTS_CACHE_CLEANUP_INTERVAL_SECONDS must be at least 1' })
+  RESULTS_CACHE_CLEANUP_INTERVAL_SECONDS: number = 60;
+
+  // --- Pub/sub ---
+
+  @IsIn(['memory', 'file'], { message: 'PUBSUB_BACKEND must be memory or file' })
+  PUBSUB_BACKEND: 'memory' | 'file' = 'memory';
+
+  @IsString()
+  PUBSUB_FILE_PATH: string = './onevote-events.ndjson';
+
+  @Type(() => Number)
+  @IsInt({ message: 'PUBSUB_FILE_POLL_INTERVAL_MS must be a whole number of milliseconds' })
+  @Min(10, { message: 'PUBSUB_FILE_POLL_INTERVAL_MS must be at least 10' })
+  PUBSUB_FILE_POLL_INTERVAL_MS: number = 100;
+
+  // --- Live results ---
+
+  @Type(() => Number)
+  @IsInt({ message: 'SSE_HEARTBEAT_INTERVAL_SECONDS must be a whole number of seconds' })
+  @Min(1, { message: 'SSE_HEARTBEAT_INTERVAL_SECONDS must be at least 1' })
+  SSE_HEARTBEAT_INTERVAL_SECONDS: number = 15;
+
+  @Type(() => Number)
+  @IsInt({ message: 'SSE_RETRY_SECONDS must be a whole number of seconds' })
+  @Min(1, { message: 'SSE_RETRY_SECONDS must be at least 1' })
+  SSE_RETRY_SECONDS: number = 3;
+
+  @Type(() => Number)
+  @IsInt({ message: 'SSE_REPLAY_BUFFER_SIZE must be a whole number' })
+  @Min(1, { message: 'SSE_REPLAY_BUFFER_SIZE must be at least 1' })
+  SSE_REPLAY_BUFFER_SIZE: number = 100;
+
+  @Type(() => Number)
+  @IsInt({ message: 'SSE_REPLAY_MAX_POLLS must be a whole number' })
+  @Min(1, { message: 'SSE_REPLAY_MAX_POLLS must be at least 1' })
+  SSE_REPLAY_MAX_POLLS: number = 1000;
+
+  @Type(() => Number)
+  @IsInt({ message: 'WS_HEARTBEAT_INTERVAL_SECONDS must be a whole number of seconds' })
+  @Min(1, { message: 'WS_HEARTBEAT_INTERVAL_SECONDS must be at least 1' })
+  WS_HEARTBEAT_INTERVAL_SECONDS: number = 15;
+
+  @Type(() => Number)
+  @IsInt({ message: 'WS_MAX_SUBSCRIPTIONS_PER_CLIENT must be a whole number' })
+  @Min(1, { message: 'WS_MAX_SUBSCRIPTIONS_PER_CLIENT must be at least 1' })
+  WS_MAX_SUBSCRIPTIONS_PER_CLIENT: number = 50;
+
+  // --- Background jobs ---
+
+  @Type(() => Number)
+  @IsInt({ message: 'POLL_SCHEDULER_INTERVAL_SECONDS must be a whole number of seconds' })
+  @Min(1, { message: 'POLL_SCHEDULER_INTERVAL_SECONDS must be at least 1' })
+  POLL_SCHEDULER_INTERVAL_SECONDS: number = 5;
+
+  @Type(() => Number)
+  @IsInt({ message: 'WEBHOOK_DISPATCH_INTERVAL_SECONDS must be a whole number of seconds' })
+  @Min(1, { message: 'WEBHOOK_DISPATCH_INTERVAL_SECONDS must be at least 1' })
+  WEBHOOK_DISPATCH_INTERVAL_SECONDS: number = 5;
+
+  @Type(() => Number)
+  @IsInt({ message: 'WEBHOOK_TIMEOUT_SECONDS must be a whole number of seconds' })
+  @Min(1, { message: 'WEBHOOK_TIMEOUT_SECONDS must be at least 1' })
+  WEBHOOK_TIMEOUT_SECONDS: number = 10;
+
+  @Type(() => Number)
+  @IsInt({ message: 'WEBHOOK_MAX_ATTEMPTS must be a whole number' })
+  @Min(1, { message: 'WEBHOOK_MAX_ATTEMPTS must be at least 1' })
+  WEBHOOK_MAX_ATTEMPTS: number = 8;
+
+  // For trying webhooks out against a receiver on your own machine - never in production
+  @Transform(toBoolean)
+  @IsBoolean({ message: 'WEBHOOK_ALLOW_PRIVATE_URLS must be true or false' })
+  WEBHOOK_ALLOW_PRIVATE_URLS: boolean = false;
+
+  // --- Rate limiting (0 switches a check off) ---
+
+  @Type(() => Number)
+  @IsInt({ message: 'RATE_LIMIT_WINDOW_SECONDS must be a whole number of seconds' })
+  @Min(1, { message: 'RATE_LIMIT_WINDOW_SECONDS must be at least 1' })
+  RATE_LIMIT_WINDOW_SECONDS: number = 60;
+
+  @Type(() => Number)
+  @IsInt({ message: 'RATE_LIMIT_CREATE_POLL_PER_IP must be a whole number' })
+  @Min(0, { message: 'RATE_LIMIT_CREATE_POLL_PER_IP cannot be negative (use 0 for no limit)' })
+  RATE_LIMIT_CREATE_POLL_PER_IP: number = 10;
+
+  @Type(() => Number)
+  @IsInt({ message: 'RATE_LIMIT_VOTE_PER_IP must be a whole number' })
+  @Min(0, { message: 'RATE_LIMIT_VOTE_PER_IP cannot be negative (use 0 for no limit)' })
+  RATE_LIMIT_VOTE_PER_IP: number = 60;
+
+  @Type(() => Number)
+  @IsInt({ message: 'RATE_LIMIT_VOTE_PER_USER must be a whole number' })
+  @Min(0, { message: 'RATE_LIMIT_VOTE_PER_USER cannot be negative (use 0 for no limit)' })
+  RATE_LIMIT_VOTE_PER_USER: number = 5;
+
+  // --- Idempotency keys ---
+
+  @Type(() => Number)
+  @IsInt({ message: 'IDEMPOTENCY_KEY_TTL_SECONDS must be a whole number of seconds' })
+  @Min(1, { message: 'IDEMPOTENCY_KEY_TTL_SECONDS must be at least 1' })
+  IDEMPOTENCY_KEY_TTL_SECONDS: number = 86400;
+}
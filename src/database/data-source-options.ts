@@ -0,0 +1,70 @@
+import { join } from 'path';
+import { DataSourceOptions } from 'typeorm';
+import { DatabaseConfig } from '../config/app-config';
+import { TypeOrmLogger } from './typeorm-logger';
+import { Poll } from '../polls/entities/poll.entity';
+import { PollOption } from '../polls/entities/poll-option.entity';
+import { Vote } from '../polls/entities/vote.entity';
+import { VoteChoice } from '../polls/entities/vote-choice.entity';
+import { VoterToken } from '../polls/entities/voter-token.entity';
+import { VoteLedgerEntry } from '../polls/entities/vote-ledger-entry.entity';
+import { Webhook } from '../polls/entities/webhook.entity';
+import { WebhookDelivery } from '../polls/entities/webhook-delivery.entity';
+import { PollVoteCounter } from '../polls/entities/poll-vote-counter.entity';
+import { OptionVoteCounter } from '../polls/entities/option-vote-counter.entity';
+import { VoteCountBucket } from '../polls/entities/vote-count-bucket.entity';
+
+// Match our own extension so the compiled build doesn't also pick up the .d.ts files
+const migrationExtension = __filename.endsWith('.ts') ? 'ts' : 'js';
+
+// Where to connect, per database
+function getConnectionOptions(database: DatabaseConfig) {
+  if (database.type === 'postgres') {
+    return {
+      type: 'postgres' as const,
+      // DATABASE_URL wins, otherwise the usual host/port/user/password/name settings
+      url: database.url ?? undefined,
+      host: database.host,
+      port: database.port,
+      username: database.username,
+      password: database.password ?? undefined,
+      database: database.name,
+    };
+  }
+
+  return {
+    type: 'sqlite' as const,
+    database: database.path,
+  };
+}
+
+/**
+ * TypeORM configuration - SQLite by default, PostgreSQL with DATABASE_TYPE=postgres
+ * Shared by the app (through AppModule) and the TypeORM CLI (through src/data-source.ts)
+ */
+export function buildDataSourceOptions(database: DatabaseConfig): DataSourceOptions {
+  return {
+    ...getConnectionOptions(database),
+    entities: [
+      Poll,
+      PollOption,
+      Vote,
+      VoteChoice,
+      VoterToken,
+      VoteLedgerEntry,
+      Webhook,
+      WebhookDelivery,
+      PollVoteCounter,
+      OptionVoteCounter,
+      VoteCountBucket,
+    ],
+    // Each database gets its own migrations - the generated SQL isn't portable
+    migrations: [join(__dirname, 'migrations', database.type, `*.${migrationExtension}`)],
+    // The schema only ever changes through migrations - never let TypeORM "fix" a live database
+    synchronize: false,
+    // Pending migrations run on startup unless DATABASE_MIGRATIONS_RUN=false (e.g. when a deploy step runs them)
+    migrationsRun: database.migrationsRun,
+    logging: database.logging,
+    logger: new TypeOrmLogger(database.logging),
+  };
+}
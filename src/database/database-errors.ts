@@ -0,0 +1,12 @@
+// Postgres error code for unique_violation
+const POSTGRES_UNIQUE_VIOLATION = '23505';
+
+/**
+ * True when a query failed because it would break a unique constraint
+ * Every driver reports this differently, so callers shouldn't check codes themselves
+ */
+export function isUniqueViolation(error: any): boolean {
+  return error?.code === POSTGRES_UNIQUE_VIOLATION
+    || error?.code === 'SQLITE_CONSTRAINT_UNIQUE'
+    || Boolean(error?.message?.includes('UNIQUE constraint failed'));
+}
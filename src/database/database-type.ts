@@ -0,0 +1,17 @@
+import { DatabaseConfig, loadDatabaseType } from '../config/app-config';
+
+// Databases we know how to run on
+export type DatabaseType = DatabaseConfig['type'];
+
+// Read when the entities load, so DATABASE_TYPE has to be set before the app starts.
+// Validated like the rest of the config - an unknown value stops the app instead of meaning SQLite
+const DATABASE_TYPE: DatabaseType = loadDatabaseType();
+
+// Options for every timestamp column. Postgres has no "datetime" type - timestamptz keeps
+// the instant without guessing a time zone, and millisecond precision matches JS Dates,
+// so keyset cursors built from a Date compare equal to the stored value.
+export const TIMESTAMP_COLUMN_OPTIONS: { type: 'timestamptz' | 'datetime'; precision?: number } =
+  DATABASE_TYPE === 'postgres' ? { type: 'timestamptz', precision: 3 } : { type: 'datetime' };
+
+// Foreign keys have to match the uuid primary keys on Postgres (SQLite stores those as varchar anyway)
+export const UUID_COLUMN_TYPE = DATABASE_TYPE === 'postgres' ? 'uuid' : 'varchar';
@@ -0,0 +1,72 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class InitialSchema1792421114790 implements MigrationInterface {
+    name = 'InitialSchema1792421114790'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // uuid_generate_v4() lives in an extension
+        await queryRunner.query(`CREATE EXTENSION IF NOT EXISTS "uuid-ossp"`);
+        await queryRunner.query(`CREATE TABLE "vote_choices" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "voteId" uuid NOT NULL, "optionId" uuid NOT NULL, "rank" integer NOT NULL, CONSTRAINT "PK_1b319e36118c7a5c57944046607" PRIMARY KEY ("id"))`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_1b564551cd53e6338bc41e45be" ON "vote_choices" ("voteId", "optionId") `);
+        await queryRunner.query(`CREATE TABLE "votes" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "userUuid" character varying(36) NOT NULL, "pollId" uuid NOT NULL, "optionId" uuid NOT NULL, "createdAt" TIMESTAMP(3) WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_f3d9fd4a0af865152c3f59db8ff" PRIMARY KEY ("id"))`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_836248dd2c75f8ea559c3abe4d" ON "votes" ("pollId", "userUuid") `);
+        await queryRunner.query(`CREATE TABLE "poll_options" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "text" character varying(200) NOT NULL, "pollId" uuid NOT NULL, CONSTRAINT "PK_f52aac4865d291e3658dedf9083" PRIMARY KEY ("id"))`);
+        await queryRunner.query(`CREATE TABLE "polls" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "question" character varying(500) NOT NULL, "opensAt" TIMESTAMP(3) WITH TIME ZONE, "closesAt" TIMESTAMP(3) WITH TIME ZONE NOT NULL, "status" character varying(20) NOT NULL DEFAULT 'open', "hideResultsUntilClose" boolean NOT NULL DEFAULT false, "allowVoteChanges" boolean NOT NULL DEFAULT true, "inviteOnly" boolean NOT NULL DEFAULT false, "votingMethod" character varying(20) NOT NULL DEFAULT 'plurality', "minSelections" integer NOT NULL DEFAULT '1', "maxSelections" integer, "managementTokenHash" character varying(64), "createdAt" TIMESTAMP(3) WITH TIME ZONE NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP(3) WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_b9bbb8fc7b142553c518ddffbb6" PRIMARY KEY ("id"))`);
+        await queryRunner.query(`CREATE TABLE "voter_tokens" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "pollId" uuid NOT NULL, "tokenHash" character varying(64) NOT NULL, "voterId" character varying(200), "usedAt" TIMESTAMP(3) WITH TIME ZONE, "voteId" character varying, "createdAt" TIMESTAMP(3) WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_9653cb4a42225e352d73398d757" PRIMARY KEY ("id"))`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_69e0ec5837f82092cdeb0eb699" ON "voter_tokens" ("tokenHash") `);
+        await queryRunner.query(`CREATE TABLE "vote_ledger" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "pollId" uuid NOT NULL, "sequence" integer NOT NULL, "action" character varying(10) NOT NULL, "voteId" character varying(36) NOT NULL, "userUuid" character varying(36) NOT NULL, "optionIds" text NOT NULL, "recordedAt" character varying(30) NOT NULL, "previousHash" character varying(64) NOT NULL, "hash" character varying(64) NOT NULL, CONSTRAINT "PK_53400df000f2dc7114e946c4803" PRIMARY KEY ("id"))`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_8c1ec63d88621b6140cf04382f" ON "vote_ledger" ("pollId", "sequence") `);
+        await queryRunner.query(`CREATE TABLE "webhooks" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "pollId" uuid NOT NULL, "url" character varying(2048) NOT NULL, "events" text NOT NULL, "secret" character varying(64) NOT NULL, "createdAt" TIMESTAMP(3) WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_9e8795cfc899ab7bdaa831e8527" PRIMARY KEY ("id"))`);
+        await queryRunner.query(`CREATE TABLE "webhook_deliveries" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "webhookId" uuid NOT NULL, "pollId" uuid NOT NULL, "event" character varying(20) NOT NULL, "payload" text NOT NULL, "status" character varying(20) NOT NULL DEFAULT 'pending', "attempts" integer NOT NULL DEFAULT '0', "nextAttemptAt" TIMESTAMP(3) WITH TIME ZONE NOT NULL, "lastStatusCode" integer, "lastError" character varying(500), "deliveredAt" TIMESTAMP(3) WITH TIME ZONE, "createdAt" TIMESTAMP(3) WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_535dd409947fb6d8fc6dfc0112a" PRIMARY KEY ("id"))`);
+        await queryRunner.query(`CREATE INDEX "IDX_2ea65145f74113a92ac3107d54" ON "webhook_deliveries" ("status", "nextAttemptAt") `);
+        await queryRunner.query(`CREATE TABLE "poll_vote_counters" ("pollId" uuid NOT NULL, "ballots" integer NOT NULL DEFAULT '0', "rebuiltAt" TIMESTAMP(3) WITH TIME ZONE, CONSTRAINT "PK_1f6f1de8970e70e9980e8f37d14" PRIMARY KEY ("pollId"))`);
+        await queryRunner.query(`CREATE TABLE "option_vote_counters" ("pollId" uuid NOT NULL, "optionId" uuid NOT NULL, "count" integer NOT NULL DEFAULT '0', CONSTRAINT "PK_d48a8666ce1ef18b1037997579a" PRIMARY KEY ("pollId", "optionId"))`);
+        await queryRunner.query(`CREATE TABLE "vote_count_buckets" ("pollId" uuid NOT NULL, "bucketStart" character varying(24) NOT NULL, "count" integer NOT NULL DEFAULT '0', CONSTRAINT "PK_e86febc2eface207e8fa3225009" PRIMARY KEY ("pollId", "bucketStart"))`);
+        await queryRunner.query(`ALTER TABLE "vote_choices" ADD CONSTRAINT "FK_6a8be7a1ffd48bb94a11bebff86" FOREIGN KEY ("voteId") REFERENCES "votes"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "vote_choices" ADD CONSTRAINT "FK_69d38ce003499d0708a9a06c004" FOREIGN KEY ("optionId") REFERENCES "poll_options"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "votes" ADD CONSTRAINT "FK_2e40638d2d3b898da1af363837c" FOREIGN KEY ("pollId") REFERENCES "polls"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "votes" ADD CONSTRAINT "FK_70b83e1b0a90b9491cfdc73f52d" FOREIGN KEY ("optionId") REFERENCES "poll_options"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "poll_options" ADD CONSTRAINT "FK_4edaafa5d0ea2a447af004706a4" FOREIGN KEY ("pollId") REFERENCES "polls"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "voter_tokens" ADD CONSTRAINT "FK_f51294cd5d5b31b6cd994b7f638" FOREIGN KEY ("pollId") REFERENCES "polls"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "vote_ledger" ADD CONSTRAINT "FK_11fb550691cef8643123125b203" FOREIGN KEY ("pollId") REFERENCES "polls"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "webhooks" ADD CONSTRAINT "FK_04b7f89bcd99648e70a0acb7f7e" FOREIGN KEY ("pollId") REFERENCES "polls"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "webhook_deliveries" ADD CONSTRAINT "FK_ab7a4dca7a25e29b745e2e1b601" FOREIGN KEY ("webhookId") REFERENCES "webhooks"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "poll_vote_counters" ADD CONSTRAINT "FK_1f6f1de8970e70e9980e8f37d14" FOREIGN KEY ("pollId") REFERENCES "polls"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "option_vote_counters" ADD CONSTRAINT "FK_62630bce3f37120f0f8984a320a" FOREIGN KEY ("pollId") REFERENCES "polls"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "option_vote_counters" ADD CONSTRAINT "FK_bccf1723fd74157ca09604c2b9c" FOREIGN KEY ("optionId") REFERENCES "poll_options"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "vote_count_buckets" ADD CONSTRAINT "FK_7a5d0696b910d2f6e688ab96476" FOREIGN KEY ("pollId") REFERENCES "polls"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "vote_count_buckets" DROP CONSTRAINT "FK_7a5d0696b910d2f6e688ab96476"`);
+        await queryRunner.query(`ALTER TABLE "option_vote_counters" DROP CONSTRAINT "FK_bccf1723fd74157ca09604c2b9c"`);
+        await queryRunner.query(`ALTER TABLE "option_vote_counters" DROP CONSTRAINT "FK_62630bce3f37120f0f8984a320a"`);
+        await queryRunner.query(`ALTER TABLE "poll_vote_counters" DROP CONSTRAINT "FK_1f6f1de8970e70e9980e8f37d14"`);
+        await queryRunner.query(`ALTER TABLE "webhook_deliveries" DROP CONSTRAINT "FK_ab7a4dca7a25e29b745e2e1b601"`);
+        await queryRunner.query(`ALTER TABLE "webhooks" DROP CONSTRAINT "FK_04b7f89bcd99648e70a0acb7f7e"`);
+        await queryRunner.query(`ALTER TABLE "vote_ledger" DROP CONSTRAINT "FK_11fb550691cef8643123125b203"`);
+        await queryRunner.query(`ALTER TABLE "voter_tokens" DROP CONSTRAINT "FK_f51294cd5d5b31b6cd994b7f638"`);
+        await queryRunner.query(`ALTER TABLE "poll_options" DROP CONSTRAINT "FK_4edaafa5d0ea2a447af004706a4"`);
+        await queryRunner.query(`ALTER TABLE "votes" DROP CONSTRAINT "FK_70b83e1b0a90b9491cfdc73f52d"`);
+        await queryRunner.query(`ALTER TABLE "votes" DROP CONSTRAINT "FK_2e40638d2d3b898da1af363837c"`);
+        await queryRunner.query(`ALTER TABLE "vote_choices" DROP CONSTRAINT "FK_69d38ce003499d0708a9a06c004"`);
+        await queryRunner.query(`ALTER TABLE "vote_choices" DROP CONSTRAINT "FK_6a8be7a1ffd48bb94a11bebff86"`);
+        await queryRunner.query(`DROP TABLE "vote_count_buckets"`);
+        await queryRunner.query(`DROP TABLE "option_vote_counters"`);
+        await queryRunner.query(`DROP TABLE "poll_vote_counters"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_2ea65145f74113a92ac3107d54"`);
+        await queryRunner.query(`DROP TABLE "webhook_deliveries"`);
+        await queryRunner.query(`DROP TABLE "webhooks"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_8c1ec63d88621b6140cf04382f"`);
+        await queryRunner.query(`DROP TABLE "vote_ledger"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_69e0ec5837f82092cdeb0eb699"`);
+        await queryRunner.query(`DROP TABLE "voter_tokens"`);
+        await queryRunner.query(`DROP TABLE "polls"`);
+        await queryRunner.query(`DROP TABLE "poll_options"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_836248dd2c75f8ea559c3abe4d"`);
+        await queryRunner.query(`DROP TABLE "votes"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_1b564551cd53e6338bc41e45be"`);
+        await queryRunner.query(`DROP TABLE "vote_choices"`);
+    }
+
+}
@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+// Two overlapping allowlist uploads could each hand the same voter a token -
+// this fails if that already happened, so those have to be sorted out first
+export class UniqueVoterTokenPerVoter1792436108214 implements MigrationInterface {
+    name = 'UniqueVoterTokenPerVoter1792436108214'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_72f42ca8e37295f66dfcb30ac6" ON "voter_tokens" ("pollId", "voterId") `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX "public"."IDX_72f42ca8e37295f66dfcb30ac6"`);
+    }
+}
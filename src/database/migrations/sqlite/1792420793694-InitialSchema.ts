@@ -0,0 +1,28 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class InitialSchema1792420793694 implements MigrationInterface {
+    name = 'InitialSchema1792420793694'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // The schema OneVote started with - polls, their options and one vote per user.
+        // Databases from before migrations were built by synchronize and already have these
+        // tables, so just record the migration as done for those. Everything added since
+        // comes in UpgradeBaselineSchema, which also brings those older databases up to date.
+        if (await queryRunner.hasTable('polls')) {
+            return;
+        }
+
+        await queryRunner.query(`CREATE TABLE "polls" ("id" varchar PRIMARY KEY NOT NULL, "question" varchar(500) NOT NULL, "closesAt" datetime NOT NULL, "hideResultsUntilClose" boolean NOT NULL DEFAULT (0), "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+        await queryRunner.query(`CREATE TABLE "poll_options" ("id" varchar PRIMARY KEY NOT NULL, "text" varchar(200) NOT NULL, "pollId" varchar NOT NULL, CONSTRAINT "FK_4edaafa5d0ea2a447af004706a4" FOREIGN KEY ("pollId") REFERENCES "polls" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+        await queryRunner.query(`CREATE TABLE "votes" ("id" varchar PRIMARY KEY NOT NULL, "userUuid" varchar(36) NOT NULL, "pollId" varchar NOT NULL, "optionId" varchar NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_2e40638d2d3b898da1af363837c" FOREIGN KEY ("pollId") REFERENCES "polls" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_70b83e1b0a90b9491cfdc73f52d" FOREIGN KEY ("optionId") REFERENCES "poll_options" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_836248dd2c75f8ea559c3abe4d" ON "votes" ("pollId", "userUuid") `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        // Children first; the index goes with its table
+        await queryRunner.query(`DROP TABLE "votes"`);
+        await queryRunner.query(`DROP TABLE "poll_options"`);
+        await queryRunner.query(`DROP TABLE "polls"`);
+    }
+
+}
@@ -0,0 +1,84 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+// Columns polls gained after the baseline, in the order they came
+const POLL_COLUMNS: [name: string, definition: string][] = [
+    ['votingMethod', `varchar(20) NOT NULL DEFAULT ('plurality')`],
+    ['minSelections', `integer NOT NULL DEFAULT (1)`],
+    ['maxSelections', `integer`],
+    ['allowVoteChanges', `boolean NOT NULL DEFAULT (1)`],
+    ['status', `varchar(20) NOT NULL DEFAULT ('open')`],
+    ['opensAt', `datetime`],
+    ['managementTokenHash', `varchar(64)`],
+    ['inviteOnly', `boolean NOT NULL DEFAULT (0)`],
+];
+
+// Tables added after the baseline, parents before children
+const NEW_TABLES: [name: string, statements: string[]][] = [
+    ['vote_choices', [
+        `CREATE TABLE "vote_choices" ("id" varchar PRIMARY KEY NOT NULL, "voteId" varchar NOT NULL, "optionId" varchar NOT NULL, "rank" integer NOT NULL, CONSTRAINT "FK_6a8be7a1ffd48bb94a11bebff86" FOREIGN KEY ("voteId") REFERENCES "votes" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_69d38ce003499d0708a9a06c004" FOREIGN KEY ("optionId") REFERENCES "poll_options" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`,
+        `CREATE UNIQUE INDEX "IDX_1b564551cd53e6338bc41e45be" ON "vote_choices" ("voteId", "optionId") `,
+    ]],
+    ['voter_tokens', [
+        `CREATE TABLE "voter_tokens" ("id" varchar PRIMARY KEY NOT NULL, "pollId" varchar NOT NULL, "tokenHash" varchar(64) NOT NULL, "voterId" varchar(200), "usedAt" datetime, "voteId" varchar, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_f51294cd5d5b31b6cd994b7f638" FOREIGN KEY ("pollId") REFERENCES "polls" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`,
+        `CREATE UNIQUE INDEX "IDX_69e0ec5837f82092cdeb0eb699" ON "voter_tokens" ("tokenHash") `,
+    ]],
+    ['vote_ledger', [
+        `CREATE TABLE "vote_ledger" ("id" varchar PRIMARY KEY NOT NULL, "pollId" varchar NOT NULL, "sequence" integer NOT NULL, "action" varchar(10) NOT NULL, "voteId" varchar(36) NOT NULL, "userUuid" varchar(36) NOT NULL, "optionIds" text NOT NULL, "recordedAt" varchar(30) NOT NULL, "previousHash" varchar(64) NOT NULL, "hash" varchar(64) NOT NULL, CONSTRAINT "FK_11fb550691cef8643123125b203" FOREIGN KEY ("pollId") REFERENCES "polls" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`,
+        `CREATE UNIQUE INDEX "IDX_8c1ec63d88621b6140cf04382f" ON "vote_ledger" ("pollId", "sequence") `,
+    ]],
+    ['webhooks', [
+        `CREATE TABLE "webhooks" ("id" varchar PRIMARY KEY NOT NULL, "pollId" varchar NOT NULL, "url" varchar(2048) NOT NULL, "events" text NOT NULL, "secret" varchar(64) NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_04b7f89bcd99648e70a0acb7f7e" FOREIGN KEY ("pollId") REFERENCES "polls" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`,
+    ]],
+    ['webhook_deliveries', [
+        `CREATE TABLE "webhook_deliveries" ("id" varchar PRIMARY KEY NOT NULL, "webhookId" varchar NOT NULL, "pollId" varchar NOT NULL, "event" varchar(20) NOT NULL, "payload" text NOT NULL, "status" varchar(20) NOT NULL DEFAULT ('pending'), "attempts" integer NOT NULL DEFAULT (0), "nextAttemptAt" datetime NOT NULL, "lastStatusCode" integer, "lastError" varchar(500), "deliveredAt" datetime, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_ab7a4dca7a25e29b745e2e1b601" FOREIGN KEY ("webhookId") REFERENCES "webhooks" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`,
+        `CREATE INDEX "IDX_2ea65145f74113a92ac3107d54" ON "webhook_deliveries" ("status", "nextAttemptAt") `,
+    ]],
+    ['poll_vote_counters', [
+        `CREATE TABLE "poll_vote_counters" ("pollId" varchar PRIMARY KEY NOT NULL, "ballots" integer NOT NULL DEFAULT (0), "rebuiltAt" datetime, CONSTRAINT "FK_1f6f1de8970e70e9980e8f37d14" FOREIGN KEY ("pollId") REFERENCES "polls" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`,
+    ]],
+    ['option_vote_counters', [
+        `CREATE TABLE "option_vote_counters" ("pollId" varchar NOT NULL, "optionId" varchar NOT NULL, "count" integer NOT NULL DEFAULT (0), CONSTRAINT "FK_62630bce3f37120f0f8984a320a" FOREIGN KEY ("pollId") REFERENCES "polls" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_bccf1723fd74157ca09604c2b9c" FOREIGN KEY ("optionId") REFERENCES "poll_options" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, PRIMARY KEY ("pollId", "optionId"))`,
+    ]],
+    ['vote_count_buckets', [
+        `CREATE TABLE "vote_count_buckets" ("pollId" varchar NOT NULL, "bucketStart" varchar(24) NOT NULL, "count" integer NOT NULL DEFAULT (0), CONSTRAINT "FK_7a5d0696b910d2f6e688ab96476" FOREIGN KEY ("pollId") REFERENCES "polls" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, PRIMARY KEY ("pollId", "bucketStart"))`,
+    ]],
+];
+
+export class UpgradeBaselineSchema1792420857310 implements MigrationInterface {
+    name = 'UpgradeBaselineSchema1792420857310'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Written by hand. A database built by synchronize may stop anywhere between the
+        // baseline and today (it got whatever the entities had when it last started), so
+        // each column and table is only added if it isn't there yet. Tables other than
+        // polls never changed shape after they were added, and votes still has its
+        // baseline columns - the ballot details live in vote_choices.
+        for (const [name, definition] of POLL_COLUMNS) {
+            if (!(await queryRunner.hasColumn('polls', name))) {
+                await queryRunner.query(`ALTER TABLE "polls" ADD COLUMN "${name}" ${definition}`);
+            }
+        }
+
+        for (const [name, statements] of NEW_TABLES) {
+            if (await queryRunner.hasTable(name)) {
+                continue;
+            }
+            for (const statement of statements) {
+                await queryRunner.query(statement);
+            }
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        // Children first; indexes go with their tables
+        for (const [name] of [...NEW_TABLES].reverse()) {
+            await queryRunner.query(`DROP TABLE "${name}"`);
+        }
+
+        // Plain DROP COLUMN (SQLite 3.35+) - none of these are indexed or referenced
+        for (const [name] of [...POLL_COLUMNS].reverse()) {
+            await queryRunner.query(`ALTER TABLE "polls" DROP COLUMN "${name}"`);
+        }
+    }
+
+}
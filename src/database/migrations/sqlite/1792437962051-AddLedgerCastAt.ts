@@ -0,0 +1,14 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+// Existing entries stay null - they were hashed without a cast time
+export class AddLedgerCastAt1792437962051 implements MigrationInterface {
+    name = 'AddLedgerCastAt1792437962051'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "vote_ledger" ADD COLUMN "castAt" varchar(30)`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "vote_ledger" DROP COLUMN "castAt"`);
+    }
+}
@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+import { backfillVoteLedger, removeVoteLedgerBackfill } from "../vote-ledger-backfill";
+
+// Votes from before the ledger existed get a 'backfill' entry, so verify doesn't report them as tampering
+export class BackfillVoteLedger1792439410526 implements MigrationInterface {
+    name = 'BackfillVoteLedger1792439410526'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await backfillVoteLedger(queryRunner);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await removeVoteLedgerBackfill(queryRunner);
+    }
+}
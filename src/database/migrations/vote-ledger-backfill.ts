@@ -0,0 +1,86 @@
+import { QueryRunner } from "typeorm";
+import { randomUUID } from "crypto";
+import { GENESIS_HASH, LedgerHashInput, computeLedgerHash } from "../../polls/audit/ledger-hash";
+
+interface UnrecordedVote {
+    id: string;
+    userUuid: string;
+    optionId: string;
+    createdAt: Date | string;
+}
+
+/**
+ * Gives every vote that has no ledger entry a 'backfill' one, appended to its poll's chain
+ *
+ * Only meant for votes cast before the ledger existed, which is why it runs
+ * once as a migration and not at every startup - a vote slipped into the
+ * database later has to keep showing up as "not recorded in the ledger".
+ * Shared by the SQLite and Postgres migrations; lives outside their folders
+ * so it isn't picked up as a migration itself.
+ */
+export async function backfillVoteLedger(queryRunner: QueryRunner): Promise<void> {
+    const postgres = queryRunner.connection.options.type === "postgres";
+    const param = (index: number) => (postgres ? `$${index}` : "?");
+    // vote_ledger.voteId is plain text, votes.id is a uuid on Postgres
+    const unrecorded = `NOT EXISTS (SELECT 1 FROM "vote_ledger" WHERE "vote_ledger"."voteId" = CAST("votes"."id" AS varchar))`;
+
+    const polls: { pollId: string }[] = await queryRunner.query(
+        `SELECT DISTINCT "pollId" FROM "votes" WHERE ${unrecorded}`,
+    );
+
+    for (const { pollId } of polls) {
+        const votes: UnrecordedVote[] = await queryRunner.query(
+            `SELECT "id", "userUuid", "optionId", "createdAt" FROM "votes" WHERE "pollId" = ${param(1)} AND ${unrecorded} ORDER BY "createdAt", "id"`,
+            [pollId],
+        );
+        const choices: { voteId: string; optionId: string }[] = await queryRunner.query(
+            `SELECT "voteId", "optionId" FROM "vote_choices" WHERE "voteId" IN (SELECT "id" FROM "votes" WHERE "pollId" = ${param(1)}) ORDER BY "voteId", "rank"`,
+            [pollId],
+        );
+        const [head]: { sequence: number; hash: string }[] = await queryRunner.query(
+            `SELECT "sequence", "hash" FROM "vote_ledger" WHERE "pollId" = ${param(1)} ORDER BY "sequence" DESC LIMIT 1`,
+            [pollId],
+        );
+
+        const choicesByVote = new Map<string, string[]>();
+        choices.forEach(choice => choicesByVote.set(choice.voteId, [...(choicesByVote.get(choice.voteId) ?? []), choice.optionId]));
+
+        let sequence = head ? Number(head.sequence) : 0;
+        let previousHash = head ? head.hash : GENESIS_HASH;
+        const recordedAt = new Date().toISOString();
+
+        for (const vote of votes) {
+            const entry: LedgerHashInput = {
+                pollId,
+                sequence: ++sequence,
+                action: "backfill",
+                voteId: vote.id,
+                userUuid: vote.userUuid,
+                // Plurality ballots have no choice rows - same as verify reads them
+                optionIds: choicesByVote.get(vote.id) ?? [vote.optionId],
+                recordedAt,
+                previousHash,
+                castAt: toIsoString(vote.createdAt),
+            };
+            previousHash = computeLedgerHash(entry);
+
+            await queryRunner.query(
+                `INSERT INTO "vote_ledger" ("id", "pollId", "sequence", "action", "voteId", "userUuid", "optionIds", "recordedAt", "previousHash", "hash", "castAt") VALUES (${[...Array(11).keys()].map(index => param(index + 1)).join(", ")})`,
+                [randomUUID(), pollId, entry.sequence, entry.action, entry.voteId, entry.userUuid, JSON.stringify(entry.optionIds), entry.recordedAt, entry.previousHash, previousHash, entry.castAt],
+            );
+        }
+    }
+}
+
+/**
+ * Undoes backfillVoteLedger
+ * Entries appended after the backfill still point at its hashes, so their chains won't verify afterwards
+ */
+export async function removeVoteLedgerBackfill(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DELETE FROM "vote_ledger" WHERE "action" = 'backfill'`);
+}
+
+// Postgres hands back Dates; SQLite keeps UTC text like "2026-10-18 09:12:00.000"
+function toIsoString(value: Date | string): string {
+    return value instanceof Date ? value.toISOString() : new Date(`${value.replace(" ", "T")}Z`).toISOString();
+}
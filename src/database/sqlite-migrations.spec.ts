@@ -0,0 +1,109 @@
+import { DataSource } from 'typeorm';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { buildDataSourceOptions } from './data-source-options';
+import { DatabaseConfig } from '../config/app-config';
+import { Poll } from '../polls/entities/poll.entity';
+import { Vote } from '../polls/entities/vote.entity';
+import { VoteChoice } from '../polls/entities/vote-choice.entity';
+import { VoteLedgerEntry } from '../polls/entities/vote-ledger-entry.entity';
+import { VoteLedgerService } from '../polls/audit/vote-ledger.service';
+
+describe('SQLite migrations', () => {
+  let directory: string;
+  let database: DatabaseConfig;
+
+  const pollId = '123e4567-e89b-12d3-a456-426614174000';
+  const optionId = '223e4567-e89b-12d3-a456-426614174000';
+
+  // Opens the file with the app's own settings, but leaves running migrations to the test
+  const openApp = async () => {
+    const dataSource = new DataSource({ ...buildDataSourceOptions(database), migrationsRun: false });
+    return dataSource.initialize();
+  };
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'onevote-migrations-'));
+    database = {
+      type: 'sqlite',
+      path: join(directory, 'onevote.sqlite'),
+      url: null,
+      host: 'localhost',
+      port: 5432,
+      username: 'onevote',
+      password: null,
+      name: 'onevote',
+      migrationsRun: false,
+      logging: false,
+    };
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should build the full schema on an empty database', async () => {
+    const dataSource = await openApp();
+
+    await dataSource.runMigrations();
+
+    expect((await dataSource.driver.createSchemaBuilder().log()).upQueries).toEqual([]);
+    await dataSource.destroy();
+  });
+
+  it('should upgrade a database built by synchronize before migrations existed', async () => {
+    // What the first release's synchronize left behind, with a poll already voted on
+    const legacy = await new DataSource({ type: 'sqlite', database: database.path }).initialize();
+    await legacy.query(`CREATE TABLE "polls" ("id" varchar PRIMARY KEY NOT NULL, "question" varchar(500) NOT NULL, "closesAt" datetime NOT NULL, "hideResultsUntilClose" boolean NOT NULL DEFAULT (0), "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await legacy.query(`CREATE TABLE "poll_options" ("id" varchar PRIMARY KEY NOT NULL, "text" varchar(200) NOT NULL, "pollId" varchar NOT NULL, CONSTRAINT "FK_4edaafa5d0ea2a447af004706a4" FOREIGN KEY ("pollId") REFERENCES "polls" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await legacy.query(`CREATE TABLE "votes" ("id" varchar PRIMARY KEY NOT NULL, "userUuid" varchar(36) NOT NULL, "pollId" varchar NOT NULL, "optionId" varchar NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_2e40638d2d3b898da1af363837c" FOREIGN KEY ("pollId") REFERENCES "polls" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_70b83e1b0a90b9491cfdc73f52d" FOREIGN KEY ("optionId") REFERENCES "poll_options" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await legacy.query(`CREATE UNIQUE INDEX "IDX_836248dd2c75f8ea559c3abe4d" ON "votes" ("pollId", "userUuid") `);
+    await legacy.query(`INSERT INTO "polls" ("id", "question", "closesAt") VALUES (?, 'Tabs or spaces?', '2030-01-01 00:00:00.000')`, [pollId]);
+    await legacy.query(`INSERT INTO "poll_options" ("id", "text", "pollId") VALUES (?, 'Tabs', ?)`, [optionId, pollId]);
+    await legacy.query(`INSERT INTO "votes" ("id", "userUuid", "pollId", "optionId") VALUES ('vote-1', 'user-1', ?, ?)`, [pollId, optionId]);
+    await legacy.destroy();
+
+    const dataSource = await openApp();
+    await dataSource.runMigrations();
+
+    // Same schema as a fresh install, and the old poll reads like any other
+    expect((await dataSource.driver.createSchemaBuilder().log()).upQueries).toEqual([]);
+
+    const poll = await dataSource.getRepository(Poll).findOne({ where: { id: pollId } });
+    expect(poll).toMatchObject({
+      question: 'Tabs or spaces?',
+      status: 'open',
+      votingMethod: 'plurality',
+      allowVoteChanges: true,
+      inviteOnly: false,
+    });
+    expect(poll.options.map(option => option.text)).toEqual(['Tabs']);
+    expect(await dataSource.query(`SELECT COUNT(*) AS "count" FROM "votes"`)).toEqual([{ count: 1 }]);
+
+    // The vote predates the ledger - it's backfilled instead of looking tampered with
+    const ledger = new VoteLedgerService(
+      dataSource.getRepository(Poll),
+      dataSource.getRepository(VoteLedgerEntry),
+      dataSource.getRepository(Vote),
+      dataSource.getRepository(VoteChoice),
+    );
+    expect(await ledger.verify(pollId)).toMatchObject({ valid: true, entriesChecked: 1 });
+    expect(await dataSource.getRepository(VoteLedgerEntry).findOneBy({ voteId: 'vote-1' })).toMatchObject({ action: 'backfill' });
+
+    await dataSource.destroy();
+  });
+
+  it('should undo every migration back to an empty database', async () => {
+    const dataSource = await openApp();
+    await dataSource.runMigrations();
+
+    for (let i = 0; i < dataSource.migrations.length; i++) {
+      await dataSource.undoLastMigration();
+    }
+
+    const tables = await dataSource.query(`SELECT "name" FROM "sqlite_master" WHERE "type" = 'table' AND "name" NOT IN ('migrations', 'sqlite_sequence')`);
+    expect(tables).toEqual([]);
+    await dataSource.destroy();
+  });
+});
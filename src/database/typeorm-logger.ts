@@ -0,0 +1,48 @@
+import { Logger as NestLogger } from '@nestjs/common';
+import { Logger as TypeOrmLoggerInterface } from 'typeorm';
+
+/**
+ * Sends TypeORM's output through Nest's Logger, so SQL shows up as the same
+ * JSON lines (with the request ID) as everything else instead of raw text
+ *
+ * Queries are only logged when logQueries is on (NODE_ENV=development);
+ * errors, slow queries and migrations always are. TypeORM calls us for
+ * everything either way, so the check has to live here.
+ */
+export class TypeOrmLogger implements TypeOrmLoggerInterface {
+  private readonly logger = new NestLogger('TypeORM');
+
+  constructor(private readonly logQueries: boolean) {}
+
+  logQuery(query: string, parameters?: unknown[]): void {
+    if (this.logQueries) {
+      this.logger.log({ message: query, parameters });
+    }
+  }
+
+  logQueryError(error: string | Error, query: string, parameters?: unknown[]): void {
+    this.logger.error({ message: `Query failed: ${error instanceof Error ? error.message : error}`, query, parameters });
+  }
+
+  logQuerySlow(time: number, query: string, parameters?: unknown[]): void {
+    this.logger.warn({ message: `Slow query (${time}ms)`, query, parameters, durationMs: time });
+  }
+
+  logSchemaBuild(message: string): void {
+    if (this.logQueries) {
+      this.logger.log(message);
+    }
+  }
+
+  logMigration(message: string): void {
+    this.logger.log(message);
+  }
+
+  log(level: 'log' | 'info' | 'warn', message: unknown): void {
+    if (level === 'warn') {
+      this.logger.warn(message);
+    } else {
+      this.logger.log(message);
+    }
+  }
+}
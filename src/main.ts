@@ -1,12 +1,32 @@
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe, Logger } from '@nestjs/common';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
+import { WsAdapter } from '@nestjs/platform-ws';
 import { AppModule } from './app.module';
+import { loadAppConfig } from './config/app-config';
+import { AppLogger } from './common/logging/app-logger';
+import { REQUEST_ID_HEADER } from './common/logging/request-context';
+import { IDEMPOTENCY_KEY_HEADER, IDEMPOTENT_REPLAYED_HEADER } from './common/idempotency/idempotency.interceptor';
+import { validationExceptionFactory } from './common/errors/validation-exception.factory';
+import { ProblemDetailsDto } from './common/errors/problem-details.dto';
+import { addProblemResponses, describeErrorCodes } from './common/errors/problem-docs';
+import { useBallotImportParsers } from './polls/import/ballot-import-format';
 
 async function bootstrap() {
   const logger = new Logger('Bootstrap');
 
-  const app = await NestFactory.create(AppModule);
+  // Read here as well as in AppConfigModule - the logger has to be set up before Nest logs anything
+  const appConfig = loadAppConfig();
+
+  // abortOnError: false lets a startup failure reach the catch below with its full message,
+  // instead of Nest exiting on its own
+  const app = await NestFactory.create(AppModule, {
+    abortOnError: false,
+    logger: new AppLogger(appConfig.logging),
+  });
+
+  // Ballot imports can be CSV, and bigger than Nest's 100kb JSON limit - has to come before Nest's own parser
+  useBallotImportParsers(app);
 
   // Enable validation globally with detailed error messages
   app.useGlobalPipes(
@@ -15,33 +35,52 @@ async function bootstrap() {
       forbidNonWhitelisted: true, // Throw error if extra properties are provided
       transform: true, // Automatically transform payloads to DTO instances
       disableErrorMessages: false, // Keep detailed validation messages
+      exceptionFactory: validationExceptionFactory, // Group them by field under VALIDATION_FAILED
     })
   );
 
   // Enable CORS for web clients
   app.enableCors({
-    origin: '*', // In production, specify allowed origins
-    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
+    origin: appConfig.corsOrigins.includes('*') ? '*' : appConfig.corsOrigins, // CORS_ORIGINS
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Voter-Token', REQUEST_ID_HEADER, IDEMPOTENCY_KEY_HEADER],
+    exposedHeaders: [REQUEST_ID_HEADER, IDEMPOTENT_REPLAYED_HEADER], // so browser clients can read them - the ID for bug reports, replays for retries
   });
 
+  // Plain WebSockets (no socket.io) for the live results gateway at /ws
+  app.useWebSocketAdapter(new WsAdapter(app));
+
   // Setup Swagger API documentation
   const config = new DocumentBuilder()
     .setTitle('OneVote API')
     .setDescription(
-      'A RESTful API for creating polls and casting votes with realtime result tracking. '
+      'A RESTful API for creating polls and casting votes with realtime result tracking.\n\n' +
+      describeErrorCodes()
     )
     .setVersion('1.0')
     .addTag('polls', 'Poll management and voting operations')
+    .addTag('admin', 'Maintenance endpoints (need ADMIN_TOKEN)')
+    .addTag('monitoring', 'Health checks and Prometheus metrics')
+    .addBearerAuth(
+      { type: 'http', scheme: 'bearer', description: 'Management token returned when the poll was created' },
+      'management-token',
+    )
+    .addBearerAuth(
+      { type: 'http', scheme: 'bearer', description: 'ADMIN_TOKEN from the server environment' },
+      'admin-token',
+    )
     .build();
 
-  const document = SwaggerModule.createDocument(app, config);
+  // Every error response documents the problem details body
+  const document = addProblemResponses(
+    SwaggerModule.createDocument(app, config, { extraModels: [ProblemDetailsDto] }),
+  );
   SwaggerModule.setup('docs', app, document, {
     customSiteTitle: 'OneVote API Documentation',
     customCss: '.swagger-ui .topbar { display: none }',
   });
 
-  const port = process.env.PORT || 3000;
+  const port = appConfig.port;
   await app.listen(port);
 
   logger.log(`OneVote API is running on: http://localhost:${port}`);
@@ -0,0 +1,33 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class HealthDto {
+  @ApiProperty({ description: 'Always "ok" - if this answers at all, the process is alive', example: 'ok' })
+  status!: 'ok';
+
+  @ApiProperty({ description: 'Seconds since this instance started', example: 3600 })
+  uptimeSeconds!: number;
+}
+
+export class DependencyCheckDto {
+  @ApiProperty({ description: 'Whether the dependency answered', enum: ['up', 'down'], example: 'up' })
+  status!: 'up' | 'down';
+
+  @ApiProperty({ description: 'How long the check took in milliseconds', example: 2 })
+  latencyMs!: number;
+
+  @ApiPropertyOptional({ description: 'What went wrong, when it is down', example: 'connect ECONNREFUSED 127.0.0.1:5432' })
+  error?: string;
+}
+
+export class ReadinessChecksDto {
+  @ApiProperty({ description: 'A trivial query against the database', type: DependencyCheckDto })
+  database!: DependencyCheckDto;
+}
+
+export class ReadinessDto {
+  @ApiProperty({ description: 'Always "ok" - a failed check answers 503 with problem details instead', example: 'ok' })
+  status!: 'ok';
+
+  @ApiProperty({ description: 'Result of each check', type: ReadinessChecksDto })
+  checks!: ReadinessChecksDto;
+}
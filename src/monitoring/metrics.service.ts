@@ -0,0 +1,46 @@
+import { Injectable } from '@nestjs/common';
+import { MetricsRegistry } from './metrics';
+
+// How a vote attempt ended, as counted by onevote_votes_cast_total
+export type VoteOutcome = 'success' | 'duplicate' | 'closed' | 'not_found' | 'rejected' | 'error';
+
+/**
+ * The metrics OneVote exposes on /metrics
+ *
+ * Services inject this and update the metric they care about; the
+ * monitoring controller renders the lot when Prometheus scrapes.
+ */
+@Injectable()
+export class MetricsService {
+  readonly registry = new MetricsRegistry();
+
+  readonly votesCast = this.registry.counter(
+    'onevote_votes_cast_total',
+    'Vote attempts by how they ended (success, duplicate, closed, not_found, rejected, error)',
+    ['outcome'],
+  );
+
+  // One series per poll with a listener right now - dec() drops it at 0,
+  // so polls nobody is watching don't pile up labels
+  readonly sseConnections = this.registry.gauge(
+    'onevote_sse_connections',
+    'Open Server-Sent Events result streams per poll',
+    ['poll_id'],
+  );
+
+  readonly computeResultsDuration = this.registry.histogram(
+    'onevote_compute_results_duration_seconds',
+    'Time spent working out a poll\'s results on a cache miss',
+  );
+
+  readonly resultsCacheHitRatio = this.registry.gauge(
+    'onevote_results_cache_hit_ratio',
+    'Share of results cache lookups that were hits since this instance started (0 to 1)',
+  );
+
+  readonly httpRequestDuration = this.registry.histogram(
+    'onevote_http_request_duration_seconds',
+    'HTTP request latency by method, route and status code',
+    ['method', 'route', 'status'],
+  );
+}
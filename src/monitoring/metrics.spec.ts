@@ -0,0 +1,96 @@
+import { MetricsRegistry } from './metrics';
+import { MetricsService } from './metrics.service';
+
+describe('MetricsRegistry', () => {
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry();
+  });
+
+  it('should render counters with HELP and TYPE lines, one line per label set', () => {
+    const counter = registry.counter('votes_total', 'Votes cast', ['outcome']);
+
+    counter.inc({ outcome: 'success' });
+    counter.inc({ outcome: 'success' });
+    counter.inc({ outcome: 'duplicate' });
+
+    expect(registry.render()).toBe([
+      '# HELP votes_total Votes cast',
+      '# TYPE votes_total counter',
+      'votes_total{outcome="success"} 2',
+      'votes_total{outcome="duplicate"} 1',
+      '',
+    ].join('\n'));
+  });
+
+  it('should drop a gauge series once it is back at zero', () => {
+    const gauge = registry.gauge('connections', 'Open connections', ['poll_id']);
+
+    gauge.inc({ poll_id: 'a' });
+    gauge.inc({ poll_id: 'a' });
+    gauge.inc({ poll_id: 'b' });
+    gauge.dec({ poll_id: 'b' });
+    gauge.dec({ poll_id: 'a' });
+
+    const rendered = registry.render();
+    expect(rendered).toContain('connections{poll_id="a"} 1');
+    expect(rendered).not.toContain('poll_id="b"');
+  });
+
+  it('should render cumulative histogram buckets with sum and count', () => {
+    const histogram = registry.histogram('latency_seconds', 'Latency', [], [0.1, 1]);
+
+    histogram.observe({}, 0.05);
+    histogram.observe({}, 0.5);
+    histogram.observe({}, 3);
+
+    const rendered = registry.render();
+    expect(rendered).toContain('latency_seconds_bucket{le="0.1"} 1');
+    expect(rendered).toContain('latency_seconds_bucket{le="1"} 2');
+    expect(rendered).toContain('latency_seconds_bucket{le="+Inf"} 3');
+    expect(rendered).toContain('latency_seconds_sum 3.55');
+    expect(rendered).toContain('latency_seconds_count 3');
+  });
+
+  it('should time work even when it fails', async () => {
+    const histogram = registry.histogram('work_seconds', 'Work');
+
+    await expect(histogram.time({}, async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+
+    expect(registry.render()).toContain('work_seconds_count 1');
+  });
+
+  it('should escape quotes and backslashes in label values', () => {
+    registry.counter('requests_total', 'Requests', ['route']).inc({ route: 'a"b\\c' });
+
+    expect(registry.render()).toContain('requests_total{route="a\\"b\\\\c"} 1');
+  });
+
+  it('should refuse labels the metric was not declared with', () => {
+    const counter = registry.counter('votes_total', 'Votes cast', ['outcome']);
+
+    expect(() => counter.inc({ pollId: 'x' })).toThrow('Unknown label(s) pollId');
+  });
+
+  it('should refuse to register the same name twice', () => {
+    registry.counter('votes_total', 'Votes cast');
+
+    expect(() => registry.gauge('votes_total', 'Again')).toThrow('already registered');
+  });
+});
+
+describe('MetricsService', () => {
+  it('should only keep SSE connection series for polls that still have listeners', () => {
+    const metrics = new MetricsService();
+
+    for (let poll = 0; poll < 100; poll++) {
+      metrics.sseConnections.inc({ poll_id: `poll-${poll}` });
+      metrics.sseConnections.dec({ poll_id: `poll-${poll}` });
+    }
+    metrics.sseConnections.inc({ poll_id: 'watched' });
+
+    const lines = metrics.registry.render().split('\n').filter(line => line.startsWith('onevote_sse_connections{'));
+    expect(lines).toEqual(['onevote_sse_connections{poll_id="watched"} 1']);
+  });
+});
@@ -0,0 +1,212 @@
+// Label values for one series, e.g. { outcome: 'success' }
+export type MetricLabels = Record<string, string>;
+
+// Prometheus' own defaults - fine for anything measured in seconds around a web request
+export const DEFAULT_DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+interface Metric {
+  readonly name: string;
+  render(): string[];
+}
+
+/**
+ * Common bits of every metric: name, help text and one value per label combination
+ */
+abstract class LabelledMetric<TValue> implements Metric {
+  protected readonly series = new Map<string, { labels: MetricLabels; value: TValue }>();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly type: 'counter' | 'gauge' | 'histogram',
+    private readonly labelNames: string[],
+  ) {}
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, value));
+    }
+
+    return lines;
+  }
+
+  protected abstract renderSeries(labels: MetricLabels, value: TValue): string[];
+
+  // The same labels always land on the same series, whatever order they were passed in
+  protected seriesKey(labels: MetricLabels): string {
+    const unknown = Object.keys(labels).filter(name => !this.labelNames.includes(name));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown label(s) ${unknown.join(', ')} for metric ${this.name}`);
+    }
+
+    return JSON.stringify(this.labelNames.map(name => labels[name] ?? ''));
+  }
+}
+
+/**
+ * Only ever goes up - requests served, votes cast
+ */
+export class Counter extends LabelledMetric<number> {
+  constructor(name: string, help: string, labelNames: string[] = []) {
+    super(name, help, 'counter', labelNames);
+  }
+
+  inc(labels: MetricLabels = {}, amount = 1): void {
+    const key = this.seriesKey(labels);
+    const current = this.series.get(key);
+    this.series.set(key, { labels, value: (current?.value ?? 0) + amount });
+  }
+
+  protected renderSeries(labels: MetricLabels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${value}`];
+  }
+}
+
+/**
+ * Goes up and down - open connections, a ratio worked out at scrape time
+ */
+export class Gauge extends LabelledMetric<number> {
+  constructor(name: string, help: string, labelNames: string[] = []) {
+    super(name, help, 'gauge', labelNames);
+  }
+
+  set(labels: MetricLabels, value: number): void {
+    this.series.set(this.seriesKey(labels), { labels, value });
+  }
+
+  inc(labels: MetricLabels = {}, amount = 1): void {
+    const key = this.seriesKey(labels);
+    const current = this.series.get(key);
+    this.series.set(key, { labels, value: (current?.value ?? 0) + amount });
+  }
+
+  /**
+   * Drops the series once it's back at 0, so per-poll gauges don't keep a
+   * line for every poll that ever had a listener
+   */
+  dec(labels: MetricLabels = {}, amount = 1): void {
+    const key = this.seriesKey(labels);
+    const value = (this.series.get(key)?.value ?? 0) - amount;
+
+    if (value <= 0) {
+      this.series.delete(key);
+    } else {
+      this.series.set(key, { labels, value });
+    }
+  }
+
+  protected renderSeries(labels: MetricLabels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${value}`];
+  }
+}
+
+interface HistogramValue {
+  bucketCounts: number[]; // one per upper bound, not cumulative - render adds them up
+  sum: number;
+  count: number;
+}
+
+/**
+ * Counts observations into buckets - latencies, mostly
+ */
+export class Histogram extends LabelledMetric<HistogramValue> {
+  constructor(
+    name: string,
+    help: string,
+    labelNames: string[] = [],
+    private readonly buckets: number[] = DEFAULT_DURATION_BUCKETS,
+  ) {
+    super(name, help, 'histogram', labelNames);
+  }
+
+  observe(labels: MetricLabels, value: number): void {
+    const key = this.seriesKey(labels);
+    const current = this.series.get(key) ?? {
+      labels,
+      value: { bucketCounts: this.buckets.map(() => 0), sum: 0, count: 0 },
+    };
+
+    const bucket = this.buckets.findIndex(upperBound => value <= upperBound);
+    if (bucket >= 0) {
+      current.value.bucketCounts[bucket]++;
+    }
+    current.value.sum += value;
+    current.value.count++;
+
+    this.series.set(key, current);
+  }
+
+  /**
+   * Times a promise and records how long it took in seconds, whether it resolved or not
+   */
+  async time<T>(labels: MetricLabels, work: () => Promise<T>): Promise<T> {
+    const start = process.hrtime.bigint();
+
+    try {
+      return await work();
+    } finally {
+      this.observe(labels, Number(process.hrtime.bigint() - start) / 1e9);
+    }
+  }
+
+  protected renderSeries(labels: MetricLabels, value: HistogramValue): string[] {
+    let cumulative = 0;
+    const lines = this.buckets.map((upperBound, i) => {
+      cumulative += value.bucketCounts[i];
+      return `${this.name}_bucket${formatLabels({ ...labels, le: String(upperBound) })} ${cumulative}`;
+    });
+
+    lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`);
+    lines.push(`${this.name}_sum${formatLabels(labels)} ${value.sum}`);
+    lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+
+    return lines;
+  }
+}
+
+/**
+ * A set of metrics that renders in the Prometheus text format (version 0.0.4)
+ *
+ * Deliberately small - just what OneVote needs, without pulling in a client
+ * library. Everything lives in this process's memory, so each instance is
+ * scraped on its own and Prometheus adds them up.
+ */
+export class MetricsRegistry {
+  private readonly metrics: Metric[] = [];
+
+  counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames: string[] = []): Gauge {
+    return this.register(new Gauge(name, help, labelNames));
+  }
+
+  histogram(name: string, help: string, labelNames: string[] = [], buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  render(): string {
+    return this.metrics.map(metric => metric.render().join('\n')).join('\n') + '\n';
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.some(existing => existing.name === metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+// {outcome="success",route="/polls/:id"} - backslashes, quotes and newlines escaped as the format asks
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`,
+  );
+
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
@@ -0,0 +1,72 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ServiceUnavailableException } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { MonitoringController } from './monitoring.controller';
+import { MetricsService } from './metrics.service';
+import { CACHE_STORE } from '../common/cache/cache.store';
+import { ErrorCode } from '../common/errors/error-codes';
+
+describe('MonitoringController', () => {
+  let controller: MonitoringController;
+
+  const mockDataSource = {
+    query: jest.fn(),
+  };
+
+  const mockCache = {
+    stats: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [MonitoringController],
+      providers: [
+        MetricsService,
+        { provide: DataSource, useValue: mockDataSource },
+        { provide: CACHE_STORE, useValue: mockCache },
+      ],
+    }).compile();
+
+    controller = module.get<MonitoringController>(MonitoringController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should report the process as alive without touching the database', () => {
+    expect(controller.getHealth()).toEqual({ status: 'ok', uptimeSeconds: expect.any(Number) });
+    expect(mockDataSource.query).not.toHaveBeenCalled();
+  });
+
+  it('should be ready when the database answers', async () => {
+    mockDataSource.query.mockResolvedValue([{ '?column?': 1 }]);
+
+    const readiness = await controller.getReadiness();
+
+    expect(readiness.status).toBe('ok');
+    expect(readiness.checks.database.status).toBe('up');
+  });
+
+  it('should answer 503 with the failed check when the database is down', async () => {
+    mockDataSource.query.mockRejectedValue(new Error('connect ECONNREFUSED 127.0.0.1:5432'));
+
+    const error = await controller.getReadiness().catch(e => e);
+
+    expect(error).toBeInstanceOf(ServiceUnavailableException);
+    expect(error.getResponse()).toMatchObject({
+      code: ErrorCode.SERVICE_UNAVAILABLE,
+      checks: { database: { status: 'down', error: 'connect ECONNREFUSED 127.0.0.1:5432' } },
+    });
+  });
+
+  it('should work out the cache hit ratio when scraped', async () => {
+    mockCache.stats.mockResolvedValue({ hits: 3, misses: 1 });
+
+    const metrics = await controller.getMetrics();
+
+    expect(metrics).toContain('# TYPE onevote_results_cache_hit_ratio gauge');
+    expect(metrics).toContain('onevote_results_cache_hit_ratio 0.75');
+    expect(metrics).toContain('# TYPE onevote_http_request_duration_seconds histogram');
+  });
+});
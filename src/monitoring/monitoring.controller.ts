@@ -0,0 +1,107 @@
+import {
+  Controller,
+  Get,
+  Header,
+  Inject,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiProduces } from '@nestjs/swagger';
+import { DataSource } from 'typeorm';
+import { MetricsService } from './metrics.service';
+import { HealthDto, ReadinessDto, DependencyCheckDto } from './dtos/health-response.dto';
+import { CACHE_STORE, CacheStore } from '../common/cache/cache.store';
+import { ErrorCode, coded } from '../common/errors/error-codes';
+
+/**
+ * Endpoints for whatever runs OneVote - orchestrator probes and Prometheus
+ *
+ * /health only says the process is up (restart it if this stops answering),
+ * /ready also checks the database (stop sending traffic if this fails).
+ */
+@ApiTags('monitoring')
+@Controller()
+export class MonitoringController {
+  private readonly logger = new Logger(MonitoringController.name);
+
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly metrics: MetricsService,
+    @Inject(CACHE_STORE) private readonly cache: CacheStore,
+  ) {}
+
+  // Liveness probe
+  @Get('health')
+  @ApiOperation({
+    summary: 'Liveness check',
+    description: 'Answers as long as the process is running. Does not touch the database.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Process is alive',
+    type: HealthDto,
+  })
+  getHealth(): HealthDto {
+    return { status: 'ok', uptimeSeconds: Math.round(process.uptime()) };
+  }
+
+  // Readiness probe
+  @Get('ready')
+  @ApiOperation({
+    summary: 'Readiness check',
+    description: 'Runs a trivial query against the database. Answers 503 with the failed check when it can\'t.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Ready to take traffic',
+    type: ReadinessDto,
+  })
+  @ApiResponse({
+    status: 503,
+    description: 'A dependency is down - SERVICE_UNAVAILABLE, with the failed check under `checks`',
+  })
+  async getReadiness(): Promise<ReadinessDto> {
+    const database = await this.checkDatabase();
+
+    if (database.status === 'down') {
+      this.logger.warn(`Not ready - database check failed: ${database.error}`);
+      throw new ServiceUnavailableException(coded(ErrorCode.SERVICE_UNAVAILABLE, 'Database check failed', { checks: { database } }));
+    }
+
+    return { status: 'ok', checks: { database } };
+  }
+
+  // Prometheus scrape target
+  @Get('metrics')
+  @Header('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+  @ApiProduces('text/plain')
+  @ApiOperation({
+    summary: 'Prometheus metrics',
+    description: 'Vote outcomes, open SSE streams per poll, results computation and HTTP latency, and the results cache hit ratio, in the Prometheus text format',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Metrics in Prometheus text format',
+  })
+  async getMetrics(): Promise<string> {
+    // The cache keeps its own counters - turn them into a ratio at scrape time
+    const stats = await this.cache.stats();
+    const lookups = stats.hits + stats.misses;
+    this.metrics.resultsCacheHitRatio.set({}, lookups > 0 ? stats.hits / lookups : 0);
+
+    return this.metrics.registry.render();
+  }
+
+  // --- Private helpers ---
+
+  private async checkDatabase(): Promise<DependencyCheckDto> {
+    const startTime = Date.now();
+
+    try {
+      await this.dataSource.query('SELECT 1');
+      return { status: 'up', latencyMs: Date.now() - startTime };
+    } catch (error) {
+      return { status: 'down', latencyMs: Date.now() - startTime, error: error.message };
+    }
+  }
+}
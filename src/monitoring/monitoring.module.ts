@@ -0,0 +1,12 @@
+import { Global, Module } from '@nestjs/common';
+import { MetricsService } from './metrics.service';
+import { MonitoringController } from './monitoring.controller';
+
+// Global so any service can inject MetricsService without importing this module
+@Global()
+@Module({
+  controllers: [MonitoringController],
+  providers: [MetricsService],
+  exports: [MetricsService],
+})
+export class MonitoringModule {}
@@ -0,0 +1,100 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Inject,
+  Param,
+  Logger,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+} from '@nestjs/swagger';
+import { VoteCountersService } from '../results/vote-counters.service';
+import { VoteCountersRebuildDto } from '../dtos/vote-counters-rebuild.dto';
+import { CacheStatsDto } from '../dtos/cache-stats.dto';
+import { RequireAdmin } from '../../common/auth/admin.decorators';
+import { CACHE_STORE, CacheStore } from '../../common/cache/cache.store';
+
+@ApiTags('admin')
+@Controller('admin')
+@RequireAdmin()
+export class AdminController {
+  private readonly logger = new Logger(AdminController.name);
+
+  constructor(
+    private readonly voteCountersService: VoteCountersService,
+    @Inject(CACHE_STORE) private readonly cache: CacheStore,
+  ) {}
+
+  // Recount every poll from the votes table
+  @Post('vote-counters/rebuild')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Rebuild all vote counters',
+    description: 'Throws away the vote counters behind the results and counts every poll again from the stored ballots, one poll at a time. Only needed if the database was edited by hand.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Counters rebuilt',
+    type: VoteCountersRebuildDto,
+  })
+  async rebuildAllVoteCounters(): Promise<VoteCountersRebuildDto> {
+    this.logger.log('POST /admin/vote-counters/rebuild - Rebuilding all vote counters');
+    return this.voteCountersService.rebuildAll();
+  }
+
+  // Recount one poll
+  @Post('polls/:id/vote-counters/rebuild')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Rebuild one poll\'s vote counters',
+    description: 'Counts a single poll again from its stored ballots',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Poll UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Counters rebuilt',
+    type: VoteCountersRebuildDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Poll not found',
+  })
+  async rebuildVoteCounters(@Param('id', ParseUUIDPipe) pollId: string): Promise<VoteCountersRebuildDto> {
+    this.logger.log(`POST /admin/polls/${pollId}/vote-counters/rebuild - Rebuilding vote counters`);
+    return this.voteCountersService.rebuild(pollId);
+  }
+
+  // How well the results cache is doing
+  @Get('cache/stats')
+  @ApiOperation({
+    summary: 'Get results cache statistics',
+    description: 'Size, hits, misses, evictions and expirations of the results cache since this instance started',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Cache statistics',
+    type: CacheStatsDto,
+  })
+  async getCacheStats(): Promise<CacheStatsDto> {
+    this.logger.log('GET /admin/cache/stats - Fetching cache statistics');
+
+    const stats = await this.cache.stats();
+    const lookups = stats.hits + stats.misses;
+
+    return {
+      ...stats,
+      hitRate: lookups > 0 ? Math.round((stats.hits / lookups) * 10000) / 100 : 0,
+    };
+  }
+}
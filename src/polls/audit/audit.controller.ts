@@ -0,0 +1,77 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+} from '@nestjs/swagger';
+import { VoteLedgerService } from './vote-ledger.service';
+import { LedgerHeadDto, LedgerVerificationDto } from '../dtos/audit-response.dto';
+
+@ApiTags('polls')
+@Controller('polls')
+export class AuditController {
+  private readonly logger = new Logger(AuditController.name);
+
+  constructor(private readonly voteLedgerService: VoteLedgerService) {}
+
+  // Latest ledger hash for a poll
+  @Get(':id/audit')
+  @ApiOperation({
+    summary: 'Get the vote ledger head',
+    description: 'Returns the hash of the latest ledger entry and how many entries there are. Publish the head hash so later tampering can be spotted.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Poll UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Ledger head',
+    type: LedgerHeadDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Poll not found',
+  })
+  async getAuditHead(@Param('id', ParseUUIDPipe) pollId: string): Promise<LedgerHeadDto> {
+    this.logger.log(`GET /polls/${pollId}/audit - Fetching ledger head`);
+    return this.voteLedgerService.getHead(pollId);
+  }
+
+  // Recompute the whole chain
+  @Post(':id/audit/verify')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Verify the vote ledger',
+    description: 'Recomputes every hash in the ledger and checks the stored votes against it. Reports the first entry where the chain breaks.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Poll UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Verification report (check "valid")',
+    type: LedgerVerificationDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Poll not found',
+  })
+  async verifyLedger(@Param('id', ParseUUIDPipe) pollId: string): Promise<LedgerVerificationDto> {
+    this.logger.log(`POST /polls/${pollId}/audit/verify - Verifying ledger`);
+    return this.voteLedgerService.verify(pollId);
+  }
+}
@@ -0,0 +1,32 @@
+import { createHash } from 'crypto';
+import { VoteLedgerEntry } from '../entities/vote-ledger-entry.entity';
+
+// What the first entry of every chain points back to
+export const GENESIS_HASH = '0'.repeat(64);
+
+export type LedgerHashInput = Pick<
+  VoteLedgerEntry,
+  'pollId' | 'sequence' | 'action' | 'voteId' | 'userUuid' | 'optionIds' | 'recordedAt' | 'previousHash' | 'castAt'
+>;
+
+/**
+ * SHA-256 over an entry's fields and the previous hash
+ * An array keeps the field order fixed, so the same entry always hashes the same.
+ * castAt goes last and only when there is one - entries from before it was
+ * recorded were hashed without it and have to keep verifying.
+ */
+export function computeLedgerHash(entry: LedgerHashInput): string {
+  const payload = JSON.stringify([
+    entry.pollId,
+    entry.sequence,
+    entry.action,
+    entry.voteId,
+    entry.userUuid,
+    entry.optionIds,
+    entry.recordedAt,
+    entry.previousHash,
+    ...(entry.castAt ? [entry.castAt] : []),
+  ]);
+
+  return createHash('sha256').update(payload).digest('hex');
+}
@@ -0,0 +1,248 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Repository, EntityManager } from 'typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { VoteLedgerService } from './vote-ledger.service';
+import { computeLedgerHash, GENESIS_HASH } from './ledger-hash';
+import { Poll } from '../entities/poll.entity';
+import { Vote } from '../entities/vote.entity';
+import { VoteChoice } from '../entities/vote-choice.entity';
+import { VoteLedgerEntry, LedgerAction } from '../entities/vote-ledger-entry.entity';
+
+describe('VoteLedgerService', () => {
+  let service: VoteLedgerService;
+  let pollRepository: Repository<Poll>;
+  let ledgerRepository: Repository<VoteLedgerEntry>;
+  let voteRepository: Repository<Vote>;
+  let choiceRepository: Repository<VoteChoice>;
+
+  const pollId = '123e4567-e89b-12d3-a456-426614174000';
+  const castAt = new Date(Date.UTC(2024, 0, 1, 0, 0, 0));
+
+  // Builds a properly chained ledger from a list of (action, voteId, optionIds)
+  const buildChain = (steps: [LedgerAction, string, string[]][]): VoteLedgerEntry[] => {
+    let previousHash = GENESIS_HASH;
+    return steps.map(([action, voteId, optionIds], index) => {
+      const entry = {
+        id: `entry-${index + 1}`,
+        pollId,
+        sequence: index + 1,
+        action,
+        voteId,
+        userUuid: `user-${voteId}`,
+        optionIds,
+        recordedAt: new Date(Date.UTC(2024, 0, 1, 0, 0, index)).toISOString(),
+        previousHash,
+        castAt: action === 'retract' ? null : castAt.toISOString(),
+      } as VoteLedgerEntry;
+      entry.hash = computeLedgerHash(entry);
+      previousHash = entry.hash;
+      return entry;
+    });
+  };
+
+  const storedVote = (id: string, optionId: string) => ({ id, pollId, userUuid: `user-${id}`, optionId, createdAt: castAt }) as Vote;
+
+  const mockStorage = (entries: VoteLedgerEntry[], votes: Vote[]) => {
+    jest.spyOn(ledgerRepository, 'find').mockResolvedValueOnce(entries).mockResolvedValue([]);
+    jest.spyOn(voteRepository, 'find').mockResolvedValueOnce(votes).mockResolvedValue([]);
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VoteLedgerService,
+        {
+          provide: getRepositoryToken(Poll),
+          useValue: {
+            findOne: jest.fn().mockResolvedValue({ id: pollId }),
+          },
+        },
+        {
+          provide: getRepositoryToken(VoteLedgerEntry),
+          useValue: {
+            find: jest.fn(),
+            findOne: jest.fn(),
+            count: jest.fn(),
+          },
+        },
+        {
+          provide: getRepositoryToken(Vote),
+          useValue: {
+            find: jest.fn(),
+          },
+        },
+        {
+          provide: getRepositoryToken(VoteChoice),
+          useValue: {
+            find: jest.fn().mockResolvedValue([]),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<VoteLedgerService>(VoteLedgerService);
+    pollRepository = module.get<Repository<Poll>>(getRepositoryToken(Poll));
+    ledgerRepository = module.get<Repository<VoteLedgerEntry>>(getRepositoryToken(VoteLedgerEntry));
+    voteRepository = module.get<Repository<Vote>>(getRepositoryToken(Vote));
+    choiceRepository = module.get<Repository<VoteChoice>>(getRepositoryToken(VoteChoice));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('append', () => {
+    it('should chain the new entry onto the previous one', async () => {
+      const [previous] = buildChain([['cast', 'vote-1', ['option1']]]);
+      const manager = {
+        findOne: jest.fn().mockResolvedValue(previous),
+        create: jest.fn((_entity, data) => data),
+        save: jest.fn(async data => data),
+      } as unknown as EntityManager;
+
+      const entry = await service.append(manager, pollId, 'cast', { id: 'vote-2', userUuid: 'user-2', createdAt: castAt }, ['option2']);
+
+      expect(entry.sequence).toBe(2);
+      expect(entry.previousHash).toBe(previous.hash);
+      expect(entry.castAt).toBe(castAt.toISOString());
+      expect(entry.hash).toBe(computeLedgerHash(entry));
+    });
+
+    it('should start a new chain from the genesis hash', async () => {
+      const manager = {
+        findOne: jest.fn().mockResolvedValue(null),
+        create: jest.fn((_entity, data) => data),
+        save: jest.fn(async data => data),
+      } as unknown as EntityManager;
+
+      const entry = await service.append(manager, pollId, 'cast', { id: 'vote-1', userUuid: 'user-1', createdAt: castAt }, ['option1']);
+
+      expect(entry.sequence).toBe(1);
+      expect(entry.previousHash).toBe(GENESIS_HASH);
+    });
+  });
+
+  describe('verify', () => {
+    it('should pass an intact chain that matches the stored votes', async () => {
+      const entries = buildChain([
+        ['cast', 'vote-1', ['option1']],
+        ['cast', 'vote-2', ['option1']],
+        ['change', 'vote-2', ['option2']],
+        ['cast', 'vote-3', ['option1']],
+        ['retract', 'vote-3', []],
+      ]);
+      mockStorage(entries, [storedVote('vote-1', 'option1'), storedVote('vote-2', 'option2')]);
+
+      const result = await service.verify(pollId);
+
+      expect(result.valid).toBe(true);
+      expect(result.entriesChecked).toBe(5);
+      expect(result.headHash).toBe(entries[4].hash);
+      expect(result.brokenAt).toBeNull();
+    });
+
+    it('should point at an entry whose contents were edited', async () => {
+      const entries = buildChain([
+        ['cast', 'vote-1', ['option1']],
+        ['cast', 'vote-2', ['option1']],
+        ['cast', 'vote-3', ['option1']],
+      ]);
+      entries[1].optionIds = ['option2'];
+      mockStorage(entries, []);
+
+      const result = await service.verify(pollId);
+
+      expect(result.valid).toBe(false);
+      expect(result.brokenAt).toEqual(expect.objectContaining({ sequence: 2, entryId: 'entry-2' }));
+    });
+
+    it('should notice entries removed from the middle of the chain', async () => {
+      const entries = buildChain([
+        ['cast', 'vote-1', ['option1']],
+        ['cast', 'vote-2', ['option1']],
+        ['cast', 'vote-3', ['option1']],
+      ]);
+      mockStorage([entries[0], entries[2]], []);
+
+      const result = await service.verify(pollId);
+
+      expect(result.valid).toBe(false);
+      expect(result.brokenAt.sequence).toBe(3);
+    });
+
+    it('should catch a vote edited in the votes table', async () => {
+      const entries = buildChain([['cast', 'vote-1', ['option1']]]);
+      mockStorage(entries, [storedVote('vote-1', 'option2')]);
+
+      const result = await service.verify(pollId);
+
+      expect(result.valid).toBe(false);
+      expect(result.brokenAt).toEqual(expect.objectContaining({ sequence: 1, voteId: 'vote-1' }));
+    });
+
+    it('should catch a first preference edited on a ranked ballot', async () => {
+      const entries = buildChain([['cast', 'vote-1', ['option1', 'option2']]]);
+      // The choice rows still match - only the column the counts read was changed
+      mockStorage(entries, [storedVote('vote-1', 'option2')]);
+      jest.spyOn(choiceRepository, 'find').mockResolvedValueOnce([
+        { voteId: 'vote-1', optionId: 'option1', rank: 1 },
+        { voteId: 'vote-1', optionId: 'option2', rank: 2 },
+      ] as VoteChoice[]);
+
+      const result = await service.verify(pollId);
+
+      expect(result.valid).toBe(false);
+      expect(result.brokenAt).toEqual(expect.objectContaining({ sequence: 1, voteId: 'vote-1' }));
+    });
+
+    it('should catch a ballot whose cast time was moved', async () => {
+      const entries = buildChain([['cast', 'vote-1', ['option1']]]);
+      mockStorage(entries, [{ ...storedVote('vote-1', 'option1'), createdAt: new Date(Date.UTC(2023, 11, 31)) } as Vote]);
+
+      const result = await service.verify(pollId);
+
+      expect(result.valid).toBe(false);
+      expect(result.brokenAt.reason).toBe('Stored vote does not match its latest ledger entry');
+    });
+
+    it('should still verify entries written before the cast time was recorded', async () => {
+      const [entry] = buildChain([['cast', 'vote-1', ['option1']]]);
+      const olderEntry = { ...entry, castAt: null } as VoteLedgerEntry;
+      olderEntry.hash = computeLedgerHash(olderEntry);
+      mockStorage([olderEntry], [storedVote('vote-1', 'option1')]);
+
+      const result = await service.verify(pollId);
+
+      expect(result.valid).toBe(true);
+    });
+
+    it('should catch a vote deleted from the votes table', async () => {
+      const entries = buildChain([
+        ['cast', 'vote-1', ['option1']],
+        ['cast', 'vote-2', ['option2']],
+      ]);
+      mockStorage(entries, [storedVote('vote-1', 'option1')]);
+
+      const result = await service.verify(pollId);
+
+      expect(result.valid).toBe(false);
+      expect(result.brokenAt).toEqual(expect.objectContaining({ sequence: 2, voteId: 'vote-2' }));
+    });
+
+    it('should catch a vote slipped in without a ledger entry', async () => {
+      mockStorage([], [storedVote('vote-9', 'option1')]);
+
+      const result = await service.verify(pollId);
+
+      expect(result.valid).toBe(false);
+      expect(result.brokenAt).toEqual(expect.objectContaining({ sequence: null, voteId: 'vote-9' }));
+    });
+
+    it('should throw NotFoundException when the poll does not exist', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(null);
+
+      await expect(service.verify(pollId)).rejects.toThrow(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,294 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, EntityManager, MoreThan, In } from 'typeorm';
+import { Poll } from '../entities/poll.entity';
+import { Vote } from '../entities/vote.entity';
+import { VoteChoice } from '../entities/vote-choice.entity';
+import { VoteLedgerEntry, LedgerAction } from '../entities/vote-ledger-entry.entity';
+import { LedgerHeadDto, LedgerVerificationDto, LedgerBreakDto } from '../dtos/audit-response.dto';
+import { ErrorCode, coded } from '../../common/errors/error-codes';
+import { GENESIS_HASH, LedgerHashInput, computeLedgerHash } from './ledger-hash';
+
+// A ballot as the ledger says it should look right now
+interface ExpectedBallot {
+  userUuid: string;
+  optionIds: string[];
+  castAt: string | null;
+  sequence: number;
+  entryId: string;
+}
+
+/**
+ * Append-only hash chain of everything that happens to ballots
+ *
+ * Every cast, change and withdrawal adds an entry inside the same
+ * transaction as the vote itself, so the ledger and the votes table can't
+ * drift apart through the API. Anyone editing the database directly has
+ * to rewrite every later hash too - and if the head hash was published,
+ * even that shows up.
+ *
+ * Verification replays the whole chain and then checks the votes table
+ * against it, both a batch at a time.
+ */
+@Injectable()
+export class VoteLedgerService {
+  private readonly logger = new Logger(VoteLedgerService.name);
+
+  // How many entries/votes to load per query while verifying
+  private readonly batchSize = 500;
+
+  constructor(
+    @InjectRepository(Poll)
+    private readonly pollRepository: Repository<Poll>,
+
+    @InjectRepository(VoteLedgerEntry)
+    private readonly ledgerRepository: Repository<VoteLedgerEntry>,
+
+    @InjectRepository(Vote)
+    private readonly voteRepository: Repository<Vote>,
+
+    @InjectRepository(VoteChoice)
+    private readonly choiceRepository: Repository<VoteChoice>,
+  ) {}
+
+  /**
+   * Adds an entry for a ballot change - call it inside the vote's transaction
+   * If the transaction rolls back, so does the entry
+   */
+  async append(
+    manager: EntityManager,
+    pollId: string,
+    action: LedgerAction,
+    vote: Pick<Vote, 'id' | 'userUuid' | 'createdAt'>,
+    optionIds: string[],
+  ): Promise<VoteLedgerEntry> {
+    // Postgres runs vote transactions side by side, so lock the poll row first -
+    // otherwise two ballots can read the same head and fight over its sequence number.
+    // (SQLite only ever has one writer, and has no row locks to take anyway.)
+    if (manager.connection?.options.type === 'postgres') {
+      await manager
+        .createQueryBuilder(Poll, 'poll')
+        .select('poll.id')
+        .where('poll.id = :pollId', { pollId })
+        .setLock('for_no_key_update')
+        .getOne();
+    }
+
+    const previous = await manager.findOne(VoteLedgerEntry, {
+      where: { pollId },
+      order: { sequence: 'DESC' },
+    });
+
+    const entry: LedgerHashInput = {
+      pollId,
+      sequence: previous ? previous.sequence + 1 : 1,
+      action,
+      voteId: vote.id,
+      userUuid: vote.userUuid,
+      optionIds,
+      recordedAt: new Date().toISOString(),
+      previousHash: previous ? previous.hash : GENESIS_HASH,
+      castAt: action === 'retract' ? null : vote.createdAt.toISOString(),
+    };
+
+    return manager.save(manager.create(VoteLedgerEntry, { ...entry, hash: computeLedgerHash(entry) }));
+  }
+
+  /**
+   * The latest entry - the one hash that vouches for everything before it
+   */
+  async getHead(pollId: string): Promise<LedgerHeadDto> {
+    await this.validatePollExists(pollId);
+
+    const [head, length] = await Promise.all([
+      this.ledgerRepository.findOne({ where: { pollId }, order: { sequence: 'DESC' } }),
+      this.ledgerRepository.count({ where: { pollId } }),
+    ]);
+
+    return {
+      pollId,
+      length,
+      headHash: head ? head.hash : null,
+      lastRecordedAt: head ? head.recordedAt : null,
+    };
+  }
+
+  /**
+   * Recomputes the chain and checks the stored ballots against it
+   *
+   * Stops at the first problem and says exactly where it is:
+   * - an entry whose hash doesn't match its contents (edited)
+   * - an entry that doesn't point at the one before it, or a gap in the
+   *   sequence numbers (entries removed or reordered)
+   * - a ballot in the votes table that differs from the ledger (options,
+   *   first preference or cast time), isn't in it at all, or is missing
+   *   even though the ledger says it exists
+   */
+  async verify(pollId: string): Promise<LedgerVerificationDto> {
+    await this.validatePollExists(pollId);
+
+    const expected = new Map<string, ExpectedBallot>();
+    let previousHash = GENESIS_HASH;
+    let lastSequence = 0;
+
+    const result = (brokenAt: LedgerBreakDto | null): LedgerVerificationDto => ({
+      pollId,
+      valid: brokenAt === null,
+      entriesChecked: lastSequence,
+      headHash: lastSequence > 0 ? previousHash : null,
+      brokenAt,
+    });
+
+    // Step 1: walk the chain in order
+    while (true) {
+      const entries = await this.ledgerRepository.find({
+        where: { pollId, sequence: MoreThan(lastSequence) },
+        order: { sequence: 'ASC' },
+        take: this.batchSize,
+      });
+
+      for (const entry of entries) {
+        const brokenAt = this.checkEntry(entry, lastSequence + 1, previousHash);
+        if (brokenAt) {
+          this.logger.warn(`Ledger for poll ${pollId} breaks at entry ${entry.sequence}: ${brokenAt.reason}`);
+          return result(brokenAt);
+        }
+
+        if (entry.action === 'retract') {
+          expected.delete(entry.voteId);
+        } else {
+          expected.set(entry.voteId, {
+            userUuid: entry.userUuid,
+            optionIds: entry.optionIds,
+            castAt: entry.castAt ?? null,
+            sequence: entry.sequence,
+            entryId: entry.id,
+          });
+        }
+
+        previousHash = entry.hash;
+        lastSequence = entry.sequence;
+      }
+
+      if (entries.length < this.batchSize) {
+        break;
+      }
+    }
+
+    // Step 2: the votes table has to match what the chain says
+    const brokenAt = await this.checkStoredVotes(pollId, expected);
+    if (brokenAt) {
+      this.logger.warn(`Votes for poll ${pollId} don't match the ledger: ${brokenAt.reason}`);
+    }
+
+    return result(brokenAt);
+  }
+
+  // --- Private helpers ---
+
+  private async validatePollExists(pollId: string): Promise<void> {
+    const poll = await this.pollRepository.findOne({ where: { id: pollId } });
+    if (!poll) {
+      throw new NotFoundException(coded(ErrorCode.POLL_NOT_FOUND, `Poll with ID ${pollId} not found`));
+    }
+  }
+
+  /**
+   * Checks one entry against its position in the chain
+   */
+  private checkEntry(entry: VoteLedgerEntry, expectedSequence: number, previousHash: string): LedgerBreakDto | null {
+    const breakAt = (reason: string): LedgerBreakDto => ({
+      sequence: entry.sequence,
+      entryId: entry.id,
+      voteId: entry.voteId,
+      reason,
+    });
+
+    if (entry.sequence !== expectedSequence) {
+      return breakAt(`Expected entry ${expectedSequence} next - entries are missing`);
+    }
+    if (entry.previousHash !== previousHash) {
+      return breakAt('Entry does not point at the hash of the entry before it');
+    }
+    if (computeLedgerHash(entry) !== entry.hash) {
+      return breakAt('Entry hash does not match its contents');
+    }
+
+    return null;
+  }
+
+  /**
+   * Compares every stored ballot with the replayed ledger, a batch at a time
+   */
+  private async checkStoredVotes(pollId: string, expected: Map<string, ExpectedBallot>): Promise<LedgerBreakDto | null> {
+    let lastVoteId: string | null = null;
+
+    while (true) {
+      const votes = await this.voteRepository.find({
+        // No lower bound on the first batch ('' isn't a valid uuid on Postgres)
+        where: lastVoteId ? { pollId, id: MoreThan(lastVoteId) } : { pollId },
+        order: { id: 'ASC' },
+        take: this.batchSize,
+      });
+
+      const choices = votes.length > 0
+        ? await this.choiceRepository.find({
+          where: { voteId: In(votes.map(vote => vote.id)) },
+          order: { rank: 'ASC' },
+        })
+        : [];
+
+      const choicesByVote = new Map<string, string[]>();
+      choices.forEach(choice => {
+        const list = choicesByVote.get(choice.voteId) ?? [];
+        list.push(choice.optionId);
+        choicesByVote.set(choice.voteId, list);
+      });
+
+      for (const vote of votes) {
+        const ballot = expected.get(vote.id);
+        if (!ballot) {
+          return { sequence: null, entryId: null, voteId: vote.id, reason: 'Vote is not recorded in the ledger' };
+        }
+
+        // Plurality ballots have no choice rows - the vote's own option is the whole ballot.
+        // Counts and results take the first preference from optionId, so it has to agree too
+        const optionIds = choicesByVote.get(vote.id) ?? [vote.optionId];
+        const matches = vote.userUuid === ballot.userUuid
+          && optionIds.join(',') === ballot.optionIds.join(',')
+          && vote.optionId === ballot.optionIds[0]
+          && (ballot.castAt === null || vote.createdAt.toISOString() === ballot.castAt);
+
+        if (!matches) {
+          return {
+            sequence: ballot.sequence,
+            entryId: ballot.entryId,
+            voteId: vote.id,
+            reason: 'Stored vote does not match its latest ledger entry',
+          };
+        }
+
+        expected.delete(vote.id);
+      }
+
+      if (votes.length < this.batchSize) {
+        break;
+      }
+      lastVoteId = votes[votes.length - 1].id;
+    }
+
+    // Whatever is left was in the ledger but isn't in the votes table anymore
+    const missing = [...expected.entries()].sort(([, a], [, b]) => a.sequence - b.sequence)[0];
+    if (missing) {
+      const [voteId, ballot] = missing;
+      return {
+        sequence: ballot.sequence,
+        entryId: ballot.entryId,
+        voteId,
+        reason: 'Vote recorded in the ledger is missing from the votes table',
+      };
+    }
+
+    return null;
+  }
+}
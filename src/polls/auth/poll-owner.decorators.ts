@@ -0,0 +1,28 @@
+import { applyDecorators, createParamDecorator, ExecutionContext, SetMetadata, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiResponse } from '@nestjs/swagger';
+import { PollOwnerGuard, PollOwnerRequest, POLL_OWNER_OPTIONAL_KEY } from './poll-owner.guard';
+
+// Owner-only endpoint: the management token must be sent and must match
+export function RequirePollOwner() {
+  return applyDecorators(
+    UseGuards(PollOwnerGuard),
+    ApiBearerAuth('management-token'),
+    ApiResponse({ status: 401, description: 'Management token missing' }),
+    ApiResponse({ status: 403, description: 'Management token does not match this poll' }),
+  );
+}
+
+// Public endpoint where the owner gets extra powers if they send their token
+export function AllowPollOwner() {
+  return applyDecorators(
+    SetMetadata(POLL_OWNER_OPTIONAL_KEY, true),
+    UseGuards(PollOwnerGuard),
+    ApiBearerAuth('management-token'),
+  );
+}
+
+// Injects true when the request was made by the poll's owner
+export const IsPollOwner = createParamDecorator((_data: unknown, context: ExecutionContext): boolean => {
+  const request = context.switchToHttp().getRequest<PollOwnerRequest>();
+  return request.isPollOwner === true;
+});
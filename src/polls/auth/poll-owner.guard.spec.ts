@@ -0,0 +1,90 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ExecutionContext, BadRequestException, ForbiddenException, UnauthorizedException, NotFoundException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Repository } from 'typeorm';
+import { PollOwnerGuard } from './poll-owner.guard';
+import { hashSecretToken } from './secret-token';
+import { Poll } from '../entities/poll.entity';
+
+describe('PollOwnerGuard', () => {
+  let guard: PollOwnerGuard;
+  let pollRepository: Repository<Poll>;
+  let reflector: Reflector;
+
+  const pollId = '123e4567-e89b-12d3-a456-426614174000';
+  const ownedPoll = { id: pollId, managementTokenHash: hashSecretToken('secret-token') };
+
+  // Builds just enough of an ExecutionContext for the guard to read the request
+  const buildContext = (request: any): ExecutionContext => ({
+    switchToHttp: () => ({ getRequest: () => request }),
+    getHandler: () => jest.fn(),
+    getClass: () => jest.fn(),
+  }) as any;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PollOwnerGuard,
+        Reflector,
+        {
+          provide: getRepositoryToken(Poll),
+          useValue: {
+            findOne: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    guard = module.get<PollOwnerGuard>(PollOwnerGuard);
+    pollRepository = module.get<Repository<Poll>>(getRepositoryToken(Poll));
+    reflector = module.get<Reflector>(Reflector);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should let the owner through and flag the request', async () => {
+    jest.spyOn(pollRepository, 'findOne').mockResolvedValue(ownedPoll as Poll);
+    const request = { params: { id: pollId }, headers: { authorization: 'Bearer secret-token' } };
+
+    await expect(guard.canActivate(buildContext(request))).resolves.toBe(true);
+    expect(request['isPollOwner']).toBe(true);
+  });
+
+  it('should reject requests without a token', async () => {
+    const request = { params: { id: pollId }, headers: {} };
+
+    await expect(guard.canActivate(buildContext(request))).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('should reject the wrong token', async () => {
+    jest.spyOn(pollRepository, 'findOne').mockResolvedValue(ownedPoll as Poll);
+    const request = { params: { id: pollId }, headers: { authorization: 'Bearer wrong-token' } };
+
+    await expect(guard.canActivate(buildContext(request))).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should 404 when the poll does not exist', async () => {
+    jest.spyOn(pollRepository, 'findOne').mockResolvedValue(null);
+    const request = { params: { id: pollId }, headers: { authorization: 'Bearer secret-token' } };
+
+    await expect(guard.canActivate(buildContext(request))).rejects.toThrow(NotFoundException);
+  });
+
+  it('should 400 on a poll ID that is not a UUID without looking it up', async () => {
+    const request = { params: { id: 'not-a-uuid' }, headers: { authorization: 'Bearer secret-token' } };
+
+    await expect(guard.canActivate(buildContext(request))).rejects.toThrow(BadRequestException);
+    expect(pollRepository.findOne).not.toHaveBeenCalled();
+  });
+
+  it('should let anonymous requests through on optional endpoints', async () => {
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(true);
+    const request = { params: { id: pollId }, headers: {} };
+
+    await expect(guard.canActivate(buildContext(request))).resolves.toBe(true);
+    expect(request['isPollOwner']).toBe(false);
+  });
+});
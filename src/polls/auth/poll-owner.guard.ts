@@ -0,0 +1,101 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+  UnauthorizedException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Request } from 'express';
+import { isUUID } from 'class-validator';
+import { Poll } from '../entities/poll.entity';
+import { secretTokenMatches } from './secret-token';
+import { ErrorCode, coded } from '../../common/errors/error-codes';
+
+export const POLL_OWNER_OPTIONAL_KEY = 'pollOwnerOptional';
+
+// Requests that passed through the guard carry this flag
+export interface PollOwnerRequest extends Request {
+  isPollOwner?: boolean;
+}
+
+/**
+ * Checks the poll's management token on owner-only endpoints
+ *
+ * The token comes in as "Authorization: Bearer <token>" and is checked
+ * against the hash stored on the poll in the :id route param.
+ *
+ * On endpoints marked optional (e.g. results), anyone gets through but only
+ * the owner is flagged as such - that's how owners see hidden results early.
+ */
+@Injectable()
+export class PollOwnerGuard implements CanActivate {
+  private readonly logger = new Logger(PollOwnerGuard.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    @InjectRepository(Poll)
+    private readonly pollRepository: Repository<Poll>,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<PollOwnerRequest>();
+    const optional = this.reflector.getAllAndOverride<boolean>(POLL_OWNER_OPTIONAL_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    request.isPollOwner = false;
+    const pollId = request.params.id;
+    const token = this.extractToken(request);
+
+    if (!token) {
+      if (optional) {
+        return true;
+      }
+      throw new UnauthorizedException(coded(ErrorCode.MANAGEMENT_TOKEN_REQUIRED, 'Management token required - send it as "Authorization: Bearer <token>"'));
+    }
+
+    // Guards run before ParseUUIDPipe, and Postgres errors on a non-UUID id -
+    // answer with the same 400 the pipe would have
+    if (!isUUID(pollId)) {
+      throw new BadRequestException(coded(ErrorCode.BAD_REQUEST, 'Validation failed (uuid is expected)'));
+    }
+
+    const poll = await this.pollRepository.findOne({
+      where: { id: pollId },
+      select: { id: true, managementTokenHash: true },
+    });
+
+    if (!poll) {
+      // Let the handler produce its usual 404 for optional endpoints
+      if (optional) {
+        return true;
+      }
+      throw new NotFoundException(coded(ErrorCode.POLL_NOT_FOUND, `Poll with ID ${pollId} not found`));
+    }
+
+    if (!poll.managementTokenHash || !secretTokenMatches(token, poll.managementTokenHash)) {
+      this.logger.warn(`Invalid management token for poll ${pollId}`);
+      throw new ForbiddenException(coded(ErrorCode.MANAGEMENT_TOKEN_INVALID, 'Invalid management token for this poll'));
+    }
+
+    request.isPollOwner = true;
+    return true;
+  }
+
+  private extractToken(request: Request): string | null {
+    const header = request.headers.authorization;
+    if (!header) {
+      return null;
+    }
+
+    const [scheme, token] = header.split(' ');
+    return scheme === 'Bearer' && token ? token : null;
+  }
+}
@@ -0,0 +1,19 @@
+import { randomBytes, createHash, timingSafeEqual } from 'crypto';
+
+// Helpers for the secrets we hand out (management tokens, voter tokens).
+// We only ever store the SHA-256 hash - the token itself is shown once, when issued.
+
+export function generateSecretToken(bytes = 32): string {
+  return randomBytes(bytes).toString('base64url');
+}
+
+export function hashSecretToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Constant-time comparison so response timing doesn't leak how close a guess was
+export function secretTokenMatches(token: string, expectedHash: string): boolean {
+  const actual = Buffer.from(hashSecretToken(token), 'hex');
+  const expected = Buffer.from(expectedHash, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,55 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class LedgerHeadDto {
+  @ApiProperty({ description: 'Poll ID' })
+  pollId!: string;
+
+  @ApiProperty({ description: 'Number of entries in the ledger', example: 42 })
+  length!: number;
+
+  @ApiProperty({
+    description: 'Hash of the latest entry - publish it, and any later tampering shows up as a mismatch',
+    nullable: true,
+    type: String,
+  })
+  headHash!: string | null;
+
+  @ApiProperty({ description: 'When the latest entry was recorded (ISO)', nullable: true, type: String })
+  lastRecordedAt!: string | null;
+}
+
+export class LedgerBreakDto {
+  @ApiProperty({
+    description: 'Sequence number of the entry where the chain breaks (null if the broken vote has no ledger entry at all)',
+    nullable: true,
+    type: Number,
+    example: 17,
+  })
+  sequence!: number | null;
+
+  @ApiProperty({ description: 'ID of the ledger entry, if there is one', nullable: true, type: String })
+  entryId!: string | null;
+
+  @ApiProperty({ description: 'Vote involved, if the problem is with a stored ballot', nullable: true, type: String })
+  voteId!: string | null;
+
+  @ApiProperty({ description: 'What is wrong', example: 'Entry hash does not match its contents' })
+  reason!: string;
+}
+
+export class LedgerVerificationDto {
+  @ApiProperty({ description: 'Poll ID' })
+  pollId!: string;
+
+  @ApiProperty({ description: 'True when the chain is intact and every stored ballot matches it' })
+  valid!: boolean;
+
+  @ApiProperty({ description: 'How many ledger entries were checked', example: 42 })
+  entriesChecked!: number;
+
+  @ApiProperty({ description: 'Hash of the last entry checked', nullable: true, type: String })
+  headHash!: string | null;
+
+  @ApiProperty({ type: LedgerBreakDto, nullable: true, description: 'The first problem found, or null if valid' })
+  brokenAt!: LedgerBreakDto | null;
+}
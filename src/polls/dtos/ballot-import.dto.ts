@@ -0,0 +1,127 @@
+import { IsArray, IsDateString, IsOptional, IsString, IsUUID, ArrayMinSize, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+// What happened to one imported row
+export enum BallotImportStatus {
+  IMPORTED = 'imported',
+  DUPLICATE = 'duplicate', // this user already has a ballot (in the poll, or earlier in the file)
+  UNKNOWN_OPTION = 'unknown_option', // an option ID or text that isn't part of this poll
+  POLL_CLOSED = 'poll_closed', // the timestamp is after the poll closed
+  INVALID = 'invalid', // anything else castVote would refuse
+}
+
+/**
+ * One ballot in an import - a JSON object, or a CSV row with these column names
+ *
+ * Checked row by row (not by the global ValidationPipe), so one bad row
+ * doesn't throw away the whole file. Name the pick with choices, optionId
+ * or optionText - the first one present is used.
+ */
+export class BallotImportRowDto {
+  @ApiProperty({
+    description: 'UUID identifying the voter',
+    example: '987fcdeb-51a2-43d1-b234-567890abcdef',
+  })
+  @IsUUID('all', { message: 'userUuid must be a UUID' })
+  userUuid!: string;
+
+  @ApiProperty({
+    description: 'When the ballot was originally cast (ISO 8601) - it has to fall while the poll was open',
+    example: '2024-01-15T10:30:00.000Z',
+  })
+  @IsDateString({}, { message: 'timestamp must be a valid ISO date string' })
+  timestamp!: string;
+
+  @ApiPropertyOptional({
+    description: 'UUID of the option voted for',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsUUID('all', { message: 'optionId must be a UUID' })
+  optionId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Exact text of the option voted for, instead of its ID (handy for paper ballots)',
+    example: 'TypeScript',
+  })
+  @IsOptional()
+  @IsString({ message: 'optionText must be a string' })
+  @MaxLength(200, { message: 'optionText is too long (max 200 chars)' })
+  optionText?: string;
+
+  @ApiPropertyOptional({
+    description: 'Every option on a ranked or approval ballot, by ID or text, favourite first (semicolon-separated in CSV)',
+    example: ['TypeScript', 'JavaScript'],
+  })
+  @IsOptional()
+  @IsArray({ message: 'choices must be a list' })
+  @ArrayMinSize(1, { message: 'choices must contain at least one option' })
+  @IsString({ each: true, message: 'each choice must be an option ID or text' })
+  choices?: string[];
+
+  @ApiPropertyOptional({
+    description: 'The voter token the ballot was cast with (invite-only polls only)',
+    example: 'q3Xr1mVb0W2l9u0p5yZs8cJ6dKfT4hNaE7gQ1iLxO3M',
+  })
+  @IsOptional()
+  @IsString({ message: 'voterToken must be a string' })
+  @MaxLength(200, { message: 'voterToken is too long (max 200 chars)' })
+  voterToken?: string;
+}
+
+// JSON import body - CSV files are sent as they are, with Content-Type: text/csv
+export class BallotImportRequestDto {
+  @ApiProperty({ description: 'The ballots to import, in order', type: [BallotImportRowDto] })
+  ballots!: BallotImportRowDto[];
+}
+
+export class BallotImportRowResultDto {
+  @ApiProperty({ description: 'Position in the file, 1 = first ballot (the CSV header row is not counted)', example: 1 })
+  row!: number;
+
+  @ApiProperty({ description: 'userUuid from the row, if it had one', nullable: true, type: String })
+  userUuid!: string | null;
+
+  @ApiProperty({ description: 'What happened to the row', enum: BallotImportStatus, example: BallotImportStatus.IMPORTED })
+  status!: BallotImportStatus;
+
+  @ApiPropertyOptional({ description: 'ID of the stored vote, for imported rows' })
+  voteId?: string;
+
+  @ApiPropertyOptional({ description: 'Error code castVote would have answered with, for skipped rows', example: 'DUPLICATE_VOTE' })
+  code?: string;
+
+  @ApiPropertyOptional({ description: 'Why the row was skipped', example: 'User has already voted in this poll' })
+  message?: string;
+}
+
+export class BallotImportSummaryDto {
+  @ApiProperty({ example: 98 })
+  imported!: number;
+
+  @ApiProperty({ example: 1 })
+  duplicate!: number;
+
+  @ApiProperty({ example: 0 })
+  unknown_option!: number;
+
+  @ApiProperty({ example: 1 })
+  poll_closed!: number;
+
+  @ApiProperty({ example: 0 })
+  invalid!: number;
+}
+
+export class BallotImportResponseDto {
+  @ApiProperty({ description: 'Poll ID' })
+  pollId!: string;
+
+  @ApiProperty({ description: 'Rows in the file', example: 100 })
+  total!: number;
+
+  @ApiProperty({ description: 'Rows per outcome', type: BallotImportSummaryDto })
+  summary!: BallotImportSummaryDto;
+
+  @ApiProperty({ description: 'One entry per row, in file order', type: [BallotImportRowResultDto] })
+  rows!: BallotImportRowResultDto[];
+}
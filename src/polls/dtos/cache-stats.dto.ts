@@ -0,0 +1,32 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CacheStatsDto {
+  @ApiProperty({ description: 'Which cache backend is in use', example: 'memory' })
+  backend!: string;
+
+  @ApiProperty({ description: 'Entries cached right now', example: 120 })
+  size!: number;
+
+  @ApiProperty({
+    description: 'Most entries the cache will hold (null when the backend enforces its own limit)',
+    nullable: true,
+    type: Number,
+    example: 1000,
+  })
+  maxEntries!: number | null;
+
+  @ApiProperty({ description: 'Lookups answered from the cache since startup', example: 5400 })
+  hits!: number;
+
+  @ApiProperty({ description: 'Lookups that had to compute fresh results', example: 600 })
+  misses!: number;
+
+  @ApiProperty({ description: 'Share of lookups that were hits, 0-100', example: 90 })
+  hitRate!: number;
+
+  @ApiProperty({ description: 'Entries dropped to make room for newer ones', example: 12 })
+  evictions!: number;
+
+  @ApiProperty({ description: 'Entries dropped because they got too old', example: 480 })
+  expirations!: number;
+}
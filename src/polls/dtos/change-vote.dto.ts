@@ -0,0 +1,5 @@
+import { OmitType } from '@nestjs/swagger';
+import { VoteDto } from './vote.dto';
+
+// Same ballot shape as casting a vote - the user comes from the URL instead
+export class ChangeVoteDto extends OmitType(VoteDto, ['userUuid'] as const) {}
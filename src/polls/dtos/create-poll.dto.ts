@@ -1,5 +1,8 @@
-import { IsString, IsArray, IsDateString, IsOptional, IsBoolean, ArrayMinSize, MinLength, MaxLength } from 'class-validator';
+import { IsString, IsArray, IsDateString, IsOptional, IsBoolean, IsEnum, IsIn, IsInt, Min, ArrayMinSize, ArrayMaxSize, MinLength, MaxLength, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { VotingMethod, PollStatus } from '../entities/poll.entity';
+import { CreateWebhookDto, MAX_WEBHOOKS_PER_POLL } from './create-webhook.dto';
 
 export class CreatePollDto {
   @ApiProperty({
@@ -20,6 +23,14 @@ export class CreatePollDto {
   @IsString({ each: true, message: 'each option must be a string' })
   options!: string[];
 
+  @ApiPropertyOptional({
+    description: 'ISO timestamp when voting starts (defaults to straight away)',
+    example: '2030-12-01T09:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'opensAt must be a valid ISO date string' })
+  opensAt?: string;
+
   @ApiProperty({
     description: 'ISO timestamp when the poll closes',
     example: '2030-12-31T23:59:59.000Z',
@@ -27,6 +38,15 @@ export class CreatePollDto {
   @IsDateString({}, { message: 'closesAt must be a valid ISO date string' })
   closesAt!: string;
 
+  @ApiPropertyOptional({
+    description: 'Create the poll as a draft (no voting until it is opened) or open it straight away (or at opensAt)',
+    enum: [PollStatus.DRAFT, PollStatus.OPEN],
+    default: PollStatus.OPEN,
+  })
+  @IsOptional()
+  @IsIn([PollStatus.DRAFT, PollStatus.OPEN], { message: 'status must be draft or open' })
+  status?: PollStatus;
+
   @ApiPropertyOptional({
     description: 'If true, hide results until the poll closes',
     default: false,
@@ -34,4 +54,59 @@ export class CreatePollDto {
   @IsOptional()
   @IsBoolean({ message: 'hideResultsUntilClose must be true or false' })
   hideResultsUntilClose?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'If false, voters cannot change or withdraw their vote once cast',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'allowVoteChanges must be true or false' })
+  allowVoteChanges?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'If true, every ballot needs a single-use voter token issued by the poll creator',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'inviteOnly must be true or false' })
+  inviteOnly?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'How votes are cast and counted. Ranked-choice polls use instant-runoff, approval polls let voters pick several options.',
+    enum: VotingMethod,
+    default: VotingMethod.PLURALITY,
+  })
+  @IsOptional()
+  @IsEnum(VotingMethod, { message: 'votingMethod must be plurality, ranked-choice or approval' })
+  votingMethod?: VotingMethod;
+
+  @ApiPropertyOptional({
+    description: 'Fewest options an approval ballot may select (approval polls only)',
+    default: 1,
+    example: 1,
+  })
+  @IsOptional()
+  @IsInt({ message: 'minSelections must be a whole number' })
+  @Min(1, { message: 'minSelections must be at least 1' })
+  minSelections?: number;
+
+  @ApiPropertyOptional({
+    description: 'Most options an approval ballot may select (approval polls only, defaults to all options)',
+    example: 3,
+  })
+  @IsOptional()
+  @IsInt({ message: 'maxSelections must be a whole number' })
+  @Min(1, { message: 'maxSelections must be at least 1' })
+  maxSelections?: number;
+
+  @ApiPropertyOptional({
+    description: 'Webhooks to register straight away - the only way to hear the poll-created event',
+    type: [CreateWebhookDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_WEBHOOKS_PER_POLL, { message: `at most ${MAX_WEBHOOKS_PER_POLL} webhooks per poll` })
+  @ValidateNested({ each: true })
+  @Type(() => CreateWebhookDto)
+  webhooks?: CreateWebhookDto[];
 }
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { IsUrl, IsArray, IsEnum, ArrayMinSize, ArrayUnique, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { WebhookEvent } from '../entities/webhook.entity';
+
+// Most webhooks one poll can have, however they were registered
+export const MAX_WEBHOOKS_PER_POLL = 10;
+
+export class CreateWebhookDto {
+  @ApiProperty({
+    description: 'Where to POST events (http or https, on a public host)',
+    example: 'https://example.com/hooks/onevote',
+  })
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true, require_tld: false }, { message: 'url must be an http(s) URL' })
+  @MaxLength(2048, { message: 'url is too long (max 2048 chars)' })
+  url!: string;
+
+  @ApiProperty({
+    description: 'Events to send to this URL',
+    enum: WebhookEvent,
+    isArray: true,
+    example: [WebhookEvent.VOTE_CAST, WebhookEvent.POLL_CLOSED],
+  })
+  @IsArray()
+  @ArrayMinSize(1, { message: 'pick at least one event' })
+  @ArrayUnique({ message: 'each event can only be listed once' })
+  @IsEnum(WebhookEvent, { each: true, message: 'events must be poll-created, vote-cast or poll-closed' })
+  events!: WebhookEvent[];
+}
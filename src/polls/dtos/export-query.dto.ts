@@ -0,0 +1,26 @@
+import { IsOptional, IsEnum, IsBoolean } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { ExportFormat } from '../export/export-format';
+
+export class ExportQueryDto {
+  @ApiPropertyOptional({
+    description: 'File format. Overrides the Accept header (text/csv, application/json, application/x-ndjson).',
+    enum: ExportFormat,
+  })
+  @IsOptional()
+  @IsEnum(ExportFormat, { message: 'format must be csv, json or ndjson' })
+  format?: ExportFormat;
+}
+
+export class BallotExportQueryDto extends ExportQueryDto {
+  @ApiPropertyOptional({
+    description: 'Replace each userUuid with a stable pseudonym (same voter, same pseudonym, within this poll)',
+    default: false,
+  })
+  @IsOptional()
+  // Query params arrive as strings
+  @Transform(({ value }) => value === 'true' || value === true)
+  @IsBoolean({ message: 'pseudonymize must be true or false' })
+  pseudonymize?: boolean;
+}
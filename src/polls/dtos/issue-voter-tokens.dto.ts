@@ -0,0 +1,31 @@
+import { IsArray, IsInt, IsOptional, IsString, ArrayMinSize, ArrayMaxSize, ArrayUnique, Min, Max, MinLength, MaxLength, ValidateIf } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+// Send either count (anonymous tokens) or voterIds (one token per listed voter)
+export class IssueVoterTokensDto {
+  @ApiPropertyOptional({
+    description: 'How many anonymous voter tokens to generate',
+    example: 50,
+    minimum: 1,
+    maximum: 10000,
+  })
+  @ValidateIf(o => o.voterIds === undefined)
+  @IsInt({ message: 'count must be a whole number' })
+  @Min(1, { message: 'count must be at least 1' })
+  @Max(10000, { message: 'count cannot be more than 10000 per batch' })
+  count?: number;
+
+  @ApiPropertyOptional({
+    description: 'Allowlist of voter IDs (emails, employee numbers...) - each gets its own token',
+    example: ['alice@example.com', 'bob@example.com'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1, { message: 'voterIds must contain at least one voter' })
+  @ArrayMaxSize(10000, { message: 'voterIds cannot have more than 10000 entries per batch' })
+  @ArrayUnique({ message: 'voterIds must be unique' })
+  @IsString({ each: true, message: 'each voter ID must be a string' })
+  @MinLength(1, { each: true, message: 'voter IDs must not be empty' })
+  @MaxLength(200, { each: true, message: 'voter IDs are too long (max 200 chars)' })
+  voterIds?: string[];
+}
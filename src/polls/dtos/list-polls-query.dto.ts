@@ -0,0 +1,95 @@
+import { IsOptional, IsIn, IsInt, IsString, IsDateString, IsEnum, Min, Max, MaxLength } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { PollStatus } from '../entities/poll.entity';
+
+export enum PollSortField {
+  CREATED_AT = 'createdAt',
+  CLOSES_AT = 'closesAt',
+  TOTAL_VOTES = 'totalVotes',
+}
+
+export enum SortOrder {
+  ASC = 'asc',
+  DESC = 'desc',
+}
+
+// Statuses you can filter the public list by (drafts are never listed)
+export const LISTABLE_POLL_STATUSES = [PollStatus.UPCOMING, PollStatus.OPEN, PollStatus.CLOSED];
+
+export class ListPollsQueryDto {
+  @ApiPropertyOptional({
+    description: 'Opaque cursor from the previous page (nextCursor)',
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @ApiPropertyOptional({
+    description: 'How many polls per page',
+    default: 20,
+    minimum: 1,
+    maximum: 100,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'limit must be a whole number' })
+  @Min(1, { message: 'limit must be at least 1' })
+  @Max(100, { message: 'limit cannot be more than 100' })
+  limit?: number;
+
+  @ApiPropertyOptional({
+    description: 'Only polls in this status',
+    enum: LISTABLE_POLL_STATUSES,
+  })
+  @IsOptional()
+  @IsIn(LISTABLE_POLL_STATUSES, { message: 'status must be upcoming, open or closed' })
+  status?: PollStatus;
+
+  @ApiPropertyOptional({
+    description: 'Text to search for in the question (case-insensitive)',
+    example: 'language',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(300, { message: 'q is too long (max 300 chars)' })
+  q?: string;
+
+  @ApiPropertyOptional({ description: 'Only polls created at or after this ISO timestamp' })
+  @IsOptional()
+  @IsDateString({}, { message: 'createdFrom must be a valid ISO date string' })
+  createdFrom?: string;
+
+  @ApiPropertyOptional({ description: 'Only polls created at or before this ISO timestamp' })
+  @IsOptional()
+  @IsDateString({}, { message: 'createdTo must be a valid ISO date string' })
+  createdTo?: string;
+
+  @ApiPropertyOptional({ description: 'Only polls closing at or after this ISO timestamp' })
+  @IsOptional()
+  @IsDateString({}, { message: 'closesFrom must be a valid ISO date string' })
+  closesFrom?: string;
+
+  @ApiPropertyOptional({ description: 'Only polls closing at or before this ISO timestamp' })
+  @IsOptional()
+  @IsDateString({}, { message: 'closesTo must be a valid ISO date string' })
+  closesTo?: string;
+
+  @ApiPropertyOptional({
+    description: 'What to sort by',
+    enum: PollSortField,
+    default: PollSortField.CREATED_AT,
+  })
+  @IsOptional()
+  @IsEnum(PollSortField, { message: 'sort must be createdAt, closesAt or totalVotes' })
+  sort?: PollSortField;
+
+  @ApiPropertyOptional({
+    description: 'Sort direction',
+    enum: SortOrder,
+    default: SortOrder.DESC,
+  })
+  @IsOptional()
+  @IsEnum(SortOrder, { message: 'order must be asc or desc' })
+  order?: SortOrder;
+}
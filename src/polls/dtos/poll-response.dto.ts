@@ -1,4 +1,7 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { VotingMethod, PollStatus } from '../entities/poll.entity';
+import { TimelineBucket } from './results-timeline-query.dto';
+import { CreatedWebhookResponseDto } from './webhook-response.dto';
 
 export class PollOptionResponseDto {
   @ApiProperty({ description: 'Option ID', example: 'f9f4d6b1-1e3b-4f2f-8a6f-2a0a9d2f3e21' })
@@ -15,19 +18,69 @@ export class PollResponseDto {
   @ApiProperty({ description: 'The question text' })
   question!: string;
 
+  @ApiProperty({ description: 'ISO timestamp when voting starts, null if it started on creation', nullable: true, type: String })
+  opensAt!: string | null;
+
   @ApiProperty({ description: 'ISO timestamp when the poll closes' })
   closesAt!: string;
 
+  @ApiProperty({ enum: PollStatus, description: 'Lifecycle status (draft, upcoming, open or closed)' })
+  status!: PollStatus;
+
   @ApiProperty({ description: 'ISO timestamp when the poll was created' })
   createdAt!: string;
 
   @ApiPropertyOptional({ description: 'Hide results until close', default: false })
   hideResultsUntilClose?: boolean;
 
+  @ApiProperty({ description: 'Whether voters can change or withdraw their vote', default: true })
+  allowVoteChanges!: boolean;
+
+  @ApiProperty({ description: 'Whether ballots need a voter token issued by the creator', default: false })
+  inviteOnly!: boolean;
+
+  @ApiProperty({ enum: VotingMethod, description: 'How votes are cast and counted' })
+  votingMethod!: VotingMethod;
+
+  @ApiPropertyOptional({ description: 'Fewest options per approval ballot', example: 1 })
+  minSelections?: number;
+
+  @ApiPropertyOptional({ description: 'Most options per approval ballot (null = all)', nullable: true, type: Number })
+  maxSelections?: number | null;
+
   @ApiProperty({ type: [PollOptionResponseDto], description: 'Answer options' })
   options!: PollOptionResponseDto[];
 }
 
+export class CreatedPollResponseDto extends PollResponseDto {
+  @ApiProperty({
+    description: 'Secret token for managing this poll (edit, close, delete, see hidden results). Shown only once - keep it safe!',
+    example: 'k3J9sX0q0mVbQe3yq3m2q9cVb6lJX3d7Yk0fT1sM2aA',
+  })
+  managementToken!: string;
+
+  @ApiPropertyOptional({
+    description: 'Webhooks registered along with the poll, with their signing secrets (also shown only once)',
+    type: [CreatedWebhookResponseDto],
+  })
+  webhooks?: CreatedWebhookResponseDto[];
+}
+
+export class PaginatedPollsResponseDto {
+  @ApiProperty({ type: [PollResponseDto], description: 'Polls on this page' })
+  items!: PollResponseDto[];
+
+  @ApiProperty({
+    description: 'Pass this as cursor to get the next page, null when there are no more',
+    nullable: true,
+    type: String,
+  })
+  nextCursor!: string | null;
+
+  @ApiProperty({ description: 'Page size used for this request', example: 20 })
+  limit!: number;
+}
+
 export class OptionResultDto {
   @ApiProperty({ description: 'Option ID' })
   optionId!: string;
@@ -38,24 +91,133 @@ export class OptionResultDto {
   @ApiProperty({ description: 'Number of votes for this option', example: 5 })
   count!: number;
 
-  @ApiProperty({ description: 'Percentage (0–100)', example: 62.5 })
+  @ApiProperty({ description: 'Share of all selections, percentage (0–100)', example: 62.5 })
   percentage!: number;
+
+  @ApiProperty({
+    description: 'Share of voters who picked this option, percentage (0–100). Same as percentage unless ballots can pick several options.',
+    example: 62.5,
+  })
+  percentageOfVoters!: number;
+}
+
+export class RoundTallyDto {
+  @ApiProperty({ description: 'Option ID' })
+  optionId!: string;
+
+  @ApiProperty({ description: 'Option text' })
+  text!: string;
+
+  @ApiProperty({ description: 'Ballots counting towards this option in the round', example: 4 })
+  count!: number;
+}
+
+export class VoteTransferDto {
+  @ApiProperty({ description: 'Eliminated option the ballots came from' })
+  fromOptionId!: string;
+
+  @ApiProperty({
+    description: 'Option the ballots moved to, or null if they had no further preferences',
+    nullable: true,
+    type: String,
+  })
+  toOptionId!: string | null;
+
+  @ApiProperty({ description: 'Number of ballots transferred', example: 2 })
+  count!: number;
+}
+
+export class RankedChoiceRoundDto {
+  @ApiProperty({ description: 'Round number, starting at 1', example: 1 })
+  round!: number;
+
+  @ApiProperty({ type: [RoundTallyDto], description: 'Tallies for options still in the race' })
+  tallies!: RoundTallyDto[];
+
+  @ApiProperty({ description: 'Ballots with no remaining preference this round', example: 0 })
+  exhausted!: number;
+
+  @ApiProperty({ type: [String], description: 'Options eliminated at the end of this round' })
+  eliminatedOptionIds!: string[];
+
+  @ApiProperty({ type: [VoteTransferDto], description: 'Where ballots from eliminated options went' })
+  transfers!: VoteTransferDto[];
+}
+
+export class RankedChoiceResultsDto {
+  @ApiProperty({ type: [RankedChoiceRoundDto], description: 'Instant-runoff rounds in order' })
+  rounds!: RankedChoiceRoundDto[];
+
+  @ApiProperty({
+    description: 'Winning option, or null when there are no ballots or the final round is a tie',
+    nullable: true,
+    type: String,
+  })
+  winnerOptionId!: string | null;
 }
 
 export class PollResultsResponseDto {
   @ApiProperty({ description: 'Poll ID' })
   pollId!: string;
 
-  @ApiProperty({ description: 'Total number of votes across all options' })
+  @ApiProperty({ description: 'Total number of votes (ballots) cast' })
   total!: number;
 
-  @ApiProperty({ type: [OptionResultDto], description: 'Per-option breakdown' })
+  @ApiProperty({ description: 'Total options selected across all ballots', example: 7 })
+  totalSelections!: number;
+
+  @ApiProperty({ enum: VotingMethod, description: 'How votes are cast and counted' })
+  votingMethod!: VotingMethod;
+
+  @ApiProperty({ type: [OptionResultDto], description: 'Per-option breakdown (first preferences for ranked polls)' })
   options!: OptionResultDto[];
 
+  @ApiPropertyOptional({ type: RankedChoiceResultsDto, description: 'Instant-runoff rounds (ranked-choice polls only)' })
+  rankedChoice?: RankedChoiceResultsDto;
+
   @ApiProperty({ description: 'Votes per minute in the last 5 minutes', example: 2.4 })
   voteVelocityPerMinLast5!: number;
 }
 
+export class TimelineOptionCountDto {
+  @ApiProperty({ description: 'Option ID' })
+  optionId!: string;
+
+  @ApiProperty({ description: 'Votes for this option in the bucket', example: 3 })
+  count!: number;
+
+  @ApiProperty({ description: 'Votes for this option up to the end of the bucket', example: 12 })
+  runningTotal!: number;
+}
+
+export class TimelineBucketDto {
+  @ApiProperty({ description: 'Start of the bucket (ISO, UTC)' })
+  start!: string;
+
+  @ApiProperty({ description: 'Ballots cast in the bucket', example: 3 })
+  total!: number;
+
+  @ApiProperty({ description: 'Ballots cast up to the end of the bucket', example: 12 })
+  runningTotal!: number;
+
+  @ApiProperty({ type: [TimelineOptionCountDto], description: 'Per-option counts (first preferences for ranked polls)' })
+  options!: TimelineOptionCountDto[];
+}
+
+export class PollResultsTimelineDto {
+  @ApiProperty({ description: 'Poll ID' })
+  pollId!: string;
+
+  @ApiProperty({ enum: TimelineBucket, description: 'Bucket size' })
+  bucket!: TimelineBucket;
+
+  @ApiProperty({ enum: VotingMethod, description: 'How votes are cast and counted' })
+  votingMethod!: VotingMethod;
+
+  @ApiProperty({ type: [TimelineBucketDto], description: 'Buckets that have votes, oldest first (empty buckets are skipped)' })
+  buckets!: TimelineBucketDto[];
+}
+
 export class HiddenResultsDto {
   @ApiProperty({ description: 'If true, results are hidden because poll not closed yet' })
   hidden!: boolean;
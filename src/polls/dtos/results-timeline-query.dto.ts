@@ -0,0 +1,19 @@
+import { IsOptional, IsEnum } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export enum TimelineBucket {
+  MINUTE = '1m',
+  HOUR = '1h',
+  DAY = '1d',
+}
+
+export class ResultsTimelineQueryDto {
+  @ApiPropertyOptional({
+    description: 'Size of each time bucket',
+    enum: TimelineBucket,
+    default: TimelineBucket.HOUR,
+  })
+  @IsOptional()
+  @IsEnum(TimelineBucket, { message: 'bucket must be 1m, 1h or 1d' })
+  bucket?: TimelineBucket;
+}
@@ -0,0 +1,8 @@
+import { PartialType, PickType } from '@nestjs/swagger';
+import { CreatePollDto } from './create-poll.dto';
+
+// Everything is optional - only send what you want to change.
+// question and options can only change before the first vote comes in.
+export class UpdatePollDto extends PartialType(
+  PickType(CreatePollDto, ['question', 'options', 'closesAt', 'hideResultsUntilClose'] as const),
+) {}
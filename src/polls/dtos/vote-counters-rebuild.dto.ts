@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class VoteCountersRebuildDto {
+  @ApiProperty({ description: 'Number of polls whose counters were rebuilt', example: 12 })
+  polls!: number;
+
+  @ApiProperty({ description: 'Ballots counted across those polls', example: 3400 })
+  ballots!: number;
+
+  @ApiProperty({ description: 'How long the rebuild took, in milliseconds', example: 85 })
+  durationMs!: number;
+}
@@ -1,14 +1,37 @@
-import { IsString, IsUUID } from 'class-validator';
-import { ApiProperty } from '@nestjs/swagger';
+import { IsString, IsUUID, IsArray, IsOptional, ArrayMinSize, ArrayUnique, ValidateIf, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 export class VoteDto {
-  @ApiProperty({
-    description: 'UUID of the poll option to vote for',
+  @ApiPropertyOptional({
+    description: 'UUID of the poll option to vote for (required for plurality polls)',
     example: '123e4567-e89b-12d3-a456-426614174000',
   })
+  @ValidateIf(o => o.rankings === undefined && o.optionIds === undefined)
   @IsString()
   @IsUUID()
-  optionId: string;
+  optionId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Option UUIDs in order of preference, favourite first (ranked-choice polls only)',
+    example: ['123e4567-e89b-12d3-a456-426614174000', 'f9f4d6b1-1e3b-4f2f-8a6f-2a0a9d2f3e21'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1, { message: 'rankings must contain at least one option' })
+  @ArrayUnique({ message: 'each option can only be ranked once' })
+  @IsUUID('all', { each: true, message: 'each ranked option must be a UUID' })
+  rankings?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Every option UUID the voter selects (approval polls only)',
+    example: ['123e4567-e89b-12d3-a456-426614174000', 'f9f4d6b1-1e3b-4f2f-8a6f-2a0a9d2f3e21'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1, { message: 'optionIds must contain at least one option' })
+  @ArrayUnique({ message: 'each option can only be selected once' })
+  @IsUUID('all', { each: true, message: 'each selected option must be a UUID' })
+  optionIds?: string[];
 
   @ApiProperty({
     description: 'UUID identifying the user casting the vote',
@@ -17,4 +40,13 @@ export class VoteDto {
   @IsString()
   @IsUUID()
   userUuid: string;
+
+  @ApiPropertyOptional({
+    description: 'Single-use voter token from the poll creator (invite-only polls only)',
+    example: 'q3Xr1mVb0W2l9u0p5yZs8cJ6dKfT4hNaE7gQ1iLxO3M',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  voterToken?: string;
 }
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class IssuedVoterTokenDto {
+  @ApiProperty({ description: 'Token record ID (safe to store, not a secret)' })
+  id!: string;
+
+  @ApiProperty({ description: 'Voter ID from the allowlist, or null for anonymous tokens', nullable: true, type: String })
+  voterId!: string | null;
+
+  @ApiProperty({ description: 'The secret token to hand to the voter. Shown only once!' })
+  token!: string;
+}
+
+export class IssuedVoterTokensResponseDto {
+  @ApiProperty({ description: 'Poll ID' })
+  pollId!: string;
+
+  @ApiProperty({ type: [IssuedVoterTokenDto], description: 'Newly issued tokens' })
+  tokens!: IssuedVoterTokenDto[];
+}
+
+export class VoterTokenStatusDto {
+  @ApiProperty({ description: 'Token record ID' })
+  id!: string;
+
+  @ApiProperty({ description: 'Voter ID from the allowlist, or null for anonymous tokens', nullable: true, type: String })
+  voterId!: string | null;
+
+  @ApiProperty({ description: 'Whether the token has been used to vote' })
+  used!: boolean;
+
+  @ApiProperty({ description: 'When the token was used (ISO), null if unused', nullable: true, type: String })
+  usedAt!: string | null;
+
+  @ApiProperty({ description: 'When the token was issued (ISO)' })
+  issuedAt!: string;
+}
+
+export class TurnoutReportDto {
+  @ApiProperty({ description: 'Poll ID' })
+  pollId!: string;
+
+  @ApiProperty({ description: 'Tokens issued so far', example: 40 })
+  totalTokens!: number;
+
+  @ApiProperty({ description: 'Tokens that have been used to vote', example: 25 })
+  usedTokens!: number;
+
+  @ApiProperty({ description: 'Tokens not used yet', example: 15 })
+  unusedTokens!: number;
+
+  @ApiProperty({ description: 'Used tokens as a percentage of issued tokens (0–100)', example: 62.5 })
+  turnoutPercentage!: number;
+
+  @ApiProperty({ type: [VoterTokenStatusDto], description: 'Per-token breakdown' })
+  tokens!: VoterTokenStatusDto[];
+}
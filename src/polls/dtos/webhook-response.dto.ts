@@ -0,0 +1,54 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { WebhookEvent } from '../entities/webhook.entity';
+import { WebhookDeliveryStatus } from '../entities/webhook-delivery.entity';
+
+export class WebhookResponseDto {
+  @ApiProperty({ description: 'Webhook ID' })
+  id!: string;
+
+  @ApiProperty({ description: 'Where events are sent' })
+  url!: string;
+
+  @ApiProperty({ enum: WebhookEvent, isArray: true, description: 'Events sent to this URL' })
+  events!: WebhookEvent[];
+
+  @ApiProperty({ description: 'When the webhook was registered (ISO)' })
+  createdAt!: string;
+}
+
+export class CreatedWebhookResponseDto extends WebhookResponseDto {
+  @ApiProperty({
+    description: 'HMAC-SHA256 key for checking the X-OneVote-Signature header. Shown only once!',
+    example: 'q2Zs8vJ0mX4bN7cR1tY5uW9eA3dF6gH0kL2pO8iU4yT',
+  })
+  secret!: string;
+}
+
+export class WebhookDeliveryResponseDto {
+  @ApiProperty({ description: 'Delivery ID (also sent as X-OneVote-Delivery)' })
+  id!: string;
+
+  @ApiProperty({ enum: WebhookEvent, description: 'Event that was sent' })
+  event!: WebhookEvent;
+
+  @ApiProperty({ enum: WebhookDeliveryStatus, description: 'pending (waiting to be tried or retried), delivered or failed (gave up)' })
+  status!: WebhookDeliveryStatus;
+
+  @ApiProperty({ description: 'How many times we tried', example: 1 })
+  attempts!: number;
+
+  @ApiProperty({ description: 'HTTP status of the last attempt', nullable: true, type: Number })
+  lastStatusCode!: number | null;
+
+  @ApiProperty({ description: 'What went wrong on the last attempt', nullable: true, type: String })
+  lastError!: string | null;
+
+  @ApiProperty({ description: 'When the next attempt is due (ISO), null once delivered or failed', nullable: true, type: String })
+  nextAttemptAt!: string | null;
+
+  @ApiProperty({ description: 'When it was delivered (ISO)', nullable: true, type: String })
+  deliveredAt!: string | null;
+
+  @ApiProperty({ description: 'When the event happened (ISO)' })
+  createdAt!: string;
+}
@@ -0,0 +1,14 @@
+import { IsUUID } from 'class-validator';
+import { VoteDto } from './vote.dto';
+
+// Payload of the WebSocket subscribe / unsubscribe messages
+export class PollSubscriptionDto {
+  @IsUUID('all', { message: 'pollId must be a UUID' })
+  pollId!: string;
+}
+
+// A vote sent over the socket - the REST body plus which poll it's for
+export class WsVoteDto extends VoteDto {
+  @IsUUID('all', { message: 'pollId must be a UUID' })
+  pollId!: string;
+}
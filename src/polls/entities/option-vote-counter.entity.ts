@@ -0,0 +1,32 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { UUID_COLUMN_TYPE } from '../../database/database-type';
+import { Poll } from './poll.entity';
+import { PollOption } from './poll-option.entity';
+
+// How many times an option was picked - first preferences on ranked polls,
+// every selection on approval polls. Options nobody picked have no row.
+@Entity('option_vote_counters')
+export class OptionVoteCounter {
+  @PrimaryColumn({ type: UUID_COLUMN_TYPE })
+  pollId: string;
+
+  @PrimaryColumn({ type: UUID_COLUMN_TYPE })
+  optionId: string;
+
+  @ManyToOne(() => Poll, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'pollId' })
+  poll: Poll;
+
+  @ManyToOne(() => PollOption, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'optionId' })
+  option: PollOption;
+
+  @Column({ type: 'integer', default: 0 })
+  count: number;
+}
@@ -6,6 +6,7 @@ import {
   OneToMany,
   JoinColumn,
 } from 'typeorm';
+import { UUID_COLUMN_TYPE } from '../../database/database-type';
 import { Poll } from './poll.entity';
 import { Vote } from './vote.entity';
 
@@ -24,7 +25,7 @@ export class PollOption {
   @JoinColumn({ name: 'pollId' })
   poll: Poll;
 
-  @Column()
+  @Column({ type: UUID_COLUMN_TYPE })
   pollId: string;
 
   // One option can have many votes
@@ -0,0 +1,28 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  OneToOne,
+  JoinColumn,
+} from 'typeorm';
+import { TIMESTAMP_COLUMN_OPTIONS, UUID_COLUMN_TYPE } from '../../database/database-type';
+import { Poll } from './poll.entity';
+
+// Running ballot total for a poll, kept up to date inside every vote transaction.
+// No row means the poll's counters haven't been built yet (see VoteCountersService).
+@Entity('poll_vote_counters')
+export class PollVoteCounter {
+  @PrimaryColumn({ type: UUID_COLUMN_TYPE })
+  pollId: string;
+
+  @OneToOne(() => Poll, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'pollId' })
+  poll: Poll;
+
+  @Column({ type: 'integer', default: 0 })
+  ballots: number;
+
+  // When the counters were last recounted from the votes table (null = never, counted from the start)
+  @Column({ ...TIMESTAMP_COLUMN_OPTIONS, nullable: true })
+  rebuiltAt: Date | null;
+}
@@ -6,9 +6,24 @@ import {
   UpdateDateColumn,
   OneToMany,
 } from 'typeorm';
+import { TIMESTAMP_COLUMN_OPTIONS } from '../../database/database-type';
 import { PollOption } from './poll-option.entity';
 import { Vote } from './vote.entity';
 
+// How ballots are cast and counted
+export enum VotingMethod {
+  PLURALITY = 'plurality', // one option per voter, most votes wins
+  RANKED_CHOICE = 'ranked-choice', // voters rank options, instant-runoff decides
+  APPROVAL = 'approval', // voters pick every option they like ("pick all that apply")
+}
+
+// Where the poll is in its lifecycle
+export enum PollStatus {
+  DRAFT = 'draft', // still being set up, no voting yet
+  UPCOMING = 'upcoming', // announced, voting starts at opensAt
+  OPEN = 'open', // taking votes until closesAt
+  CLOSED = 'closed', // no more votes (closed early or time ran out)
+}
 
 // The main Poll entity.
 // Note: we keep relations simple and obvious. No magic.
@@ -20,16 +35,47 @@ export class Poll {
   @Column({ type: 'varchar', length: 500 })
   question: string;
 
-  @Column({ type: 'datetime' })
+  // When voting starts (null = as soon as the poll is open)
+  @Column({ ...TIMESTAMP_COLUMN_OPTIONS, nullable: true })
+  opensAt: Date | null;
+
+  @Column(TIMESTAMP_COLUMN_OPTIONS)
   closesAt: Date;
 
+  // Use getEffectivePollStatus() when checking - the scheduler flips this column,
+  // but an open poll past closesAt is closed even if it hasn't run yet
+  @Column({ type: 'varchar', length: 20, default: PollStatus.OPEN })
+  status: PollStatus;
+
   @Column({ type: 'boolean', default: false })
   hideResultsUntilClose: boolean;
 
-  @CreateDateColumn()
+  // Lets voters change or withdraw their ballot while the poll is open
+  @Column({ type: 'boolean', default: true })
+  allowVoteChanges: boolean;
+
+  // Invite-only polls accept a ballot only with a valid, unused voter token
+  @Column({ type: 'boolean', default: false })
+  inviteOnly: boolean;
+
+  @Column({ type: 'varchar', length: 20, default: VotingMethod.PLURALITY })
+  votingMethod: VotingMethod;
+
+  // How many options an approval ballot must/can pick (null max = all of them)
+  @Column({ type: 'integer', default: 1 })
+  minSelections: number;
+
+  @Column({ type: 'integer', nullable: true })
+  maxSelections: number | null;
+
+  // SHA-256 of the creator's management token - never selected unless asked for
+  @Column({ type: 'varchar', length: 64, nullable: true, select: false })
+  managementTokenHash: string | null;
+
+  @CreateDateColumn(TIMESTAMP_COLUMN_OPTIONS)
   createdAt: Date;
 
-  @UpdateDateColumn()
+  @UpdateDateColumn(TIMESTAMP_COLUMN_OPTIONS)
   updatedAt: Date;
 
   // One poll has many options
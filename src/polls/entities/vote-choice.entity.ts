@@ -0,0 +1,40 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { UUID_COLUMN_TYPE } from '../../database/database-type';
+import { Vote } from './vote.entity';
+import { PollOption } from './poll-option.entity';
+
+// One option picked on a ballot.
+// Ranked ballots store one row per preference, rank 1 being the favourite.
+// Approval ballots store one row per selected option (rank is just the order sent).
+@Index(['voteId', 'optionId'], { unique: true })
+@Entity('vote_choices')
+export class VoteChoice {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Many choices belong to one ballot
+  @ManyToOne(() => Vote, (vote) => vote.choices, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'voteId' })
+  vote: Vote;
+
+  @Column({ type: UUID_COLUMN_TYPE })
+  voteId: string;
+
+  @ManyToOne(() => PollOption, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'optionId' })
+  option: PollOption;
+
+  @Column({ type: UUID_COLUMN_TYPE })
+  optionId: string;
+
+  // 1 = first preference, 2 = second, and so on
+  @Column({ type: 'integer' })
+  rank: number;
+}
@@ -0,0 +1,28 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { UUID_COLUMN_TYPE } from '../../database/database-type';
+import { Poll } from './poll.entity';
+
+// Ballots cast during one minute, for vote velocity.
+// Only the last few minutes are kept - older buckets are pruned as votes come in.
+@Entity('vote_count_buckets')
+export class VoteCountBucket {
+  @PrimaryColumn({ type: UUID_COLUMN_TYPE })
+  pollId: string;
+
+  // Start of the minute as an ISO string, e.g. 2030-01-01T12:34:00.000Z
+  @PrimaryColumn({ type: 'varchar', length: 24 })
+  bucketStart: string;
+
+  @ManyToOne(() => Poll, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'pollId' })
+  poll: Poll;
+
+  @Column({ type: 'integer', default: 0 })
+  count: number;
+}
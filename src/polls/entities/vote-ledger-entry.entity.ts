@@ -0,0 +1,63 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  Index,
+  JoinColumn,
+} from 'typeorm';
+import { UUID_COLUMN_TYPE } from '../../database/database-type';
+import { Poll } from './poll.entity';
+
+// 'backfill' entries were added when the ledger was introduced, for votes cast before it existed
+export type LedgerAction = 'cast' | 'change' | 'retract' | 'backfill';
+
+// One step in a poll's append-only vote ledger.
+// Each entry's hash covers its own fields plus the previous entry's hash,
+// so editing or removing any entry breaks every hash after it.
+@Index(['pollId', 'sequence'], { unique: true })
+@Entity('vote_ledger')
+export class VoteLedgerEntry {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Poll, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'pollId' })
+  poll: Poll;
+
+  @Column({ type: UUID_COLUMN_TYPE })
+  pollId: string;
+
+  // 1, 2, 3... per poll - the unique index stops two entries claiming the same spot
+  @Column({ type: 'integer' })
+  sequence: number;
+
+  @Column({ type: 'varchar', length: 10 })
+  action: LedgerAction;
+
+  // Not a foreign key on purpose - retracted votes are gone but their entries stay
+  @Column({ type: 'varchar', length: 36 })
+  voteId: string;
+
+  @Column({ type: 'varchar', length: 36 })
+  userUuid: string;
+
+  // Options on the ballot in order (empty for a retraction)
+  @Column({ type: 'simple-json' })
+  optionIds: string[];
+
+  // Kept as the exact ISO string that was hashed - a datetime column could round it
+  @Column({ type: 'varchar', length: 30 })
+  recordedAt: string;
+
+  // When the ballot itself was cast (ISO) - imported ballots keep their own time.
+  // Null for retractions, and for entries written before this was recorded
+  @Column({ type: 'varchar', length: 30, nullable: true })
+  castAt: string | null;
+
+  @Column({ type: 'varchar', length: 64 })
+  previousHash: string;
+
+  @Column({ type: 'varchar', length: 64 })
+  hash: string;
+}
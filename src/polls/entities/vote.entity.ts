@@ -4,11 +4,14 @@ import {
   Column,
   ManyToOne,
   CreateDateColumn,
+  OneToMany,
   Index,
   JoinColumn,
 } from 'typeorm';
+import { TIMESTAMP_COLUMN_OPTIONS, UUID_COLUMN_TYPE } from '../../database/database-type';
 import { Poll } from './poll.entity';
 import { PollOption } from './poll-option.entity';
+import { VoteChoice } from './vote-choice.entity';
 
 // Unique constraint to prevent duplicate votes per user per poll
 @Index(['pollId', 'userUuid'], { unique: true })
@@ -25,17 +28,24 @@ export class Vote {
   @JoinColumn({ name: 'pollId' })
   poll: Poll;
 
-  @Column()
+  @Column({ type: UUID_COLUMN_TYPE })
   pollId: string;
 
   // Many votes belong to one option
+  // For ranked ballots this is the first preference, for approval ballots the first selection
   @ManyToOne(() => PollOption, (option) => option.votes, { onDelete: 'CASCADE' })
   @JoinColumn({ name: 'optionId' })
   option: PollOption;
 
-  @Column()
+  @Column({ type: UUID_COLUMN_TYPE })
   optionId: string;
 
-  @CreateDateColumn()
+  // Full ranking or selection list for ranked/approval ballots (empty for plurality votes)
+  // Keeping these in a child table means one Vote row per ballot, so the
+  // (pollId, userUuid) unique index still stops double voting
+  @OneToMany(() => VoteChoice, (choice) => choice.vote, { cascade: true })
+  choices: VoteChoice[];
+
+  @CreateDateColumn(TIMESTAMP_COLUMN_OPTIONS)
   createdAt: Date;
 }
\ No newline at end of file
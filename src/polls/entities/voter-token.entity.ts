@@ -0,0 +1,46 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  Index,
+  JoinColumn,
+} from 'typeorm';
+import { TIMESTAMP_COLUMN_OPTIONS, UUID_COLUMN_TYPE } from '../../database/database-type';
+import { Poll } from './poll.entity';
+
+// A single-use ticket to vote in an invite-only poll.
+// Like management tokens, only the hash is stored.
+// One token per allowlisted voter - anonymous tokens (null voterId) don't clash.
+@Entity('voter_tokens')
+@Index(['pollId', 'voterId'], { unique: true })
+export class VoterToken {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Poll, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'pollId' })
+  poll: Poll;
+
+  @Column({ type: UUID_COLUMN_TYPE })
+  pollId: string;
+
+  @Index({ unique: true })
+  @Column({ type: 'varchar', length: 64 })
+  tokenHash: string;
+
+  // Who the token was issued to, when the creator uploaded an allowlist
+  @Column({ type: 'varchar', length: 200, nullable: true })
+  voterId: string | null;
+
+  // Set when the token is spent on a ballot
+  @Column({ ...TIMESTAMP_COLUMN_OPTIONS, nullable: true })
+  usedAt: Date | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  voteId: string | null;
+
+  @CreateDateColumn(TIMESTAMP_COLUMN_OPTIONS)
+  createdAt: Date;
+}
@@ -0,0 +1,63 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  Index,
+  JoinColumn,
+} from 'typeorm';
+import { TIMESTAMP_COLUMN_OPTIONS, UUID_COLUMN_TYPE } from '../../database/database-type';
+import { Webhook, WebhookEvent } from './webhook.entity';
+
+export enum WebhookDeliveryStatus {
+  PENDING = 'pending', // waiting for its (next) attempt
+  DELIVERED = 'delivered',
+  FAILED = 'failed', // gave up after the last retry
+}
+
+// One event on its way to one webhook - this table doubles as the retry queue
+@Index(['status', 'nextAttemptAt'])
+@Entity('webhook_deliveries')
+export class WebhookDelivery {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Webhook, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'webhookId' })
+  webhook: Webhook;
+
+  @Column({ type: UUID_COLUMN_TYPE })
+  webhookId: string;
+
+  @Column({ type: UUID_COLUMN_TYPE })
+  pollId: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  event: WebhookEvent;
+
+  // Exact JSON body we send (and sign), so every retry is byte-for-byte the same
+  @Column({ type: 'text' })
+  payload: string;
+
+  @Column({ type: 'varchar', length: 20, default: WebhookDeliveryStatus.PENDING })
+  status: WebhookDeliveryStatus;
+
+  @Column({ type: 'integer', default: 0 })
+  attempts: number;
+
+  @Column(TIMESTAMP_COLUMN_OPTIONS)
+  nextAttemptAt: Date;
+
+  @Column({ type: 'integer', nullable: true })
+  lastStatusCode: number | null;
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  lastError: string | null;
+
+  @Column({ ...TIMESTAMP_COLUMN_OPTIONS, nullable: true })
+  deliveredAt: Date | null;
+
+  @CreateDateColumn(TIMESTAMP_COLUMN_OPTIONS)
+  createdAt: Date;
+}
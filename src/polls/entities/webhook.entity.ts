@@ -0,0 +1,45 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  JoinColumn,
+} from 'typeorm';
+import { TIMESTAMP_COLUMN_OPTIONS, UUID_COLUMN_TYPE } from '../../database/database-type';
+import { Poll } from './poll.entity';
+
+export enum WebhookEvent {
+  POLL_CREATED = 'poll-created',
+  VOTE_CAST = 'vote-cast',
+  POLL_CLOSED = 'poll-closed',
+}
+
+// A URL the poll owner wants us to POST poll events to
+@Entity('webhooks')
+export class Webhook {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Poll, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'pollId' })
+  poll: Poll;
+
+  @Column({ type: UUID_COLUMN_TYPE })
+  pollId: string;
+
+  @Column({ type: 'varchar', length: 2048 })
+  url: string;
+
+  // Which WebhookEvents this endpoint wants
+  @Column({ type: 'simple-json' })
+  events: WebhookEvent[];
+
+  // HMAC key for signing deliveries. Unlike tokens we need the real value
+  // to sign with, so it's stored as is - but never selected unless asked for.
+  @Column({ type: 'varchar', length: 64, select: false })
+  secret: string;
+
+  @CreateDateColumn(TIMESTAMP_COLUMN_OPTIONS)
+  createdAt: Date;
+}
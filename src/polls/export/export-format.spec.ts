@@ -0,0 +1,73 @@
+import { EventEmitter } from 'events';
+import { Response } from 'express';
+import { ExportFormat, resolveExportFormat, toCsvValue, writeExport } from './export-format';
+
+describe('export format helpers', () => {
+  describe('resolveExportFormat', () => {
+    it('should prefer the format query parameter over the Accept header', () => {
+      expect(resolveExportFormat(ExportFormat.CSV, 'application/json')).toBe(ExportFormat.CSV);
+    });
+
+    it('should fall back to the Accept header', () => {
+      expect(resolveExportFormat(undefined, 'text/csv')).toBe(ExportFormat.CSV);
+      expect(resolveExportFormat(undefined, 'application/x-ndjson')).toBe(ExportFormat.NDJSON);
+    });
+
+    it('should default to JSON', () => {
+      expect(resolveExportFormat(undefined, 'text/html,*/*')).toBe(ExportFormat.JSON);
+      expect(resolveExportFormat(undefined, undefined)).toBe(ExportFormat.JSON);
+    });
+  });
+
+  describe('toCsvValue', () => {
+    it('should quote commas, quotes and line breaks', () => {
+      expect(toCsvValue('plain')).toBe('plain');
+      expect(toCsvValue('a, "b"')).toBe('"a, ""b"""');
+      expect(toCsvValue('two\nlines')).toBe('"two\nlines"');
+    });
+
+    it('should defuse spreadsheet formulas', () => {
+      expect(toCsvValue('=SUM(A1:A9)')).toBe(`'=SUM(A1:A9)`);
+    });
+
+    it('should leave numbers alone and join lists', () => {
+      expect(toCsvValue(-1.5)).toBe('-1.5');
+      expect(toCsvValue(['a', 'b'])).toBe('a;b');
+      expect(toCsvValue(null)).toBe('');
+    });
+  });
+
+  describe('writeExport', () => {
+    // A response whose socket buffer is always full, like a client that stopped reading
+    const buildStalledResponse = () => Object.assign(new EventEmitter(), {
+      destroyed: false,
+      status: jest.fn(),
+      setHeader: jest.fn(),
+      write: jest.fn(() => false),
+      end: jest.fn(),
+    });
+
+    it('should stop and let go of the rows when the client hangs up while the socket is full', async () => {
+      const res = buildStalledResponse();
+      let closedRows = false;
+      async function* rows() {
+        try {
+          yield { id: 1 };
+          yield { id: 2 };
+        } finally {
+          closedRows = true;
+        }
+      }
+
+      const exporting = writeExport(res as unknown as Response, ExportFormat.NDJSON, 'poll', ['id'], rows());
+      await new Promise(resolve => setImmediate(resolve));
+      res.destroyed = true;
+      res.emit('close');
+
+      await exporting;
+      expect(res.write).toHaveBeenCalledTimes(1);
+      expect(closedRows).toBe(true);
+      expect(res.listenerCount('drain')).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { Response } from 'express';
+
+export enum ExportFormat {
+  CSV = 'csv',
+  JSON = 'json',
+  NDJSON = 'ndjson',
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  [ExportFormat.CSV]: 'text/csv; charset=utf-8',
+  [ExportFormat.JSON]: 'application/json; charset=utf-8',
+  [ExportFormat.NDJSON]: 'application/x-ndjson; charset=utf-8',
+};
+
+// Accept header media types we understand, in the order we prefer them
+const ACCEPTED_MEDIA_TYPES: [string, ExportFormat][] = [
+  ['text/csv', ExportFormat.CSV],
+  ['application/x-ndjson', ExportFormat.NDJSON],
+  ['application/ndjson', ExportFormat.NDJSON],
+  ['application/json', ExportFormat.JSON],
+];
+
+/**
+ * Picks the export format: ?format= wins, then the Accept header, then JSON
+ * (browsers send Accept: text/html,..., which just falls through to JSON)
+ */
+export function resolveExportFormat(queryFormat: ExportFormat | undefined, accept: string | undefined): ExportFormat {
+  if (queryFormat) {
+    return queryFormat;
+  }
+
+  const acceptHeader = (accept || '').toLowerCase();
+  const match = ACCEPTED_MEDIA_TYPES.find(([mediaType]) => acceptHeader.includes(mediaType));
+  return match ? match[1] : ExportFormat.JSON;
+}
+
+/**
+ * Quotes a value for CSV
+ *
+ * Anything that starts like a spreadsheet formula gets a leading apostrophe,
+ * so a poll option called "=HYPERLINK(...)" can't run when someone opens
+ * the file in Excel.
+ */
+export function toCsvValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = Array.isArray(value) ? value.join(';') : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Streams rows to the client in the chosen format
+ *
+ * Rows are written one at a time as the iterable produces them, waiting for
+ * the socket to drain when it's full, so a big export never sits in memory.
+ * Stops early if the client goes away - even mid-wait, since a closed socket
+ * never drains.
+ */
+export async function writeExport<T extends object>(
+  res: Response,
+  format: ExportFormat,
+  filename: string,
+  columns: (keyof T & string)[],
+  rows: AsyncIterable<T> | Iterable<T>,
+): Promise<void> {
+  res.status(200);
+  res.setHeader('Content-Type', CONTENT_TYPES[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}.${format}"`);
+
+  const write = async (chunk: string) => {
+    if (!res.destroyed && !res.write(chunk)) {
+      await drainOrClose(res);
+    }
+  };
+
+  let first = true;
+
+  if (format === ExportFormat.CSV) {
+    await write(columns.join(',') + '\r\n');
+  } else if (format === ExportFormat.JSON) {
+    await write('[');
+  }
+
+  for await (const row of rows) {
+    if (res.destroyed) {
+      return; // client hung up - the generator's finally blocks still run
+    }
+
+    if (format === ExportFormat.CSV) {
+      await write(columns.map(column => toCsvValue(row[column])).join(',') + '\r\n');
+    } else if (format === ExportFormat.NDJSON) {
+      await write(JSON.stringify(row) + '\n');
+    } else {
+      await write((first ? '\n' : ',\n') + JSON.stringify(row));
+    }
+
+    first = false;
+  }
+
+  if (format === ExportFormat.JSON) {
+    await write(first ? ']' : '\n]');
+  }
+
+  res.end();
+}
+
+// Resolves once the response can take more, or once there's no one left to take it
+function drainOrClose(res: Response): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      res.off('error', done);
+      resolve();
+    };
+
+    if (res.destroyed) {
+      resolve();
+      return;
+    }
+
+    res.on('drain', done);
+    res.on('close', done);
+    res.on('error', done);
+  });
+}
@@ -0,0 +1,108 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  Headers,
+  Res,
+  Logger,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { Response } from 'express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiProduces,
+} from '@nestjs/swagger';
+import { PollExportService, RESULT_EXPORT_COLUMNS, BALLOT_EXPORT_COLUMNS } from './poll-export.service';
+import { resolveExportFormat, writeExport } from './export-format';
+import { ExportQueryDto, BallotExportQueryDto } from '../dtos/export-query.dto';
+import { RequirePollOwner } from '../auth/poll-owner.decorators';
+
+@ApiTags('polls')
+@Controller('polls')
+export class PollExportController {
+  private readonly logger = new Logger(PollExportController.name);
+
+  constructor(private readonly pollExportService: PollExportService) {}
+
+  // Download the per-option results
+  @Get(':id/export/results')
+  @RequirePollOwner()
+  @ApiProduces('text/csv', 'application/json', 'application/x-ndjson')
+  @ApiOperation({
+    summary: 'Export results',
+    description: 'Downloads the per-option results as CSV, JSON or NDJSON (owner only, hidden results included). Pick the format with ?format= or the Accept header.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Poll UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Results file',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Poll not found',
+  })
+  async exportResults(
+    @Param('id', ParseUUIDPipe) pollId: string,
+    @Query() query: ExportQueryDto,
+    @Headers('accept') accept: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    const format = resolveExportFormat(query.format, accept);
+    this.logger.log(`GET /polls/${pollId}/export/results - Exporting results as ${format}`);
+
+    // Only the owner gets this far, and they can always see their own results
+    const rows = await this.pollExportService.getResultRows(pollId, true);
+    await writeExport(res, format, `poll-${pollId}-results`, RESULT_EXPORT_COLUMNS, rows);
+  }
+
+  // Download every ballot
+  @Get(':id/export/ballots')
+  @RequirePollOwner()
+  @ApiProduces('text/csv', 'application/json', 'application/x-ndjson')
+  @ApiOperation({
+    summary: 'Export raw ballots',
+    description: 'Streams every ballot (time, voter, option and full ranking/selection) as CSV, JSON or NDJSON. Add pseudonymize=true to replace voter IDs with stable pseudonyms.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Poll UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Ballots file',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Poll not found',
+  })
+  async exportBallots(
+    @Param('id', ParseUUIDPipe) pollId: string,
+    @Query() query: BallotExportQueryDto,
+    @Headers('accept') accept: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    const format = resolveExportFormat(query.format, accept);
+    this.logger.log(`GET /polls/${pollId}/export/ballots - Exporting ballots as ${format}`);
+
+    // Checked up front - after the first byte goes out we can't send a 404
+    const poll = await this.pollExportService.loadPollForExport(pollId);
+    const ballots = this.pollExportService.streamBallots(poll, { pseudonymize: query.pseudonymize });
+
+    try {
+      await writeExport(res, format, `poll-${pollId}-ballots`, BALLOT_EXPORT_COLUMNS, ballots);
+    } catch (error) {
+      // Headers are long gone, so all we can do is cut the download short
+      this.logger.error(`Ballot export for poll ${pollId} failed: ${error.message}`);
+      res.destroy(error);
+    }
+  }
+}
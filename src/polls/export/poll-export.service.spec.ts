@@ -0,0 +1,169 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { PollExportService, BallotExportRow } from './poll-export.service';
+import { ResultsService } from '../results/results.service';
+import { Poll } from '../entities/poll.entity';
+import { Vote } from '../entities/vote.entity';
+import { VoteChoice } from '../entities/vote-choice.entity';
+
+describe('PollExportService', () => {
+  let service: PollExportService;
+  let pollRepository: Repository<Poll>;
+  let choiceRepository: Repository<VoteChoice>;
+
+  const pollId = '123e4567-e89b-12d3-a456-426614174000';
+  const mockPoll = {
+    id: pollId,
+    options: [
+      { id: 'option1', text: 'JavaScript' },
+      { id: 'option2', text: 'TypeScript' },
+    ],
+  } as Poll;
+
+  const mockResultsService = {
+    getPollResults: jest.fn(),
+  };
+
+  // Query builder that hands out the given batches one call at a time
+  const mockQueryBuilder = (batches: Vote[][]) => {
+    const qb: any = {
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      addOrderBy: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      getRawAndEntities: jest.fn(),
+    };
+    batches.forEach(batch => qb.getRawAndEntities.mockResolvedValueOnce({
+      entities: batch,
+      raw: batch.map(vote => ({ vote_createdAt: vote.createdAt.toISOString() })),
+    }));
+    qb.getRawAndEntities.mockResolvedValue({ entities: [], raw: [] });
+    return qb;
+  };
+
+  const buildVote = (n: number, optionId = 'option1') => ({
+    id: `vote-${n}`,
+    userUuid: `user-${n}`,
+    optionId,
+    createdAt: new Date(Date.UTC(2024, 0, 1, 12, 0, n)),
+  }) as Vote;
+
+  const collect = async (rows: AsyncIterable<BallotExportRow>) => {
+    const all: BallotExportRow[] = [];
+    for await (const row of rows) {
+      all.push(row);
+    }
+    return all;
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PollExportService,
+        {
+          provide: getRepositoryToken(Poll),
+          useValue: {
+            findOne: jest.fn(),
+          },
+        },
+        {
+          provide: getRepositoryToken(Vote),
+          useValue: {
+            createQueryBuilder: jest.fn(),
+          },
+        },
+        {
+          provide: getRepositoryToken(VoteChoice),
+          useValue: {
+            find: jest.fn().mockResolvedValue([]),
+          },
+        },
+        {
+          provide: ResultsService,
+          useValue: mockResultsService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<PollExportService>(PollExportService);
+    pollRepository = module.get<Repository<Poll>>(getRepositoryToken(Poll));
+    choiceRepository = module.get<Repository<VoteChoice>>(getRepositoryToken(VoteChoice));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getResultRows', () => {
+    it('should return the option rows from the results', async () => {
+      const options = [{ optionId: 'option1', text: 'JavaScript', count: 3, percentage: 100, percentageOfVoters: 100 }];
+      mockResultsService.getPollResults.mockResolvedValue({ pollId, total: 3, options });
+
+      await expect(service.getResultRows(pollId)).resolves.toEqual(options);
+      expect(mockResultsService.getPollResults).toHaveBeenCalledWith(pollId, { includeHidden: false });
+    });
+
+    it('should refuse to export hidden results', async () => {
+      mockResultsService.getPollResults.mockResolvedValue({ hidden: true, closesAt: new Date().toISOString() });
+
+      await expect(service.getResultRows(pollId)).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('loadPollForExport', () => {
+    it('should throw NotFoundException when the poll does not exist', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(null);
+
+      await expect(service.loadPollForExport(pollId)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('streamBallots', () => {
+    it('should page through the ballots in batches', async () => {
+      // Full first batch (so it asks again), then a short second one
+      (service as any).batchSize = 2;
+      const qb = mockQueryBuilder([[buildVote(1), buildVote(2)], [buildVote(3, 'option2')]]);
+      jest.spyOn(service['voteRepository'], 'createQueryBuilder').mockReturnValue(qb);
+
+      const rows = await collect(service.streamBallots(mockPoll));
+
+      expect(rows.map(row => row.voterId)).toEqual(['user-1', 'user-2', 'user-3']);
+      expect(rows[2]).toEqual(expect.objectContaining({ optionId: 'option2', optionText: 'TypeScript' }));
+      expect(qb.getRawAndEntities).toHaveBeenCalledTimes(2);
+
+      // Second page picks up after the last ballot of the first
+      expect(qb.andWhere).toHaveBeenCalledTimes(1);
+    });
+
+    it('should include the full ranking for multi-option ballots', async () => {
+      const qb = mockQueryBuilder([[buildVote(1)]]);
+      jest.spyOn(service['voteRepository'], 'createQueryBuilder').mockReturnValue(qb);
+      jest.spyOn(choiceRepository, 'find').mockResolvedValue([
+        { voteId: 'vote-1', optionId: 'option1', rank: 1 },
+        { voteId: 'vote-1', optionId: 'option2', rank: 2 },
+      ] as VoteChoice[]);
+
+      const [row] = await collect(service.streamBallots(mockPoll));
+
+      expect(row.choices).toEqual(['option1', 'option2']);
+    });
+
+    it('should replace voter IDs with stable pseudonyms when asked', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue({ id: pollId, managementTokenHash: 'a'.repeat(64) } as Poll);
+
+      const first = mockQueryBuilder([[buildVote(1)]]);
+      jest.spyOn(service['voteRepository'], 'createQueryBuilder').mockReturnValue(first);
+      const [row] = await collect(service.streamBallots(mockPoll, { pseudonymize: true }));
+
+      const second = mockQueryBuilder([[buildVote(1)]]);
+      jest.spyOn(service['voteRepository'], 'createQueryBuilder').mockReturnValue(second);
+      const [again] = await collect(service.streamBallots(mockPoll, { pseudonymize: true }));
+
+      expect(row.voterId).not.toBe('user-1');
+      expect(row.voterId).toBe(again.voterId);
+    });
+  });
+});
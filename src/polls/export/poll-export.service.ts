@@ -0,0 +1,192 @@
+import { Injectable, Logger, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, Brackets, In } from 'typeorm';
+import { createHmac } from 'crypto';
+import { Poll } from '../entities/poll.entity';
+import { Vote } from '../entities/vote.entity';
+import { VoteChoice } from '../entities/vote-choice.entity';
+import { OptionResultDto, HiddenResultsDto } from '../dtos/poll-response.dto';
+import { ResultsService } from '../results/results.service';
+import { ErrorCode, coded } from '../../common/errors/error-codes';
+
+// One ballot as it appears in an export file
+export interface BallotExportRow {
+  timestamp: string; // ISO time the ballot was cast
+  voterId: string; // userUuid, or its pseudonym
+  optionId: string; // the pick (first preference / first selection on multi-option ballots)
+  optionText: string;
+  choices: string[]; // every option ID on the ballot in order (ranked/approval polls)
+}
+
+export const RESULT_EXPORT_COLUMNS: (keyof OptionResultDto)[] = ['optionId', 'text', 'count', 'percentage', 'percentageOfVoters'];
+export const BALLOT_EXPORT_COLUMNS: (keyof BallotExportRow)[] = ['timestamp', 'voterId', 'optionId', 'optionText', 'choices'];
+
+export interface BallotExportOptions {
+  pseudonymize?: boolean;
+}
+
+/**
+ * Builds the rows behind the export endpoints
+ *
+ * Results are small (one row per option) so they come from ResultsService
+ * like the normal results endpoint. Ballots can be huge, so they're read a
+ * batch at a time and handed out through an async generator - the
+ * controller writes each row to the response before the next batch loads.
+ */
+@Injectable()
+export class PollExportService {
+  private readonly logger = new Logger(PollExportService.name);
+
+  // How many ballots to load per query while streaming
+  private readonly batchSize = 500;
+
+  constructor(
+    @InjectRepository(Poll)
+    private readonly pollRepository: Repository<Poll>,
+
+    @InjectRepository(Vote)
+    private readonly voteRepository: Repository<Vote>,
+
+    @InjectRepository(VoteChoice)
+    private readonly choiceRepository: Repository<VoteChoice>,
+
+    private readonly resultsService: ResultsService,
+  ) {}
+
+  /**
+   * The same per-option numbers as GET /polls/:id/results
+   * Hidden results stay hidden unless the owner is asking
+   */
+  async getResultRows(pollId: string, isOwner = false): Promise<OptionResultDto[]> {
+    const results = await this.resultsService.getPollResults(pollId, { includeHidden: isOwner });
+
+    if ((results as HiddenResultsDto).hidden) {
+      throw new ForbiddenException(coded(ErrorCode.RESULTS_HIDDEN, 'Results are hidden until the poll closes'));
+    }
+
+    return (results as { options: OptionResultDto[] }).options;
+  }
+
+  /**
+   * Makes sure the poll exists before any response headers go out
+   * (once streaming starts we can't turn it into a 404 anymore)
+   */
+  async loadPollForExport(pollId: string): Promise<Poll> {
+    const poll = await this.pollRepository.findOne({
+      where: { id: pollId },
+      relations: ['options'],
+    });
+
+    if (!poll) {
+      throw new NotFoundException(coded(ErrorCode.POLL_NOT_FOUND, `Poll with ID ${pollId} not found`));
+    }
+
+    return poll;
+  }
+
+  /**
+   * Yields every ballot in the poll, oldest first
+   *
+   * Uses keyset paging on (createdAt, id) so each batch is a cheap indexed
+   * query and memory stays flat no matter how many votes there are.
+   */
+  async *streamBallots(poll: Poll, options: BallotExportOptions = {}): AsyncGenerator<BallotExportRow> {
+    const optionTexts = new Map(poll.options.map(option => [option.id, option.text]));
+    const pseudonymKey = options.pseudonymize ? await this.getPseudonymKey(poll.id) : null;
+
+    let cursor: { createdAt: string; id: string } | null = null;
+    let exported = 0;
+
+    while (true) {
+      const qb = this.voteRepository
+        .createQueryBuilder('vote')
+        .where('vote.pollId = :pollId', { pollId: poll.id });
+
+      if (cursor) {
+        const { createdAt, id } = cursor;
+        qb.andWhere(new Brackets(where => {
+          where
+            .where('vote.createdAt > :createdAt', { createdAt })
+            .orWhere('(vote.createdAt = :createdAt AND vote.id > :id)', { createdAt, id });
+        }));
+      }
+
+      const { entities: votes, raw } = await qb
+        .orderBy('vote.createdAt', 'ASC')
+        .addOrderBy('vote.id', 'ASC')
+        .limit(this.batchSize)
+        .getRawAndEntities();
+
+      if (votes.length === 0) {
+        break;
+      }
+
+      const choicesByVote = await this.loadChoices(votes);
+
+      for (const vote of votes) {
+        const choices = choicesByVote.get(vote.id) ?? [];
+        yield {
+          timestamp: vote.createdAt.toISOString(),
+          voterId: pseudonymKey ? this.pseudonymize(pseudonymKey, vote.userUuid) : vote.userUuid,
+          optionId: vote.optionId,
+          optionText: optionTexts.get(vote.optionId) ?? '',
+          choices,
+        };
+      }
+
+      exported += votes.length;
+
+      // Raw value rather than the Date, so the next comparison matches the stored format exactly
+      const last = votes.length - 1;
+      cursor = { createdAt: raw[last].vote_createdAt, id: votes[last].id };
+
+      if (votes.length < this.batchSize) {
+        break;
+      }
+    }
+
+    this.logger.log(`Exported ${exported} ballots for poll ${poll.id}`);
+  }
+
+  // --- Private helpers ---
+
+  /**
+   * Option IDs for each ballot in the batch, in rank order
+   * Plurality ballots have no choice rows, so they end up with an empty list
+   */
+  private async loadChoices(votes: Vote[]): Promise<Map<string, string[]>> {
+    const choices = await this.choiceRepository.find({
+      where: { voteId: In(votes.map(vote => vote.id)) },
+      order: { rank: 'ASC' },
+    });
+
+    const byVote = new Map<string, string[]>();
+    choices.forEach(choice => {
+      const list = byVote.get(choice.voteId) ?? [];
+      list.push(choice.optionId);
+      byVote.set(choice.voteId, list);
+    });
+
+    return byVote;
+  }
+
+  /**
+   * Key for pseudonyms: the poll's management token hash
+   *
+   * It's secret and different for every poll, so the same voter gets the
+   * same pseudonym across exports of one poll, but pseudonyms can't be
+   * matched up between polls or reversed by hashing guessed UUIDs.
+   */
+  private async getPseudonymKey(pollId: string): Promise<string> {
+    const poll = await this.pollRepository.findOne({
+      where: { id: pollId },
+      select: { id: true, managementTokenHash: true },
+    });
+
+    return poll?.managementTokenHash || pollId;
+  }
+
+  private pseudonymize(key: string, userUuid: string): string {
+    return createHmac('sha256', key).update(userUuid).digest('hex').slice(0, 16);
+  }
+}
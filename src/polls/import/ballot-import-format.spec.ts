@@ -0,0 +1,69 @@
+import { BadRequestException } from '@nestjs/common';
+import { MAX_IMPORT_ROWS, parseBallotImport, parseCsv } from './ballot-import-format';
+import { ErrorCode } from '../../common/errors/error-codes';
+
+describe('ballot import format helpers', () => {
+  const userUuid = '123e4567-e89b-12d3-a456-426614174000';
+
+  describe('parseCsv', () => {
+    it('should handle quoted commas, doubled quotes and line breaks', () => {
+      expect(parseCsv('a,"b, c","say ""hi"""\r\n"two\nlines",x,y')).toEqual([
+        ['a', 'b, c', 'say "hi"'],
+        ['two\nlines', 'x', 'y'],
+      ]);
+    });
+
+    it('should skip blank lines and a byte order mark', () => {
+      expect(parseCsv('\uFEFFa,b\n\n1,2\n')).toEqual([['a', 'b'], ['1', '2']]);
+    });
+
+    it('should reject a file that ends inside a quoted value', () => {
+      expect(() => parseCsv('a,"b\n1,2')).toThrow(BadRequestException);
+    });
+  });
+
+  describe('parseBallotImport', () => {
+    it('should map CSV columns by header, splitting choices and dropping empty cells', () => {
+      const rows = parseBallotImport([
+        'timestamp,userUuid,optionText,choices,notes',
+        `2026-01-01T10:00:00.000Z,${userUuid},,B; A,ignored`,
+      ].join('\n'));
+
+      expect(rows).toEqual([{ userUuid, timestamp: '2026-01-01T10:00:00.000Z', choices: ['B', 'A'] }]);
+    });
+
+    it('should read a ballot export back in', () => {
+      const rows = parseBallotImport(`timestamp,voterId,optionId,optionText,choices\n2026-01-01T10:00:00.000Z,${userUuid},,'=cheap,\n`);
+
+      expect(rows).toEqual([{ userUuid, timestamp: '2026-01-01T10:00:00.000Z', optionText: '=cheap' }]);
+    });
+
+    it('should insist on the userUuid and timestamp columns', () => {
+      const error = (() => {
+        try {
+          parseBallotImport('userUuid,optionId\nx,y');
+        } catch (e) {
+          return e;
+        }
+      })();
+
+      expect(error).toBeInstanceOf(BadRequestException);
+      expect(error.getResponse()).toMatchObject({ code: ErrorCode.INVALID_IMPORT_FILE });
+      expect(error.message).toContain('timestamp');
+    });
+
+    it('should take JSON ballots and turn non-objects into empty rows', () => {
+      expect(parseBallotImport({ ballots: [{ userUuid }, 'nope', null] })).toEqual([{ userUuid }, {}, {}]);
+    });
+
+    it('should refuse JSON without a ballots array', () => {
+      expect(() => parseBallotImport({ votes: [] })).toThrow('{"ballots": [...]}');
+      expect(() => parseBallotImport(undefined)).toThrow(BadRequestException);
+    });
+
+    it('should refuse empty and oversized imports', () => {
+      expect(() => parseBallotImport('userUuid,timestamp\n')).toThrow('no ballots');
+      expect(() => parseBallotImport({ ballots: new Array(MAX_IMPORT_ROWS + 1).fill({}) })).toThrow('at most');
+    });
+  });
+});
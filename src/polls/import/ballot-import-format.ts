@@ -0,0 +1,172 @@
+import { BadRequestException, INestApplication } from '@nestjs/common';
+import { json, text, Request, Response, NextFunction } from 'express';
+import { ErrorCode, coded } from '../../common/errors/error-codes';
+
+// Everything past this goes in a second import - it all runs in one transaction
+export const MAX_IMPORT_ROWS = 10000;
+
+// Room for about 1kb a ballot, CSV or JSON - far more than even a long ranked ballot needs
+export const MAX_IMPORT_BODY_BYTES = MAX_IMPORT_ROWS * 1024;
+
+// Where imports are posted - see useBallotImportParsers
+export const BALLOT_IMPORT_PATH = '/polls/:id/votes/import';
+
+// Column names an import understands (the same names as the JSON fields)
+export const BALLOT_IMPORT_COLUMNS = ['userUuid', 'timestamp', 'optionId', 'optionText', 'choices', 'voterToken'];
+
+// So a ballot export (timestamp, voterId, optionId, optionText, choices) can go straight back in
+const COLUMN_ALIASES: Record<string, string> = { voterId: 'userUuid' };
+
+/**
+ * Reads import bodies of up to MAX_IMPORT_BODY_BYTES - call before the app starts
+ *
+ * Nest's own parser stops JSON at 100kb and doesn't read CSV at all, and it
+ * runs before any module middleware could, so the import route's parsers
+ * go straight on the app. Nest's parser then sees the body is already read
+ * and leaves it alone.
+ */
+export function useBallotImportParsers(app: INestApplication): void {
+  const parseJson = json({ limit: MAX_IMPORT_BODY_BYTES });
+  const parseCsvText = text({ type: 'text/csv', limit: MAX_IMPORT_BODY_BYTES });
+
+  // Named wrappers: Nest skips its own JSON parser for every route if it spots
+  // middleware called "jsonParser" already, which is what json() returns
+  app.use(
+    BALLOT_IMPORT_PATH,
+    function ballotImportJsonParser(req: Request, res: Response, next: NextFunction) {
+      parseJson(req, res, next);
+    },
+    function ballotImportCsvParser(req: Request, res: Response, next: NextFunction) {
+      parseCsvText(req, res, next);
+    },
+  );
+}
+
+/**
+ * Turns an import body into one plain object per ballot
+ *
+ * A string is a CSV file (the route parses text/csv as text), anything else
+ * has to be JSON like { "ballots": [...] }. Only the file as a whole is
+ * checked here - the rows themselves are validated one by one later, so a
+ * bad row is reported instead of failing the import.
+ */
+export function parseBallotImport(body: unknown): Record<string, unknown>[] {
+  const rows = typeof body === 'string' ? csvToRows(body) : jsonToRows(body);
+
+  if (rows.length === 0) {
+    throw invalidImport('The import has no ballots');
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw invalidImport(`An import can have at most ${MAX_IMPORT_ROWS} ballots - split the file (got ${rows.length})`);
+  }
+
+  return rows;
+}
+
+/**
+ * Splits CSV text into rows of cells (RFC 4180)
+ * Handles quoted cells with commas, doubled quotes and line breaks inside,
+ * CRLF or LF line endings and a leading byte order mark
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw invalidImport('The CSV file ends inside a quoted value');
+  }
+
+  // Last line without a line break
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Blank lines carry no ballot
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+}
+
+// --- Private helpers ---
+
+function jsonToRows(body: unknown): Record<string, unknown>[] {
+  const ballots = (body as { ballots?: unknown } | null)?.ballots;
+  if (!Array.isArray(ballots)) {
+    throw invalidImport('Send JSON like {"ballots": [...]}, or a CSV file with Content-Type: text/csv');
+  }
+
+  // Anything that isn't an object fails validation as an empty row
+  return ballots.map(ballot => (ballot !== null && typeof ballot === 'object' && !Array.isArray(ballot) ? ballot : {}));
+}
+
+function csvToRows(text: string): Record<string, unknown>[] {
+  const [header, ...lines] = parseCsv(text);
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map(name => COLUMN_ALIASES[name.trim()] ?? name.trim());
+  const missing = ['userUuid', 'timestamp'].filter(name => !columns.includes(name));
+  if (missing.length > 0) {
+    throw invalidImport(`The CSV header must name these columns: ${missing.join(', ')} (understood: ${BALLOT_IMPORT_COLUMNS.join(', ')})`);
+  }
+
+  return lines.map(cells => {
+    const row: Record<string, unknown> = {};
+
+    columns.forEach((column, index) => {
+      const value = unguard((cells[index] ?? '').trim());
+      if (value === '' || !BALLOT_IMPORT_COLUMNS.includes(column)) {
+        return; // empty cells count as not sent
+      }
+
+      row[column] = column === 'choices'
+        ? value.split(';').map(choice => choice.trim()).filter(choice => choice.length > 0)
+        : value;
+    });
+
+    return row;
+  });
+}
+
+// Exports put an apostrophe in front of formula-like text (see toCsvValue) - take it off again
+function unguard(value: string): string {
+  return /^'[=+\-@\t\r]/.test(value) ? value.slice(1) : value;
+}
+
+function invalidImport(message: string): BadRequestException {
+  return new BadRequestException(coded(ErrorCode.INVALID_IMPORT_FILE, message));
+}
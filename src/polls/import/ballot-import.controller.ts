@@ -0,0 +1,81 @@
+import {
+  Controller,
+  Post,
+  Param,
+  Body,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBody,
+  ApiConsumes,
+} from '@nestjs/swagger';
+import { PollsService } from '../polls.service';
+import { parseBallotImport } from './ballot-import-format';
+import { BallotImportRequestDto, BallotImportResponseDto } from '../dtos/ballot-import.dto';
+import { RequirePollOwner } from '../auth/poll-owner.decorators';
+
+@ApiTags('polls')
+@Controller('polls')
+export class BallotImportController {
+  private readonly logger = new Logger(BallotImportController.name);
+
+  constructor(private readonly pollsService: PollsService) {}
+
+  // Bring in ballots collected offline
+  @Post(':id/votes/import')
+  @RequirePollOwner()
+  @HttpCode(HttpStatus.OK)
+  @ApiConsumes('application/json', 'text/csv')
+  @ApiOperation({
+    summary: 'Import ballots',
+    description: 'Imports ballots collected offline (paper, kiosks...) as CSV or JSON. Each row is checked like a live vote, '
+      + 'but against its own timestamp - ballots cast before the poll closed can still be imported after it. '
+      + 'Valid rows are saved in one transaction and results are recalculated once at the end; every row is reported with its outcome. '
+      + 'CSV columns: userUuid, timestamp, optionId or optionText, choices (semicolon-separated, for ranked/approval polls) and voterToken (invite-only polls).',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Poll UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiBody({
+    type: BallotImportRequestDto,
+    description: 'JSON as below, or the same fields as CSV columns with a header row',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Import finished - see the per-row outcomes',
+    type: BallotImportResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'The file itself could not be read (INVALID_IMPORT_FILE)',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Poll not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'A live vote from one of the imported users arrived mid-import - nothing was imported, run it again',
+  })
+  @ApiResponse({
+    status: 422,
+    description: 'Poll has not been open for voting yet',
+  })
+  async importBallots(
+    @Param('id', ParseUUIDPipe) pollId: string,
+    @Body() body: unknown, // CSV text or JSON - parsed below, so the ValidationPipe leaves it alone
+  ): Promise<BallotImportResponseDto> {
+    const rows = parseBallotImport(body);
+    this.logger.log(`POST /polls/${pollId}/votes/import - Importing ${rows.length} ballots`);
+    return this.pollsService.importBallots(pollId, rows);
+  }
+}
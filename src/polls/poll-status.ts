@@ -0,0 +1,32 @@
+import { Poll, PollStatus } from './entities/poll.entity';
+
+/**
+ * Works out where a poll really is in its lifecycle
+ *
+ * The stored status says what the creator (or the scheduler) last did.
+ * Times win over the column for everything else: an upcoming poll past
+ * opensAt is open, and any poll past closesAt is closed, even if the
+ * scheduler hasn't caught up yet.
+ */
+export function getEffectivePollStatus(poll: Poll, now: Date = new Date()): PollStatus {
+  if (poll.status === PollStatus.CLOSED || poll.status === PollStatus.DRAFT) {
+    return poll.status;
+  }
+
+  if (now >= poll.closesAt) {
+    return PollStatus.CLOSED;
+  }
+
+  if (poll.opensAt && now < poll.opensAt) {
+    return PollStatus.UPCOMING;
+  }
+
+  return PollStatus.OPEN;
+}
+
+/**
+ * The status to store when a poll goes live - upcoming if it has a future opensAt
+ */
+export function getInitialOpenStatus(opensAt: Date | null, now: Date = new Date()): PollStatus {
+  return opensAt && opensAt > now ? PollStatus.UPCOMING : PollStatus.OPEN;
+}
@@ -2,8 +2,13 @@ import {
   Controller,
   Post,
   Get,
+  Put,
+  Patch,
+  Delete,
   Param,
+  Query,
   Body,
+  Headers,
   HttpCode,
   HttpStatus,
   Logger,
@@ -15,11 +20,26 @@ import {
   ApiResponse,
   ApiParam,
   ApiBody,
+  ApiHeader,
 } from '@nestjs/swagger';
 import { PollsService } from './polls.service';
 import { CreatePollDto } from './dtos/create-poll.dto';
 import { VoteDto } from './dtos/vote.dto';
-import { PollResponseDto, PollResultsResponseDto as PollResultsDto, HiddenResultsDto } from './dtos/poll-response.dto';
+import { ChangeVoteDto } from './dtos/change-vote.dto';
+import { UpdatePollDto } from './dtos/update-poll.dto';
+import { ListPollsQueryDto } from './dtos/list-polls-query.dto';
+import { ResultsTimelineQueryDto } from './dtos/results-timeline-query.dto';
+import {
+  PollResponseDto,
+  PollResultsResponseDto as PollResultsDto,
+  PollResultsTimelineDto,
+  HiddenResultsDto,
+  PaginatedPollsResponseDto,
+  CreatedPollResponseDto,
+} from './dtos/poll-response.dto';
+import { RequirePollOwner, AllowPollOwner, IsPollOwner } from './auth/poll-owner.decorators';
+import { RateLimit } from '../common/rate-limit/rate-limit.decorator';
+import { Idempotent } from '../common/idempotency/idempotent.decorator';
 
 @ApiTags('polls')
 @Controller('polls')
@@ -30,31 +50,201 @@ export class PollsController {
 
   // Creates a new poll
   @Post()
+  @RateLimit('create-poll')
+  @Idempotent()
   @ApiOperation({
     summary: 'Create a new poll',
-    description: 'Creates a new poll with question, options and closing time',
+    description: 'Creates a new poll with question, options and closing time. The response includes a management token for owner-only actions.',
   })
   @ApiBody({ type: CreatePollDto })
   @ApiResponse({
     status: 201,
     description: 'Poll created successfully',
-    type: PollResponseDto,
+    type: CreatedPollResponseDto,
   })
   @ApiResponse({
     status: 400,
     description: 'Bad request - validation failed or invalid data',
   })
-  async createPoll(@Body() createPollDto: CreatePollDto): Promise<PollResponseDto> {
+  @ApiResponse({
+    status: 409,
+    description: 'IDEMPOTENCY_KEY_IN_USE - a request with this Idempotency-Key is still running',
+  })
+  @ApiResponse({
+    status: 422,
+    description: 'IDEMPOTENCY_KEY_REUSED - this Idempotency-Key was already used with a different body',
+  })
+  async createPoll(@Body() createPollDto: CreatePollDto): Promise<CreatedPollResponseDto> {
     this.logger.log(`POST /polls - Creating poll: ${createPollDto.question}`);
     return this.pollsService.createPoll(createPollDto);
   }
 
+  // List and search polls
+  @Get()
+  @ApiOperation({
+    summary: 'List polls',
+    description: 'Returns polls a page at a time, with optional status, date and text filters. Pass nextCursor back as cursor for the next page.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Page of polls',
+    type: PaginatedPollsResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - invalid filters or cursor',
+  })
+  async listPolls(@Query() query: ListPollsQueryDto): Promise<PaginatedPollsResponseDto> {
+    this.logger.log(`GET /polls - Listing polls`);
+    return this.pollsService.listPolls(query);
+  }
+
+  // Edit a poll
+  @Patch(':id')
+  @RequirePollOwner()
+  @ApiOperation({
+    summary: 'Edit a poll',
+    description: 'Change the closing time or result hiding while the poll is open. Question and options can only change before the first vote.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Poll UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiBody({ type: UpdatePollDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Poll updated successfully',
+    type: PollResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - validation failed or invalid data',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Poll not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Poll already has votes, so question and options are locked',
+  })
+  @ApiResponse({
+    status: 422,
+    description: 'Poll has closed',
+  })
+  async updatePoll(
+    @Param('id', ParseUUIDPipe) pollId: string,
+    @Body() updatePollDto: UpdatePollDto,
+  ): Promise<PollResponseDto> {
+    this.logger.log(`PATCH /polls/${pollId} - Updating poll`);
+    return this.pollsService.updatePoll(pollId, updatePollDto);
+  }
+
+  // Open a draft poll
+  @Post(':id/open')
+  @RequirePollOwner()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Open a draft poll',
+    description: 'Publishes a draft poll so it starts taking votes',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Poll UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Poll opened successfully',
+    type: PollResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Poll not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Poll is not a draft',
+  })
+  async openPoll(@Param('id', ParseUUIDPipe) pollId: string): Promise<PollResponseDto> {
+    this.logger.log(`POST /polls/${pollId}/open - Opening poll`);
+    return this.pollsService.openPoll(pollId);
+  }
+
+  // Close a poll right away
+  @Post(':id/close')
+  @RequirePollOwner()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Close a poll now',
+    description: 'Stops voting immediately, regardless of the closing time',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Poll UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Poll closed successfully',
+    type: PollResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Poll not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Poll is already closed',
+  })
+  async closePoll(@Param('id', ParseUUIDPipe) pollId: string): Promise<PollResponseDto> {
+    this.logger.log(`POST /polls/${pollId}/close - Closing poll`);
+    return this.pollsService.closePoll(pollId);
+  }
+
+  // Delete a poll
+  @Delete(':id')
+  @RequirePollOwner()
+  @ApiOperation({
+    summary: 'Delete a poll',
+    description: 'Deletes a poll together with its options and votes',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Poll UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Poll deleted successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        message: {
+          type: 'string',
+          example: 'Poll deleted successfully',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Poll not found',
+  })
+  async deletePoll(@Param('id', ParseUUIDPipe) pollId: string): Promise<{ message: string }> {
+    this.logger.log(`DELETE /polls/${pollId} - Deleting poll`);
+    return this.pollsService.deletePoll(pollId);
+  }
+
   // Cast a vote in a poll
   @Post(':id/votes')
+  @RateLimit('cast-vote')
+  @Idempotent()
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Cast a vote',
-    description: 'Cast a vote for one option in a poll. Each user can vote once per poll.',
+    description: 'Cast a vote for one option in a poll, or a ranking for ranked-choice polls. Each user can vote once per poll.',
   })
   @ApiParam({
     name: 'id',
@@ -75,26 +265,140 @@ export class PollsController {
       },
     },
   })
+  @ApiResponse({
+    status: 400,
+    description: 'Ballot does not match the poll voting method',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Invite-only poll and the voter token is missing or invalid',
+  })
   @ApiResponse({
     status: 404,
     description: 'Poll or option not found',
   })
   @ApiResponse({
     status: 409,
-    description: 'User has already voted in this poll',
+    description: 'User has already voted in this poll, the voter token was already used, or a request with this Idempotency-Key is still running',
   })
   @ApiResponse({
     status: 422,
-    description: 'Poll has closed',
+    description: 'Poll has closed, or this Idempotency-Key was already used with a different body',
   })
   async castVote(
     @Param('id', ParseUUIDPipe) pollId: string,
     @Body() voteDto: VoteDto,
   ): Promise<{ message: string }> {
-    this.logger.log(`POST /polls/${pollId}/votes - User ${voteDto.userUuid} voting for option ${voteDto.optionId}`);
+    this.logger.log(`POST /polls/${pollId}/votes - User ${voteDto.userUuid} casting a ballot`);
     return this.pollsService.castVote(pollId, voteDto);
   }
 
+  // Change an existing vote
+  @Put(':id/votes/:userUuid')
+  @ApiOperation({
+    summary: 'Change a vote',
+    description: 'Replace the option(s) on an existing ballot while the poll is open, if the poll allows vote changes.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Poll UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiParam({
+    name: 'userUuid',
+    description: 'UUID of the user who cast the vote',
+    example: '987fcdeb-51a2-43d1-b234-567890abcdef',
+  })
+  @ApiBody({ type: ChangeVoteDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Vote changed successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        message: {
+          type: 'string',
+          example: 'Vote changed successfully',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Poll does not allow vote changes, or the voter token is missing/wrong (invite-only polls)',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Poll, option or existing vote not found',
+  })
+  @ApiResponse({
+    status: 422,
+    description: 'Poll has closed',
+  })
+  async changeVote(
+    @Param('id', ParseUUIDPipe) pollId: string,
+    @Param('userUuid', ParseUUIDPipe) userUuid: string,
+    @Body() changeVoteDto: ChangeVoteDto,
+  ): Promise<{ message: string }> {
+    this.logger.log(`PUT /polls/${pollId}/votes/${userUuid} - Changing vote`);
+    return this.pollsService.changeVote(pollId, userUuid, changeVoteDto);
+  }
+
+  // Withdraw a vote
+  @Delete(':id/votes/:userUuid')
+  @ApiOperation({
+    summary: 'Withdraw a vote',
+    description: 'Remove a ballot while the poll is open, if the poll allows vote changes.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Poll UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiParam({
+    name: 'userUuid',
+    description: 'UUID of the user who cast the vote',
+    example: '987fcdeb-51a2-43d1-b234-567890abcdef',
+  })
+  @ApiHeader({
+    name: 'X-Voter-Token',
+    description: 'Voter token the ballot was cast with (invite-only polls only)',
+    required: false,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Vote withdrawn successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        message: {
+          type: 'string',
+          example: 'Vote withdrawn successfully',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Poll does not allow vote changes, or the voter token is missing/wrong (invite-only polls)',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Poll or existing vote not found',
+  })
+  @ApiResponse({
+    status: 422,
+    description: 'Poll has closed',
+  })
+  async retractVote(
+    @Param('id', ParseUUIDPipe) pollId: string,
+    @Param('userUuid', ParseUUIDPipe) userUuid: string,
+    @Headers('x-voter-token') voterToken?: string,
+  ): Promise<{ message: string }> {
+    this.logger.log(`DELETE /polls/${pollId}/votes/${userUuid} - Withdrawing vote`);
+    return this.pollsService.retractVote(pollId, userUuid, voterToken);
+  }
+
   // Get a single poll by ID
   @Get(':id')
   @ApiOperation({
@@ -122,9 +426,10 @@ export class PollsController {
 
   // Get poll results with vote counts
   @Get(':id/results')
+  @AllowPollOwner()
   @ApiOperation({
     summary: 'Get poll results',
-    description: 'Returns vote counts, percentages, and velocity metrics. May be hidden until poll closes.',
+    description: 'Returns vote counts, percentages, and velocity metrics. May be hidden until poll closes (the owner can still see them with their management token).',
   })
   @ApiParam({
     name: 'id',
@@ -145,8 +450,50 @@ export class PollsController {
     status: 404,
     description: 'Poll not found',
   })
-  async getPollResults(@Param('id', ParseUUIDPipe) pollId: string): Promise<PollResultsDto | HiddenResultsDto> {
+  async getPollResults(
+    @Param('id', ParseUUIDPipe) pollId: string,
+    @IsPollOwner() isOwner: boolean,
+  ): Promise<PollResultsDto | HiddenResultsDto> {
     this.logger.log(`GET /polls/${pollId}/results - Fetching poll results`);
-    return this.pollsService.getPollResults(pollId);
+    return this.pollsService.getPollResults(pollId, isOwner);
+  }
+
+  // Get vote counts over time
+  @Get(':id/results/timeline')
+  @AllowPollOwner()
+  @ApiOperation({
+    summary: 'Get results timeline',
+    description: 'Returns vote counts per option for each time bucket (1m, 1h or 1d), with running totals. Hidden the same way as the results.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Poll UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Timeline retrieved successfully',
+    schema: {
+      oneOf: [
+        { $ref: '#/components/schemas/PollResultsTimelineDto' },
+        { $ref: '#/components/schemas/HiddenResultsDto' },
+      ],
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid bucket size',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Poll not found',
+  })
+  async getPollTimeline(
+    @Param('id', ParseUUIDPipe) pollId: string,
+    @Query() query: ResultsTimelineQueryDto,
+    @IsPollOwner() isOwner: boolean,
+  ): Promise<PollResultsTimelineDto | HiddenResultsDto> {
+    this.logger.log(`GET /polls/${pollId}/results/timeline - Fetching results timeline`);
+    return this.pollsService.getPollTimeline(pollId, query.bucket, isOwner);
   }
 }
\ No newline at end of file
@@ -4,22 +4,72 @@ import { Poll } from './entities/poll.entity';
 import { PollOption } from './entities/poll-option.entity';
 import { ResultsStreamController } from './sse/results-stream.controller';
 import { Vote } from './entities/vote.entity';
+import { VoteChoice } from './entities/vote-choice.entity';
+import { VoterToken } from './entities/voter-token.entity';
+import { VoteLedgerEntry } from './entities/vote-ledger-entry.entity';
+import { Webhook } from './entities/webhook.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import { PollVoteCounter } from './entities/poll-vote-counter.entity';
+import { OptionVoteCounter } from './entities/option-vote-counter.entity';
+import { VoteCountBucket } from './entities/vote-count-bucket.entity';
 import { PollsService } from './polls.service';
 import { ResultsService } from './results/results.service';
+import { VoteCountersService } from './results/vote-counters.service';
 import { PollsController } from './polls.controller';
+import { PollLifecycleScheduler } from './scheduler/poll-lifecycle.scheduler';
+import { VoterTokensService } from './voter-tokens/voter-tokens.service';
+import { VoterTokensController } from './voter-tokens/voter-tokens.controller';
+import { PollExportService } from './export/poll-export.service';
+import { PollExportController } from './export/poll-export.controller';
+import { VoteLedgerService } from './audit/vote-ledger.service';
+import { AuditController } from './audit/audit.controller';
+import { WebhooksService } from './webhooks/webhooks.service';
+import { WebhooksController } from './webhooks/webhooks.controller';
+import { WebhookDispatcher } from './webhooks/webhook-dispatcher';
+import { ResultsGateway } from './ws/results.gateway';
+import { SseEventBuffer } from './sse/sse-event-buffer';
+import { AdminController } from './admin/admin.controller';
+import { BallotImportController } from './import/ballot-import.controller';
 
 @Module({
   imports: [
     // Register entities with TypeORM
-    TypeOrmModule.forFeature([Poll, PollOption, Vote]),
+    TypeOrmModule.forFeature([
+      Poll,
+      PollOption,
+      Vote,
+      VoteChoice,
+      VoterToken,
+      VoteLedgerEntry,
+      Webhook,
+      WebhookDelivery,
+      PollVoteCounter,
+      OptionVoteCounter,
+      VoteCountBucket,
+    ]),
   ],
   controllers: [
     PollsController,
     ResultsStreamController,
+    VoterTokensController,
+    PollExportController,
+    AuditController,
+    WebhooksController,
+    AdminController,
+    BallotImportController,
   ],
   providers: [
     PollsService,
     ResultsService,
+    VoteCountersService,
+    PollLifecycleScheduler,
+    VoterTokensService,
+    PollExportService,
+    VoteLedgerService,
+    WebhooksService,
+    WebhookDispatcher,
+    ResultsGateway,
+    SseEventBuffer,
   ],
 })
 export class PollsModule {}
\ No newline at end of file
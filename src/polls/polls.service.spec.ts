@@ -1,14 +1,22 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import { Repository, DataSource } from 'typeorm';
-import { BadRequestException, NotFoundException, ConflictException, UnprocessableEntityException } from '@nestjs/common';
+import { BadRequestException, NotFoundException, ConflictException, ForbiddenException, UnprocessableEntityException } from '@nestjs/common';
 import { PollsService } from './polls.service';
 import { ResultsService } from './results/results.service';
+import { VoteCountersService } from './results/vote-counters.service';
+import { VoterTokensService } from './voter-tokens/voter-tokens.service';
+import { VoteLedgerService } from './audit/vote-ledger.service';
+import { WebhooksService } from './webhooks/webhooks.service';
+import { PUB_SUB } from '../common/pubsub/pub-sub';
+import { InMemoryPubSub } from '../common/pubsub/in-memory-pub-sub';
+import { MetricsService } from '../monitoring/metrics.service';
 import { Poll } from './entities/poll.entity';
 import { PollOption } from './entities/poll-option.entity';
 import { Vote } from './entities/vote.entity';
 import { CreatePollDto } from './dtos/create-poll.dto';
 import { VoteDto } from './dtos/vote.dto';
+import { BallotImportStatus } from './dtos/ballot-import.dto';
 
 describe('PollsService', () => {
   let service: PollsService;
@@ -17,6 +25,7 @@ describe('PollsService', () => {
   let voteRepository: Repository<Vote>;
   let dataSource: DataSource;
   let resultsService: ResultsService;
+  let metrics: MetricsService;
 
   // A fake poll that we'll use in multiple tests
   // Think of this as our "test double" - looks real but it's just for testing
@@ -44,6 +53,34 @@ describe('PollsService', () => {
     getPollResults: jest.fn(),  // pretends to get results
   };
 
+  // Mock vote counters - VoteCountersService has its own tests
+  const mockVoteCountersService = {
+    initialize: jest.fn(),
+    addBallot: jest.fn(),
+    changeBallot: jest.fn(),
+    removeBallot: jest.fn(),
+    recount: jest.fn(),
+  };
+
+  // Mock voter token checks - VoterTokensService has its own tests
+  const mockVoterTokensService = {
+    assertRedeemable: jest.fn(),
+    redeemToken: jest.fn(),
+    verifyTokenOwnsVote: jest.fn(),
+    releaseToken: jest.fn(),
+  };
+
+  // Mock the vote ledger - it's tested on its own
+  const mockVoteLedgerService = {
+    append: jest.fn(),
+  };
+
+  // Mock webhooks - WebhooksService has its own tests
+  const mockWebhooksService = {
+    createWebhooks: jest.fn().mockResolvedValue([]),
+    enqueue: jest.fn(),
+  };
+
   // Set up our testing environment before each test
   // This creates a "mini NestJS app" just for testing
   beforeEach(async () => {
@@ -58,6 +95,9 @@ describe('PollsService', () => {
             findOne: jest.fn(),
             create: jest.fn(),
             save: jest.fn(),
+            update: jest.fn(),
+            delete: jest.fn(),
+            createQueryBuilder: jest.fn(),
           },
         },
 
@@ -67,6 +107,7 @@ describe('PollsService', () => {
           useValue: {
             create: jest.fn(),
             save: jest.fn(),
+            find: jest.fn(),
           },
         },
 
@@ -90,6 +131,39 @@ describe('PollsService', () => {
           provide: ResultsService,
           useValue: mockResultsService,
         },
+
+        // Mock the vote counters
+        {
+          provide: VoteCountersService,
+          useValue: mockVoteCountersService,
+        },
+
+        // Mock the voter token service
+        {
+          provide: VoterTokensService,
+          useValue: mockVoterTokensService,
+        },
+
+        // Mock the vote ledger
+        {
+          provide: VoteLedgerService,
+          useValue: mockVoteLedgerService,
+        },
+
+        // Mock webhooks
+        {
+          provide: WebhooksService,
+          useValue: mockWebhooksService,
+        },
+
+        // Real in-memory pub/sub - it's small, and tests can watch the events go out
+        {
+          provide: PUB_SUB,
+          useValue: new InMemoryPubSub(),
+        },
+
+        // Real metrics too - they're just counters in memory
+        MetricsService,
       ],
     }).compile();
 
@@ -100,6 +174,7 @@ describe('PollsService', () => {
     voteRepository = module.get<Repository<Vote>>(getRepositoryToken(Vote));
     dataSource = module.get<DataSource>(DataSource);
     resultsService = module.get<ResultsService>(ResultsService);
+    metrics = module.get<MetricsService>(MetricsService);
   });
 
   // Clean up after each test so they don't interfere with each other
@@ -149,6 +224,21 @@ describe('PollsService', () => {
       await expect(service.createPoll(pastClosingTimeDto)).rejects.toThrow(BadRequestException);
     });
 
+    it('should reject selection limits on non-approval polls', async () => {
+      await expect(
+        service.createPoll({ ...validCreatePollDto, maxSelections: 2 })
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject polls that open after they close', async () => {
+      const backwardsDto = {
+        ...validCreatePollDto,
+        opensAt: new Date(Date.now() + 2 * 86400000).toISOString(), // day after closing
+      };
+
+      await expect(service.createPoll(backwardsDto)).rejects.toThrow(BadRequestException);
+    });
+
     it('should reject polls with duplicate options', async () => {
       // Someone accidentally put the same option twice
       const duplicateOptionsDto = {
@@ -184,6 +274,149 @@ describe('PollsService', () => {
     });
   });
 
+  // --- Testing poll listing ---
+  describe('listPolls', () => {
+    // Chainable fake query builder - every filter call just returns itself
+    const buildMockQueryBuilder = (polls: any[]) => ({
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      addSelect: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      addOrderBy: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      getRawAndEntities: jest.fn().mockResolvedValue({
+        entities: polls,
+        raw: polls.map(poll => ({ poll_createdAt: poll.createdAt.toISOString() })),
+      }),
+    });
+
+    it('should return a page of polls with a cursor when there are more', async () => {
+      const polls = [
+        { ...mockPoll, id: 'poll-a' },
+        { ...mockPoll, id: 'poll-b' },
+        { ...mockPoll, id: 'poll-c' },
+      ];
+      jest.spyOn(pollRepository, 'createQueryBuilder').mockReturnValue(buildMockQueryBuilder(polls) as any);
+      jest.spyOn(optionRepository, 'find').mockResolvedValue(mockPoll.options as PollOption[]);
+
+      const result = await service.listPolls({ limit: 2 });
+
+      expect(result.items.map(item => item.id)).toEqual(['poll-a', 'poll-b']);
+      expect(result.nextCursor).toEqual(expect.any(String));
+      expect(result.limit).toBe(2);
+    });
+
+    it('should return no cursor on the last page', async () => {
+      jest.spyOn(pollRepository, 'createQueryBuilder').mockReturnValue(buildMockQueryBuilder([mockPoll]) as any);
+      jest.spyOn(optionRepository, 'find').mockResolvedValue(mockPoll.options as PollOption[]);
+
+      const result = await service.listPolls({});
+
+      expect(result.items).toHaveLength(1);
+      expect(result.nextCursor).toBeNull();
+    });
+
+    it('should reject a cursor that cannot be decoded', async () => {
+      jest.spyOn(pollRepository, 'createQueryBuilder').mockReturnValue(buildMockQueryBuilder([]) as any);
+
+      await expect(service.listPolls({ cursor: 'not-a-cursor' })).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  // --- Testing poll lifecycle management ---
+  describe('updatePoll', () => {
+    it('should refuse to edit options once someone has voted', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(mockPoll as Poll);
+
+      mockDataSource.transaction.mockImplementation(async (callback) => {
+        return callback({ count: jest.fn().mockResolvedValue(3) });
+      });
+
+      await expect(
+        service.updatePoll(mockPoll.id, { options: ['Go', 'Rust'] })
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should keep existing options and only add or remove what changed', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(mockPoll as Poll);
+
+      const mockTransactionManager = {
+        count: jest.fn().mockResolvedValue(0),
+        update: jest.fn(),
+        delete: jest.fn(),
+        create: jest.fn().mockImplementation((entity, data) => data),
+        save: jest.fn(),
+      };
+
+      mockDataSource.transaction.mockImplementation(async (callback) => {
+        return callback(mockTransactionManager);
+      });
+
+      await service.updatePoll(mockPoll.id, { options: ['JavaScript', 'Go'] });
+
+      expect(mockTransactionManager.delete).toHaveBeenCalledWith(PollOption, ['option2']);
+      expect(mockTransactionManager.save).toHaveBeenCalledWith([{ text: 'Go', pollId: mockPoll.id }]);
+    });
+
+    it('should refuse fewer options than an approval poll requires per ballot', async () => {
+      const approvalPoll = { ...mockPoll, votingMethod: 'approval', minSelections: 3, maxSelections: null };
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(approvalPoll as Poll);
+
+      const error = await service.updatePoll(mockPoll.id, { options: ['Go', 'Rust'] }).catch(e => e);
+
+      expect(error).toBeInstanceOf(BadRequestException);
+      expect(error.getResponse().code).toBe('INVALID_SELECTION_LIMITS');
+      expect(mockDataSource.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should not allow moving the closing time into the past', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(mockPoll as Poll);
+
+      await expect(
+        service.updatePoll(mockPoll.id, { closesAt: new Date(Date.now() - 1000).toISOString() })
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('closePoll', () => {
+    it('should mark the poll closed and pull closesAt back to now', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue({ ...mockPoll } as Poll);
+
+      const result = await service.closePoll(mockPoll.id);
+
+      expect(result.status).toBe('closed');
+      expect(pollRepository.update).toHaveBeenCalledWith(
+        { id: mockPoll.id },
+        expect.objectContaining({ status: 'closed' }),
+      );
+      expect(resultsService.invalidateCache).toHaveBeenCalledWith(mockPoll.id);
+    });
+
+    it('should reject closing a poll that is already closed', async () => {
+      const closedPoll = { ...mockPoll, status: 'closed' };
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(closedPoll as Poll);
+
+      await expect(service.closePoll(mockPoll.id)).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('deletePoll', () => {
+    it('should delete the poll when it exists', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(mockPoll as Poll);
+
+      const result = await service.deletePoll(mockPoll.id);
+
+      expect(result.message).toBe('Poll deleted successfully');
+      expect(pollRepository.delete).toHaveBeenCalledWith({ id: mockPoll.id });
+    });
+
+    it('should throw NotFoundException when poll does not exist', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(null);
+
+      await expect(service.deletePoll('nonexistent-poll')).rejects.toThrow(NotFoundException);
+    });
+  });
+
   // Testing the voting process
   describe('castVote', () => {
     // A valid vote that should work
@@ -213,6 +446,126 @@ describe('PollsService', () => {
       expect(resultsService.invalidateCache).toHaveBeenCalledWith(mockPoll.id);
     });
 
+    it('should store the full ranking for ranked-choice polls', async () => {
+      const rankedPoll = { ...mockPoll, votingMethod: 'ranked-choice' };
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(rankedPoll as Poll);
+
+      const mockTransactionManager = {
+        create: jest.fn().mockReturnValue({}),
+        save: jest.fn().mockResolvedValue({}),
+      };
+
+      mockDataSource.transaction.mockImplementation(async (callback) => {
+        return callback(mockTransactionManager);
+      });
+
+      await service.castVote(mockPoll.id, { userUuid: 'user-123', rankings: ['option2', 'option1'] });
+
+      // First preference goes on the vote, the ranking goes in the choices
+      expect(mockTransactionManager.create).toHaveBeenCalledWith(Vote, expect.objectContaining({
+        optionId: 'option2',
+        choices: [
+          { optionId: 'option2', rank: 1 },
+          { optionId: 'option1', rank: 2 },
+        ],
+      }));
+    });
+
+    it('should record the ballot in the vote ledger', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(mockPoll as Poll);
+
+      const savedVote = { id: 'vote-1', userUuid: 'user-123' };
+      const mockTransactionManager = {
+        create: jest.fn().mockReturnValue({}),
+        save: jest.fn().mockResolvedValue(savedVote),
+      };
+
+      mockDataSource.transaction.mockImplementation(async (callback) => {
+        return callback(mockTransactionManager);
+      });
+
+      await service.castVote(mockPoll.id, validVoteDto);
+
+      expect(mockVoteLedgerService.append).toHaveBeenCalledWith(mockTransactionManager, mockPoll.id, 'cast', savedVote, ['option1']);
+    });
+
+    it('should count the ballot in the same transaction', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(mockPoll as Poll);
+
+      const savedVote = { id: 'vote-1', userUuid: 'user-123', createdAt: new Date() };
+      const mockTransactionManager = {
+        create: jest.fn().mockReturnValue({}),
+        save: jest.fn().mockResolvedValue(savedVote),
+      };
+
+      mockDataSource.transaction.mockImplementation(async (callback) => {
+        return callback(mockTransactionManager);
+      });
+
+      await service.castVote(mockPoll.id, validVoteDto);
+
+      expect(mockVoteCountersService.addBallot).toHaveBeenCalledWith(mockTransactionManager, mockPoll, savedVote, ['option1']);
+    });
+
+    it('should publish the new results to vote event listeners', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(mockPoll as Poll);
+      mockResultsService.getPollResults.mockResolvedValue({ pollId: mockPoll.id, total: 1 });
+      mockDataSource.transaction.mockImplementation(async (callback) => {
+        return callback({ create: jest.fn().mockReturnValue({}), save: jest.fn().mockResolvedValue({ id: 'vote-1' }) });
+      });
+
+      const events: any[] = [];
+      const subscription = service.voteEvents$.subscribe(event => events.push(event));
+
+      await service.castVote(mockPoll.id, validVoteDto);
+      subscription.unsubscribe();
+
+      expect(events).toEqual([{ pollId: mockPoll.id, results: { pollId: mockPoll.id, total: 1 } }]);
+    });
+
+    it('should spend the voter token on invite-only polls', async () => {
+      const invitePoll = { ...mockPoll, inviteOnly: true };
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(invitePoll as Poll);
+
+      const mockTransactionManager = {
+        create: jest.fn().mockReturnValue({}),
+        save: jest.fn().mockResolvedValue({ id: 'vote-1' }),
+      };
+
+      mockDataSource.transaction.mockImplementation(async (callback) => {
+        return callback(mockTransactionManager);
+      });
+
+      await service.castVote(mockPoll.id, { ...validVoteDto, voterToken: 'secret' });
+
+      expect(mockVoterTokensService.redeemToken).toHaveBeenCalledWith(mockTransactionManager, mockPoll.id, 'secret', 'vote-1');
+    });
+
+    it('should reject ballots without a voter token on invite-only polls', async () => {
+      const invitePoll = { ...mockPoll, inviteOnly: true };
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(invitePoll as Poll);
+
+      await expect(service.castVote(mockPoll.id, validVoteDto)).rejects.toThrow(ForbiddenException);
+      expect(mockDataSource.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject rankings for plurality polls', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(mockPoll as Poll);
+
+      await expect(
+        service.castVote(mockPoll.id, { userUuid: 'user-123', rankings: ['option1'] })
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject approval ballots outside the selection limits', async () => {
+      const approvalPoll = { ...mockPoll, votingMethod: 'approval', minSelections: 1, maxSelections: 1 };
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(approvalPoll as Poll);
+
+      await expect(
+        service.castVote(mockPoll.id, { userUuid: 'user-123', optionIds: ['option1', 'option2'] })
+      ).rejects.toThrow(BadRequestException);
+    });
+
     it('should reject votes for polls that don\'t exist', async () => {
       // Tell repository the poll doesn't exist
       jest.spyOn(pollRepository, 'findOne').mockResolvedValue(null);
@@ -234,6 +587,27 @@ describe('PollsService', () => {
       await expect(service.castVote(mockPoll.id, validVoteDto)).rejects.toThrow(UnprocessableEntityException);
     });
 
+    it('should reject votes for polls that were closed early', async () => {
+      const closedEarlyPoll = { ...mockPoll, status: 'closed' };
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(closedEarlyPoll as Poll);
+
+      await expect(service.castVote(mockPoll.id, validVoteDto)).rejects.toThrow(UnprocessableEntityException);
+    });
+
+    it('should reject votes before the poll opens', async () => {
+      const upcomingPoll = { ...mockPoll, status: 'upcoming', opensAt: new Date(Date.now() + 3600000) };
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(upcomingPoll as Poll);
+
+      await expect(service.castVote(mockPoll.id, validVoteDto)).rejects.toThrow('Poll opens for voting at');
+    });
+
+    it('should reject votes for draft polls', async () => {
+      const draftPoll = { ...mockPoll, status: 'draft' };
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(draftPoll as Poll);
+
+      await expect(service.castVote(mockPoll.id, validVoteDto)).rejects.toThrow(UnprocessableEntityException);
+    });
+
     it('should reject votes for options that don\'t exist in the poll', async () => {
       // Try to vote for an option that doesn't exist
       const invalidVoteDto = { ...validVoteDto, optionId: 'nonexistent-option' };
@@ -256,6 +630,280 @@ describe('PollsService', () => {
       // This should throw ConflictException (not crash the app)
       await expect(service.castVote(mockPoll.id, validVoteDto)).rejects.toThrow(ConflictException);
     });
+
+    it('should count each attempt by how it ended', async () => {
+      const duplicateVoteError = new Error('UNIQUE constraint failed');
+      duplicateVoteError['code'] = 'SQLITE_CONSTRAINT_UNIQUE';
+
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValueOnce(mockPoll as Poll);
+      mockDataSource.transaction.mockImplementationOnce(async (callback) => {
+        return callback({ create: jest.fn().mockReturnValue({}), save: jest.fn().mockResolvedValue({ id: 'vote-1' }) });
+      });
+      await service.castVote(mockPoll.id, validVoteDto);
+
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValueOnce(mockPoll as Poll);
+      mockDataSource.transaction.mockRejectedValueOnce(duplicateVoteError);
+      await expect(service.castVote(mockPoll.id, validVoteDto)).rejects.toThrow(ConflictException);
+
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValueOnce({ ...mockPoll, status: 'closed' } as Poll);
+      await expect(service.castVote(mockPoll.id, validVoteDto)).rejects.toThrow(UnprocessableEntityException);
+
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValueOnce(null);
+      await expect(service.castVote('nonexistent-poll', validVoteDto)).rejects.toThrow(NotFoundException);
+
+      const rendered = metrics.registry.render();
+      expect(rendered).toContain('onevote_votes_cast_total{outcome="success"} 1');
+      expect(rendered).toContain('onevote_votes_cast_total{outcome="duplicate"} 1');
+      expect(rendered).toContain('onevote_votes_cast_total{outcome="closed"} 1');
+      expect(rendered).toContain('onevote_votes_cast_total{outcome="not_found"} 1');
+    });
+  });
+
+  // --- Testing vote changes and withdrawals ---
+  describe('changeVote', () => {
+    it('should swap the option on an existing vote', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(mockPoll as Poll);
+
+      const mockTransactionManager = {
+        findOne: jest.fn().mockResolvedValue({ id: 'vote-1', pollId: mockPoll.id, userUuid: 'user-123' }),
+        delete: jest.fn().mockResolvedValue({}),
+        update: jest.fn().mockResolvedValue({}),
+        create: jest.fn(),
+        save: jest.fn(),
+      };
+
+      mockDataSource.transaction.mockImplementation(async (callback) => {
+        return callback(mockTransactionManager);
+      });
+
+      const result = await service.changeVote(mockPoll.id, 'user-123', { optionId: 'option2' });
+
+      expect(result.message).toBe('Vote changed successfully');
+      expect(mockTransactionManager.update).toHaveBeenCalledWith(Vote, { id: 'vote-1' }, { optionId: 'option2' });
+      expect(resultsService.invalidateCache).toHaveBeenCalledWith(mockPoll.id);
+    });
+
+    it('should throw NotFoundException when the user has not voted', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(mockPoll as Poll);
+
+      mockDataSource.transaction.mockImplementation(async (callback) => {
+        return callback({ findOne: jest.fn().mockResolvedValue(null) });
+      });
+
+      await expect(service.changeVote(mockPoll.id, 'user-123', { optionId: 'option2' })).rejects.toThrow(NotFoundException);
+    });
+
+    it('should refuse changes when the poll locks votes in', async () => {
+      const lockedPoll = { ...mockPoll, allowVoteChanges: false };
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(lockedPoll as Poll);
+
+      await expect(service.changeVote(mockPoll.id, 'user-123', { optionId: 'option2' })).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('retractVote', () => {
+    it('should delete the ballot and refresh results', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(mockPoll as Poll);
+
+      const mockTransactionManager = {
+        findOne: jest.fn().mockResolvedValue({ id: 'vote-1', pollId: mockPoll.id, userUuid: 'user-123' }),
+        delete: jest.fn().mockResolvedValue({}),
+      };
+
+      mockDataSource.transaction.mockImplementation(async (callback) => {
+        return callback(mockTransactionManager);
+      });
+
+      const result = await service.retractVote(mockPoll.id, 'user-123');
+
+      expect(result.message).toBe('Vote withdrawn successfully');
+      expect(mockTransactionManager.delete).toHaveBeenCalledWith(Vote, { id: 'vote-1' });
+      expect(mockVoteCountersService.removeBallot).toHaveBeenCalledWith(
+        mockTransactionManager,
+        mockPoll,
+        expect.objectContaining({ id: 'vote-1' }),
+      );
+      expect(resultsService.invalidateCache).toHaveBeenCalledWith(mockPoll.id);
+    });
+
+    it('should check and release the voter token on invite-only polls', async () => {
+      const invitePoll = { ...mockPoll, inviteOnly: true };
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(invitePoll as Poll);
+
+      const mockTransactionManager = {
+        findOne: jest.fn().mockResolvedValue({ id: 'vote-1', pollId: mockPoll.id, userUuid: 'user-123' }),
+        delete: jest.fn().mockResolvedValue({}),
+      };
+
+      mockDataSource.transaction.mockImplementation(async (callback) => {
+        return callback(mockTransactionManager);
+      });
+
+      await service.retractVote(mockPoll.id, 'user-123', 'secret');
+
+      expect(mockVoterTokensService.verifyTokenOwnsVote).toHaveBeenCalledWith(mockTransactionManager, mockPoll.id, 'secret', 'vote-1');
+      expect(mockVoterTokensService.releaseToken).toHaveBeenCalledWith(mockTransactionManager, 'vote-1');
+    });
+
+    it('should refuse to withdraw votes after the poll closed', async () => {
+      const closedPoll = { ...mockPoll, closesAt: new Date(Date.now() - 86400000) };
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(closedPoll as Poll);
+
+      await expect(service.retractVote(mockPoll.id, 'user-123')).rejects.toThrow(UnprocessableEntityException);
+    });
+  });
+
+  // --- Testing publishing drafts ---
+  describe('openPoll', () => {
+    it('should record when a draft was actually opened', async () => {
+      const draftPoll = { ...mockPoll, status: 'draft', opensAt: null, createdAt: new Date(Date.now() - 86400000) };
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(draftPoll as Poll);
+      const before = Date.now();
+
+      const result = await service.openPoll(mockPoll.id);
+
+      const [, changes] = (pollRepository.update as jest.Mock).mock.calls[0];
+      expect(changes.status).toBe('open');
+      expect(changes.opensAt.getTime()).toBeGreaterThanOrEqual(before);
+      expect(result.opensAt).toBe(changes.opensAt.toISOString());
+    });
+
+    it('should keep a future opening time', async () => {
+      const opensAt = new Date(Date.now() + 3600000);
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue({ ...mockPoll, status: 'draft', opensAt } as Poll);
+
+      const result = await service.openPoll(mockPoll.id);
+
+      expect(pollRepository.update).toHaveBeenCalledWith({ id: mockPoll.id }, { status: 'upcoming', opensAt });
+      expect(result.status).toBe('upcoming');
+    });
+  });
+
+  // --- Testing ballot imports ---
+  describe('importBallots', () => {
+    const hoursAgo = (hours: number) => new Date(Date.now() - hours * 3600000).toISOString();
+
+    // Ran for a day and closed an hour ago - imports arrive after the fact
+    const closedPoll = { ...mockPoll, createdAt: new Date(hoursAgo(25)), closesAt: new Date(hoursAgo(1)) };
+    const voter = (n: number) => `123e4567-e89b-12d3-a456-42661417400${n}`;
+
+    const mockTransactionManager = {
+      exists: jest.fn(),
+      create: jest.fn((_entity, data) => data),
+      save: jest.fn(),
+    };
+
+    beforeEach(() => {
+      mockTransactionManager.exists.mockResolvedValue(false);
+      mockTransactionManager.save.mockImplementation(async vote => ({ ...vote, id: `vote-${vote.userUuid.slice(-1)}` }));
+      mockDataSource.transaction.mockImplementation(async (callback) => callback(mockTransactionManager));
+    });
+
+    it('should import valid rows with their own time and report the rest', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(closedPoll as Poll);
+      const castAt = hoursAgo(5);
+      mockTransactionManager.exists.mockImplementation(async (_entity, { where }) => where.userUuid === voter(2));
+
+      const result = await service.importBallots(mockPoll.id, [
+        { userUuid: voter(1), timestamp: castAt, optionText: 'TypeScript' },
+        { userUuid: voter(2), timestamp: hoursAgo(5), optionText: 'JavaScript' },  // already voted
+        { userUuid: voter(3), timestamp: hoursAgo(5), optionText: 'Rust' },
+        { userUuid: voter(4), timestamp: hoursAgo(0.5), optionText: 'JavaScript' }, // after the close
+        { userUuid: 'not-a-uuid', timestamp: hoursAgo(5), optionText: 'JavaScript' },
+        { userUuid: voter(1), timestamp: hoursAgo(4), optionText: 'JavaScript' },  // twice in one file
+      ]);
+
+      expect(result.rows.map(row => row.status)).toEqual([
+        BallotImportStatus.IMPORTED,
+        BallotImportStatus.DUPLICATE,
+        BallotImportStatus.UNKNOWN_OPTION,
+        BallotImportStatus.POLL_CLOSED,
+        BallotImportStatus.INVALID,
+        BallotImportStatus.DUPLICATE,
+      ]);
+      expect(result.summary).toEqual({ imported: 1, duplicate: 2, unknown_option: 1, poll_closed: 1, invalid: 1 });
+      expect(result.rows[4]).toMatchObject({ code: 'VALIDATION_FAILED', message: expect.stringContaining('userUuid') });
+
+      expect(mockTransactionManager.create).toHaveBeenCalledWith(Vote, expect.objectContaining({
+        userUuid: voter(1),
+        optionId: 'option2',
+        createdAt: new Date(castAt),
+      }));
+      expect(mockVoteLedgerService.append).toHaveBeenCalledTimes(1);
+    });
+
+    it('should recount and refresh results once for the whole import', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(closedPoll as Poll);
+
+      await service.importBallots(mockPoll.id, [1, 2, 3].map(n => ({ userUuid: voter(n), timestamp: hoursAgo(5), optionText: 'JavaScript' })));
+
+      expect(mockDataSource.transaction).toHaveBeenCalledTimes(1);
+      expect(mockVoteCountersService.recount).toHaveBeenCalledTimes(1);
+      expect(mockVoteCountersService.recount).toHaveBeenCalledWith(mockTransactionManager, closedPoll);
+      expect(mockVoteCountersService.addBallot).not.toHaveBeenCalled();
+      expect(resultsService.invalidateCache).toHaveBeenCalledTimes(1);
+      expect(resultsService.getPollResults).toHaveBeenCalledTimes(1); // one broadcast
+    });
+
+    it('should leave results alone when nothing was imported', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(closedPoll as Poll);
+
+      const result = await service.importBallots(mockPoll.id, [{ userUuid: voter(1), timestamp: hoursAgo(0.5), optionText: 'JavaScript' }]);
+
+      expect(result.summary.poll_closed).toBe(1);
+      expect(mockVoteCountersService.recount).not.toHaveBeenCalled();
+      expect(resultsService.invalidateCache).not.toHaveBeenCalled();
+    });
+
+    it('should check and redeem voter tokens on invite-only polls', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue({ ...closedPoll, inviteOnly: true } as Poll);
+      mockVoterTokensService.assertRedeemable.mockImplementation(async (_manager, _pollId, token) => {
+        if (token === 'used') {
+          throw new ConflictException({ code: 'VOTER_TOKEN_USED', message: 'This voter token has already been used' });
+        }
+      });
+
+      const result = await service.importBallots(mockPoll.id, [
+        { userUuid: voter(1), timestamp: hoursAgo(5), optionText: 'JavaScript', voterToken: 'fresh' },
+        { userUuid: voter(2), timestamp: hoursAgo(5), optionText: 'JavaScript', voterToken: 'used' },
+        { userUuid: voter(3), timestamp: hoursAgo(5), optionText: 'JavaScript' },
+      ]);
+
+      expect(result.rows.map(row => row.code)).toEqual([undefined, 'VOTER_TOKEN_USED', 'VOTER_TOKEN_REQUIRED']);
+      expect(mockVoterTokensService.redeemToken).toHaveBeenCalledTimes(1);
+      expect(mockVoterTokensService.redeemToken).toHaveBeenCalledWith(mockTransactionManager, mockPoll.id, 'fresh', 'vote-1');
+    });
+
+    it('should refuse ballots from before a draft poll was opened', async () => {
+      // Drafted two days ago, only opened 25 hours ago - openPoll recorded when
+      const draftedPoll = { ...closedPoll, createdAt: new Date(hoursAgo(48)), opensAt: new Date(hoursAgo(25)) };
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(draftedPoll as Poll);
+
+      const result = await service.importBallots(mockPoll.id, [
+        { userUuid: voter(1), timestamp: hoursAgo(30), optionText: 'JavaScript' },
+        { userUuid: voter(2), timestamp: hoursAgo(5), optionText: 'JavaScript' },
+      ]);
+
+      expect(result.rows.map(row => row.code)).toEqual(['POLL_NOT_OPEN', undefined]);
+    });
+
+    it('should refuse polls that have not opened yet', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue({ ...mockPoll, status: 'draft' } as Poll);
+
+      await expect(service.importBallots(mockPoll.id, [{}])).rejects.toThrow(UnprocessableEntityException);
+      expect(mockDataSource.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should import nothing if a live vote races the import', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(closedPoll as Poll);
+      const duplicateVoteError = new Error('UNIQUE constraint failed');
+      duplicateVoteError['code'] = 'SQLITE_CONSTRAINT_UNIQUE';
+      mockDataSource.transaction.mockRejectedValueOnce(duplicateVoteError);
+
+      await expect(service.importBallots(mockPoll.id, [{ userUuid: voter(1), timestamp: hoursAgo(5), optionText: 'JavaScript' }]))
+        .rejects.toThrow(ConflictException);
+      expect(resultsService.invalidateCache).not.toHaveBeenCalled();
+    });
   });
 
   // --- Testing results retrieval ---
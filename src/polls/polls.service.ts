@@ -1,21 +1,49 @@
 import {
   Injectable,
+  Inject,
+  HttpException,
   Logger,
   NotFoundException,
   BadRequestException,
   ConflictException,
+  ForbiddenException,
   UnprocessableEntityException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, DataSource } from 'typeorm';
-import { Poll } from './entities/poll.entity';
+import { Repository, DataSource, EntityManager, SelectQueryBuilder, Brackets, In } from 'typeorm';
+import { Poll, PollStatus, VotingMethod } from './entities/poll.entity';
 import { PollOption } from './entities/poll-option.entity';
 import { Vote } from './entities/vote.entity';
+import { VoteChoice } from './entities/vote-choice.entity';
 import { CreatePollDto } from './dtos/create-poll.dto';
 import { VoteDto } from './dtos/vote.dto';
-import { PollResponseDto } from './dtos/poll-response.dto';
+import { ChangeVoteDto } from './dtos/change-vote.dto';
+import { UpdatePollDto } from './dtos/update-poll.dto';
+import { PollResponseDto, PaginatedPollsResponseDto, CreatedPollResponseDto } from './dtos/poll-response.dto';
+import { ListPollsQueryDto, PollSortField, SortOrder } from './dtos/list-polls-query.dto';
+import { TimelineBucket } from './dtos/results-timeline-query.dto';
+import {
+  BallotImportRowDto,
+  BallotImportResponseDto,
+  BallotImportRowResultDto,
+  BallotImportStatus,
+} from './dtos/ballot-import.dto';
 import { ResultsService } from './results/results.service';
-import { Subject } from 'rxjs';
+import { VoteCountersService } from './results/vote-counters.service';
+import { VoterTokensService } from './voter-tokens/voter-tokens.service';
+import { VoteLedgerService } from './audit/vote-ledger.service';
+import { WebhooksService } from './webhooks/webhooks.service';
+import { WebhookEvent } from './entities/webhook.entity';
+import { getEffectivePollStatus, getInitialOpenStatus } from './poll-status';
+import { generateSecretToken, hashSecretToken } from './auth/secret-token';
+import { PUB_SUB, PubSub } from '../common/pubsub/pub-sub';
+import { ErrorCode, coded, getDefaultErrorCode } from '../common/errors/error-codes';
+import { validationExceptionFactory } from '../common/errors/validation-exception.factory';
+import { isUniqueViolation } from '../database/database-errors';
+import { MetricsService, VoteOutcome } from '../monitoring/metrics.service';
+import { Observable } from 'rxjs';
+import { plainToInstance } from 'class-transformer';
+import { validateSync } from 'class-validator';
 
 // This is what gets sent to real-time subscribers when someone votes
 export interface VoteEvent {
@@ -23,13 +51,61 @@ export interface VoteEvent {
   results: any; // the updated poll results after the vote
 }
 
+// What we stash inside a pagination cursor (base64url-encoded JSON)
+interface PollListCursor {
+  sort: PollSortField;
+  order: SortOrder;
+  value: string | number; // sort value of the last poll on the page, exactly as the database returned it
+  id: string; // tie-breaker when several polls share the same value
+}
+
+// SQL for each sortable field - totalVotes is counted on the fly
+const POLL_SORT_EXPRESSIONS: Record<PollSortField, string> = {
+  [PollSortField.CREATED_AT]: 'poll.createdAt',
+  [PollSortField.CLOSES_AT]: 'poll.closesAt',
+  [PollSortField.TOTAL_VOTES]: '(SELECT COUNT(*) FROM "votes" "v" WHERE "v"."pollId" = "poll"."id")',
+};
+
+// Pub/sub channels the events travel on, so every instance hears them
+export const VOTE_EVENTS_CHANNEL = 'vote-events';
+export const POLL_LIFECYCLE_CHANNEL = 'poll-lifecycle';
+
+export type PollLifecycleEventType = 'poll-opened' | 'poll-closed';
+
+// Sent when a poll starts or stops taking votes
+export interface PollLifecycleEvent {
+  pollId: string;
+  type: PollLifecycleEventType;
+  occurredAt: string; // ISO timestamp
+  results?: any; // final results, only on poll-closed
+}
+
+// How a skipped import row is reported, going by the code castVote would have answered with
+const IMPORT_STATUS_BY_CODE: Partial<Record<string, BallotImportStatus>> = {
+  [ErrorCode.DUPLICATE_VOTE]: BallotImportStatus.DUPLICATE,
+  [ErrorCode.OPTION_NOT_IN_POLL]: BallotImportStatus.UNKNOWN_OPTION,
+  [ErrorCode.POLL_CLOSED]: BallotImportStatus.POLL_CLOSED,
+};
+
+// An import row that passed the checks that don't need the database
+interface ImportedBallot {
+  userUuid: string;
+  castAt: Date;
+  optionIds: string[];
+  voterToken?: string;
+}
+
 @Injectable()
 export class PollsService {
   private readonly logger = new Logger(PollsService.name);
 
   // This broadcasts vote events to anyone listening via Server-Sent Events
   // Think of it like a radio station that announces "hey, someone just voted!"
-  public voteEvents$ = new Subject<VoteEvent>();
+  // It goes through pub/sub, so votes cast on other instances come through too
+  public readonly voteEvents$: Observable<VoteEvent>;
+
+  // Same idea, but for "voting has started" / "voting is over" announcements
+  public readonly lifecycleEvents$: Observable<PollLifecycleEvent>;
 
   constructor(
     @InjectRepository(Poll)
@@ -43,40 +119,76 @@ export class PollsService {
 
     private readonly dataSource: DataSource,
     private readonly resultsService: ResultsService,
-  ) {}
+    private readonly voteCountersService: VoteCountersService,
+    private readonly voterTokensService: VoterTokensService,
+    private readonly voteLedgerService: VoteLedgerService,
+    private readonly webhooksService: WebhooksService,
+
+    @Inject(PUB_SUB)
+    private readonly pubSub: PubSub,
+
+    private readonly metrics: MetricsService,
+  ) {
+    this.voteEvents$ = this.pubSub.messages<VoteEvent>(VOTE_EVENTS_CHANNEL);
+    this.lifecycleEvents$ = this.pubSub.messages<PollLifecycleEvent>(POLL_LIFECYCLE_CHANNEL);
+  }
 
   /**
    * Creates a brand new poll with all its answer options
    *
    * We validate a few things first:
    * - Poll can't close in the past (that would be weird)
+   * - If it opens later, it has to open before it closes
    * - All options must be unique (no point having "Yes" twice)
+   * - Selection limits fit the number of options (approval polls)
    *
    * Uses a database transaction so if anything fails, nothing gets saved
+   *
+   * The creator gets a management token back. It's the only time we ever
+   * show it - we just keep a hash - and it's what owner-only endpoints check.
+   * Same goes for the secrets of any webhooks registered along with the poll.
    */
-  async createPoll(createPollDto: CreatePollDto): Promise<PollResponseDto> {
+  async createPoll(createPollDto: CreatePollDto): Promise<CreatedPollResponseDto> {
     this.logger.log(`Creating poll: ${createPollDto.question}`);
 
     // Make sure they're not trying to close the poll yesterday
     const closesAt = new Date(createPollDto.closesAt);
     if (closesAt <= new Date()) {
-      throw new BadRequestException('Poll closing time must be in the future');
+      throw new BadRequestException(coded(ErrorCode.INVALID_POLL_SCHEDULE, 'Poll closing time must be in the future'));
+    }
+
+    const opensAt = createPollDto.opensAt ? new Date(createPollDto.opensAt) : null;
+    if (opensAt && opensAt >= closesAt) {
+      throw new BadRequestException(coded(ErrorCode.INVALID_POLL_SCHEDULE, 'Poll opening time must be before its closing time'));
     }
 
     // Remove duplicate options - using Set to find unique values
     const uniqueOptions = [...new Set(createPollDto.options)];
     if (uniqueOptions.length !== createPollDto.options.length) {
-      throw new BadRequestException('Poll options must be unique');
+      throw new BadRequestException(coded(ErrorCode.DUPLICATE_OPTIONS, 'Poll options must be unique'));
     }
 
+    // Approval polls: min/max selections have to be achievable
+    this.validateSelectionLimits(createPollDto);
+
+    const managementToken = generateSecretToken();
+
     // Everything looks good, let's save it all in one transaction
     // If anything fails, the whole thing gets rolled back
     const result = await this.dataSource.transaction(async manager => {
       // First, create the poll itself
       const poll = manager.create(Poll, {
         question: createPollDto.question,
+        opensAt,
         closesAt,
+        status: createPollDto.status === PollStatus.DRAFT ? PollStatus.DRAFT : getInitialOpenStatus(opensAt),
         hideResultsUntilClose: createPollDto.hideResultsUntilClose || false,
+        allowVoteChanges: createPollDto.allowVoteChanges ?? true,
+        inviteOnly: createPollDto.inviteOnly || false,
+        votingMethod: createPollDto.votingMethod || VotingMethod.PLURALITY,
+        minSelections: createPollDto.minSelections ?? 1,
+        maxSelections: createPollDto.maxSelections ?? null,
+        managementTokenHash: hashSecretToken(managementToken),
       });
 
       const savedPoll = await manager.save(poll);
@@ -93,12 +205,24 @@ export class PollsService {
       const savedOptions = await manager.save(options);
       savedPoll.options = savedOptions;
 
-      return savedPoll;
+      // Counters start at zero, so results never have to count this poll from scratch
+      await this.voteCountersService.initialize(manager, savedPoll.id);
+
+      const webhooks = await this.webhooksService.createWebhooks(manager, savedPoll.id, createPollDto.webhooks ?? []);
+
+      return { poll: savedPoll, webhooks };
     });
 
-    this.logger.log(`Created poll ${result.id} with ${result.options.length} options`);
+    this.logger.log(`Created poll ${result.poll.id} with ${result.poll.options.length} options`);
+
+    const pollResponse = this.transformPollForResponse(result.poll);
+    this.webhooksService.enqueue(result.poll.id, WebhookEvent.POLL_CREATED, pollResponse);
 
-    return this.transformPollForResponse(result);
+    return {
+      ...pollResponse,
+      managementToken,
+      ...(result.webhooks.length > 0 && { webhooks: result.webhooks }),
+    };
   }
 
   /**
@@ -115,25 +239,265 @@ export class PollsService {
     });
 
     if (!poll) {
-      throw new NotFoundException(`Poll with ID ${pollId} not found`);
+      throw new NotFoundException(coded(ErrorCode.POLL_NOT_FOUND, `Poll with ID ${pollId} not found`));
+    }
+
+    return this.transformPollForResponse(poll);
+  }
+
+  /**
+   * Lists polls page by page, with filters and sorting
+   *
+   * Uses cursor (keyset) pagination rather than offsets, so pages don't shift
+   * around when new polls are created while someone is scrolling. The cursor
+   * remembers the sort value and ID of the last poll on the page.
+   *
+   * Drafts are never listed - they aren't public yet.
+   */
+  async listPolls(query: ListPollsQueryDto): Promise<PaginatedPollsResponseDto> {
+    const limit = query.limit ?? 20;
+    const sort = query.sort ?? PollSortField.CREATED_AT;
+    const order = query.order ?? SortOrder.DESC;
+    const sortExpression = POLL_SORT_EXPRESSIONS[sort];
+
+    this.logger.log(`Listing polls (sort ${sort} ${order}, limit ${limit})`);
+
+    const qb = this.pollRepository
+      .createQueryBuilder('poll')
+      .where('poll.status != :draft', { draft: PollStatus.DRAFT });
+
+    // Vote counts aren't a column, so select them under an alias we can sort on
+    const sortsByVotes = sort === PollSortField.TOTAL_VOTES;
+    if (sortsByVotes) {
+      qb.addSelect(sortExpression, 'totalVotes');
+    }
+
+    this.applyPollListFilters(qb, query);
+
+    if (query.cursor) {
+      const cursor = this.decodeListCursor(query.cursor, sort, order);
+      const comparison = order === SortOrder.DESC ? '<' : '>';
+
+      qb.andWhere(new Brackets(where => {
+        where
+          .where(`${sortExpression} ${comparison} :cursorValue`, { cursorValue: cursor.value })
+          .orWhere(new Brackets(tie => {
+            tie
+              .where(`${sortExpression} = :cursorValue`, { cursorValue: cursor.value })
+              .andWhere(`poll.id ${comparison} :cursorId`, { cursorId: cursor.id });
+          }));
+      }));
+    }
+
+    const direction = order === SortOrder.DESC ? 'DESC' : 'ASC';
+    // Quoted, or Postgres folds the alias to lowercase and can't find it
+    qb.orderBy(sortsByVotes ? '"totalVotes"' : sortExpression, direction)
+      .addOrderBy('poll.id', direction)
+      .limit(limit + 1); // one extra tells us whether there is another page
+
+    const { entities, raw } = await qb.getRawAndEntities();
+
+    const hasMore = entities.length > limit;
+    const polls = entities.slice(0, limit);
+
+    // Options aren't joined above (joins + limit don't mix well), so grab them in one go
+    await this.attachOptions(polls);
+
+    let nextCursor: string | null = null;
+    if (hasMore) {
+      // Raw values rather than Dates, so the next comparison matches the stored format exactly
+      const lastPoll = polls[polls.length - 1];
+      const lastRaw = raw[polls.length - 1];
+      const lastValue = sortsByVotes ? Number(lastRaw.totalVotes) : lastRaw[`poll_${sort}`];
+      nextCursor = this.encodeListCursor({ sort, order, value: lastValue, id: lastPoll.id });
+    }
+
+    return {
+      items: polls.map(poll => this.transformPollForResponse(poll)),
+      nextCursor,
+      limit,
+    };
+  }
+
+  /**
+   * Edits a poll that hasn't closed yet
+   *
+   * Closing time and result hiding can change any time before the poll closes.
+   * The question and options are a different story - once someone has voted,
+   * changing them would change what that person actually voted for, so they
+   * are locked after the first vote.
+   *
+   * Options are matched by text: ones that stay keep their IDs, removed ones
+   * are deleted and new ones are added.
+   */
+  async updatePoll(pollId: string, updatePollDto: UpdatePollDto): Promise<PollResponseDto> {
+    this.logger.log(`Updating poll: ${pollId}`);
+
+    const poll = await this.findPollWithOptions(pollId);
+    this.validatePollNotClosed(poll);
+
+    const { question, options, closesAt, hideResultsUntilClose } = updatePollDto;
+
+    if (closesAt !== undefined && new Date(closesAt) <= new Date()) {
+      throw new BadRequestException(coded(ErrorCode.INVALID_POLL_SCHEDULE, 'Poll closing time must be in the future - use the close endpoint to close it now'));
+    }
+    if (closesAt !== undefined && poll.opensAt && new Date(closesAt) <= poll.opensAt) {
+      throw new BadRequestException(coded(ErrorCode.INVALID_POLL_SCHEDULE, 'Poll closing time must be after its opening time'));
+    }
+
+    if (options !== undefined) {
+      if (new Set(options).size !== options.length) {
+        throw new BadRequestException(coded(ErrorCode.DUPLICATE_OPTIONS, 'Poll options must be unique'));
+      }
+      // Same limits as createPoll checks - too few options and nobody could cast a valid ballot
+      if (poll.minSelections && poll.minSelections > options.length) {
+        throw new BadRequestException(coded(ErrorCode.INVALID_SELECTION_LIMITS, 'minSelections cannot be greater than the number of options'));
+      }
+      if (poll.maxSelections && poll.maxSelections > options.length) {
+        throw new BadRequestException(coded(ErrorCode.INVALID_SELECTION_LIMITS, 'maxSelections cannot be greater than the number of options'));
+      }
+    }
+
+    await this.dataSource.transaction(async manager => {
+      // Checked inside the transaction so a vote can't sneak in between
+      if (question !== undefined || options !== undefined) {
+        const voteCount = await manager.count(Vote, { where: { pollId } });
+        if (voteCount > 0) {
+          throw new ConflictException(coded(ErrorCode.POLL_HAS_VOTES, 'Question and options can only be edited before the first vote'));
+        }
+      }
+
+      const changes: Partial<Poll> = {};
+      if (question !== undefined) changes.question = question;
+      if (closesAt !== undefined) changes.closesAt = new Date(closesAt);
+      if (hideResultsUntilClose !== undefined) changes.hideResultsUntilClose = hideResultsUntilClose;
+
+      if (Object.keys(changes).length > 0) {
+        await manager.update(Poll, { id: pollId }, changes);
+      }
+
+      if (options !== undefined) {
+        await this.syncPollOptions(manager, poll, options);
+      }
+    });
+
+    this.logger.log(`Updated poll ${pollId}`);
+
+    // Closing time or hiding may have changed what people are allowed to see
+    await this.resultsService.invalidateCache(pollId);
+    this.broadcastVoteEvent(pollId);
+
+    return this.transformPollForResponse(await this.findPollWithOptions(pollId));
+  }
+
+  /**
+   * Publishes a draft poll so people can start voting
+   * (or becomes upcoming, if its opening time is still ahead)
+   * opensAt is moved up to the current time if it has passed, so it always
+   * says when voting really started - never a time the poll was still a draft
+   */
+  async openPoll(pollId: string): Promise<PollResponseDto> {
+    this.logger.log(`Opening poll: ${pollId}`);
+
+    const poll = await this.findPollWithOptions(pollId);
+
+    if (poll.status !== PollStatus.DRAFT) {
+      throw new ConflictException(coded(ErrorCode.POLL_NOT_DRAFT, 'Only draft polls can be opened'));
+    }
+    if (poll.closesAt <= new Date()) {
+      throw new BadRequestException(coded(ErrorCode.INVALID_POLL_SCHEDULE, 'Poll closing time must be in the future - update it before opening'));
+    }
+
+    const now = new Date();
+    const opensAt = poll.opensAt && poll.opensAt > now ? poll.opensAt : now;
+    const status = getInitialOpenStatus(opensAt, now);
+    await this.pollRepository.update({ id: pollId }, { status, opensAt });
+    poll.status = status;
+    poll.opensAt = opensAt;
+
+    this.logger.log(`Poll ${pollId} is now ${status}`);
+
+    // Upcoming polls get their announcement from the scheduler later
+    if (status === PollStatus.OPEN) {
+      this.broadcastLifecycleEvent(pollId, 'poll-opened');
     }
 
     return this.transformPollForResponse(poll);
   }
 
+  /**
+   * Closes a poll right now, no matter what closesAt says
+   * closesAt is pulled back to the current time so the two never disagree
+   */
+  async closePoll(pollId: string): Promise<PollResponseDto> {
+    this.logger.log(`Closing poll: ${pollId}`);
+
+    const poll = await this.findPollWithOptions(pollId);
+
+    if (getEffectivePollStatus(poll) === PollStatus.CLOSED) {
+      throw new ConflictException(coded(ErrorCode.POLL_ALREADY_CLOSED, 'Poll is already closed'));
+    }
+
+    const now = new Date();
+    await this.pollRepository.update({ id: pollId }, { status: PollStatus.CLOSED, closesAt: now });
+    poll.status = PollStatus.CLOSED;
+    poll.closesAt = now;
+
+    this.logger.log(`Poll ${pollId} closed early`);
+
+    // Announce it, with the final results (hidden ones become visible now)
+    this.broadcastLifecycleEvent(pollId, 'poll-closed');
+
+    return this.transformPollForResponse(poll);
+  }
+
+  /**
+   * Deletes a poll along with its options and votes
+   * The foreign keys cascade, so one delete takes care of everything
+   */
+  async deletePoll(pollId: string): Promise<{ message: string }> {
+    this.logger.log(`Deleting poll: ${pollId}`);
+
+    await this.validatePollExists(pollId);
+    await this.pollRepository.delete({ id: pollId });
+
+    await this.resultsService.invalidateCache(pollId);
+
+    this.logger.log(`Deleted poll ${pollId}`);
+
+    return { message: 'Poll deleted successfully' };
+  }
+
   /**
    * Let someone cast their vote in a poll
    *
    * This is where the magic happens. We check:
    * - Poll exists
    * - Poll is still open (not closed yet)
-   * - The option they picked actually belongs to this poll
+   * - The ballot shape matches the poll (single option or a ranking)
+   * - Every option they picked actually belongs to this poll
    * - They haven't voted before (database constraint handles this)
+   * - Invite-only polls: they brought a valid, unused voter token
    *
    * If everything checks out, we save their vote and tell everyone about it!
+   * Every attempt is counted on /metrics by how it ended.
    */
   async castVote(pollId: string, voteDto: VoteDto): Promise<{ message: string }> {
-    this.logger.log(`User ${voteDto.userUuid} voting for option ${voteDto.optionId} in poll ${pollId}`);
+    try {
+      const result = await this.recordVote(pollId, voteDto);
+      this.metrics.votesCast.inc({ outcome: 'success' });
+      return result;
+    } catch (error) {
+      this.metrics.votesCast.inc({ outcome: this.getVoteFailureOutcome(error) });
+      throw error;
+    }
+  }
+
+  /**
+   * The checks and the save behind castVote
+   */
+  private async recordVote(pollId: string, voteDto: VoteDto): Promise<{ message: string }> {
+    this.logger.log(`User ${voteDto.userUuid} voting in poll ${pollId}`);
 
     // First, make sure this poll exists and get its options
     const poll = await this.findPollWithOptions(pollId);
@@ -141,20 +505,28 @@ export class PollsService {
     // Check if voting time has passed
     this.validatePollIsOpen(poll);
 
-    // Make sure they're voting for a real option in this poll
-    this.validateOptionBelongsToPoll(poll, voteDto.optionId);
+    // Invite-only polls turn away token-less ballots before anything else
+    if (poll.inviteOnly && !voteDto.voterToken) {
+      throw new ForbiddenException(coded(ErrorCode.VOTER_TOKEN_REQUIRED, 'This poll is invite-only - a voter token is required'));
+    }
+
+    // Work out which options are on the ballot, in order of preference
+    const optionIds = this.resolveBallotOptions(poll, voteDto);
+
+    // Make sure they're voting for real options in this poll
+    optionIds.forEach(optionId => this.validateOptionBelongsToPoll(poll, optionId));
 
     try {
       // Save the vote in a transaction for safety
-      await this.saveVoteInTransaction(pollId, voteDto);
+      await this.saveVoteInTransaction(poll, voteDto.userUuid, optionIds, voteDto.voterToken);
 
       this.logger.log(`Vote cast successfully for poll ${pollId}`);
 
       // Clear any cached results since we have new data
-      this.resultsService.invalidateCache(pollId);
+      await this.resultsService.invalidateCache(pollId);
 
       // Tell everyone listening that we got a new vote!
-      this.broadcastVoteEvent(pollId);
+      this.broadcastVoteEvent(pollId, WebhookEvent.VOTE_CAST);
 
       return { message: 'Vote cast successfully' };
 
@@ -163,20 +535,215 @@ export class PollsService {
     }
   }
 
+  /**
+   * Lets someone change their mind before the poll closes
+   *
+   * Same checks as casting a vote, plus the poll has to allow vote changes.
+   * The existing ballot is swapped out in place, so the user keeps their one
+   * row in the votes table.
+   *
+   * On invite-only polls the voter token that cast the ballot must come along too.
+   */
+  async changeVote(pollId: string, userUuid: string, changeVoteDto: ChangeVoteDto): Promise<{ message: string }> {
+    this.logger.log(`User ${userUuid} changing vote in poll ${pollId}`);
+
+    const poll = await this.findPollWithOptions(pollId);
+    this.validatePollIsOpen(poll);
+    this.validateVoteChangesAllowed(poll);
+
+    const optionIds = this.resolveBallotOptions(poll, changeVoteDto);
+    optionIds.forEach(optionId => this.validateOptionBelongsToPoll(poll, optionId));
+
+    await this.replaceVoteInTransaction(poll, userUuid, optionIds, changeVoteDto.voterToken);
+
+    this.logger.log(`Vote changed successfully for poll ${pollId}`);
+
+    // Results moved, so refresh the cache and tell the live listeners
+    await this.resultsService.invalidateCache(pollId);
+    this.broadcastVoteEvent(pollId);
+
+    return { message: 'Vote changed successfully' };
+  }
+
+  /**
+   * Withdraws someone's ballot entirely
+   * They can vote again afterwards if they want to (poll still open)
+   *
+   * On invite-only polls the ballot's voter token is needed, and it becomes
+   * usable again once the ballot is gone.
+   */
+  async retractVote(pollId: string, userUuid: string, voterToken?: string): Promise<{ message: string }> {
+    this.logger.log(`User ${userUuid} withdrawing vote in poll ${pollId}`);
+
+    const poll = await this.findPollWithOptions(pollId);
+    this.validatePollIsOpen(poll);
+    this.validateVoteChangesAllowed(poll);
+
+    await this.dataSource.transaction(async manager => {
+      const vote = await this.findVoteForUpdate(manager, pollId, userUuid);
+
+      if (poll.inviteOnly) {
+        await this.voterTokensService.verifyTokenOwnsVote(manager, pollId, voterToken, vote.id);
+        await this.voterTokensService.releaseToken(manager, vote.id);
+      }
+
+      await this.voteCountersService.removeBallot(manager, poll, vote);
+
+      await manager.delete(VoteChoice, { voteId: vote.id });
+      await manager.delete(Vote, { id: vote.id });
+
+      await this.voteLedgerService.append(manager, pollId, 'retract', vote, []);
+    });
+
+    this.logger.log(`Vote withdrawn successfully for poll ${pollId}`);
+
+    await this.resultsService.invalidateCache(pollId);
+    this.broadcastVoteEvent(pollId);
+
+    return { message: 'Vote withdrawn successfully' };
+  }
+
+  /**
+   * Imports ballots collected offline - paper voting, a kiosk with no signal...
+   *
+   * Every row gets the same checks as castVote, except that "is the poll
+   * open?" is asked about the row's own timestamp instead of now. So ballots
+   * can arrive after the poll closed, as long as they were cast before it did.
+   *
+   * Rows that fail are reported and skipped; the rest are saved in one
+   * transaction, each with its ledger entry (and voter token on invite-only
+   * polls). The counters are recounted, the cache cleared and listeners told
+   * once at the end rather than once per ballot.
+   */
+  async importBallots(pollId: string, rows: Record<string, unknown>[]): Promise<BallotImportResponseDto> {
+    this.logger.log(`Importing ${rows.length} ballots into poll ${pollId}`);
+
+    const poll = await this.findPollWithOptions(pollId);
+
+    // Drafts and upcoming polls haven't taken a single vote yet - no row could be valid
+    const status = getEffectivePollStatus(poll);
+    if (status === PollStatus.DRAFT || status === PollStatus.UPCOMING) {
+      throw new UnprocessableEntityException(coded(ErrorCode.POLL_NOT_OPEN, 'Poll has not been open for voting yet'));
+    }
+
+    const now = new Date();
+    let results: BallotImportRowResultDto[];
+
+    try {
+      results = await this.dataSource.transaction(async manager => {
+        const rowResults: BallotImportRowResultDto[] = [];
+        const importedUsers = new Set<string>();
+
+        for (const [index, raw] of rows.entries()) {
+          const row = index + 1;
+          const userUuid = typeof raw.userUuid === 'string' ? raw.userUuid : null;
+
+          try {
+            const ballot = this.validateImportRow(poll, raw, now);
+            const voteId = await this.saveImportedBallot(manager, poll, ballot, importedUsers);
+            rowResults.push({ row, userUuid, status: BallotImportStatus.IMPORTED, voteId });
+          } catch (error) {
+            // Our own checks skip the row - anything else is a real failure and rolls the import back
+            if (!(error instanceof HttpException)) {
+              throw error;
+            }
+            rowResults.push(this.describeSkippedRow(row, userUuid, error));
+          }
+        }
+
+        if (importedUsers.size > 0) {
+          await this.voteCountersService.recount(manager, poll);
+        }
+
+        return rowResults;
+      });
+    } catch (error) {
+      // A live vote from one of these users landed between our check and our insert
+      if (isUniqueViolation(error)) {
+        this.logger.warn(`Ballot import for poll ${pollId} raced a live vote - nothing was imported`);
+        throw new ConflictException(coded(
+          ErrorCode.DUPLICATE_VOTE,
+          'One of these users voted while the import was running - nothing was imported, please run it again',
+        ));
+      }
+      throw error;
+    }
+
+    const summary = {
+      [BallotImportStatus.IMPORTED]: 0,
+      [BallotImportStatus.DUPLICATE]: 0,
+      [BallotImportStatus.UNKNOWN_OPTION]: 0,
+      [BallotImportStatus.POLL_CLOSED]: 0,
+      [BallotImportStatus.INVALID]: 0,
+    };
+    results.forEach(result => summary[result.status]++);
+
+    this.logger.log(`Imported ${summary.imported} of ${rows.length} ballots into poll ${pollId}`);
+
+    // Once for the whole batch
+    if (summary.imported > 0) {
+      await this.resultsService.invalidateCache(pollId);
+      this.broadcastVoteEvent(pollId, WebhookEvent.VOTE_CAST);
+    }
+
+    return { pollId, total: rows.length, summary, rows: results };
+  }
+
   /**
    * Get the current results for a poll
    *
    * Just makes sure the poll exists, then delegates to ResultsService
    * (Single Responsibility - we don't calculate results here)
+   * The poll owner can peek at hidden results before the poll closes.
    */
-  async getPollResults(pollId: string) {
+  async getPollResults(pollId: string, isOwner = false) {
     // Quick check that this poll actually exists
     await this.validatePollExists(pollId);
 
+    // Owners skip the hidden-results check, everyone else gets the normal view
+    if (isOwner) {
+      return this.resultsService.getPollResults(pollId, { includeHidden: true });
+    }
+
     // Let the results service handle the complex calculations
     return this.resultsService.getPollResults(pollId);
   }
 
+  /**
+   * Vote counts over time, for charting how the poll evolved
+   * Same visibility rules as getPollResults
+   */
+  async getPollTimeline(pollId: string, bucket: TimelineBucket = TimelineBucket.HOUR, isOwner = false) {
+    return this.resultsService.getPollTimeline(pollId, bucket, { includeHidden: isOwner });
+  }
+
+  /**
+   * Announces that a poll opened or closed
+   *
+   * Called by the lifecycle scheduler and the manual open/close endpoints.
+   * poll-closed events carry the final results so listeners don't need a
+   * second request. Like vote events, failures here are logged, not thrown.
+   */
+  async broadcastLifecycleEvent(pollId: string, type: PollLifecycleEventType): Promise<void> {
+    try {
+      // Status changed, so whatever we cached (maybe "hidden") is stale
+      await this.resultsService.invalidateCache(pollId);
+
+      const event: PollLifecycleEvent = { pollId, type, occurredAt: new Date().toISOString() };
+      if (type === 'poll-closed') {
+        event.results = await this.resultsService.getPollResults(pollId);
+      }
+
+      await this.pubSub.publish(POLL_LIFECYCLE_CHANNEL, event);
+
+      if (type === 'poll-closed') {
+        await this.webhooksService.enqueue(pollId, WebhookEvent.POLL_CLOSED, event.results);
+      }
+    } catch (error) {
+      this.logger.error(`Error broadcasting ${type} event for poll ${pollId}: ${error.message}`);
+    }
+  }
+
   // --- Private helper methods (the behind-the-scenes stuff) ---
 
   /**
@@ -190,7 +757,7 @@ export class PollsService {
     });
 
     if (!poll) {
-      throw new NotFoundException(`Poll with ID ${pollId} not found`);
+      throw new NotFoundException(coded(ErrorCode.POLL_NOT_FOUND, `Poll with ID ${pollId} not found`));
     }
 
     return poll;
@@ -203,17 +770,151 @@ export class PollsService {
   private async validatePollExists(pollId: string): Promise<void> {
     const poll = await this.pollRepository.findOne({ where: { id: pollId } });
     if (!poll) {
-      throw new NotFoundException(`Poll with ID ${pollId} not found`);
+      throw new NotFoundException(coded(ErrorCode.POLL_NOT_FOUND, `Poll with ID ${pollId} not found`));
     }
   }
 
   /**
-   * Makes sure the poll hasn't closed yet
+   * Makes sure the poll is taking votes right now
    * Nobody likes late voters! (Well, actually we just can't allow it)
+   * Drafts and upcoming polls aren't open yet, and closed polls may have closed early
    */
   private validatePollIsOpen(poll: Poll): void {
-    if (new Date() >= poll.closesAt) {
-      throw new UnprocessableEntityException('Poll has closed');
+    const status = getEffectivePollStatus(poll);
+
+    if (status === PollStatus.DRAFT) {
+      throw new UnprocessableEntityException(coded(ErrorCode.POLL_NOT_OPEN, 'Poll is not open for voting yet'));
+    }
+    if (status === PollStatus.UPCOMING) {
+      throw new UnprocessableEntityException(coded(
+        ErrorCode.POLL_NOT_OPEN,
+        `Poll opens for voting at ${poll.opensAt.toISOString()} - please try again then`,
+      ));
+    }
+    if (status === PollStatus.CLOSED) {
+      throw new UnprocessableEntityException(coded(ErrorCode.POLL_CLOSED, 'Poll has closed'));
+    }
+  }
+
+  /**
+   * Adds the status, date range and text filters to a poll list query
+   *
+   * Status is worked out from the stored status AND the times, the same way
+   * getEffectivePollStatus does, so polls the scheduler hasn't caught up with
+   * still land in the right bucket.
+   */
+  private applyPollListFilters(qb: SelectQueryBuilder<Poll>, query: ListPollsQueryDto): void {
+    const now = new Date();
+    const live = [PollStatus.UPCOMING, PollStatus.OPEN];
+
+    if (query.status === PollStatus.UPCOMING) {
+      qb.andWhere('poll.status IN (:...live)', { live })
+        .andWhere('poll.opensAt > :now', { now })
+        .andWhere('poll.closesAt > :now', { now });
+    } else if (query.status === PollStatus.OPEN) {
+      qb.andWhere('poll.status IN (:...live)', { live })
+        .andWhere('(poll.opensAt IS NULL OR poll.opensAt <= :now)', { now })
+        .andWhere('poll.closesAt > :now', { now });
+    } else if (query.status === PollStatus.CLOSED) {
+      qb.andWhere('(poll.status = :closed OR poll.closesAt <= :now)', { closed: PollStatus.CLOSED, now });
+    }
+
+    if (query.q) {
+      // Escape LIKE wildcards so "100%" searches for a literal percent sign
+      const escaped = query.q.toLowerCase().replace(/[\\%_]/g, match => `\\${match}`);
+      qb.andWhere(`LOWER(poll.question) LIKE :search ESCAPE '\\'`, { search: `%${escaped}%` });
+    }
+
+    if (query.createdFrom) {
+      qb.andWhere('poll.createdAt >= :createdFrom', { createdFrom: new Date(query.createdFrom) });
+    }
+    if (query.createdTo) {
+      qb.andWhere('poll.createdAt <= :createdTo', { createdTo: new Date(query.createdTo) });
+    }
+    if (query.closesFrom) {
+      qb.andWhere('poll.closesAt >= :closesFrom', { closesFrom: new Date(query.closesFrom) });
+    }
+    if (query.closesTo) {
+      qb.andWhere('poll.closesAt <= :closesTo', { closesTo: new Date(query.closesTo) });
+    }
+  }
+
+  /**
+   * Loads the options for a page of polls with a single query
+   */
+  private async attachOptions(polls: Poll[]): Promise<void> {
+    if (polls.length === 0) {
+      return;
+    }
+
+    const options = await this.optionRepository.find({
+      where: { pollId: In(polls.map(poll => poll.id)) },
+    });
+
+    polls.forEach(poll => {
+      poll.options = options.filter(option => option.pollId === poll.id);
+    });
+  }
+
+  private encodeListCursor(cursor: PollListCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  /**
+   * Reads a cursor back, making sure it belongs to the same sort the client is asking for
+   */
+  private decodeListCursor(rawCursor: string, sort: PollSortField, order: SortOrder): PollListCursor {
+    let cursor: PollListCursor;
+    try {
+      cursor = JSON.parse(Buffer.from(rawCursor, 'base64url').toString('utf8'));
+    } catch {
+      throw new BadRequestException(coded(ErrorCode.INVALID_CURSOR, 'Invalid cursor'));
+    }
+
+    if (!cursor || typeof cursor.id !== 'string' || cursor.value === undefined) {
+      throw new BadRequestException(coded(ErrorCode.INVALID_CURSOR, 'Invalid cursor'));
+    }
+    if (cursor.sort !== sort || cursor.order !== order) {
+      throw new BadRequestException(coded(ErrorCode.INVALID_CURSOR, 'Cursor was created with a different sort - start again without a cursor'));
+    }
+
+    return cursor;
+  }
+
+  /**
+   * Closed polls are final - no more edits
+   */
+  private validatePollNotClosed(poll: Poll): void {
+    if (getEffectivePollStatus(poll) === PollStatus.CLOSED) {
+      throw new UnprocessableEntityException(coded(ErrorCode.POLL_CLOSED, 'Poll has closed'));
+    }
+  }
+
+  /**
+   * Makes the poll's options match the new list of option texts
+   * Unchanged options keep their IDs so links to them don't break
+   */
+  private async syncPollOptions(manager: EntityManager, poll: Poll, optionTexts: string[]): Promise<void> {
+    const removed = poll.options.filter(option => !optionTexts.includes(option.text));
+    if (removed.length > 0) {
+      await manager.delete(PollOption, removed.map(option => option.id));
+    }
+
+    const existingTexts = new Set(poll.options.map(option => option.text));
+    const added = optionTexts
+      .filter(text => !existingTexts.has(text))
+      .map(text => manager.create(PollOption, { text, pollId: poll.id }));
+    if (added.length > 0) {
+      await manager.save(added);
+    }
+  }
+
+  /**
+   * Some poll creators lock votes in once they're cast
+   */
+  private validateVoteChangesAllowed(poll: Poll): void {
+    if (poll.allowVoteChanges === false) {
+      throw new ForbiddenException(coded(ErrorCode.VOTE_CHANGES_NOT_ALLOWED, 'This poll does not allow votes to be changed or withdrawn'));
     }
   }
 
@@ -224,35 +925,345 @@ export class PollsService {
   private validateOptionBelongsToPoll(poll: Poll, optionId: string): void {
     const option = poll.options.find(opt => opt.id === optionId);
     if (!option) {
-      throw new NotFoundException(`Option with ID ${optionId} not found in this poll`);
+      throw new NotFoundException(coded(ErrorCode.OPTION_NOT_IN_POLL, `Option with ID ${optionId} not found in this poll`));
+    }
+  }
+
+  /**
+   * Turns the request body into an ordered list of option IDs
+   *
+   * Plurality polls take exactly one optionId. Ranked-choice polls take a
+   * rankings list and approval polls take an optionIds list (in both cases a
+   * lone optionId counts as a one-item list).
+   */
+  private resolveBallotOptions(poll: Poll, voteDto: ChangeVoteDto): string[] {
+    switch (poll.votingMethod) {
+      case VotingMethod.RANKED_CHOICE:
+        return this.resolveRankedBallot(voteDto);
+      case VotingMethod.APPROVAL:
+        return this.resolveApprovalBallot(poll, voteDto);
+      default:
+        return this.resolvePluralityBallot(voteDto);
+    }
+  }
+
+  private resolvePluralityBallot(voteDto: ChangeVoteDto): string[] {
+    if (voteDto.rankings !== undefined || voteDto.optionIds !== undefined) {
+      throw new BadRequestException(coded(ErrorCode.INVALID_BALLOT, 'This poll accepts a single option - send optionId instead'));
+    }
+    if (!voteDto.optionId) {
+      throw new BadRequestException(coded(ErrorCode.INVALID_BALLOT, 'optionId is required'));
+    }
+
+    return [voteDto.optionId];
+  }
+
+  private resolveRankedBallot(voteDto: ChangeVoteDto): string[] {
+    if (voteDto.optionIds !== undefined) {
+      throw new BadRequestException(coded(ErrorCode.INVALID_BALLOT, 'Ranked-choice polls take a rankings list, not optionIds'));
+    }
+
+    const rankings = voteDto.rankings ?? (voteDto.optionId ? [voteDto.optionId] : []);
+
+    if (rankings.length === 0) {
+      throw new BadRequestException(coded(ErrorCode.INVALID_BALLOT, 'Ranked-choice polls require a rankings list'));
+    }
+    if (new Set(rankings).size !== rankings.length) {
+      throw new BadRequestException(coded(ErrorCode.INVALID_BALLOT, 'Each option can only be ranked once'));
+    }
+
+    return rankings;
+  }
+
+  private resolveApprovalBallot(poll: Poll, voteDto: ChangeVoteDto): string[] {
+    if (voteDto.rankings !== undefined) {
+      throw new BadRequestException(coded(ErrorCode.INVALID_BALLOT, 'Approval polls take an optionIds list, not rankings'));
+    }
+
+    const optionIds = voteDto.optionIds ?? (voteDto.optionId ? [voteDto.optionId] : []);
+
+    if (new Set(optionIds).size !== optionIds.length) {
+      throw new BadRequestException(coded(ErrorCode.INVALID_BALLOT, 'Each option can only be selected once'));
+    }
+
+    const minSelections = poll.minSelections ?? 1;
+    const maxSelections = poll.maxSelections ?? poll.options.length;
+    if (optionIds.length < minSelections || optionIds.length > maxSelections) {
+      throw new BadRequestException(coded(
+        ErrorCode.INVALID_BALLOT,
+        `Please select between ${minSelections} and ${maxSelections} options`,
+      ));
+    }
+
+    return optionIds;
+  }
+
+  /**
+   * Checks the selection limits make sense for the poll being created
+   * Only approval polls can pick more than one option per ballot
+   */
+  private validateSelectionLimits(createPollDto: CreatePollDto): void {
+    const { minSelections, maxSelections, votingMethod } = createPollDto;
+
+    if (minSelections === undefined && maxSelections === undefined) {
+      return;
+    }
+    if (votingMethod !== VotingMethod.APPROVAL) {
+      throw new BadRequestException(coded(ErrorCode.INVALID_SELECTION_LIMITS, 'minSelections and maxSelections only apply to approval polls'));
+    }
+
+    const optionCount = createPollDto.options.length;
+    const min = minSelections ?? 1;
+    const max = maxSelections ?? optionCount;
+
+    if (min > max) {
+      throw new BadRequestException(coded(ErrorCode.INVALID_SELECTION_LIMITS, 'minSelections cannot be greater than maxSelections'));
+    }
+    if (max > optionCount) {
+      throw new BadRequestException(coded(ErrorCode.INVALID_SELECTION_LIMITS, 'maxSelections cannot be greater than the number of options'));
     }
   }
 
   /**
    * Saves the vote safely in a database transaction
    * If this fails, nothing gets committed
+   *
+   * The first option is stored on the vote itself so plurality counting
+   * keeps working; ranked and approval ballots also get one VoteChoice row
+   * per picked option. Still one Vote row per ballot, so the unique index
+   * on (pollId, userUuid) keeps doing its job.
+   *
+   * Invite-only polls spend the voter token in the same transaction, so a
+   * bad or already-used token rolls the ballot back with it. The vote ledger
+   * entry and the vote counters go in the same way - no ballot without its
+   * entry or its count, and vice versa.
    */
-  private async saveVoteInTransaction(pollId: string, voteDto: VoteDto): Promise<void> {
+  private async saveVoteInTransaction(poll: Poll, userUuid: string, optionIds: string[], voterToken?: string): Promise<void> {
     await this.dataSource.transaction(async manager => {
       const vote = manager.create(Vote, {
-        userUuid: voteDto.userUuid,
-        pollId: pollId,
-        optionId: voteDto.optionId,
+        userUuid,
+        pollId: poll.id,
+        optionId: optionIds[0],
+        choices: this.buildVoteChoices(poll, optionIds),
       });
 
-      await manager.save(vote);
+      const savedVote = await manager.save(vote);
+
+      if (poll.inviteOnly) {
+        await this.voterTokensService.redeemToken(manager, poll.id, voterToken, savedVote.id);
+      }
+
+      await this.voteCountersService.addBallot(manager, poll, savedVote, optionIds);
+      await this.voteLedgerService.append(manager, poll.id, 'cast', savedVote, optionIds);
+    });
+  }
+
+  /**
+   * Swaps the options on an existing ballot inside one transaction
+   * Old choices are removed first so the ranking/selection is replaced, not merged
+   */
+  private async replaceVoteInTransaction(poll: Poll, userUuid: string, optionIds: string[], voterToken?: string): Promise<void> {
+    await this.dataSource.transaction(async manager => {
+      const vote = await this.findVoteForUpdate(manager, poll.id, userUuid);
+
+      if (poll.inviteOnly) {
+        await this.voterTokensService.verifyTokenOwnsVote(manager, poll.id, voterToken, vote.id);
+      }
+
+      // Before the old choices go - the counters need them to know what to take back
+      await this.voteCountersService.changeBallot(manager, poll, vote, optionIds);
+
+      await manager.delete(VoteChoice, { voteId: vote.id });
+      await manager.update(Vote, { id: vote.id }, { optionId: optionIds[0] });
+
+      const choices = this.buildVoteChoices(poll, optionIds)
+        .map(choice => manager.create(VoteChoice, { ...choice, voteId: vote.id }));
+      if (choices.length > 0) {
+        await manager.save(choices);
+      }
+
+      await this.voteLedgerService.append(manager, poll.id, 'change', vote, optionIds);
     });
   }
 
+  /**
+   * Finds a user's ballot inside a transaction, or 404s if they never voted
+   */
+  private async findVoteForUpdate(manager: EntityManager, pollId: string, userUuid: string): Promise<Vote> {
+    const vote = await manager.findOne(Vote, { where: { pollId, userUuid } });
+    if (!vote) {
+      throw new NotFoundException(coded(ErrorCode.VOTE_NOT_FOUND, `User ${userUuid} has not voted in this poll`));
+    }
+
+    return vote;
+  }
+
+  /**
+   * The checks on an import row that don't need the database
+   * Same rules and the same exceptions as castVote, so a failed row reports
+   * the code the API would have answered with
+   */
+  private validateImportRow(poll: Poll, raw: Record<string, unknown>, now: Date): ImportedBallot {
+    const row = plainToInstance(BallotImportRowDto, raw);
+    const errors = validateSync(row);
+    if (errors.length > 0) {
+      throw validationExceptionFactory(errors);
+    }
+
+    const castAt = new Date(row.timestamp);
+    if (castAt > now) {
+      throw new BadRequestException(coded(ErrorCode.VALIDATION_FAILED, 'timestamp is in the future'));
+    }
+
+    // The poll's own window, not the current time - offline ballots turn up late
+    // (no opensAt means it was open from the moment it was created)
+    const opensAt = poll.opensAt ?? poll.createdAt;
+    if (castAt < opensAt) {
+      throw new UnprocessableEntityException(coded(ErrorCode.POLL_NOT_OPEN, `Poll was not open yet at ${castAt.toISOString()}`));
+    }
+    if (castAt >= poll.closesAt) {
+      throw new UnprocessableEntityException(coded(ErrorCode.POLL_CLOSED, `Poll had closed by ${castAt.toISOString()}`));
+    }
+
+    if (poll.inviteOnly && !row.voterToken) {
+      throw new ForbiddenException(coded(ErrorCode.VOTER_TOKEN_REQUIRED, 'This poll is invite-only - a voter token is required'));
+    }
+
+    const picks = row.choices ?? [row.optionId ?? row.optionText].filter((pick): pick is string => pick !== undefined);
+    if (picks.length === 0) {
+      throw new BadRequestException(coded(ErrorCode.INVALID_BALLOT, 'Name the option with optionId, optionText or choices'));
+    }
+
+    const pickedIds = picks.map(pick => this.findImportedOption(poll, pick));
+
+    // Shaped like a castVote body, so the voting method's rules apply unchanged
+    const ballot: ChangeVoteDto = pickedIds.length === 1
+      ? { optionId: pickedIds[0] }
+      : poll.votingMethod === VotingMethod.RANKED_CHOICE ? { rankings: pickedIds } : { optionIds: pickedIds };
+
+    return {
+      userUuid: row.userUuid,
+      castAt,
+      optionIds: this.resolveBallotOptions(poll, ballot),
+      voterToken: row.voterToken,
+    };
+  }
+
+  /**
+   * Import rows may name an option by ID or by its exact text
+   */
+  private findImportedOption(poll: Poll, pick: string): string {
+    const option = poll.options.find(opt => opt.id === pick) ?? poll.options.find(opt => opt.text === pick);
+    if (!option) {
+      throw new NotFoundException(coded(ErrorCode.OPTION_NOT_IN_POLL, `Option "${pick}" not found in this poll`));
+    }
+
+    return option.id;
+  }
+
+  /**
+   * Saves one import row inside the import's transaction, keeping its original time
+   *
+   * Everything that could fail is checked with a read first: on Postgres a
+   * failed write aborts the whole transaction, and one bad row shouldn't
+   * cost the others.
+   */
+  private async saveImportedBallot(
+    manager: EntityManager,
+    poll: Poll,
+    ballot: ImportedBallot,
+    importedUsers: Set<string>,
+  ): Promise<string> {
+    const { userUuid, castAt, optionIds, voterToken } = ballot;
+
+    if (importedUsers.has(userUuid) || await manager.exists(Vote, { where: { pollId: poll.id, userUuid } })) {
+      throw new ConflictException(coded(ErrorCode.DUPLICATE_VOTE, 'User has already voted in this poll'));
+    }
+
+    if (poll.inviteOnly) {
+      await this.voterTokensService.assertRedeemable(manager, poll.id, voterToken);
+    }
+
+    const savedVote = await manager.save(manager.create(Vote, {
+      userUuid,
+      pollId: poll.id,
+      optionId: optionIds[0],
+      choices: this.buildVoteChoices(poll, optionIds),
+      createdAt: castAt,
+    }));
+
+    if (poll.inviteOnly) {
+      await this.voterTokensService.redeemToken(manager, poll.id, voterToken, savedVote.id);
+    }
+
+    await this.voteLedgerService.append(manager, poll.id, 'cast', savedVote, optionIds);
+    importedUsers.add(userUuid);
+
+    return savedVote.id;
+  }
+
+  /**
+   * Reports a skipped import row with the code and message castVote would have sent
+   */
+  private describeSkippedRow(row: number, userUuid: string | null, error: HttpException): BallotImportRowResultDto {
+    const body = error.getResponse() as { code?: string; message?: string | string[] };
+    const code = body.code ?? getDefaultErrorCode(error.getStatus());
+
+    return {
+      row,
+      userUuid,
+      status: IMPORT_STATUS_BY_CODE[code] ?? BallotImportStatus.INVALID,
+      code,
+      message: Array.isArray(body.message) ? body.message.join('; ') : body.message ?? error.message,
+    };
+  }
+
+  /**
+   * Ranked and approval ballots keep one VoteChoice row per picked option
+   * Plurality ballots don't need any - the vote's optionId says it all
+   */
+  private buildVoteChoices(poll: Poll, optionIds: string[]): Pick<VoteChoice, 'optionId' | 'rank'>[] {
+    const multiOptionBallot = poll.votingMethod === VotingMethod.RANKED_CHOICE
+      || poll.votingMethod === VotingMethod.APPROVAL;
+
+    if (!multiOptionBallot) {
+      return [];
+    }
+
+    return optionIds.map((optionId, index) => ({ optionId, rank: index + 1 }));
+  }
+
+  /**
+   * Sorts a failed vote into a metrics outcome, going by the exception castVote threw
+   */
+  private getVoteFailureOutcome(error: unknown): VoteOutcome {
+    if (error instanceof ConflictException) {
+      return 'duplicate'; // already voted, or the voter token was used already
+    }
+    if (error instanceof UnprocessableEntityException) {
+      return 'closed'; // closed, or not open yet
+    }
+    if (error instanceof NotFoundException) {
+      return 'not_found';
+    }
+
+    return error instanceof HttpException ? 'rejected' : 'error';
+  }
+
   /**
    * Handles errors when someone tries to vote
    * Mainly catches duplicate votes (someone voting twice)
    */
   private handleVoteError(error: any, userUuid: string, pollId: string): never {
+    // Our own checks (e.g. a bad voter token) already carry the right status
+    if (error instanceof HttpException) {
+      throw error;
+    }
+
     // Check if this is a "you already voted" error
-    if (error.code === 'SQLITE_CONSTRAINT_UNIQUE' || error.message.includes('UNIQUE constraint failed')) {
+    if (isUniqueViolation(error)) {
       this.logger.warn(`Duplicate vote attempt by user ${userUuid} for poll ${pollId}`);
-      throw new ConflictException('User has already voted in this poll');
+      throw new ConflictException(coded(ErrorCode.DUPLICATE_VOTE, 'User has already voted in this poll'));
     }
 
     // Something else went wrong - log it and re-throw
@@ -262,12 +1273,17 @@ export class PollsService {
 
   /**
    * Tells everyone subscribed to real-time updates that we got a new vote
-   * Gets the latest results and broadcasts them via Server-Sent Events
+   * Gets the latest results and broadcasts them to every instance's SSE and WebSocket clients
+   * Pass a webhook event to also queue it for the poll's webhooks
    */
-  private async broadcastVoteEvent(pollId: string): Promise<void> {
+  private async broadcastVoteEvent(pollId: string, webhookEvent?: WebhookEvent): Promise<void> {
     try {
       const results = await this.resultsService.getPollResults(pollId);
-      this.voteEvents$.next({ pollId, results });
+      await this.pubSub.publish<VoteEvent>(VOTE_EVENTS_CHANNEL, { pollId, results });
+
+      if (webhookEvent) {
+        await this.webhooksService.enqueue(pollId, webhookEvent, results);
+      }
     } catch (error) {
       // Don't fail the vote if broadcasting fails - that would be annoying
       this.logger.error(`Error broadcasting vote event for poll ${pollId}: ${error.message}`);
@@ -287,8 +1303,15 @@ export class PollsService {
         id: option.id,
         text: option.text,
       })),
+      opensAt: poll.opensAt ? poll.opensAt.toISOString() : null,
       closesAt: poll.closesAt.toISOString(),
+      status: getEffectivePollStatus(poll),
       hideResultsUntilClose: poll.hideResultsUntilClose,
+      allowVoteChanges: poll.allowVoteChanges,
+      inviteOnly: poll.inviteOnly,
+      votingMethod: poll.votingMethod,
+      minSelections: poll.minSelections,
+      maxSelections: poll.maxSelections,
       createdAt: poll.createdAt.toISOString(),
     };
   }
@@ -1,14 +1,24 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
-import { ResultsService } from './results.service';
+import { ResultsService, RESULTS_INVALIDATED_CHANNEL } from './results.service';
+import { VoteCountersService, PollTallies } from './vote-counters.service';
+import { CACHE_STORE, CacheStore } from '../../common/cache/cache.store';
+import { PUB_SUB } from '../../common/pubsub/pub-sub';
+import { InMemoryPubSub } from '../../common/pubsub/in-memory-pub-sub';
 import { Poll } from '../entities/poll.entity';
 import { Vote } from '../entities/vote.entity';
+import { TimelineBucket } from '../dtos/results-timeline-query.dto';
+import { APP_CONFIG, loadAppConfig } from '../../config/app-config';
+import { MetricsService } from '../../monitoring/metrics.service';
 
 describe('ResultsService', () => {
   let service: ResultsService;
   let pollRepository: Repository<Poll>;
   let voteRepository: Repository<Vote>;
+  let voteCountersService: VoteCountersService;
+  let cache: CacheStore;
+  let pubSub: InMemoryPubSub;
 
   const mockPoll = {
     id: 'poll123',
@@ -27,7 +37,16 @@ describe('ResultsService', () => {
     { id: 'vote3', optionId: 'option2', createdAt: new Date() },
   ];
 
+  // What the vote counters would hold for mockVotes
+  const mockTallies: PollTallies = {
+    ballots: 3,
+    optionCounts: new Map([['option1', 2], ['option2', 1]]),
+    recentBallots: 3,
+  };
+
   beforeEach(async () => {
+    pubSub = new InMemoryPubSub();
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         ResultsService,
@@ -47,15 +66,43 @@ describe('ResultsService', () => {
             })),
           },
         },
+        {
+          provide: VoteCountersService,
+          useValue: {
+            getTallies: jest.fn().mockResolvedValue(mockTallies),
+          },
+        },
+        {
+          // Always a miss unless a test says otherwise
+          provide: CACHE_STORE,
+          useValue: {
+            get: jest.fn().mockResolvedValue(undefined),
+            set: jest.fn(),
+            delete: jest.fn().mockResolvedValue(undefined),
+          },
+        },
+        {
+          provide: PUB_SUB,
+          useValue: pubSub,
+        },
+        {
+          provide: APP_CONFIG,
+          useValue: loadAppConfig({}),
+        },
+        MetricsService,
       ],
     }).compile();
 
     service = module.get<ResultsService>(ResultsService);
     pollRepository = module.get<Repository<Poll>>(getRepositoryToken(Poll));
     voteRepository = module.get<Repository<Vote>>(getRepositoryToken(Vote));
+    voteCountersService = module.get<VoteCountersService>(VoteCountersService);
+    cache = module.get<CacheStore>(CACHE_STORE);
+    service.onModuleInit();
   });
 
   afterEach(() => {
+    service.onModuleDestroy();
     jest.clearAllMocks();
   });
 
@@ -79,6 +126,17 @@ describe('ResultsService', () => {
       expect((result as any).options).toHaveLength(2);
     });
 
+    it('should read plurality results from the vote counters without loading ballots', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(mockPoll as Poll);
+
+      const result = (await service.getPollResults('poll123')) as any;
+
+      expect(voteCountersService.getTallies).toHaveBeenCalledWith(mockPoll);
+      expect(voteRepository.createQueryBuilder).not.toHaveBeenCalled();
+      expect(result.options[0]).toMatchObject({ optionId: 'option1', count: 2 });
+      expect(result.voteVelocityPerMinLast5).toBe(0.6);
+    });
+
     it('should return hidden status for polls with hidden results', async () => {
       const hiddenPoll = {
         ...mockPoll,
@@ -93,6 +151,120 @@ describe('ResultsService', () => {
       expect(result).toHaveProperty('closesAt');
     });
 
+    it('should show hidden results to the poll owner', async () => {
+      const hiddenPoll = {
+        ...mockPoll,
+        hideResultsUntilClose: true,
+      };
+
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(hiddenPoll as Poll);
+      jest.spyOn(voteRepository, 'createQueryBuilder').mockReturnValue({
+        leftJoinAndSelect: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        getMany: jest.fn().mockResolvedValue(mockVotes),
+      } as any);
+
+      const result = await service.getPollResults('poll123', { includeHidden: true });
+
+      expect(result).toHaveProperty('total', 3);
+    });
+
+    it('should show hidden results once the poll is closed early', async () => {
+      const closedEarlyPoll = {
+        ...mockPoll,
+        hideResultsUntilClose: true,
+        status: 'closed',
+      };
+
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(closedEarlyPoll as Poll);
+      jest.spyOn(voteRepository, 'createQueryBuilder').mockReturnValue({
+        leftJoinAndSelect: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        getMany: jest.fn().mockResolvedValue(mockVotes),
+      } as any);
+
+      const result = await service.getPollResults('poll123');
+
+      expect(result).toHaveProperty('total', 3);
+      expect(result).not.toHaveProperty('hidden');
+    });
+
+    it('should run instant-runoff rounds for ranked-choice polls', async () => {
+      const rankedPoll = {
+        ...mockPoll,
+        votingMethod: 'ranked-choice',
+        options: [
+          { id: 'option1', text: 'Option 1' },
+          { id: 'option2', text: 'Option 2' },
+          { id: 'option3', text: 'Option 3' },
+        ],
+      };
+
+      // option3 is eliminated first and its ballot transfers to option2
+      const rankedVotes = [
+        { id: 'vote1', optionId: 'option1', createdAt: new Date(), choices: [{ optionId: 'option1', rank: 1 }] },
+        { id: 'vote2', optionId: 'option1', createdAt: new Date(), choices: [{ optionId: 'option1', rank: 1 }] },
+        { id: 'vote3', optionId: 'option2', createdAt: new Date(), choices: [{ optionId: 'option2', rank: 1 }] },
+        { id: 'vote4', optionId: 'option2', createdAt: new Date(), choices: [{ optionId: 'option2', rank: 1 }] },
+        {
+          id: 'vote5',
+          optionId: 'option3',
+          createdAt: new Date(),
+          choices: [{ optionId: 'option2', rank: 2 }, { optionId: 'option3', rank: 1 }],
+        },
+      ];
+
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(rankedPoll as Poll);
+      jest.spyOn(voteCountersService, 'getTallies').mockResolvedValue({
+        ballots: 5,
+        optionCounts: new Map([['option1', 2], ['option2', 2], ['option3', 1]]),
+        recentBallots: 5,
+      });
+      jest.spyOn(voteRepository, 'createQueryBuilder').mockReturnValue({
+        leftJoinAndSelect: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        getMany: jest.fn().mockResolvedValue(rankedVotes),
+      } as any);
+
+      const result = (await service.getPollResults('poll123')) as any;
+
+      expect(result.rankedChoice.rounds).toHaveLength(2);
+      expect(result.rankedChoice.rounds[0].eliminatedOptionIds).toEqual(['option3']);
+      expect(result.rankedChoice.rounds[0].transfers).toEqual([
+        { fromOptionId: 'option3', toOptionId: 'option2', count: 1 },
+      ]);
+      expect(result.rankedChoice.winnerOptionId).toBe('option2');
+    });
+
+    it('should report voter and selection percentages for approval polls', async () => {
+      const approvalPoll = { ...mockPoll, votingMethod: 'approval' };
+
+      // Two voters: one picks both options, the other just option1
+      const approvalVotes = [
+        {
+          id: 'vote1',
+          optionId: 'option1',
+          createdAt: new Date(),
+          choices: [{ optionId: 'option1', rank: 1 }, { optionId: 'option2', rank: 2 }],
+        },
+        { id: 'vote2', optionId: 'option1', createdAt: new Date(), choices: [{ optionId: 'option1', rank: 1 }] },
+      ];
+
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(approvalPoll as Poll);
+      jest.spyOn(voteCountersService, 'getTallies').mockResolvedValue({
+        ballots: approvalVotes.length,
+        optionCounts: new Map([['option1', 2], ['option2', 1]]),
+        recentBallots: 2,
+      });
+
+      const result = (await service.getPollResults('poll123')) as any;
+
+      expect(result.total).toBe(2);
+      expect(result.totalSelections).toBe(3);
+      expect(result.options[0]).toMatchObject({ count: 2, percentageOfVoters: 100, percentage: 66.67 });
+      expect(result.options[1]).toMatchObject({ count: 1, percentageOfVoters: 50, percentage: 33.33 });
+    });
+
     it('should throw error for nonexistent poll', async () => {
       jest.spyOn(pollRepository, 'findOne').mockResolvedValue(null);
 
@@ -100,15 +272,93 @@ describe('ResultsService', () => {
     });
   });
 
+  describe('getPollTimeline', () => {
+    // The timeline runs two grouped queries: per-option counts, then ballots per bucket
+    const mockGroupedQuery = (rows: any[]) => ({
+      select: jest.fn().mockReturnThis(),
+      addSelect: jest.fn().mockReturnThis(),
+      innerJoin: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      groupBy: jest.fn().mockReturnThis(),
+      addGroupBy: jest.fn().mockReturnThis(),
+      getRawMany: jest.fn().mockResolvedValue(rows),
+    });
+
+    it('should return per-option counts with running totals, oldest bucket first', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(mockPoll as Poll);
+      jest.spyOn(voteRepository, 'createQueryBuilder')
+        .mockReturnValueOnce(mockGroupedQuery([
+          { bucket: '2024-01-01T11:00:00Z', optionId: 'option2', count: 1 },
+          { bucket: '2024-01-01T10:00:00Z', optionId: 'option1', count: 2 },
+          { bucket: '2024-01-01T10:00:00Z', optionId: 'option2', count: 1 },
+        ]) as any)
+        .mockReturnValueOnce(mockGroupedQuery([
+          { bucket: '2024-01-01T11:00:00Z', count: 1 },
+          { bucket: '2024-01-01T10:00:00Z', count: 3 },
+        ]) as any);
+
+      const result = await service.getPollTimeline('poll123', TimelineBucket.HOUR) as any;
+
+      expect(result.buckets).toHaveLength(2);
+      expect(result.buckets[0]).toEqual({
+        start: '2024-01-01T10:00:00.000Z',
+        total: 3,
+        runningTotal: 3,
+        options: [
+          { optionId: 'option1', count: 2, runningTotal: 2 },
+          { optionId: 'option2', count: 1, runningTotal: 1 },
+        ],
+      });
+      expect(result.buckets[1].runningTotal).toBe(4);
+      expect(result.buckets[1].options).toEqual([
+        { optionId: 'option1', count: 0, runningTotal: 2 },
+        { optionId: 'option2', count: 1, runningTotal: 2 },
+      ]);
+    });
+
+    it('should follow the hidden-results rules', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue({ ...mockPoll, hideResultsUntilClose: true } as Poll);
+
+      const result = await service.getPollTimeline('poll123', TimelineBucket.MINUTE);
+
+      expect(result).toHaveProperty('hidden', true);
+      expect(voteRepository.createQueryBuilder).not.toHaveBeenCalled();
+    });
+  });
+
   describe('cache management', () => {
-    it('should invalidate cache for specific poll', () => {
-      // This test verifies the cache invalidation method doesn't throw
-      expect(() => service.invalidateCache('poll123')).not.toThrow();
+    it('should serve cached results without recomputing', async () => {
+      const cachedResults = { pollId: 'poll123', total: 42 };
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(mockPoll as Poll);
+      jest.spyOn(cache, 'get').mockResolvedValue(cachedResults);
+
+      const result = await service.getPollResults('poll123');
+
+      expect(result).toBe(cachedResults);
+      expect(voteCountersService.getTallies).not.toHaveBeenCalled();
+    });
+
+    it('should cache fresh results under the poll key', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(mockPoll as Poll);
+
+      await service.getPollResults('poll123');
+
+      expect(cache.set).toHaveBeenCalledWith('poll-results:poll123', expect.objectContaining({ total: 3 }), 10000);
     });
 
-    it('should clean up expired cache entries', () => {
-      // This test verifies the cleanup method doesn't throw
-      expect(() => service.cleanupExpiredCache()).not.toThrow();
+    it('should invalidate cache for specific poll and tell the other instances', async () => {
+      const published = jest.spyOn(pubSub, 'publish');
+
+      await service.invalidateCache('poll123');
+
+      expect(cache.delete).toHaveBeenCalledWith('poll-results:poll123');
+      expect(published).toHaveBeenCalledWith(RESULTS_INVALIDATED_CHANNEL, { pollId: 'poll123' });
+    });
+
+    it('should drop cached results when another instance invalidates them', async () => {
+      await pubSub.publish(RESULTS_INVALIDATED_CHANNEL, { pollId: 'poll456' });
+
+      expect(cache.delete).toHaveBeenCalledWith('poll-results:poll456');
     });
   });
 });
\ No newline at end of file
@@ -1,16 +1,51 @@
-import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Injectable, Inject, Logger, NotFoundException, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { Vote } from '../entities/vote.entity';
-import { Poll } from '../entities/poll.entity';
-import { PollResultsResponseDto as PollResultsDto, OptionResultDto, HiddenResultsDto } from '../dtos/poll-response.dto';
-
-// Simple in-memory cache with TTL
-interface CacheEntry {
-  data: PollResultsDto;
-  timestamp: number; // when this was cached (milliseconds since epoch)
+import { Poll, PollStatus, VotingMethod } from '../entities/poll.entity';
+import { getEffectivePollStatus } from '../poll-status';
+import { VoteCountersService } from './vote-counters.service';
+import { CACHE_STORE, CacheStore } from '../../common/cache/cache.store';
+import { PUB_SUB, PubSub } from '../../common/pubsub/pub-sub';
+import { APP_CONFIG, AppConfig } from '../../config/app-config';
+import { DatabaseType } from '../../database/database-type';
+import { MetricsService } from '../../monitoring/metrics.service';
+import { Subscription } from 'rxjs';
+import {
+  PollResultsResponseDto as PollResultsDto,
+  OptionResultDto,
+  HiddenResultsDto,
+  RankedChoiceResultsDto,
+  RankedChoiceRoundDto,
+  VoteTransferDto,
+  PollResultsTimelineDto,
+  TimelineBucketDto,
+} from '../dtos/poll-response.dto';
+import { TimelineBucket } from '../dtos/results-timeline-query.dto';
+import { ErrorCode, coded } from '../../common/errors/error-codes';
+
+export interface GetPollResultsOptions {
+  includeHidden?: boolean; // poll owners can see results before close
 }
 
+// Pub/sub channel that tells every instance to drop its cached results for a poll
+export const RESULTS_INVALIDATED_CHANNEL = 'results-invalidated';
+
+// SQL that rounds vote.createdAt down to the start of its bucket, as an ISO string
+// (every database spells date formatting differently)
+const TIMELINE_BUCKET_EXPRESSIONS: Record<DatabaseType, Record<TimelineBucket, string>> = {
+  sqlite: {
+    [TimelineBucket.MINUTE]: "strftime('%Y-%m-%dT%H:%M:00Z', vote.createdAt)",
+    [TimelineBucket.HOUR]: "strftime('%Y-%m-%dT%H:00:00Z', vote.createdAt)",
+    [TimelineBucket.DAY]: "strftime('%Y-%m-%dT00:00:00Z', vote.createdAt)",
+  },
+  postgres: {
+    [TimelineBucket.MINUTE]: `to_char(vote.createdAt AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:00"Z"')`,
+    [TimelineBucket.HOUR]: `to_char(vote.createdAt AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:00:00"Z"')`,
+    [TimelineBucket.DAY]: `to_char(vote.createdAt AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"00:00:00"Z"')`,
+  },
+};
+
 /**
  * Service responsible for calculating and caching poll results
  *
@@ -19,14 +54,10 @@ interface CacheEntry {
  * every time someone wants to see results.
  */
 @Injectable()
-export class ResultsService {
+export class ResultsService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(ResultsService.name);
 
-  // In-memory cache - stores results so we don't recalculate every time
-  private readonly cache = new Map<string, CacheEntry>();
-
-  // How long to keep cached results (default 10 seconds)
-  private readonly cacheTtlMs = (parseInt(process.env.RESULTS_CACHE_TTL_SECONDS) || 10) * 1000;
+  private invalidationSubscription: Subscription | null = null;
 
   constructor(
     @InjectRepository(Vote)
@@ -34,8 +65,41 @@ export class ResultsService {
 
     @InjectRepository(Poll)
     private readonly pollRepository: Repository<Poll>,
+
+    private readonly voteCountersService: VoteCountersService,
+
+    // Whichever cache CacheModule bound - in-memory LRU unless configured otherwise
+    @Inject(CACHE_STORE)
+    private readonly cache: CacheStore,
+
+    @Inject(PUB_SUB)
+    private readonly pubSub: PubSub,
+
+    @Inject(APP_CONFIG)
+    private readonly config: AppConfig,
+
+    private readonly metrics: MetricsService,
   ) {}
 
+  /**
+   * Listens for invalidations from the other instances
+   * (a vote there makes our cached copy of that poll stale too)
+   */
+  onModuleInit(): void {
+    this.invalidationSubscription = this.pubSub
+      .messages<{ pollId: string }>(RESULTS_INVALIDATED_CHANNEL)
+      .subscribe(({ pollId }) => {
+        this.cache.delete(this.cacheKey(pollId)).catch(error => {
+          this.logger.warn(`Error dropping cached results for poll ${pollId}: ${error.message}`);
+        });
+      });
+  }
+
+  onModuleDestroy(): void {
+    this.invalidationSubscription?.unsubscribe();
+    this.invalidationSubscription = null;
+  }
+
   /**
    * Gets poll results - the main method everyone calls
    *
@@ -47,42 +111,116 @@ export class ResultsService {
    * 5. Caches the new results for next time
    *
    * Returns either the actual results or a "hidden" message
+   * (unless includeHidden is set - that's for the poll owner only)
    */
-  async getPollResults(pollId: string): Promise<PollResultsDto | HiddenResultsDto> {
+  async getPollResults(
+    pollId: string,
+    options: GetPollResultsOptions = {},
+  ): Promise<PollResultsDto | HiddenResultsDto> {
     // First, make sure this poll actually exists
     const poll = await this.findPollWithOptions(pollId);
 
     // Check if the poll owner wants to hide results until voting ends
     // (Some people like the suspense!)
-    if (this.shouldHideResults(poll)) {
+    if (!options.includeHidden && this.shouldHideResults(poll)) {
       this.logger.debug(`Results hidden for poll ${pollId} until ${poll.closesAt}`);
       return this.createHiddenResultsResponse(poll);
     }
 
     // Try to get results from our cache first (faster than database)
-    const cachedResults = this.getCachedResults(pollId);
+    const cachedResults = await this.getCachedResults(pollId);
     if (cachedResults) {
       this.logger.debug(`Returning cached results for poll ${pollId}`);
       return cachedResults;
     }
 
     // No cache hit, so let's calculate fresh results
-    const freshResults = await this.computeResults(poll);
+    const freshResults = await this.metrics.computeResultsDuration.time({}, () => this.computeResults(poll));
 
     // Store these results in cache for next time
-    this.setCachedResults(pollId, freshResults);
+    await this.setCachedResults(pollId, freshResults);
 
     return freshResults;
   }
 
+  /**
+   * Vote counts per option for each time bucket, with running totals
+   *
+   * Good for charting how a poll evolved. Same hiding rules as the normal
+   * results (owners can look early). The grouping happens in the database,
+   * so we only get back one row per bucket and option, not every vote.
+   * Ranked polls count first preferences, approval polls every selection.
+   */
+  async getPollTimeline(
+    pollId: string,
+    bucket: TimelineBucket,
+    options: GetPollResultsOptions = {},
+  ): Promise<PollResultsTimelineDto | HiddenResultsDto> {
+    const poll = await this.findPollWithOptions(pollId);
+
+    if (!options.includeHidden && this.shouldHideResults(poll)) {
+      return this.createHiddenResultsResponse(poll);
+    }
+
+    const bucketExpression = TIMELINE_BUCKET_EXPRESSIONS[this.config.database.type][bucket];
+
+    // Per-option counts - approval ballots count once per selected option
+    const countsQuery = this.voteRepository
+      .createQueryBuilder('vote')
+      .select(bucketExpression, 'bucket')
+      .addSelect('COUNT(*)', 'count')
+      .where('vote.pollId = :pollId', { pollId });
+
+    if (poll.votingMethod === VotingMethod.APPROVAL) {
+      countsQuery
+        .innerJoin('vote.choices', 'choice')
+        .addSelect('choice.optionId', 'optionId')
+        .groupBy(bucketExpression)
+        .addGroupBy('choice.optionId');
+    } else {
+      countsQuery
+        .addSelect('vote.optionId', 'optionId')
+        .groupBy(bucketExpression)
+        .addGroupBy('vote.optionId');
+    }
+
+    // Ballots per bucket (differs from the sum above for approval polls)
+    const ballotsQuery = this.voteRepository
+      .createQueryBuilder('vote')
+      .select(bucketExpression, 'bucket')
+      .addSelect('COUNT(*)', 'count')
+      .where('vote.pollId = :pollId', { pollId })
+      .groupBy(bucketExpression);
+
+    const [optionRows, ballotRows] = await Promise.all([
+      countsQuery.getRawMany<{ bucket: string; optionId: string; count: string | number }>(),
+      ballotsQuery.getRawMany<{ bucket: string; count: string | number }>(),
+    ]);
+
+    return {
+      pollId,
+      bucket,
+      votingMethod: poll.votingMethod || VotingMethod.PLURALITY,
+      buckets: this.buildTimelineBuckets(poll, optionRows, ballotRows),
+    };
+  }
+
   /**
    * Clears cached results for a poll
    *
    * Called whenever someone votes - we need fresh calculations!
    * Think of it like clearing your browser cache when a website updates
+   *
+   * Our own copy goes right away (the caller is about to recompute), and
+   * the other instances are told to drop theirs.
    */
-  invalidateCache(pollId: string): void {
-    this.cache.delete(pollId);
+  async invalidateCache(pollId: string): Promise<void> {
+    await this.cache.delete(this.cacheKey(pollId));
+
+    // The others would only serve stale results until their TTL runs out - not worth failing a vote over
+    await this.pubSub.publish(RESULTS_INVALIDATED_CHANNEL, { pollId }).catch(error => {
+      this.logger.warn(`Error publishing cache invalidation for poll ${pollId}: ${error.message}`);
+    });
     this.logger.debug(`Cache invalidated for poll ${pollId}`);
   }
 
@@ -99,7 +237,7 @@ export class ResultsService {
     });
 
     if (!poll) {
-      throw new NotFoundException(`Poll with ID ${pollId} not found`);
+      throw new NotFoundException(coded(ErrorCode.POLL_NOT_FOUND, `Poll with ID ${pollId} not found`));
     }
 
     return poll;
@@ -108,10 +246,10 @@ export class ResultsService {
   /**
    * Checks if poll results should be hidden from users
    * Some poll creators want to keep results secret until voting ends
+   * (closing early counts as the end, so we go by status, not just closesAt)
    */
   private shouldHideResults(poll: Poll): boolean {
-    const now = new Date();
-    return poll.hideResultsUntilClose && now < poll.closesAt;
+    return poll.hideResultsUntilClose && getEffectivePollStatus(poll) !== PollStatus.CLOSED;
   }
 
   /**
@@ -129,151 +267,278 @@ export class ResultsService {
    * Does the heavy lifting - calculates all the poll statistics
    *
    * This is where we:
-   * - Count up all the votes
+   * - Read the vote counters (kept up to date as votes come in)
    * - Calculate percentages
+   * - Run the instant-runoff rounds for ranked-choice polls
    * - Figure out how fast people are voting
    * - Time how long it takes (for performance monitoring)
+   *
+   * Only instant-runoff needs the ballots themselves - everything else
+   * comes from the counters, so big polls don't load every vote.
    */
   private async computeResults(poll: Poll): Promise<PollResultsDto> {
     const startTime = Date.now();
 
-    // Get all votes for this poll (with a fancy database query)
-    const votes = await this.fetchAllVotesForPoll(poll.id);
-    const totalVotes = votes.length;
-
-    // Count how many votes each option got
-    const voteCounts = this.countVotesByOption(poll, votes);
+    // Ballot total, picks per option (first preferences for ranked ballots) and recent activity
+    const tallies = await this.voteCountersService.getTallies(poll);
+    const totalVotes = tallies.ballots;
+    const voteCounts = tallies.optionCounts;
+    const totalSelections = [...voteCounts.values()].reduce((sum, count) => sum + count, 0);
 
     // Build the results with percentages and everything
-    const optionResults = this.buildOptionResults(poll, voteCounts, totalVotes);
+    const optionResults = this.buildOptionResults(poll, voteCounts, totalVotes, totalSelections);
 
     // Calculate how fast people are voting recently
-    const voteVelocity = this.calculateVoteVelocity(votes);
-
-    const computeTime = Date.now() - startTime;
-    this.logger.debug(`Computed results for poll ${poll.id} in ${computeTime}ms`);
+    const voteVelocity = this.calculateVoteVelocity(tallies.recentBallots);
 
-    return {
+    const results: PollResultsDto = {
       pollId: poll.id,
       total: totalVotes,
+      totalSelections,
+      votingMethod: poll.votingMethod || VotingMethod.PLURALITY,
       options: optionResults,
       voteVelocityPerMinLast5: voteVelocity,
     };
+
+    if (poll.votingMethod === VotingMethod.RANKED_CHOICE) {
+      const votes = await this.fetchRankedBallots(poll);
+      results.rankedChoice = this.computeInstantRunoff(poll, votes);
+    }
+
+    const computeTime = Date.now() - startTime;
+    this.logger.debug(`Computed results for poll ${poll.id} in ${computeTime}ms`);
+
+    return results;
   }
 
   /**
-   * Fetches all votes for a poll from the database
-   * Uses a join to get option info too (more efficient than separate queries)
+   * Fetches every ballot with its ranking, for the instant-runoff count
    */
-  private async fetchAllVotesForPoll(pollId: string): Promise<Vote[]> {
+  private async fetchRankedBallots(poll: Poll): Promise<Vote[]> {
     return this.voteRepository
       .createQueryBuilder('vote')
-      .leftJoinAndSelect('vote.option', 'option')
-      .where('vote.pollId = :pollId', { pollId })
+      .leftJoinAndSelect('vote.choices', 'choice')
+      .where('vote.pollId = :pollId', { pollId: poll.id })
       .getMany();
   }
 
-  /**
-   * Counts how many votes each option received
-   * Returns a map of optionId -> vote count
-   */
-  private countVotesByOption(poll: Poll, votes: Vote[]): Map<string, number> {
-    // Start with zero votes for each option
-    const voteCounts = new Map<string, number>();
-    poll.options.forEach(option => voteCounts.set(option.id, 0));
-
-    // Count up the actual votes
-    votes.forEach(vote => {
-      const currentCount = voteCounts.get(vote.optionId) || 0;
-      voteCounts.set(vote.optionId, currentCount + 1);
-    });
-
-    return voteCounts;
-  }
-
   /**
    * Builds the final option results with counts and percentages
    * Handles the math for converting counts to percentages
+   *
+   * percentage is the share of all selections (adds up to 100), while
+   * percentageOfVoters is the share of ballots that picked the option.
+   * They only differ when a ballot can pick several options.
    */
   private buildOptionResults(
     poll: Poll,
     voteCounts: Map<string, number>,
-    totalVotes: number
+    totalVotes: number,
+    totalSelections: number
   ): OptionResultDto[] {
     return poll.options.map(option => {
       const count = voteCounts.get(option.id) || 0;
-      const percentage = totalVotes > 0 ? (count / totalVotes) * 100 : 0;
+      const percentage = totalSelections > 0 ? (count / totalSelections) * 100 : 0;
+      const percentageOfVoters = totalVotes > 0 ? (count / totalVotes) * 100 : 0;
 
       return {
         optionId: option.id,
         text: option.text,
         count,
         percentage: Math.round(percentage * 100) / 100, // Round to 2 decimals
+        percentageOfVoters: Math.round(percentageOfVoters * 100) / 100,
       };
     });
   }
 
   /**
-   * Calculates how many votes per minute in the last 5 minutes
-   * Useful for seeing if a poll is "hot" right now
+   * Runs an instant-runoff count over the ranked ballots
+   *
+   * Each round, every ballot counts for its highest-ranked option that is
+   * still in the race. An option backed by more than half of the live ballots
+   * wins. Otherwise the option(s) with the fewest votes are eliminated and
+   * their ballots move to the next preference (or become exhausted).
+   * If every remaining option is tied, the count stops without a winner.
    */
-  private calculateVoteVelocity(votes: Vote[]): number {
-    const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
-    const recentVotes = votes.filter(vote => vote.createdAt >= fiveMinutesAgo);
-    return Math.round((recentVotes.length / 5) * 100) / 100; // Round to 2 decimals
+  private computeInstantRunoff(poll: Poll, votes: Vote[]): RankedChoiceResultsDto {
+    const ballots = votes.map(vote => this.getRankedPreferences(vote));
+    const remaining = new Set(poll.options.map(option => option.id));
+    const rounds: RankedChoiceRoundDto[] = [];
+
+    if (ballots.length === 0) {
+      return { rounds, winnerOptionId: null };
+    }
+
+    while (remaining.size > 0) {
+      // Who is each ballot backing right now?
+      const currentChoices = ballots.map(ballot => this.topRemainingChoice(ballot, remaining));
+
+      const tallies = new Map<string, number>();
+      remaining.forEach(optionId => tallies.set(optionId, 0));
+      let exhausted = 0;
+      currentChoices.forEach(choice => {
+        if (choice) {
+          tallies.set(choice, tallies.get(choice) + 1);
+        } else {
+          exhausted++;
+        }
+      });
+
+      const round: RankedChoiceRoundDto = {
+        round: rounds.length + 1,
+        tallies: poll.options
+          .filter(option => remaining.has(option.id))
+          .map(option => ({ optionId: option.id, text: option.text, count: tallies.get(option.id) })),
+        exhausted,
+        eliminatedOptionIds: [],
+        transfers: [],
+      };
+      rounds.push(round);
+
+      // Majority of the ballots still in play (or last one standing) wins
+      const liveBallots = ballots.length - exhausted;
+      const leader = round.tallies.reduce((best, tally) => (tally.count > best.count ? tally : best));
+      if ((liveBallots > 0 && leader.count * 2 > liveBallots) || remaining.size === 1) {
+        return { rounds, winnerOptionId: leader.optionId };
+      }
+
+      // Knock out everyone sharing the lowest count
+      const lowest = Math.min(...round.tallies.map(tally => tally.count));
+      const eliminated = round.tallies
+        .filter(tally => tally.count === lowest)
+        .map(tally => tally.optionId);
+
+      if (eliminated.length === remaining.size) {
+        // Everyone left is tied - there's no fair way to pick a loser
+        return { rounds, winnerOptionId: null };
+      }
+
+      eliminated.forEach(optionId => remaining.delete(optionId));
+      round.eliminatedOptionIds = eliminated;
+      round.transfers = this.buildVoteTransfers(ballots, currentChoices, eliminated, remaining);
+    }
+
+    return { rounds, winnerOptionId: null };
   }
 
   /**
-   * Tries to get results from cache
-   * Returns null if not cached or if the cache is stale
+   * Gets a ballot's preferences in order, favourite first
+   * Falls back to the single stored option if there is no ranking
    */
-  private getCachedResults(pollId: string): PollResultsDto | null {
-    const entry = this.cache.get(pollId);
-    if (!entry) {
-      return null; // Not in cache
+  private getRankedPreferences(vote: Vote): string[] {
+    if (!vote.choices || vote.choices.length === 0) {
+      return [vote.optionId];
     }
 
-    // Check if the cache entry is too old
-    const isExpired = Date.now() - entry.timestamp > this.cacheTtlMs;
-    if (isExpired) {
-      this.cache.delete(pollId); // Clean up expired entry
-      return null;
-    }
+    return [...vote.choices]
+      .sort((a, b) => a.rank - b.rank)
+      .map(choice => choice.optionId);
+  }
 
-    return entry.data; // Fresh cached data!
+  /**
+   * Finds the highest-ranked option on a ballot that hasn't been eliminated
+   * Returns null when the ballot is exhausted
+   */
+  private topRemainingChoice(ballot: string[], remaining: Set<string>): string | null {
+    return ballot.find(optionId => remaining.has(optionId)) ?? null;
   }
 
   /**
-   * Stores results in cache with current timestamp
-   * Next time someone asks for these results, we can serve them instantly
+   * Works out where the ballots of eliminated options go next
+   * Groups them by (from, to) so the response stays small
+   */
+  private buildVoteTransfers(
+    ballots: string[][],
+    currentChoices: (string | null)[],
+    eliminated: string[],
+    remaining: Set<string>
+  ): VoteTransferDto[] {
+    const transfers = new Map<string, VoteTransferDto>();
+
+    ballots.forEach((ballot, index) => {
+      const fromOptionId = currentChoices[index];
+      if (!fromOptionId || !eliminated.includes(fromOptionId)) {
+        return;
+      }
+
+      const toOptionId = this.topRemainingChoice(ballot, remaining);
+      const key = `${fromOptionId}:${toOptionId}`;
+      const transfer = transfers.get(key) || { fromOptionId, toOptionId, count: 0 };
+      transfer.count++;
+      transfers.set(key, transfer);
+    });
+
+    return [...transfers.values()];
+  }
+
+  /**
+   * Turns the grouped rows into ordered buckets with running totals
+   * Every option appears in every bucket (with 0 if nobody picked it) so charts line up
    */
-  private setCachedResults(pollId: string, results: PollResultsDto): void {
-    this.cache.set(pollId, {
-      data: results,
-      timestamp: Date.now(), // Remember when we cached this
+  private buildTimelineBuckets(
+    poll: Poll,
+    optionRows: { bucket: string; optionId: string; count: string | number }[],
+    ballotRows: { bucket: string; count: string | number }[],
+  ): TimelineBucketDto[] {
+    const countsByBucket = new Map<string, Map<string, number>>();
+    optionRows.forEach(row => {
+      const counts = countsByBucket.get(row.bucket) || new Map<string, number>();
+      counts.set(row.optionId, Number(row.count));
+      countsByBucket.set(row.bucket, counts);
     });
+
+    const runningByOption = new Map<string, number>();
+    let runningBallots = 0;
+
+    // The bucket strings are ISO-formatted, so sorting them as text sorts them by time
+    return [...ballotRows]
+      .sort((a, b) => a.bucket.localeCompare(b.bucket))
+      .map(row => {
+        const counts = countsByBucket.get(row.bucket) || new Map<string, number>();
+        const total = Number(row.count);
+        runningBallots += total;
+
+        return {
+          start: new Date(row.bucket).toISOString(),
+          total,
+          runningTotal: runningBallots,
+          options: poll.options.map(option => {
+            const count = counts.get(option.id) || 0;
+            const runningTotal = (runningByOption.get(option.id) || 0) + count;
+            runningByOption.set(option.id, runningTotal);
+            return { optionId: option.id, count, runningTotal };
+          }),
+        };
+      });
   }
 
   /**
-   * Spring cleaning for the cache
-   *
-   * Removes old cached entries that have expired.
-   * Call this periodically to prevent memory leaks (though our cache
-   * is pretty small, so it's not critical)
+   * Calculates how many votes per minute in the last 5 minutes
+   * Useful for seeing if a poll is "hot" right now
    */
-  cleanupExpiredCache(): void {
-    const now = Date.now();
-    let cleanedCount = 0;
-
-    for (const [pollId, entry] of this.cache.entries()) {
-      if (now - entry.timestamp > this.cacheTtlMs) {
-        this.cache.delete(pollId);
-        cleanedCount++;
-      }
-    }
+  private calculateVoteVelocity(recentBallots: number): number {
+    return Math.round((recentBallots / 5) * 100) / 100; // Round to 2 decimals
+  }
 
-    if (cleanedCount > 0) {
-      this.logger.debug(`Cleaned up ${cleanedCount} expired cache entries`);
-    }
+  /**
+   * Tries to get results from cache
+   * Returns null if not cached or if the cache entry has expired
+   * (the store takes care of the TTL)
+   */
+  private async getCachedResults(pollId: string): Promise<PollResultsDto | null> {
+    return (await this.cache.get<PollResultsDto>(this.cacheKey(pollId))) ?? null;
+  }
+
+  /**
+   * Stores results in cache for RESULTS_CACHE_TTL_SECONDS
+   * Next time someone asks for these results, we can serve them instantly
+   */
+  private async setCachedResults(pollId: string, results: PollResultsDto): Promise<void> {
+    await this.cache.set(this.cacheKey(pollId), results, this.config.resultsCache.ttlMs);
+  }
+
+  // Namespaced, in case other things end up in the same store
+  private cacheKey(pollId: string): string {
+    return `poll-results:${pollId}`;
   }
 }
\ No newline at end of file
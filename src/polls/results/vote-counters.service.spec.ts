@@ -0,0 +1,208 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Repository, DataSource, EntityManager } from 'typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { VoteCountersService } from './vote-counters.service';
+import { Poll, VotingMethod } from '../entities/poll.entity';
+import { PollVoteCounter } from '../entities/poll-vote-counter.entity';
+import { OptionVoteCounter } from '../entities/option-vote-counter.entity';
+import { VoteCountBucket } from '../entities/vote-count-bucket.entity';
+
+describe('VoteCountersService', () => {
+  let service: VoteCountersService;
+  let pollRepository: Repository<Poll>;
+  let pollCounterRepository: Repository<PollVoteCounter>;
+  let optionCounterRepository: Repository<OptionVoteCounter>;
+  let bucketRepository: Repository<VoteCountBucket>;
+
+  const pollId = '123e4567-e89b-12d3-a456-426614174000';
+  const poll = {
+    id: pollId,
+    votingMethod: VotingMethod.PLURALITY,
+    options: [
+      { id: 'option1', text: 'Option 1' },
+      { id: 'option2', text: 'Option 2' },
+    ],
+  } as Poll;
+
+  // A transaction manager whose ballot-total update hits `affected` rows
+  const buildManager = (affected = 1) => {
+    const queryBuilder = {
+      update: jest.fn().mockReturnThis(),
+      set: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      insert: jest.fn().mockReturnThis(),
+      into: jest.fn().mockReturnThis(),
+      values: jest.fn().mockReturnThis(),
+      orIgnore: jest.fn().mockReturnThis(),
+      execute: jest.fn().mockResolvedValue({ affected }),
+    };
+
+    return {
+      createQueryBuilder: jest.fn(() => queryBuilder),
+      increment: jest.fn(),
+      decrement: jest.fn(),
+      delete: jest.fn(),
+      insert: jest.fn(),
+      exists: jest.fn().mockResolvedValue(affected > 0),
+      find: jest.fn().mockResolvedValue([]),
+    };
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VoteCountersService,
+        {
+          provide: getRepositoryToken(Poll),
+          useValue: {
+            findOne: jest.fn(),
+            find: jest.fn().mockResolvedValue([]),
+          },
+        },
+        {
+          provide: getRepositoryToken(PollVoteCounter),
+          useValue: {
+            findOne: jest.fn(),
+          },
+        },
+        {
+          provide: getRepositoryToken(OptionVoteCounter),
+          useValue: {
+            find: jest.fn().mockResolvedValue([]),
+          },
+        },
+        {
+          provide: getRepositoryToken(VoteCountBucket),
+          useValue: {
+            find: jest.fn().mockResolvedValue([]),
+          },
+        },
+        {
+          provide: DataSource,
+          useValue: {
+            transaction: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<VoteCountersService>(VoteCountersService);
+    pollRepository = module.get<Repository<Poll>>(getRepositoryToken(Poll));
+    pollCounterRepository = module.get<Repository<PollVoteCounter>>(getRepositoryToken(PollVoteCounter));
+    optionCounterRepository = module.get<Repository<OptionVoteCounter>>(getRepositoryToken(OptionVoteCounter));
+    bucketRepository = module.get<Repository<VoteCountBucket>>(getRepositoryToken(VoteCountBucket));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('addBallot', () => {
+    it('should count the ballot, its option and its minute', async () => {
+      const manager = buildManager();
+
+      await service.addBallot(manager as unknown as EntityManager, poll, { createdAt: new Date('2030-01-01T12:34:56Z') }, ['option1']);
+
+      expect(manager.increment).toHaveBeenCalledWith(OptionVoteCounter, { pollId, optionId: 'option1' }, 'count', 1);
+      expect(manager.increment).toHaveBeenCalledWith(
+        VoteCountBucket,
+        { pollId, bucketStart: '2030-01-01T12:34:00.000Z' },
+        'count',
+        1,
+      );
+    });
+
+    it('should only count the first preference on ranked ballots', async () => {
+      const manager = buildManager();
+      const rankedPoll = { ...poll, votingMethod: VotingMethod.RANKED_CHOICE } as Poll;
+
+      await service.addBallot(manager as unknown as EntityManager, rankedPoll, { createdAt: new Date() }, ['option2', 'option1']);
+
+      const optionIncrements = manager.increment.mock.calls.filter(([entity]) => entity === OptionVoteCounter);
+      expect(optionIncrements).toEqual([[OptionVoteCounter, { pollId, optionId: 'option2' }, 'count', 1]]);
+    });
+
+    it('should count every selection on approval ballots', async () => {
+      const manager = buildManager();
+      const approvalPoll = { ...poll, votingMethod: VotingMethod.APPROVAL } as Poll;
+
+      await service.addBallot(manager as unknown as EntityManager, approvalPoll, { createdAt: new Date() }, ['option1', 'option2']);
+
+      const optionIncrements = manager.increment.mock.calls.filter(([entity]) => entity === OptionVoteCounter);
+      expect(optionIncrements).toHaveLength(2);
+    });
+
+    it('should leave polls without counters for the rebuild', async () => {
+      const manager = buildManager(0);
+
+      await service.addBallot(manager as unknown as EntityManager, poll, { createdAt: new Date() }, ['option1']);
+
+      expect(manager.increment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('changeBallot', () => {
+    it('should move an approval ballot from its stored selections to the new ones', async () => {
+      const manager = buildManager();
+      manager.find.mockResolvedValue([{ optionId: 'option1' }, { optionId: 'option2' }]);
+      const approvalPoll = { ...poll, votingMethod: VotingMethod.APPROVAL } as Poll;
+
+      await service.changeBallot(manager as unknown as EntityManager, approvalPoll, { id: 'vote-1', optionId: 'option1' }, ['option2']);
+
+      expect(manager.decrement).toHaveBeenCalledTimes(2);
+      expect(manager.increment).toHaveBeenCalledWith(OptionVoteCounter, { pollId, optionId: 'option2' }, 'count', 1);
+    });
+  });
+
+  describe('removeBallot', () => {
+    it('should take the ballot out of its option and minute', async () => {
+      const manager = buildManager();
+
+      await service.removeBallot(manager as unknown as EntityManager, poll, {
+        id: 'vote-1',
+        optionId: 'option2',
+        createdAt: new Date('2030-01-01T12:34:56Z'),
+      });
+
+      expect(manager.decrement).toHaveBeenCalledWith(
+        OptionVoteCounter,
+        expect.objectContaining({ pollId, optionId: 'option2' }),
+        'count',
+        1,
+      );
+      expect(manager.decrement).toHaveBeenCalledWith(
+        VoteCountBucket,
+        expect.objectContaining({ pollId, bucketStart: '2030-01-01T12:34:00.000Z' }),
+        'count',
+        1,
+      );
+    });
+  });
+
+  describe('getTallies', () => {
+    it('should read totals, option counts and recent ballots from the counters', async () => {
+      jest.spyOn(pollCounterRepository, 'findOne').mockResolvedValue({ pollId, ballots: 7 } as PollVoteCounter);
+      jest.spyOn(optionCounterRepository, 'find').mockResolvedValue([{ pollId, optionId: 'option1', count: 7 } as OptionVoteCounter]);
+      jest.spyOn(bucketRepository, 'find').mockResolvedValue([
+        { pollId, bucketStart: '2030-01-01T12:33:00.000Z', count: 2 },
+        { pollId, bucketStart: '2030-01-01T12:34:00.000Z', count: 3 },
+      ] as VoteCountBucket[]);
+
+      const tallies = await service.getTallies(poll);
+
+      expect(tallies.ballots).toBe(7);
+      expect(tallies.optionCounts.get('option1')).toBe(7);
+      expect(tallies.optionCounts.get('option2')).toBe(0); // nobody picked it, still listed
+      expect(tallies.recentBallots).toBe(5);
+    });
+  });
+
+  describe('rebuild', () => {
+    it('should throw NotFoundException when the poll does not exist', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(null);
+
+      await expect(service.rebuild(pollId)).rejects.toThrow(NotFoundException);
+    });
+  });
+});
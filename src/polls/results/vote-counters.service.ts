@@ -0,0 +1,362 @@
+import { Injectable, Logger, NotFoundException, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, DataSource, EntityManager, MoreThan, MoreThanOrEqual, LessThan } from 'typeorm';
+import { Poll, VotingMethod } from '../entities/poll.entity';
+import { Vote } from '../entities/vote.entity';
+import { VoteChoice } from '../entities/vote-choice.entity';
+import { PollVoteCounter } from '../entities/poll-vote-counter.entity';
+import { OptionVoteCounter } from '../entities/option-vote-counter.entity';
+import { VoteCountBucket } from '../entities/vote-count-bucket.entity';
+import { VoteCountersRebuildDto } from '../dtos/vote-counters-rebuild.dto';
+import { ErrorCode, coded } from '../../common/errors/error-codes';
+
+// Velocity looks at the last 5 one-minute buckets
+const VELOCITY_WINDOW_MINUTES = 5;
+const BUCKET_MS = 60 * 1000;
+
+// Buckets older than this can't affect velocity anymore
+const BUCKET_RETENTION_MS = (VELOCITY_WINDOW_MINUTES + 5) * BUCKET_MS;
+
+// What results are built from
+export interface PollTallies {
+  ballots: number;
+  optionCounts: Map<string, number>; // optionId -> times picked (0 for options nobody picked)
+  recentBallots: number; // ballots cast in the velocity window
+}
+
+/**
+ * Per-poll vote counters, so results don't have to read every ballot
+ *
+ * Three small tables, all updated inside the vote transactions:
+ * - poll_vote_counters: ballots per poll (its row existing = counters are live)
+ * - option_vote_counters: picks per option
+ * - vote_count_buckets: ballots per minute, recent minutes only (for velocity)
+ *
+ * Polls from before the counters existed get counted once at startup. If
+ * the counters ever drift (someone edited the database by hand), an admin
+ * can rebuild them from the votes table.
+ */
+@Injectable()
+export class VoteCountersService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(VoteCountersService.name);
+
+  // How many polls to load per query during a full rebuild
+  private readonly batchSize = 100;
+
+  constructor(
+    @InjectRepository(Poll)
+    private readonly pollRepository: Repository<Poll>,
+
+    @InjectRepository(PollVoteCounter)
+    private readonly pollCounterRepository: Repository<PollVoteCounter>,
+
+    @InjectRepository(OptionVoteCounter)
+    private readonly optionCounterRepository: Repository<OptionVoteCounter>,
+
+    @InjectRepository(VoteCountBucket)
+    private readonly bucketRepository: Repository<VoteCountBucket>,
+
+    private readonly dataSource: DataSource,
+  ) {}
+
+  /**
+   * Counts any polls that don't have counters yet (older data)
+   * A failure here isn't fatal - getTallies builds them on demand too
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    try {
+      const uncounted = await this.pollRepository
+        .createQueryBuilder('poll')
+        .select('poll.id', 'id')
+        .leftJoin(PollVoteCounter, 'counter', 'counter.pollId = poll.id')
+        .where('counter.pollId IS NULL')
+        .getRawMany<{ id: string }>();
+
+      for (const { id } of uncounted) {
+        await this.rebuild(id);
+      }
+
+      if (uncounted.length > 0) {
+        this.logger.log(`Built vote counters for ${uncounted.length} existing polls`);
+      }
+    } catch (error) {
+      this.logger.error(`Error building vote counters at startup: ${error.message}`, error.stack);
+    }
+  }
+
+  /**
+   * Starts a new poll's counters at zero - call it in the createPoll transaction
+   */
+  async initialize(manager: EntityManager, pollId: string): Promise<void> {
+    await manager.insert(PollVoteCounter, { pollId, ballots: 0, rebuiltAt: null });
+  }
+
+  /**
+   * Counts a new ballot - call it inside the vote's transaction
+   */
+  async addBallot(manager: EntityManager, poll: Poll, vote: Pick<Vote, 'createdAt'>, optionIds: string[]): Promise<void> {
+    if (!(await this.bumpBallots(manager, poll.id, 1))) {
+      return;
+    }
+
+    await this.bumpOptions(manager, poll.id, this.countedOptionIds(poll, optionIds), 1);
+    await this.increment(manager, VoteCountBucket, { pollId: poll.id, bucketStart: this.bucketStart(vote.createdAt) });
+
+    // Minutes that can't affect velocity anymore just take up space
+    await manager.delete(VoteCountBucket, {
+      pollId: poll.id,
+      bucketStart: LessThan(this.bucketStart(new Date(Date.now() - BUCKET_RETENTION_MS))),
+    });
+  }
+
+  /**
+   * Moves a changed ballot's picks - the ballot total and its minute stay the same
+   * Call it before the old choices are deleted, it reads them to know what to take back
+   */
+  async changeBallot(manager: EntityManager, poll: Poll, vote: Pick<Vote, 'id' | 'optionId'>, optionIds: string[]): Promise<void> {
+    if (!(await manager.exists(PollVoteCounter, { where: { pollId: poll.id } }))) {
+      return;
+    }
+
+    await this.bumpOptions(manager, poll.id, await this.storedOptionIds(manager, poll, vote), -1);
+    await this.bumpOptions(manager, poll.id, this.countedOptionIds(poll, optionIds), 1);
+  }
+
+  /**
+   * Takes a withdrawn ballot back out - call it before the vote is deleted
+   */
+  async removeBallot(manager: EntityManager, poll: Poll, vote: Pick<Vote, 'id' | 'optionId' | 'createdAt'>): Promise<void> {
+    if (!(await this.bumpBallots(manager, poll.id, -1))) {
+      return;
+    }
+
+    await this.bumpOptions(manager, poll.id, await this.storedOptionIds(manager, poll, vote), -1);
+
+    // The ballot's minute may already be pruned - then there's nothing to take back
+    await this.decrement(manager, VoteCountBucket, { pollId: poll.id, bucketStart: this.bucketStart(vote.createdAt) });
+  }
+
+  /**
+   * Everything results need, straight from the counters
+   * Builds the counters first if this poll somehow has none
+   */
+  async getTallies(poll: Poll, now: Date = new Date()): Promise<PollTallies> {
+    let counter = await this.pollCounterRepository.findOne({ where: { pollId: poll.id } });
+    if (!counter) {
+      await this.rebuild(poll.id);
+      counter = await this.pollCounterRepository.findOne({ where: { pollId: poll.id } });
+    }
+
+    const velocityWindowStart = this.bucketStart(new Date(now.getTime() - (VELOCITY_WINDOW_MINUTES - 1) * BUCKET_MS));
+
+    const [optionCounters, buckets] = await Promise.all([
+      this.optionCounterRepository.find({ where: { pollId: poll.id } }),
+      this.bucketRepository.find({ where: { pollId: poll.id, bucketStart: MoreThanOrEqual(velocityWindowStart) } }),
+    ]);
+
+    const optionCounts = new Map<string, number>();
+    poll.options.forEach(option => optionCounts.set(option.id, 0));
+    optionCounters.forEach(row => optionCounts.set(row.optionId, row.count));
+
+    return {
+      ballots: counter?.ballots ?? 0,
+      optionCounts,
+      recentBallots: buckets.reduce((sum, bucket) => sum + bucket.count, 0),
+    };
+  }
+
+  /**
+   * Recounts one poll from the votes table, in one transaction
+   */
+  async rebuild(pollId: string): Promise<VoteCountersRebuildDto> {
+    const startTime = Date.now();
+
+    const poll = await this.pollRepository.findOne({ where: { id: pollId } });
+    if (!poll) {
+      throw new NotFoundException(coded(ErrorCode.POLL_NOT_FOUND, `Poll with ID ${pollId} not found`));
+    }
+
+    const ballots = await this.dataSource.transaction(manager => this.recount(manager, poll));
+
+    this.logger.log(`Rebuilt vote counters for poll ${pollId} (${ballots} ballots)`);
+    return { polls: 1, ballots, durationMs: Date.now() - startTime };
+  }
+
+  /**
+   * Recounts every poll, one at a time so votes can keep coming in between
+   */
+  async rebuildAll(): Promise<VoteCountersRebuildDto> {
+    const startTime = Date.now();
+    let polls = 0;
+    let ballots = 0;
+    let lastPollId: string | null = null;
+
+    while (true) {
+      const batch = await this.pollRepository.find({
+        // No lower bound on the first batch ('' isn't a valid uuid on Postgres)
+        where: lastPollId ? { id: MoreThan(lastPollId) } : {},
+        order: { id: 'ASC' },
+        take: this.batchSize,
+      });
+
+      for (const poll of batch) {
+        ballots += await this.dataSource.transaction(manager => this.recount(manager, poll));
+        polls++;
+      }
+
+      if (batch.length < this.batchSize) {
+        break;
+      }
+      lastPollId = batch[batch.length - 1].id;
+    }
+
+    this.logger.log(`Rebuilt vote counters for ${polls} polls (${ballots} ballots)`);
+    return { polls, ballots, durationMs: Date.now() - startTime };
+  }
+
+  /**
+   * Throws away a poll's counters and counts its ballots from scratch
+   * The grouping happens in the database - we never load the ballots themselves
+   *
+   * Call it inside a transaction. The ballot import uses it once after all
+   * its rows instead of counting them one at a time.
+   */
+  async recount(manager: EntityManager, poll: Poll): Promise<number> {
+    await manager.delete(OptionVoteCounter, { pollId: poll.id });
+    await manager.delete(VoteCountBucket, { pollId: poll.id });
+    await manager.delete(PollVoteCounter, { pollId: poll.id });
+
+    const ballots = await manager.count(Vote, { where: { pollId: poll.id } });
+
+    // Approval polls count every selection, the others the (first) option on the vote
+    const optionRows = poll.votingMethod === VotingMethod.APPROVAL
+      ? await manager
+        .createQueryBuilder(VoteChoice, 'choice')
+        .innerJoin('choice.vote', 'vote')
+        .select('choice.optionId', 'optionId')
+        .addSelect('COUNT(*)', 'count')
+        .where('vote.pollId = :pollId', { pollId: poll.id })
+        .groupBy('choice.optionId')
+        .getRawMany<{ optionId: string; count: string | number }>()
+      : await manager
+        .createQueryBuilder(Vote, 'vote')
+        .select('vote.optionId', 'optionId')
+        .addSelect('COUNT(*)', 'count')
+        .where('vote.pollId = :pollId', { pollId: poll.id })
+        .groupBy('vote.optionId')
+        .getRawMany<{ optionId: string; count: string | number }>();
+
+    // Only recent ballots matter for velocity, so that's all we look at
+    const recentVotes = await manager.find(Vote, {
+      select: { id: true, createdAt: true },
+      where: { pollId: poll.id, createdAt: MoreThanOrEqual(new Date(Date.now() - BUCKET_RETENTION_MS)) },
+    });
+    const bucketCounts = new Map<string, number>();
+    recentVotes.forEach(vote => {
+      const bucketStart = this.bucketStart(vote.createdAt);
+      bucketCounts.set(bucketStart, (bucketCounts.get(bucketStart) || 0) + 1);
+    });
+
+    await manager.insert(PollVoteCounter, { pollId: poll.id, ballots, rebuiltAt: new Date() });
+    if (optionRows.length > 0) {
+      await manager.insert(OptionVoteCounter, optionRows.map(row => ({
+        pollId: poll.id,
+        optionId: row.optionId,
+        count: Number(row.count),
+      })));
+    }
+    if (bucketCounts.size > 0) {
+      await manager.insert(VoteCountBucket, [...bucketCounts].map(([bucketStart, count]) => ({
+        pollId: poll.id,
+        bucketStart,
+        count,
+      })));
+    }
+
+    return ballots;
+  }
+
+  // --- Private helpers ---
+
+  /**
+   * Moves the ballot total - false when the poll has no counters yet,
+   * in which case the rest is skipped too (the rebuild will count this ballot)
+   */
+  private async bumpBallots(manager: EntityManager, pollId: string, delta: number): Promise<boolean> {
+    const result = await manager
+      .createQueryBuilder()
+      .update(PollVoteCounter)
+      .set({ ballots: () => `"ballots" + ${delta}` })
+      .where('pollId = :pollId', { pollId })
+      .execute();
+
+    return result.affected > 0;
+  }
+
+  private async bumpOptions(manager: EntityManager, pollId: string, optionIds: string[], delta: 1 | -1): Promise<void> {
+    for (const optionId of optionIds) {
+      if (delta > 0) {
+        await this.increment(manager, OptionVoteCounter, { pollId, optionId });
+      } else {
+        await this.decrement(manager, OptionVoteCounter, { pollId, optionId });
+      }
+    }
+  }
+
+  /**
+   * Adds one to a counter row, creating it at zero first if needed
+   * (insert-or-ignore then update, so it works the same on any database)
+   */
+  private async increment(
+    manager: EntityManager,
+    entity: typeof OptionVoteCounter | typeof VoteCountBucket,
+    key: Record<string, string>,
+  ): Promise<void> {
+    await manager
+      .createQueryBuilder()
+      .insert()
+      .into(entity)
+      .values({ ...key, count: 0 })
+      .orIgnore()
+      .execute();
+
+    await manager.increment(entity, key, 'count', 1);
+  }
+
+  // Never below zero - a missing or empty row just means there's nothing to take back
+  private async decrement(
+    manager: EntityManager,
+    entity: typeof OptionVoteCounter | typeof VoteCountBucket,
+    key: Record<string, string>,
+  ): Promise<void> {
+    await manager.decrement(entity, { ...key, count: MoreThan(0) }, 'count', 1);
+  }
+
+  /**
+   * The options a stored ballot currently counts for
+   * Approval selections live in vote_choices, everything else on the vote itself
+   */
+  private async storedOptionIds(manager: EntityManager, poll: Poll, vote: Pick<Vote, 'id' | 'optionId'>): Promise<string[]> {
+    if (poll.votingMethod !== VotingMethod.APPROVAL) {
+      return [vote.optionId];
+    }
+
+    const choices = await manager.find(VoteChoice, { where: { voteId: vote.id } });
+    return choices.map(choice => choice.optionId);
+  }
+
+  /**
+   * The options a ballot counts for: every selection on approval polls,
+   * the first (or only) pick otherwise
+   */
+  private countedOptionIds(poll: Poll, optionIds: string[]): string[] {
+    if (poll.votingMethod === VotingMethod.APPROVAL) {
+      return optionIds;
+    }
+    return optionIds.length > 0 ? [optionIds[0]] : [];
+  }
+
+  private bucketStart(time: Date): string {
+    return new Date(Math.floor(time.getTime() / BUCKET_MS) * BUCKET_MS).toISOString();
+  }
+}
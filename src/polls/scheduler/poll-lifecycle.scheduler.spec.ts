@@ -0,0 +1,77 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { PollLifecycleScheduler } from './poll-lifecycle.scheduler';
+import { PollsService } from '../polls.service';
+import { Poll } from '../entities/poll.entity';
+import { APP_CONFIG, loadAppConfig } from '../../config/app-config';
+
+describe('PollLifecycleScheduler', () => {
+  let scheduler: PollLifecycleScheduler;
+  let pollRepository: Repository<Poll>;
+
+  const mockPollsService = {
+    broadcastLifecycleEvent: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PollLifecycleScheduler,
+        {
+          provide: getRepositoryToken(Poll),
+          useValue: {
+            find: jest.fn(),
+            update: jest.fn(),
+          },
+        },
+        {
+          provide: PollsService,
+          useValue: mockPollsService,
+        },
+        {
+          provide: APP_CONFIG,
+          useValue: loadAppConfig({}),
+        },
+      ],
+    }).compile();
+
+    scheduler = module.get<PollLifecycleScheduler>(PollLifecycleScheduler);
+    pollRepository = module.get<Repository<Poll>>(getRepositoryToken(Poll));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should open upcoming polls and close expired ones', async () => {
+    jest.spyOn(pollRepository, 'find')
+      .mockResolvedValueOnce([{ id: 'upcoming-poll', status: 'upcoming' }] as Poll[]) // due to open
+      .mockResolvedValueOnce([{ id: 'open-poll', status: 'open' }] as Poll[]); // due to close
+    jest.spyOn(pollRepository, 'update').mockResolvedValue({ affected: 1 } as any);
+
+    await scheduler.checkTransitions();
+
+    expect(pollRepository.update).toHaveBeenCalledWith({ id: 'upcoming-poll', status: 'upcoming' }, { status: 'open' });
+    expect(pollRepository.update).toHaveBeenCalledWith({ id: 'open-poll', status: 'open' }, { status: 'closed' });
+    expect(mockPollsService.broadcastLifecycleEvent).toHaveBeenCalledWith('upcoming-poll', 'poll-opened');
+    expect(mockPollsService.broadcastLifecycleEvent).toHaveBeenCalledWith('open-poll', 'poll-closed');
+  });
+
+  it('should not announce a transition someone else already made', async () => {
+    jest.spyOn(pollRepository, 'find')
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ id: 'open-poll', status: 'open' }] as Poll[]);
+    jest.spyOn(pollRepository, 'update').mockResolvedValue({ affected: 0 } as any);
+
+    await scheduler.checkTransitions();
+
+    expect(mockPollsService.broadcastLifecycleEvent).not.toHaveBeenCalled();
+  });
+
+  it('should keep going when the database check fails', async () => {
+    jest.spyOn(pollRepository, 'find').mockRejectedValue(new Error('database is locked'));
+
+    await expect(scheduler.checkTransitions()).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,105 @@
+import { Injectable, Inject, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, LessThanOrEqual, MoreThan, In } from 'typeorm';
+import { Poll, PollStatus } from '../entities/poll.entity';
+import { PollsService } from '../polls.service';
+import { APP_CONFIG, AppConfig } from '../../config/app-config';
+
+/**
+ * Background job that moves polls along their lifecycle
+ *
+ * Every few seconds it looks for:
+ * - upcoming polls whose opensAt has passed -> marks them open, sends poll-opened
+ * - open polls whose closesAt has passed -> marks them closed, sends poll-closed
+ *
+ * Votes don't depend on this running (castVote checks the times itself),
+ * it's here so the status column stays honest and live listeners hear about it.
+ */
+@Injectable()
+export class PollLifecycleScheduler implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(PollLifecycleScheduler.name);
+
+  private timer: NodeJS.Timeout | null = null;
+  private checking = false; // stops slow checks from piling up on each other
+
+  constructor(
+    @InjectRepository(Poll)
+    private readonly pollRepository: Repository<Poll>,
+    private readonly pollsService: PollsService,
+    @Inject(APP_CONFIG)
+    private readonly config: AppConfig,
+  ) {}
+
+  onModuleInit(): void {
+    this.timer = setInterval(() => this.checkTransitions(), this.config.scheduler.intervalMs);
+    this.timer.unref(); // don't keep the process alive just for this
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Runs one pass over the polls that are due to open or close
+   * Safe to call by hand (handy in tests)
+   */
+  async checkTransitions(now: Date = new Date()): Promise<void> {
+    if (this.checking) {
+      return;
+    }
+
+    this.checking = true;
+    try {
+      await this.openDuePolls(now);
+      await this.closeDuePolls(now);
+    } catch (error) {
+      this.logger.error(`Error checking poll lifecycle: ${error.message}`, error.stack);
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  // --- Private helper methods ---
+
+  private async openDuePolls(now: Date): Promise<void> {
+    const duePolls = await this.pollRepository.find({
+      where: { status: PollStatus.UPCOMING, opensAt: LessThanOrEqual(now), closesAt: MoreThan(now) },
+    });
+
+    for (const poll of duePolls) {
+      // Only announce if we were the ones to flip it
+      const result = await this.pollRepository.update(
+        { id: poll.id, status: PollStatus.UPCOMING },
+        { status: PollStatus.OPEN },
+      );
+      if (!result.affected) {
+        continue;
+      }
+
+      this.logger.log(`Poll ${poll.id} is now open for voting`);
+      await this.pollsService.broadcastLifecycleEvent(poll.id, 'poll-opened');
+    }
+  }
+
+  private async closeDuePolls(now: Date): Promise<void> {
+    const duePolls = await this.pollRepository.find({
+      where: { status: In([PollStatus.UPCOMING, PollStatus.OPEN]), closesAt: LessThanOrEqual(now) },
+    });
+
+    for (const poll of duePolls) {
+      const result = await this.pollRepository.update(
+        { id: poll.id, status: poll.status },
+        { status: PollStatus.CLOSED },
+      );
+      if (!result.affected) {
+        continue;
+      }
+
+      this.logger.log(`Poll ${poll.id} has closed`);
+      await this.pollsService.broadcastLifecycleEvent(poll.id, 'poll-closed');
+    }
+  }
+}
@@ -3,50 +3,65 @@ import {
   Get,
   Param,
   Res,
+  Headers,
   Logger,
+  Inject,
   ParseUUIDPipe,
   NotFoundException,
 } from '@nestjs/common';
 import { Response } from 'express';
+import { AsyncResource } from 'async_hooks';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiParam,
+  ApiHeader,
 } from '@nestjs/swagger';
-import { PollsService } from '../polls.service';
 import { ResultsService } from '../results/results.service';
-import { filter, map } from 'rxjs/operators';
+import { SseEventBuffer, BufferedSseEvent } from './sse-event-buffer';
+import { filter } from 'rxjs/operators';
 import { Repository } from 'typeorm';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Poll } from '../entities/poll.entity';
+import { APP_CONFIG, AppConfig } from '../../config/app-config';
+import { MetricsService } from '../../monitoring/metrics.service';
+import { ErrorCode, coded } from '../../common/errors/error-codes';
 
 @ApiTags('polls')
 @Controller('polls')
 export class ResultsStreamController {
   private readonly logger = new Logger(ResultsStreamController.name);
-  private readonly heartbeatInterval = (parseInt(process.env.SSE_HEARTBEAT_INTERVAL_SECONDS) || 15) * 1000;
 
   constructor(
-    private readonly pollsService: PollsService,
+    private readonly sseEventBuffer: SseEventBuffer,
     private readonly resultsService: ResultsService,
     @InjectRepository(Poll)
     private pollRepository: Repository<Poll>,
+    @Inject(APP_CONFIG)
+    private readonly config: AppConfig,
+    private readonly metrics: MetricsService,
   ) {}
 
 
   // Server-Sent Events endpoint for real-time poll results
   // Streams result updates when new votes arrive, plus periodic heartbeats
+  // Reconnecting clients (Last-Event-ID) get just what they missed
   @Get(':id/stream')
   @ApiOperation({
     summary: 'Stream poll results in real-time',
-    description: 'Server-Sent Events endpoint that pushes poll result updates when new votes are cast',
+    description: 'Server-Sent Events endpoint that pushes poll result updates when new votes are cast, plus poll-opened and poll-closed events (poll-closed carries the final results). Every update has an id; reconnect with Last-Event-ID to get only the events you missed, or a fresh snapshot if they are no longer buffered.',
   })
   @ApiParam({
     name: 'id',
     description: 'Poll UUID',
     example: '123e4567-e89b-12d3-a456-426614174000',
   })
+  @ApiHeader({
+    name: 'Last-Event-ID',
+    required: false,
+    description: 'ID of the last event received - browsers send this by themselves when an EventSource reconnects',
+  })
   @ApiResponse({
     status: 200,
     description: 'SSE stream established',
@@ -71,6 +86,7 @@ export class ResultsStreamController {
   })
   async streamResults(
     @Param('id', ParseUUIDPipe) pollId: string,
+    @Headers('last-event-id') lastEventId: string | undefined,
     @Res() response: Response,
   ): Promise<void> {
     this.logger.log(`SSE connection established for poll ${pollId}`);
@@ -78,7 +94,7 @@ export class ResultsStreamController {
     // Verify poll exists before establishing connection
     const poll = await this.pollRepository.findOne({ where: { id: pollId } });
     if (!poll) {
-      throw new NotFoundException(`Poll with ID ${pollId} not found`);
+      throw new NotFoundException(coded(ErrorCode.POLL_NOT_FOUND, `Poll with ID ${pollId} not found`));
     }
 
     // Set SSE headers
@@ -88,61 +104,98 @@ export class ResultsStreamController {
     response.setHeader('Access-Control-Allow-Origin', '*');
     response.setHeader('Access-Control-Allow-Headers', 'Cache-Control');
 
+    // Tell the browser how long to wait before reconnecting
+    response.write(`retry: ${this.config.sse.retryMs}\n\n`);
+
     // Send initial connection confirmation
     this.sendSSEMessage(response, 'connected', { pollId, timestamp: new Date().toISOString() });
 
-    // Send current results immediately
-    try {
-      const currentResults = await this.resultsService.getPollResults(pollId);
-      this.sendSSEMessage(response, 'results', currentResults);
-    } catch (error) {
-      this.logger.error(`Error sending initial results for poll ${pollId}: ${error.message}`);
-      this.sendSSEMessage(response, 'error', { message: 'Failed to load current results' });
-    }
+    // Start listening before catching up, so nothing slips through the gap.
+    // Events that arrive meanwhile wait in `pending`, and anything the
+    // catch-up already covered is skipped by its seq.
+    let pending: BufferedSseEvent[] | null = [];
+    let lastSentSeq = 0;
 
-    // Subscribe to vote events for this specific poll
-    const subscription = this.pollsService.voteEvents$
-      .pipe(
-        filter(event => event.pollId === pollId),
-        map(event => event.results)
-      )
+    const sendEvent = (event: BufferedSseEvent) => {
+      if (event.seq <= lastSentSeq) {
+        return;
+      }
+      this.sendSSEMessage(response, event.event, event.data, event.id);
+      lastSentSeq = event.seq;
+    };
+
+    const subscription = this.sseEventBuffer.events$
+      .pipe(filter(event => event.pollId === pollId))
       .subscribe({
-        next: (results) => {
-          this.logger.debug(`Sending result update for poll ${pollId}`);
-          this.sendSSEMessage(response, 'results', results);
-        },
-        error: (error) => {
+        // Events arrive in the context of whoever published them (another request, or
+        // the pub/sub backend) - bind the handlers so their logs carry this stream's request ID
+        next: AsyncResource.bind((event: BufferedSseEvent) => {
+          this.logger.debug(`Sending ${event.event} ${event.id} for poll ${pollId}`);
+          if (pending) {
+            pending.push(event);
+          } else {
+            sendEvent(event);
+          }
+        }),
+        error: AsyncResource.bind((error: Error) => {
           this.logger.error(`Error in vote events stream for poll ${pollId}: ${error.message}`);
           this.sendSSEMessage(response, 'error', { message: 'Stream error occurred' });
-        }
+        }),
       });
 
     // Setup periodic heartbeat to keep connection alive
     const heartbeatTimer = setInterval(() => {
       this.sendSSEMessage(response, 'heartbeat', { timestamp: new Date().toISOString() });
-    }, this.heartbeatInterval);
+    }, this.config.sse.heartbeatIntervalMs);
 
-    // Cleanup when client disconnects
-    response.on('close', () => {
+    // Cleanup when client disconnects (set up before the catch-up below,
+    // which can wait on the database while the client walks away)
+    this.metrics.sseConnections.inc({ poll_id: pollId });
+    response.on('close', AsyncResource.bind(() => {
       this.logger.log(`SSE connection closed for poll ${pollId}`);
+      this.metrics.sseConnections.dec({ poll_id: pollId });
       subscription.unsubscribe();
       clearInterval(heartbeatTimer);
       response.end();
-    });
+    }));
 
     // Handle connection errors
-    response.on('error', (error) => {
+    response.on('error', AsyncResource.bind((error: Error) => {
       this.logger.error(`SSE connection error for poll ${pollId}: ${error.message}`);
       subscription.unsubscribe();
       clearInterval(heartbeatTimer);
       response.end();
-    });
+    }));
+
+    // Reconnecting? Replay just what they missed, if we still have all of it
+    const missed = lastEventId ? this.sseEventBuffer.eventsSince(pollId, lastEventId) : null;
+
+    if (missed) {
+      this.logger.log(`Replaying ${missed.length} missed events for poll ${pollId} after ${lastEventId}`);
+      missed.forEach(sendEvent);
+    } else {
+      // First connection, or too far behind - send the current results.
+      // Tagged with the ID from before the lookup, so anything that lands
+      // while we're loading still gets sent afterwards.
+      const snapshot = this.sseEventBuffer.current();
+      try {
+        const currentResults = await this.resultsService.getPollResults(pollId);
+        this.sendSSEMessage(response, 'results', currentResults, snapshot.id);
+        lastSentSeq = snapshot.seq;
+      } catch (error) {
+        this.logger.error(`Error sending initial results for poll ${pollId}: ${error.message}`);
+        this.sendSSEMessage(response, 'error', { message: 'Failed to load current results' });
+      }
+    }
+
+    pending.forEach(sendEvent);
+    pending = null;
   }
 
-  // Send a Server-Sent Event message
-  private sendSSEMessage(response: Response, event: string, data: any): void {
+  // Send a Server-Sent Event message (with an id if it's one clients can resume from)
+  private sendSSEMessage(response: Response, event: string, data: any, id?: string): void {
     try {
-      const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+      const message = `${id ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
       response.write(message);
     } catch (error) {
       this.logger.error(`Failed to send SSE message: ${error.message}`);
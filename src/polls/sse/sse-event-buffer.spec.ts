@@ -0,0 +1,87 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Subject } from 'rxjs';
+import { SseEventBuffer } from './sse-event-buffer';
+import { PollsService, VoteEvent, PollLifecycleEvent } from '../polls.service';
+import { APP_CONFIG, loadAppConfig } from '../../config/app-config';
+
+describe('SseEventBuffer', () => {
+  let buffer: SseEventBuffer;
+
+  const mockPollsService = {
+    voteEvents$: new Subject<VoteEvent>(),
+    lifecycleEvents$: new Subject<PollLifecycleEvent>(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SseEventBuffer,
+        { provide: PollsService, useValue: mockPollsService },
+        // Tiny buffers so the tests can overflow them
+        {
+          provide: APP_CONFIG,
+          useValue: loadAppConfig({ SSE_REPLAY_BUFFER_SIZE: '3', SSE_REPLAY_MAX_POLLS: '2' }),
+        },
+      ],
+    }).compile();
+
+    buffer = module.get<SseEventBuffer>(SseEventBuffer);
+    buffer.onModuleInit();
+  });
+
+  afterEach(() => {
+    buffer.onModuleDestroy();
+  });
+
+  it('should number vote and lifecycle events in order', () => {
+    const seen: string[] = [];
+    buffer.events$.subscribe(event => seen.push(`${event.seq}:${event.event}`));
+
+    mockPollsService.voteEvents$.next({ pollId: 'poll-1', results: {} });
+    mockPollsService.lifecycleEvents$.next({ pollId: 'poll-1', type: 'poll-closed', occurredAt: '' });
+
+    expect(seen).toEqual(['1:results', '2:poll-closed']);
+  });
+
+  it('should replay only what came after the last event ID', () => {
+    const first = buffer.record('poll-1', 'results', { total: 1 });
+    buffer.record('poll-2', 'results', { total: 9 });
+    buffer.record('poll-1', 'results', { total: 2 });
+
+    const missed = buffer.eventsSince('poll-1', first.id);
+
+    expect(missed.map(event => event.data)).toEqual([{ total: 2 }]);
+  });
+
+  it('should return an empty replay when nothing was missed', () => {
+    const last = buffer.record('poll-1', 'results', {});
+
+    expect(buffer.eventsSince('poll-1', last.id)).toEqual([]);
+  });
+
+  it('should ask for a snapshot once missed events have been dropped', () => {
+    const first = buffer.record('poll-1', 'results', {});
+    for (let i = 0; i < 4; i++) { // one more than fits, so the event after `first` is gone
+      buffer.record('poll-1', 'results', {});
+    }
+
+    expect(buffer.eventsSince('poll-1', first.id)).toBeNull();
+  });
+
+  it('should ask for a snapshot when the poll buffer was evicted', () => {
+    const first = buffer.record('poll-1', 'results', {});
+    buffer.record('poll-1', 'results', {}); // the one they missed
+    buffer.record('poll-2', 'results', {});
+    buffer.record('poll-3', 'results', {}); // pushes poll-1 out
+
+    expect(buffer.eventsSince('poll-1', first.id)).toBeNull();
+  });
+
+  it('should ask for a snapshot for IDs from another process or garbage', () => {
+    buffer.record('poll-1', 'results', {});
+
+    expect(buffer.eventsSince('poll-1', 'someotherboot-1')).toBeNull();
+    expect(buffer.eventsSince('poll-1', 'not an id')).toBeNull();
+    expect(buffer.eventsSince('poll-1', `${buffer.current().id.split('-')[0]}-999`)).toBeNull();
+  });
+});
@@ -0,0 +1,144 @@
+import { Injectable, Inject, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { Subject, Subscription } from 'rxjs';
+import { PollsService } from '../polls.service';
+import { APP_CONFIG, AppConfig } from '../../config/app-config';
+
+// One event on a poll's SSE stream, with the ID clients resume from
+export interface BufferedSseEvent {
+  pollId: string;
+  id: string; // what goes in the `id:` field (and comes back as Last-Event-ID)
+  seq: number; // the increasing part of the ID
+  event: string; // results, poll-opened or poll-closed
+  data: any;
+}
+
+interface PollEventBuffer {
+  events: BufferedSseEvent[];
+  droppedThrough: number; // seq of the newest event already pushed out of the buffer
+}
+
+/**
+ * Numbers the events going out on SSE streams and remembers the last few
+ *
+ * Every vote/lifecycle event gets the next number from one counter shared
+ * by all polls, so IDs only ever go up. The ID is `<epoch>-<seq>`, where the
+ * epoch is when this process started: an ID from before a restart can't be
+ * mistaken for one of ours, so that client simply gets a fresh snapshot.
+ *
+ * Each poll keeps its last SSE_REPLAY_BUFFER_SIZE events, and only the most
+ * recently active SSE_REPLAY_MAX_POLLS polls keep a buffer at all, so memory
+ * stays bounded however many polls there are.
+ */
+@Injectable()
+export class SseEventBuffer implements OnModuleInit, OnModuleDestroy {
+  private readonly epoch = Date.now().toString(36);
+
+  private seq = 0;
+  private readonly buffers = new Map<string, PollEventBuffer>(); // oldest activity first
+  private evictedThrough = 0; // newest seq of any poll buffer we threw away entirely
+
+  // Numbered events, for the stream controller to pass on
+  public readonly events$ = new Subject<BufferedSseEvent>();
+
+  private subscription: Subscription | null = null;
+
+  constructor(
+    private readonly pollsService: PollsService,
+    @Inject(APP_CONFIG) private readonly config: AppConfig,
+  ) {}
+
+  onModuleInit(): void {
+    this.subscription = this.pollsService.voteEvents$.subscribe(event => {
+      this.record(event.pollId, 'results', event.results);
+    });
+
+    this.subscription.add(
+      this.pollsService.lifecycleEvents$.subscribe(event => {
+        this.record(event.pollId, event.type, event);
+      })
+    );
+  }
+
+  onModuleDestroy(): void {
+    this.subscription?.unsubscribe();
+    this.subscription = null;
+  }
+
+  /**
+   * Numbers an event, keeps it for replay and passes it on
+   */
+  record(pollId: string, event: string, data: any): BufferedSseEvent {
+    this.seq += 1;
+    const buffered: BufferedSseEvent = { pollId, id: this.formatId(this.seq), seq: this.seq, event, data };
+
+    // A new buffer can't vouch for anything before the last eviction -
+    // this poll's older events may have been in the buffer that got thrown away
+    const buffer = this.buffers.get(pollId) ?? { events: [], droppedThrough: this.evictedThrough };
+    buffer.events.push(buffered);
+    if (buffer.events.length > this.config.sse.replayBufferSize) {
+      buffer.droppedThrough = buffer.events.shift().seq;
+    }
+
+    // Re-insert so the Map stays ordered by last activity, then trim the quietest polls
+    this.buffers.delete(pollId);
+    this.buffers.set(pollId, buffer);
+    if (this.buffers.size > this.config.sse.replayMaxPolls) {
+      const [oldestPollId, oldest] = this.buffers.entries().next().value;
+      this.evictedThrough = Math.max(this.evictedThrough, oldest.events[oldest.events.length - 1].seq);
+      this.buffers.delete(oldestPollId);
+    }
+
+    this.events$.next(buffered);
+    return buffered;
+  }
+
+  /**
+   * ID and seq for "everything up to now" - what a fresh snapshot is tagged with
+   */
+  current(): { id: string; seq: number } {
+    return { id: this.formatId(this.seq), seq: this.seq };
+  }
+
+  /**
+   * Events for this poll that came after lastEventId, oldest first
+   *
+   * Returns null when we can't say for sure what the client missed: the ID
+   * is malformed, from another process, or older than what we still have.
+   * The caller should send a full snapshot instead.
+   */
+  eventsSince(pollId: string, lastEventId: string): BufferedSseEvent[] | null {
+    const lastSeq = this.parseSeq(lastEventId);
+    if (lastSeq === null || lastSeq > this.seq) {
+      return null;
+    }
+
+    const buffer = this.buffers.get(pollId);
+    if (!buffer) {
+      // Either nothing happened since, or the whole buffer was evicted
+      return lastSeq >= this.evictedThrough ? [] : null;
+    }
+
+    if (lastSeq < buffer.droppedThrough) {
+      return null; // some of what they missed has already been dropped
+    }
+
+    return buffer.events.filter(event => event.seq > lastSeq);
+  }
+
+  // --- Private helpers ---
+
+  private formatId(seq: number): string {
+    return `${this.epoch}-${seq}`;
+  }
+
+  private parseSeq(eventId: string): number | null {
+    const [epoch, seq] = eventId.trim().split('-');
+
+    if (epoch !== this.epoch || !/^\d+$/.test(seq ?? '')) {
+      return null;
+    }
+
+    const parsed = Number(seq);
+    return Number.isSafeInteger(parsed) ? parsed : null;
+  }
+}
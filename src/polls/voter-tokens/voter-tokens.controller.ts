@@ -0,0 +1,96 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Param,
+  Body,
+  Logger,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBody,
+} from '@nestjs/swagger';
+import { VoterTokensService } from './voter-tokens.service';
+import { IssueVoterTokensDto } from '../dtos/issue-voter-tokens.dto';
+import { IssuedVoterTokensResponseDto, TurnoutReportDto } from '../dtos/voter-token-response.dto';
+import { RequirePollOwner } from '../auth/poll-owner.decorators';
+
+@ApiTags('polls')
+@Controller('polls')
+export class VoterTokensController {
+  private readonly logger = new Logger(VoterTokensController.name);
+
+  constructor(private readonly voterTokensService: VoterTokensService) {}
+
+  // Hand out voter tokens for an invite-only poll
+  @Post(':id/voter-tokens')
+  @RequirePollOwner()
+  @ApiOperation({
+    summary: 'Issue voter tokens',
+    description: 'Generates single-use voter tokens for an invite-only poll - either a number of anonymous tokens or one per voter ID on an allowlist. Tokens are only shown in this response.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Poll UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiBody({ type: IssueVoterTokensDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Tokens issued',
+    type: IssuedVoterTokensResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - send either count or voterIds',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Poll not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Poll is not invite-only, or a voter on the allowlist already has a token',
+  })
+  @ApiResponse({
+    status: 422,
+    description: 'Poll has closed',
+  })
+  async issueTokens(
+    @Param('id', ParseUUIDPipe) pollId: string,
+    @Body() issueDto: IssueVoterTokensDto,
+  ): Promise<IssuedVoterTokensResponseDto> {
+    this.logger.log(`POST /polls/${pollId}/voter-tokens - Issuing voter tokens`);
+    return this.voterTokensService.issueTokens(pollId, issueDto);
+  }
+
+  // See who has voted so far
+  @Get(':id/turnout')
+  @RequirePollOwner()
+  @ApiOperation({
+    summary: 'Get turnout',
+    description: 'Shows how many issued voter tokens have been used, with a per-token breakdown',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Poll UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Turnout report',
+    type: TurnoutReportDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Poll not found',
+  })
+  async getTurnout(@Param('id', ParseUUIDPipe) pollId: string): Promise<TurnoutReportDto> {
+    this.logger.log(`GET /polls/${pollId}/turnout - Fetching turnout`);
+    return this.voterTokensService.getTurnout(pollId);
+  }
+}
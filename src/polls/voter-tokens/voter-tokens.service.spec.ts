@@ -0,0 +1,207 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Repository, EntityManager } from 'typeorm';
+import { BadRequestException, ConflictException, ForbiddenException, NotFoundException, UnprocessableEntityException } from '@nestjs/common';
+import { VoterTokensService } from './voter-tokens.service';
+import { Poll, PollStatus } from '../entities/poll.entity';
+import { VoterToken } from '../entities/voter-token.entity';
+import { hashSecretToken } from '../auth/secret-token';
+
+describe('VoterTokensService', () => {
+  let service: VoterTokensService;
+  let pollRepository: Repository<Poll>;
+  let voterTokenRepository: Repository<VoterToken>;
+
+  const pollId = '123e4567-e89b-12d3-a456-426614174000';
+  const invitePoll = {
+    id: pollId,
+    inviteOnly: true,
+    status: PollStatus.OPEN,
+    opensAt: null,
+    closesAt: new Date(Date.now() + 86400000), // closes tomorrow
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VoterTokensService,
+        {
+          provide: getRepositoryToken(Poll),
+          useValue: {
+            findOne: jest.fn(),
+          },
+        },
+        {
+          provide: getRepositoryToken(VoterToken),
+          useValue: {
+            find: jest.fn().mockResolvedValue([]),
+            create: jest.fn(data => data),
+            // Pretend the database handed out IDs
+            save: jest.fn(async (records: any[]) => records.map((record, index) => ({ ...record, id: `token-${index}` }))),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<VoterTokensService>(VoterTokensService);
+    pollRepository = module.get<Repository<Poll>>(getRepositoryToken(Poll));
+    voterTokenRepository = module.get<Repository<VoterToken>>(getRepositoryToken(VoterToken));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('issueTokens', () => {
+    it('should issue anonymous tokens and only store their hashes', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(invitePoll as Poll);
+
+      const result = await service.issueTokens(pollId, { count: 3 });
+
+      expect(result.tokens).toHaveLength(3);
+      expect(new Set(result.tokens.map(token => token.token)).size).toBe(3);
+
+      const saved = (voterTokenRepository.save as jest.Mock).mock.calls[0][0];
+      expect(saved[0].tokenHash).toBe(hashSecretToken(result.tokens[0].token));
+      expect(saved[0].voterId).toBeNull();
+    });
+
+    it('should issue one token per voter on an allowlist', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(invitePoll as Poll);
+
+      const result = await service.issueTokens(pollId, { voterIds: ['alice@example.com', 'bob@example.com'] });
+
+      expect(result.tokens.map(token => token.voterId)).toEqual(['alice@example.com', 'bob@example.com']);
+    });
+
+    it('should refuse a second token for the same voter', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(invitePoll as Poll);
+      jest.spyOn(voterTokenRepository, 'find').mockResolvedValue([{ voterId: 'alice@example.com' } as VoterToken]);
+
+      await expect(
+        service.issueTokens(pollId, { voterIds: ['alice@example.com'] })
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should refuse a token issued by a concurrent upload after the check', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(invitePoll as Poll);
+      jest.spyOn(voterTokenRepository, 'find').mockResolvedValue([]);
+      const duplicateError = new Error('UNIQUE constraint failed: voter_tokens.pollId, voter_tokens.voterId');
+      duplicateError['code'] = 'SQLITE_CONSTRAINT_UNIQUE';
+      jest.spyOn(voterTokenRepository, 'save').mockRejectedValueOnce(duplicateError);
+
+      await expect(
+        service.issueTokens(pollId, { voterIds: ['alice@example.com'] })
+      ).rejects.toMatchObject({ response: expect.objectContaining({ code: 'VOTER_TOKENS_ALREADY_ISSUED' }) });
+    });
+
+    it('should reject count and voterIds together', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(invitePoll as Poll);
+
+      await expect(
+        service.issueTokens(pollId, { count: 2, voterIds: ['alice@example.com'] })
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should only issue tokens for invite-only polls', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue({ ...invitePoll, inviteOnly: false } as Poll);
+
+      await expect(service.issueTokens(pollId, { count: 1 })).rejects.toThrow(ConflictException);
+    });
+
+    it('should refuse to issue tokens once the poll has closed', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue({ ...invitePoll, status: PollStatus.CLOSED } as Poll);
+
+      await expect(service.issueTokens(pollId, { count: 1 })).rejects.toThrow(UnprocessableEntityException);
+    });
+
+    it('should throw NotFoundException when the poll does not exist', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(null);
+
+      await expect(service.issueTokens(pollId, { count: 1 })).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('getTurnout', () => {
+    it('should count used and unused tokens', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(invitePoll as Poll);
+      jest.spyOn(voterTokenRepository, 'find').mockResolvedValue([
+        { id: 't1', voterId: 'alice@example.com', usedAt: new Date(), createdAt: new Date() },
+        { id: 't2', voterId: 'bob@example.com', usedAt: null, createdAt: new Date() },
+        { id: 't3', voterId: null, usedAt: null, createdAt: new Date() },
+      ] as VoterToken[]);
+
+      const result = await service.getTurnout(pollId);
+
+      expect(result.totalTokens).toBe(3);
+      expect(result.usedTokens).toBe(1);
+      expect(result.unusedTokens).toBe(2);
+      expect(result.turnoutPercentage).toBe(33.33);
+      expect(result.tokens.map(token => token.used)).toEqual([true, false, false]);
+    });
+  });
+
+  describe('redeemToken', () => {
+    it('should mark an unused token as spent on the ballot', async () => {
+      const manager = { update: jest.fn().mockResolvedValue({ affected: 1 }) } as unknown as EntityManager;
+
+      await service.redeemToken(manager, pollId, 'secret', 'vote-1');
+
+      expect(manager.update).toHaveBeenCalledWith(
+        VoterToken,
+        expect.objectContaining({ pollId, tokenHash: hashSecretToken('secret') }),
+        expect.objectContaining({ voteId: 'vote-1' }),
+      );
+    });
+
+    it('should reject a token that was already used', async () => {
+      const manager = {
+        update: jest.fn().mockResolvedValue({ affected: 0 }),
+        findOne: jest.fn().mockResolvedValue({ id: 't1', usedAt: new Date() }),
+      } as unknown as EntityManager;
+
+      await expect(service.redeemToken(manager, pollId, 'secret', 'vote-1')).rejects.toThrow(ConflictException);
+    });
+
+    it('should reject a token that was never issued for this poll', async () => {
+      const manager = {
+        update: jest.fn().mockResolvedValue({ affected: 0 }),
+        findOne: jest.fn().mockResolvedValue(null),
+      } as unknown as EntityManager;
+
+      await expect(service.redeemToken(manager, pollId, 'made-up', 'vote-1')).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('assertRedeemable', () => {
+    it('should pass an unused token without spending it', async () => {
+      const manager = {
+        update: jest.fn(),
+        findOne: jest.fn().mockResolvedValue({ id: 't1', usedAt: null }),
+      } as unknown as EntityManager;
+
+      await service.assertRedeemable(manager, pollId, 'secret');
+
+      expect(manager.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject used and unknown tokens like redeemToken does', async () => {
+      const used = { findOne: jest.fn().mockResolvedValue({ id: 't1', usedAt: new Date() }) } as unknown as EntityManager;
+      const unknown = { findOne: jest.fn().mockResolvedValue(null) } as unknown as EntityManager;
+
+      await expect(service.assertRedeemable(used, pollId, 'secret')).rejects.toThrow(ConflictException);
+      await expect(service.assertRedeemable(unknown, pollId, 'made-up')).rejects.toThrow(ForbiddenException);
+      await expect(service.assertRedeemable(unknown, pollId, undefined)).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('verifyTokenOwnsVote', () => {
+    it('should reject a token that belongs to a different ballot', async () => {
+      const manager = {
+        findOne: jest.fn().mockResolvedValue({ id: 't1', voteId: 'vote-2' }),
+      } as unknown as EntityManager;
+
+      await expect(service.verifyTokenOwnsVote(manager, pollId, 'secret', 'vote-1')).rejects.toThrow(ForbiddenException);
+    });
+  });
+});
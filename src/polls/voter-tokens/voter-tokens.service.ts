@@ -0,0 +1,238 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, EntityManager, In, IsNull } from 'typeorm';
+import { Poll, PollStatus } from '../entities/poll.entity';
+import { VoterToken } from '../entities/voter-token.entity';
+import { IssueVoterTokensDto } from '../dtos/issue-voter-tokens.dto';
+import { IssuedVoterTokensResponseDto, TurnoutReportDto } from '../dtos/voter-token-response.dto';
+import { getEffectivePollStatus } from '../poll-status';
+import { generateSecretToken, hashSecretToken } from '../auth/secret-token';
+import { ErrorCode, coded } from '../../common/errors/error-codes';
+import { isUniqueViolation } from '../../database/database-errors';
+
+/**
+ * Voter tokens for invite-only polls
+ *
+ * The creator asks for a batch of tokens (anonymous, or one per voter on an
+ * allowlist) and hands them out however they like. Each token is good for
+ * exactly one ballot. Like management tokens we only keep the hash, so the
+ * plaintext is shown once, when the batch is issued.
+ *
+ * Redeeming happens inside the vote transaction (see PollsService), which
+ * is why those helpers take an EntityManager instead of using the repository.
+ */
+@Injectable()
+export class VoterTokensService {
+  private readonly logger = new Logger(VoterTokensService.name);
+
+  constructor(
+    @InjectRepository(Poll)
+    private readonly pollRepository: Repository<Poll>,
+
+    @InjectRepository(VoterToken)
+    private readonly voterTokenRepository: Repository<VoterToken>,
+  ) {}
+
+  /**
+   * Generates a batch of voter tokens for an invite-only poll
+   * Works any time before the poll closes, so late invitees can still be added
+   */
+  async issueTokens(pollId: string, issueDto: IssueVoterTokensDto): Promise<IssuedVoterTokensResponseDto> {
+    const poll = await this.findPoll(pollId);
+
+    if (!poll.inviteOnly) {
+      throw new ConflictException(coded(ErrorCode.POLL_NOT_INVITE_ONLY, 'Voter tokens can only be issued for invite-only polls'));
+    }
+    if (getEffectivePollStatus(poll) === PollStatus.CLOSED) {
+      throw new UnprocessableEntityException(coded(ErrorCode.POLL_CLOSED, 'Poll has closed'));
+    }
+
+    const voterIds = this.resolveVoterIds(issueDto);
+
+    // Allowlisted voters get one token each, ever - no quietly handing out a second ballot
+    const named = voterIds.filter((voterId): voterId is string => voterId !== null);
+    if (named.length > 0) {
+      const existing = await this.voterTokenRepository.find({
+        where: { pollId, voterId: In(named) },
+      });
+      if (existing.length > 0) {
+        throw new ConflictException(coded(
+          ErrorCode.VOTER_TOKENS_ALREADY_ISSUED,
+          `These voters already have tokens: ${existing.map(token => token.voterId).join(', ')}`,
+        ));
+      }
+    }
+
+    const plaintexts = voterIds.map(() => generateSecretToken());
+    const records = voterIds.map((voterId, index) =>
+      this.voterTokenRepository.create({
+        pollId,
+        voterId,
+        tokenHash: hashSecretToken(plaintexts[index]),
+        usedAt: null,
+        voteId: null,
+      })
+    );
+
+    // Chunked so a big batch doesn't hit SQLite's bound-parameter limit (still one transaction)
+    let saved: VoterToken[];
+    try {
+      saved = await this.voterTokenRepository.save(records, { chunk: 500 });
+    } catch (error) {
+      // Another upload for the same voters got in between the check above and here
+      if (isUniqueViolation(error)) {
+        throw new ConflictException(coded(ErrorCode.VOTER_TOKENS_ALREADY_ISSUED, 'Some of these voters were just issued tokens - nothing was issued'));
+      }
+      throw error;
+    }
+
+    this.logger.log(`Issued ${saved.length} voter tokens for poll ${pollId}`);
+
+    return {
+      pollId,
+      tokens: saved.map((record, index) => ({
+        id: record.id,
+        voterId: record.voterId,
+        token: plaintexts[index],
+      })),
+    };
+  }
+
+  /**
+   * How many of the issued tokens have been used, and which ones
+   */
+  async getTurnout(pollId: string): Promise<TurnoutReportDto> {
+    await this.findPoll(pollId);
+
+    const tokens = await this.voterTokenRepository.find({
+      where: { pollId },
+      order: { createdAt: 'ASC' },
+    });
+
+    const usedTokens = tokens.filter(token => token.usedAt !== null).length;
+    const turnout = tokens.length > 0 ? (usedTokens / tokens.length) * 100 : 0;
+
+    return {
+      pollId,
+      totalTokens: tokens.length,
+      usedTokens,
+      unusedTokens: tokens.length - usedTokens,
+      turnoutPercentage: Math.round(turnout * 100) / 100, // Round to 2 decimals
+      tokens: tokens.map(token => ({
+        id: token.id,
+        voterId: token.voterId,
+        used: token.usedAt !== null,
+        usedAt: token.usedAt ? new Date(token.usedAt).toISOString() : null,
+        issuedAt: new Date(token.createdAt).toISOString(),
+      })),
+    };
+  }
+
+  /**
+   * Spends a token on a freshly saved ballot
+   *
+   * The update only matches while usedAt is still empty, so two requests
+   * racing with the same token can't both win - the loser gets a 409.
+   */
+  async redeemToken(manager: EntityManager, pollId: string, token: string | undefined, voteId: string): Promise<void> {
+    const tokenHash = this.requireTokenHash(token);
+
+    const result = await manager.update(
+      VoterToken,
+      { pollId, tokenHash, usedAt: IsNull() },
+      { usedAt: new Date(), voteId },
+    );
+
+    if (!result.affected) {
+      const existing = await manager.findOne(VoterToken, { where: { pollId, tokenHash } });
+      if (!existing) {
+        throw new ForbiddenException(coded(ErrorCode.VOTER_TOKEN_INVALID, 'Invalid voter token for this poll'));
+      }
+      throw new ConflictException(coded(ErrorCode.VOTER_TOKEN_USED, 'This voter token has already been used'));
+    }
+  }
+
+  /**
+   * Same checks as redeemToken, without spending the token
+   *
+   * The ballot import uses it to skip a row with a bad token - a failed
+   * redeemToken would take the whole import's transaction down with it.
+   */
+  async assertRedeemable(manager: EntityManager, pollId: string, token: string | undefined): Promise<void> {
+    const tokenHash = this.requireTokenHash(token);
+    const existing = await manager.findOne(VoterToken, { where: { pollId, tokenHash } });
+
+    if (!existing) {
+      throw new ForbiddenException(coded(ErrorCode.VOTER_TOKEN_INVALID, 'Invalid voter token for this poll'));
+    }
+    if (existing.usedAt !== null) {
+      throw new ConflictException(coded(ErrorCode.VOTER_TOKEN_USED, 'This voter token has already been used'));
+    }
+  }
+
+  /**
+   * Changing or withdrawing a ballot on an invite-only poll needs the token
+   * that cast it - the userUuid alone proves nothing
+   */
+  async verifyTokenOwnsVote(manager: EntityManager, pollId: string, token: string | undefined, voteId: string): Promise<void> {
+    const tokenHash = this.requireTokenHash(token);
+
+    const existing = await manager.findOne(VoterToken, { where: { pollId, tokenHash } });
+    if (!existing || existing.voteId !== voteId) {
+      throw new ForbiddenException(coded(ErrorCode.VOTER_TOKEN_INVALID, 'Invalid voter token for this ballot'));
+    }
+  }
+
+  /**
+   * Hands a token back after its ballot is withdrawn, so it can vote again
+   */
+  async releaseToken(manager: EntityManager, voteId: string): Promise<void> {
+    await manager.update(VoterToken, { voteId }, { usedAt: null, voteId: null });
+  }
+
+  // --- Private helpers ---
+
+  private async findPoll(pollId: string): Promise<Poll> {
+    const poll = await this.pollRepository.findOne({ where: { id: pollId } });
+    if (!poll) {
+      throw new NotFoundException(coded(ErrorCode.POLL_NOT_FOUND, `Poll with ID ${pollId} not found`));
+    }
+
+    return poll;
+  }
+
+  /**
+   * One entry per token to create: null for anonymous ones, the voter ID otherwise
+   */
+  private resolveVoterIds(issueDto: IssueVoterTokensDto): (string | null)[] {
+    const { count, voterIds } = issueDto;
+
+    if (count !== undefined && voterIds !== undefined) {
+      throw new BadRequestException(coded(ErrorCode.VALIDATION_FAILED, 'Send either count or voterIds, not both'));
+    }
+    if (voterIds !== undefined) {
+      return voterIds;
+    }
+    if (!count) {
+      throw new BadRequestException(coded(ErrorCode.VALIDATION_FAILED, 'Send count or voterIds'));
+    }
+
+    return Array.from({ length: count }, () => null);
+  }
+
+  private requireTokenHash(token: string | undefined): string {
+    if (!token) {
+      throw new ForbiddenException(coded(ErrorCode.VOTER_TOKEN_REQUIRED, 'This poll is invite-only - a voter token is required'));
+    }
+
+    return hashSecretToken(token);
+  }
+}
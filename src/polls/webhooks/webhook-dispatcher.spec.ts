@@ -0,0 +1,126 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { promises as dns } from 'dns';
+import { WebhookDispatcher } from './webhook-dispatcher';
+import { signWebhookPayload } from './webhook-signature';
+import { Webhook, WebhookEvent } from '../entities/webhook.entity';
+import { WebhookDelivery, WebhookDeliveryStatus } from '../entities/webhook-delivery.entity';
+import { APP_CONFIG, loadAppConfig } from '../../config/app-config';
+
+describe('WebhookDispatcher', () => {
+  let dispatcher: WebhookDispatcher;
+  let deliveryRepository: Repository<WebhookDelivery>;
+  let fetchMock: jest.SpyInstance;
+
+  const delivery = {
+    id: 'delivery-1',
+    webhookId: 'webhook-1',
+    event: WebhookEvent.VOTE_CAST,
+    payload: '{"event":"vote-cast"}',
+    status: WebhookDeliveryStatus.PENDING,
+    attempts: 0,
+  } as WebhookDelivery;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookDispatcher,
+        {
+          provide: getRepositoryToken(Webhook),
+          useValue: {
+            findOne: jest.fn().mockResolvedValue({ id: 'webhook-1', url: 'https://example.com/hook', secret: 'shh' }),
+          },
+        },
+        {
+          provide: getRepositoryToken(WebhookDelivery),
+          useValue: {
+            find: jest.fn().mockResolvedValue([delivery]),
+            update: jest.fn().mockResolvedValue({ affected: 1 }),
+          },
+        },
+        {
+          provide: APP_CONFIG,
+          useValue: loadAppConfig({}),
+        },
+      ],
+    }).compile();
+
+    dispatcher = module.get<WebhookDispatcher>(WebhookDispatcher);
+    deliveryRepository = module.get<Repository<WebhookDelivery>>(getRepositoryToken(WebhookDelivery));
+    fetchMock = jest.spyOn(global, 'fetch');
+    jest.spyOn(dns, 'lookup').mockResolvedValue([{ address: '93.184.216.34', family: 4 }] as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should send a signed request and mark the delivery delivered', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+
+    await dispatcher.dispatchDue();
+
+    const [url, request] = fetchMock.mock.calls[0];
+    const timestamp = Number(request.headers['X-OneVote-Timestamp']);
+    expect(url).toBe('https://example.com/hook');
+    expect(request.body).toBe(delivery.payload);
+    expect(request.headers['X-OneVote-Signature']).toBe(signWebhookPayload('shh', timestamp, delivery.payload));
+    expect(deliveryRepository.update).toHaveBeenLastCalledWith('delivery-1', expect.objectContaining({
+      status: WebhookDeliveryStatus.DELIVERED,
+      lastStatusCode: 204,
+    }));
+  });
+
+  it('should schedule a retry when the receiver fails', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 503 }));
+
+    await dispatcher.dispatchDue();
+
+    expect(deliveryRepository.update).toHaveBeenLastCalledWith('delivery-1', expect.objectContaining({
+      status: WebhookDeliveryStatus.PENDING,
+      lastStatusCode: 503,
+      lastError: 'Receiver responded with HTTP 503',
+    }));
+  });
+
+  it('should give up after the last attempt', async () => {
+    jest.spyOn(deliveryRepository, 'find').mockResolvedValue([{ ...delivery, attempts: 7 }] as WebhookDelivery[]);
+    fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+
+    await dispatcher.dispatchDue();
+
+    expect(deliveryRepository.update).toHaveBeenLastCalledWith('delivery-1', expect.objectContaining({
+      status: WebhookDeliveryStatus.FAILED,
+      lastStatusCode: null,
+    }));
+  });
+
+  it('should not call a host that resolves to a private address', async () => {
+    jest.spyOn(dns, 'lookup').mockResolvedValue([{ address: '169.254.169.254', family: 4 }] as any);
+
+    await dispatcher.dispatchDue();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(deliveryRepository.update).toHaveBeenLastCalledWith('delivery-1', expect.objectContaining({
+      status: WebhookDeliveryStatus.PENDING,
+      lastStatusCode: null,
+      lastError: 'Not sent: example.com resolves to a local or private address',
+    }));
+  });
+
+  it('should not send a delivery someone else already claimed', async () => {
+    jest.spyOn(deliveryRepository, 'update').mockResolvedValue({ affected: 0 } as any);
+
+    await dispatcher.dispatchDue();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should back off exponentially up to an hour', () => {
+    expect(dispatcher.retryDelay(1)).toBe(10000);
+    expect(dispatcher.retryDelay(2)).toBe(20000);
+    expect(dispatcher.retryDelay(3)).toBe(40000);
+    expect(dispatcher.retryDelay(20)).toBe(3600000);
+  });
+});
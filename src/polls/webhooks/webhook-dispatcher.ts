@@ -0,0 +1,190 @@
+import { Injectable, Inject, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, LessThanOrEqual } from 'typeorm';
+import { Webhook } from '../entities/webhook.entity';
+import { WebhookDelivery, WebhookDeliveryStatus } from '../entities/webhook-delivery.entity';
+import {
+  signWebhookPayload,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+} from './webhook-signature';
+import { findPrivateTarget } from './webhook-target';
+import { APP_CONFIG, AppConfig } from '../../config/app-config';
+
+/**
+ * Background job that sends queued webhook deliveries
+ *
+ * Every few seconds it picks up pending deliveries that are due and POSTs
+ * them. A 2xx means delivered; anything else (error status, timeout,
+ * connection refused) schedules a retry with exponential backoff:
+ * 10s, 20s, 40s, ... capped at an hour, until WEBHOOK_MAX_ATTEMPTS is used up
+ * and the delivery is marked failed.
+ *
+ * The queue is the webhook_deliveries table, so nothing is lost on restart.
+ * Each delivery is claimed with a conditional update before it's sent, so
+ * two passes (or two instances) never send the same attempt twice.
+ */
+@Injectable()
+export class WebhookDispatcher implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WebhookDispatcher.name);
+  private readonly batchSize = 20; // deliveries sent side by side per pass
+  private readonly baseRetryDelay = 10 * 1000;
+  private readonly maxRetryDelay = 60 * 60 * 1000;
+
+  private timer: NodeJS.Timeout | null = null;
+  private dispatching = false; // stops slow passes from piling up on each other
+
+  constructor(
+    @InjectRepository(Webhook)
+    private readonly webhookRepository: Repository<Webhook>,
+
+    @InjectRepository(WebhookDelivery)
+    private readonly deliveryRepository: Repository<WebhookDelivery>,
+
+    @Inject(APP_CONFIG)
+    private readonly config: AppConfig,
+  ) {}
+
+  onModuleInit(): void {
+    this.timer = setInterval(() => this.dispatchDue(), this.config.webhooks.dispatchIntervalMs);
+    this.timer.unref(); // don't keep the process alive just for this
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Sends one batch of due deliveries
+   * Safe to call by hand (handy in tests)
+   */
+  async dispatchDue(now: Date = new Date()): Promise<void> {
+    if (this.dispatching) {
+      return;
+    }
+
+    this.dispatching = true;
+    try {
+      const due = await this.deliveryRepository.find({
+        where: { status: WebhookDeliveryStatus.PENDING, nextAttemptAt: LessThanOrEqual(now) },
+        order: { nextAttemptAt: 'ASC' },
+        take: this.batchSize,
+      });
+
+      await Promise.all(due.map(delivery => this.attempt(delivery, now)));
+    } catch (error) {
+      this.logger.error(`Error dispatching webhooks: ${error.message}`, error.stack);
+    } finally {
+      this.dispatching = false;
+    }
+  }
+
+  /**
+   * How long to wait before the next try, after `attempts` failed ones
+   */
+  retryDelay(attempts: number): number {
+    return Math.min(this.baseRetryDelay * 2 ** (attempts - 1), this.maxRetryDelay);
+  }
+
+  // --- Private helper methods ---
+
+  private async attempt(delivery: WebhookDelivery, now: Date): Promise<void> {
+    const attempts = delivery.attempts + 1;
+
+    // Claim it: bump attempts and push nextAttemptAt out past the request
+    // timeout. If we crash mid-send, the delivery comes back after that.
+    const claimed = await this.deliveryRepository.update(
+      { id: delivery.id, status: WebhookDeliveryStatus.PENDING, attempts: delivery.attempts },
+      { attempts, nextAttemptAt: new Date(now.getTime() + this.config.webhooks.timeoutMs + this.baseRetryDelay) },
+    );
+    if (!claimed.affected) {
+      return;
+    }
+
+    const webhook = await this.webhookRepository.findOne({
+      where: { id: delivery.webhookId },
+      select: { id: true, url: true, secret: true },
+    });
+    if (!webhook) {
+      return; // deleted in the meantime - its deliveries are going too
+    }
+
+    const { statusCode, error } = await this.send(webhook, delivery);
+
+    if (!error) {
+      await this.deliveryRepository.update(delivery.id, {
+        status: WebhookDeliveryStatus.DELIVERED,
+        lastStatusCode: statusCode,
+        lastError: null,
+        deliveredAt: new Date(),
+      });
+      return;
+    }
+
+    const gaveUp = attempts >= this.config.webhooks.maxAttempts;
+    await this.deliveryRepository.update(delivery.id, {
+      status: gaveUp ? WebhookDeliveryStatus.FAILED : WebhookDeliveryStatus.PENDING,
+      lastStatusCode: statusCode,
+      lastError: error.slice(0, 500),
+      nextAttemptAt: new Date(Date.now() + this.retryDelay(attempts)),
+    });
+
+    if (gaveUp) {
+      this.logger.warn(`Giving up on webhook delivery ${delivery.id} after ${attempts} attempts: ${error}`);
+    }
+  }
+
+  /**
+   * POSTs the stored payload, signed with the webhook's secret
+   * Never throws - returns what went wrong instead
+   */
+  private async send(webhook: Webhook, delivery: WebhookDelivery): Promise<{ statusCode: number | null; error: string | null }> {
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    try {
+      // Checked on every attempt - where a name points can change after the webhook was registered.
+      // fetch looks the name up again itself, so a DNS server answering differently within
+      // milliseconds could still slip through; this stops everything short of that.
+      if (!this.config.webhooks.allowPrivateUrls) {
+        const problem = await findPrivateTarget(webhook.url);
+        if (problem) {
+          return { statusCode: null, error: `Not sent: ${problem}` };
+        }
+      }
+
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'OneVote-Webhooks',
+          [WEBHOOK_EVENT_HEADER]: delivery.event,
+          [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+          [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(webhook.secret, timestamp, delivery.payload),
+        },
+        body: delivery.payload,
+        redirect: 'manual', // a redirect counts as a failure, we don't chase it somewhere else
+        signal: AbortSignal.timeout(this.config.webhooks.timeoutMs),
+      });
+
+      // We don't care what they answer, just that they got it
+      await response.body?.cancel();
+
+      if (response.status >= 200 && response.status < 300) {
+        return { statusCode: response.status, error: null };
+      }
+      return { statusCode: response.status, error: `Receiver responded with HTTP ${response.status}` };
+    } catch (error) {
+      // fetch hides the useful part (ECONNREFUSED and friends) in error.cause
+      const reason = error.name === 'TimeoutError'
+        ? `No response within ${this.config.webhooks.timeoutMs / 1000}s`
+        : error.cause?.message || error.message;
+      return { statusCode: null, error: reason };
+    }
+  }
+}
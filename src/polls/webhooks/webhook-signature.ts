@@ -0,0 +1,19 @@
+import { createHmac } from 'crypto';
+
+// Headers every delivery carries
+export const WEBHOOK_EVENT_HEADER = 'X-OneVote-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-OneVote-Delivery';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-OneVote-Timestamp';
+export const WEBHOOK_SIGNATURE_HEADER = 'X-OneVote-Signature';
+
+/**
+ * Signature for one delivery attempt: `sha256=` + HMAC-SHA256 of `${timestamp}.${body}`
+ *
+ * The timestamp (unix seconds, also sent as X-OneVote-Timestamp) is part of
+ * the signed string, so receivers can refuse old requests and a captured
+ * delivery can't be replayed later with a fresh timestamp.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+}
@@ -0,0 +1,46 @@
+import { promises as dns } from 'dns';
+import { isPrivateAddress, findPrivateTarget } from './webhook-target';
+
+describe('webhook targets', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('isPrivateAddress', () => {
+    it.each([
+      '127.0.0.1', '10.1.2.3', '172.31.255.255', '192.168.0.1', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+      '255.255.255.255', '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1',
+    ])('should block %s', address => {
+      expect(isPrivateAddress(address)).toBe(true);
+    });
+
+    it.each(['93.184.216.34', '172.32.0.1', '8.8.8.8', '2606:2800:220:1::'])('should allow %s', address => {
+      expect(isPrivateAddress(address)).toBe(false);
+    });
+  });
+
+  describe('findPrivateTarget', () => {
+    it('should refuse a public name that points inside the network', async () => {
+      jest.spyOn(dns, 'lookup').mockResolvedValue([
+        { address: '93.184.216.34', family: 4 },
+        { address: '10.0.0.5', family: 4 },
+      ] as any);
+
+      await expect(findPrivateTarget('https://hooks.example.com/a')).resolves.toContain('resolves to a local or private address');
+    });
+
+    it('should pass a name that only resolves to public addresses', async () => {
+      jest.spyOn(dns, 'lookup').mockResolvedValue([{ address: '93.184.216.34', family: 4 }] as any);
+
+      await expect(findPrivateTarget('https://hooks.example.com/a')).resolves.toBeNull();
+    });
+
+    it('should not look up hosts that are addresses already', async () => {
+      const lookup = jest.spyOn(dns, 'lookup');
+
+      await expect(findPrivateTarget('http://[fe80::1]/')).resolves.toContain('local or private');
+      await expect(findPrivateTarget('http://93.184.216.34/')).resolves.toBeNull();
+      expect(lookup).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { BlockList, isIP } from 'net';
+import { promises as dns } from 'dns';
+
+// Where a webhook may never send to: this machine, the private network around it,
+// link-local (cloud metadata lives at 169.254.169.254) and other non-public ranges.
+// Otherwise anyone creating a poll could make the server probe its own network.
+// IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are checked against the IPv4 ranges.
+const PRIVATE_ADDRESSES = new BlockList();
+PRIVATE_ADDRESSES.addSubnet('0.0.0.0', 8);      // "this network"
+PRIVATE_ADDRESSES.addSubnet('10.0.0.0', 8);     // private
+PRIVATE_ADDRESSES.addSubnet('100.64.0.0', 10);  // carrier-grade NAT
+PRIVATE_ADDRESSES.addSubnet('127.0.0.0', 8);    // loopback
+PRIVATE_ADDRESSES.addSubnet('169.254.0.0', 16); // link-local
+PRIVATE_ADDRESSES.addSubnet('172.16.0.0', 12);  // private
+PRIVATE_ADDRESSES.addSubnet('192.168.0.0', 16); // private
+PRIVATE_ADDRESSES.addSubnet('198.18.0.0', 15);  // benchmarking
+PRIVATE_ADDRESSES.addSubnet('224.0.0.0', 3);    // multicast, reserved and broadcast
+PRIVATE_ADDRESSES.addAddress('::', 'ipv6');
+PRIVATE_ADDRESSES.addAddress('::1', 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fc00::', 7, 'ipv6');      // unique local
+PRIVATE_ADDRESSES.addSubnet('fe80::', 10, 'ipv6');     // link-local
+PRIVATE_ADDRESSES.addSubnet('ff00::', 8, 'ipv6');      // multicast
+
+/**
+ * Is this IP address somewhere a webhook must not go?
+ * Anything that isn't an IP address at all is left to the caller
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  return family !== 0 && PRIVATE_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Checks what can be told from the URL alone - used when a webhook is registered
+ * Returns why the URL isn't allowed, or null
+ */
+export function findPrivateHost(url: string): string | null {
+  const host = getHost(url);
+
+  if (host === 'localhost' || host.endsWith('.localhost') || isPrivateAddress(host)) {
+    return `${host} is a local or private address`;
+  }
+
+  return null;
+}
+
+/**
+ * Same check after looking the host up - used right before each delivery
+ *
+ * A public name can point at 10.0.0.5 (or be changed to, after registering),
+ * so every address it resolves to has to be public. Lookup failures are
+ * thrown, just like fetch would have.
+ */
+export async function findPrivateTarget(url: string): Promise<string | null> {
+  const fromUrl = findPrivateHost(url);
+  if (fromUrl) {
+    return fromUrl;
+  }
+
+  const host = getHost(url);
+  if (isIP(host)) {
+    return null;
+  }
+
+  const addresses = await dns.lookup(host, { all: true, verbatim: true });
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    return `${host} resolves to a local or private address`;
+  }
+
+  return null;
+}
+
+// --- Private helpers ---
+
+// URL keeps IPv6 hosts in brackets and may leave a trailing dot on names
+function getHost(url: string): string {
+  return new URL(url).hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1').replace(/\.$/, '');
+}
@@ -0,0 +1,156 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Delete,
+  Param,
+  Body,
+  Logger,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBody,
+} from '@nestjs/swagger';
+import { WebhooksService } from './webhooks.service';
+import { CreateWebhookDto } from '../dtos/create-webhook.dto';
+import { WebhookResponseDto, CreatedWebhookResponseDto, WebhookDeliveryResponseDto } from '../dtos/webhook-response.dto';
+import { RequirePollOwner } from '../auth/poll-owner.decorators';
+
+@ApiTags('polls')
+@Controller('polls')
+export class WebhooksController {
+  private readonly logger = new Logger(WebhooksController.name);
+
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  // Start sending poll events to a URL
+  @Post(':id/webhooks')
+  @RequirePollOwner()
+  @ApiOperation({
+    summary: 'Register a webhook',
+    description: 'Sends vote-cast, poll-closed and/or poll-created events to a URL as signed POST requests. The signing secret is only shown in this response.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Poll UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiBody({ type: CreateWebhookDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Webhook registered',
+    type: CreatedWebhookResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - invalid URL or events, or a URL on localhost or a private network',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Poll not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'The poll already has the most webhooks it may (10)',
+  })
+  async createWebhook(
+    @Param('id', ParseUUIDPipe) pollId: string,
+    @Body() createWebhookDto: CreateWebhookDto,
+  ): Promise<CreatedWebhookResponseDto> {
+    this.logger.log(`POST /polls/${pollId}/webhooks - Registering webhook`);
+    return this.webhooksService.createWebhook(pollId, createWebhookDto);
+  }
+
+  @Get(':id/webhooks')
+  @RequirePollOwner()
+  @ApiOperation({
+    summary: 'List webhooks',
+    description: 'Lists the webhooks registered on a poll (without their secrets)',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Poll UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Registered webhooks',
+    type: [WebhookResponseDto],
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Poll not found',
+  })
+  async listWebhooks(@Param('id', ParseUUIDPipe) pollId: string): Promise<WebhookResponseDto[]> {
+    this.logger.log(`GET /polls/${pollId}/webhooks - Listing webhooks`);
+    return this.webhooksService.listWebhooks(pollId);
+  }
+
+  @Delete(':id/webhooks/:webhookId')
+  @RequirePollOwner()
+  @ApiOperation({
+    summary: 'Delete a webhook',
+    description: 'Stops sending events to this URL. Deliveries still waiting to go out are dropped.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Poll UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiParam({
+    name: 'webhookId',
+    description: 'Webhook UUID',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Webhook deleted',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Poll or webhook not found',
+  })
+  async deleteWebhook(
+    @Param('id', ParseUUIDPipe) pollId: string,
+    @Param('webhookId', ParseUUIDPipe) webhookId: string,
+  ): Promise<{ message: string }> {
+    this.logger.log(`DELETE /polls/${pollId}/webhooks/${webhookId} - Deleting webhook`);
+    return this.webhooksService.deleteWebhook(pollId, webhookId);
+  }
+
+  // What happened to the events we tried to send
+  @Get(':id/webhooks/:webhookId/deliveries')
+  @RequirePollOwner()
+  @ApiOperation({
+    summary: 'Get webhook delivery history',
+    description: 'The most recent deliveries (up to 100, newest first) with their status, attempt count and last error',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Poll UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiParam({
+    name: 'webhookId',
+    description: 'Webhook UUID',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Delivery history',
+    type: [WebhookDeliveryResponseDto],
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Poll or webhook not found',
+  })
+  async listDeliveries(
+    @Param('id', ParseUUIDPipe) pollId: string,
+    @Param('webhookId', ParseUUIDPipe) webhookId: string,
+  ): Promise<WebhookDeliveryResponseDto[]> {
+    this.logger.log(`GET /polls/${pollId}/webhooks/${webhookId}/deliveries - Fetching delivery history`);
+    return this.webhooksService.listDeliveries(pollId, webhookId);
+  }
+}
@@ -0,0 +1,216 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Repository, EntityManager } from 'typeorm';
+import { NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { WebhooksService } from './webhooks.service';
+import { Poll } from '../entities/poll.entity';
+import { Webhook, WebhookEvent } from '../entities/webhook.entity';
+import { WebhookDelivery, WebhookDeliveryStatus } from '../entities/webhook-delivery.entity';
+import { APP_CONFIG, AppConfig, loadAppConfig } from '../../config/app-config';
+import { ErrorCode } from '../../common/errors/error-codes';
+
+describe('WebhooksService', () => {
+  let service: WebhooksService;
+  let pollRepository: Repository<Poll>;
+  let webhookRepository: Repository<Webhook>;
+  let deliveryRepository: Repository<WebhookDelivery>;
+  let config: AppConfig;
+
+  const pollId = '123e4567-e89b-12d3-a456-426614174000';
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhooksService,
+        {
+          provide: getRepositoryToken(Poll),
+          useValue: {
+            findOne: jest.fn().mockResolvedValue({ id: pollId }),
+          },
+        },
+        {
+          provide: getRepositoryToken(Webhook),
+          useValue: {
+            find: jest.fn().mockResolvedValue([]),
+            findOne: jest.fn(),
+            count: jest.fn().mockResolvedValue(0),
+            remove: jest.fn(),
+          },
+        },
+        {
+          provide: getRepositoryToken(WebhookDelivery),
+          useValue: {
+            find: jest.fn().mockResolvedValue([]),
+            create: jest.fn(data => data),
+            insert: jest.fn(),
+          },
+        },
+        {
+          provide: APP_CONFIG,
+          useValue: loadAppConfig({}),
+        },
+      ],
+    }).compile();
+
+    service = module.get<WebhooksService>(WebhooksService);
+    pollRepository = module.get<Repository<Poll>>(getRepositoryToken(Poll));
+    webhookRepository = module.get<Repository<Webhook>>(getRepositoryToken(Webhook));
+    deliveryRepository = module.get<Repository<WebhookDelivery>>(getRepositoryToken(WebhookDelivery));
+    config = module.get<AppConfig>(APP_CONFIG);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createWebhooks', () => {
+    it('should give every webhook its own secret and return it once', async () => {
+      const manager = {
+        create: jest.fn((_entity, data) => data),
+        save: jest.fn(async (records: any[]) =>
+          records.map((record, index) => ({ ...record, id: `webhook-${index}`, createdAt: new Date() }))),
+      } as unknown as EntityManager;
+
+      const result = await service.createWebhooks(manager, pollId, [
+        { url: 'https://example.com/a', events: [WebhookEvent.VOTE_CAST] },
+        { url: 'https://example.com/b', events: [WebhookEvent.POLL_CLOSED] },
+      ]);
+
+      expect(result).toHaveLength(2);
+      expect(result[0].secret).toBeTruthy();
+      expect(result[0].secret).not.toBe(result[1].secret);
+      expect(result[0].events).toEqual([WebhookEvent.VOTE_CAST]);
+    });
+
+    it('should not touch the database when there is nothing to register', async () => {
+      const manager = { save: jest.fn() } as unknown as EntityManager;
+
+      await expect(service.createWebhooks(manager, pollId, [])).resolves.toEqual([]);
+      expect(manager.save).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      'http://localhost:8080/hook',
+      'http://169.254.169.254/latest/meta-data',
+      'http://10.0.0.5/hook',
+      'http://[::1]:3000/hook',
+      'http://2130706433/hook', // 127.0.0.1, written as a number
+    ])('should refuse to register %s', async url => {
+      const manager = { create: jest.fn(), save: jest.fn() } as unknown as EntityManager;
+
+      const error = await service.createWebhooks(manager, pollId, [{ url, events: [WebhookEvent.VOTE_CAST] }]).catch(e => e);
+
+      expect(error).toBeInstanceOf(BadRequestException);
+      expect(error.getResponse()).toMatchObject({ code: ErrorCode.WEBHOOK_URL_NOT_ALLOWED });
+      expect(manager.save).not.toHaveBeenCalled();
+    });
+
+    it('should allow private URLs when WEBHOOK_ALLOW_PRIVATE_URLS is on', async () => {
+      config.webhooks.allowPrivateUrls = true;
+      const manager = {
+        create: jest.fn((_entity, data) => data),
+        save: jest.fn(async (records: any[]) => records.map(record => ({ ...record, id: 'webhook-1', createdAt: new Date() }))),
+      } as unknown as EntityManager;
+
+      const result = await service.createWebhooks(manager, pollId, [{ url: 'http://localhost:8080/hook', events: [WebhookEvent.VOTE_CAST] }]);
+
+      expect(result[0].url).toBe('http://localhost:8080/hook');
+    });
+  });
+
+  describe('createWebhook', () => {
+    it('should refuse more webhooks than a new poll may have', async () => {
+      jest.spyOn(webhookRepository, 'count').mockResolvedValue(10);
+
+      const error = await service.createWebhook(pollId, { url: 'https://example.com/hook', events: [WebhookEvent.VOTE_CAST] }).catch(e => e);
+
+      expect(error).toBeInstanceOf(ConflictException);
+      expect(error.getResponse()).toMatchObject({ code: ErrorCode.WEBHOOK_LIMIT_REACHED });
+    });
+  });
+
+  describe('enqueue', () => {
+    it('should queue one delivery per webhook that wants the event', async () => {
+      jest.spyOn(webhookRepository, 'find').mockResolvedValue([
+        { id: 'w1', events: [WebhookEvent.VOTE_CAST] },
+        { id: 'w2', events: [WebhookEvent.POLL_CLOSED] },
+        { id: 'w3', events: [WebhookEvent.VOTE_CAST, WebhookEvent.POLL_CLOSED] },
+      ] as Webhook[]);
+
+      await service.enqueue(pollId, WebhookEvent.VOTE_CAST, { totalVotes: 1 });
+
+      const saved = (deliveryRepository.insert as jest.Mock).mock.calls[0][0];
+      expect(saved.map(delivery => delivery.webhookId)).toEqual(['w1', 'w3']);
+      expect(saved[0].status).toBe(WebhookDeliveryStatus.PENDING);
+      expect(JSON.parse(saved[0].payload)).toEqual(expect.objectContaining({
+        event: WebhookEvent.VOTE_CAST,
+        pollId,
+        data: { totalVotes: 1 },
+      }));
+    });
+
+    it('should do nothing when no webhook wants the event', async () => {
+      jest.spyOn(webhookRepository, 'find').mockResolvedValue([
+        { id: 'w1', events: [WebhookEvent.POLL_CLOSED] },
+      ] as Webhook[]);
+
+      await service.enqueue(pollId, WebhookEvent.VOTE_CAST, {});
+
+      expect(deliveryRepository.insert).not.toHaveBeenCalled();
+    });
+
+    it('should log instead of throwing when queueing fails', async () => {
+      jest.spyOn(webhookRepository, 'find').mockRejectedValue(new Error('database is locked'));
+
+      await expect(service.enqueue(pollId, WebhookEvent.VOTE_CAST, {})).resolves.toBeUndefined();
+    });
+  });
+
+  describe('listDeliveries', () => {
+    it('should only show when the next attempt is due for pending deliveries', async () => {
+      jest.spyOn(webhookRepository, 'findOne').mockResolvedValue({ id: 'w1', pollId } as Webhook);
+      jest.spyOn(deliveryRepository, 'find').mockResolvedValue([
+        {
+          id: 'd1',
+          event: WebhookEvent.VOTE_CAST,
+          status: WebhookDeliveryStatus.PENDING,
+          attempts: 2,
+          lastStatusCode: 500,
+          lastError: 'Receiver responded with HTTP 500',
+          nextAttemptAt: new Date('2030-01-01T00:00:20Z'),
+          deliveredAt: null,
+          createdAt: new Date('2030-01-01T00:00:00Z'),
+        },
+        {
+          id: 'd2',
+          event: WebhookEvent.VOTE_CAST,
+          status: WebhookDeliveryStatus.DELIVERED,
+          attempts: 1,
+          lastStatusCode: 200,
+          lastError: null,
+          nextAttemptAt: new Date('2030-01-01T00:00:00Z'),
+          deliveredAt: new Date('2030-01-01T00:00:01Z'),
+          createdAt: new Date('2030-01-01T00:00:00Z'),
+        },
+      ] as WebhookDelivery[]);
+
+      const result = await service.listDeliveries(pollId, 'w1');
+
+      expect(result[0].nextAttemptAt).toBe('2030-01-01T00:00:20.000Z');
+      expect(result[1].nextAttemptAt).toBeNull();
+      expect(result[1].deliveredAt).toBe('2030-01-01T00:00:01.000Z');
+    });
+
+    it('should throw NotFoundException for a webhook on another poll', async () => {
+      jest.spyOn(webhookRepository, 'findOne').mockResolvedValue(null);
+
+      await expect(service.listDeliveries(pollId, 'w1')).rejects.toThrow(NotFoundException);
+    });
+
+    it('should throw NotFoundException when the poll does not exist', async () => {
+      jest.spyOn(pollRepository, 'findOne').mockResolvedValue(null);
+
+      await expect(service.listDeliveries(pollId, 'w1')).rejects.toThrow(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,228 @@
+import { Injectable, Inject, Logger, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, EntityManager } from 'typeorm';
+import { Poll } from '../entities/poll.entity';
+import { Webhook, WebhookEvent } from '../entities/webhook.entity';
+import { WebhookDelivery, WebhookDeliveryStatus } from '../entities/webhook-delivery.entity';
+import { CreateWebhookDto, MAX_WEBHOOKS_PER_POLL } from '../dtos/create-webhook.dto';
+import { WebhookResponseDto, CreatedWebhookResponseDto, WebhookDeliveryResponseDto } from '../dtos/webhook-response.dto';
+import { generateSecretToken } from '../auth/secret-token';
+import { findPrivateHost } from './webhook-target';
+import { ErrorCode, coded } from '../../common/errors/error-codes';
+import { APP_CONFIG, AppConfig } from '../../config/app-config';
+
+// What receivers get in the request body
+export interface WebhookPayload {
+  event: WebhookEvent;
+  pollId: string;
+  occurredAt: string; // ISO timestamp
+  data: any; // poll for poll-created, latest results for vote-cast / poll-closed
+}
+
+/**
+ * Owner-registered webhooks and the queue of deliveries going out to them
+ *
+ * This side only ever writes rows: enqueue() drops one pending delivery per
+ * interested webhook into webhook_deliveries and returns. WebhookDispatcher
+ * picks them up in the background, so a slow or dead receiver never holds
+ * up a vote, and pending deliveries survive a restart.
+ */
+@Injectable()
+export class WebhooksService {
+  private readonly logger = new Logger(WebhooksService.name);
+
+  // Delivery history is capped - it's for debugging, not an archive
+  private readonly deliveryHistoryLimit = 100;
+
+  constructor(
+    @InjectRepository(Poll)
+    private readonly pollRepository: Repository<Poll>,
+
+    @InjectRepository(Webhook)
+    private readonly webhookRepository: Repository<Webhook>,
+
+    @InjectRepository(WebhookDelivery)
+    private readonly deliveryRepository: Repository<WebhookDelivery>,
+
+    @Inject(APP_CONFIG)
+    private readonly config: AppConfig,
+  ) {}
+
+  /**
+   * Registers a webhook for an existing poll
+   * The signing secret is in the response and nowhere else, ever
+   */
+  async createWebhook(pollId: string, createWebhookDto: CreateWebhookDto): Promise<CreatedWebhookResponseDto> {
+    await this.validatePollExists(pollId);
+
+    // Same cap as webhooks sent along with a new poll
+    const existing = await this.webhookRepository.count({ where: { pollId } });
+    if (existing >= MAX_WEBHOOKS_PER_POLL) {
+      throw new ConflictException(coded(
+        ErrorCode.WEBHOOK_LIMIT_REACHED,
+        `A poll can have at most ${MAX_WEBHOOKS_PER_POLL} webhooks - delete one first`,
+      ));
+    }
+
+    const [created] = await this.createWebhooks(this.webhookRepository.manager, pollId, [createWebhookDto]);
+    this.logger.log(`Registered webhook ${created.id} for poll ${pollId}`);
+
+    return created;
+  }
+
+  /**
+   * Saves webhooks with the given manager - createPoll uses this inside its
+   * transaction, so webhooks sent along with a new poll can hear poll-created
+   */
+  async createWebhooks(
+    manager: EntityManager,
+    pollId: string,
+    createWebhookDtos: CreateWebhookDto[],
+  ): Promise<CreatedWebhookResponseDto[]> {
+    if (createWebhookDtos.length === 0) {
+      return [];
+    }
+
+    // The dispatcher checks again after looking the host up - this catches the obvious ones early
+    if (!this.config.webhooks.allowPrivateUrls) {
+      for (const dto of createWebhookDtos) {
+        const problem = findPrivateHost(dto.url);
+        if (problem) {
+          throw new BadRequestException(coded(ErrorCode.WEBHOOK_URL_NOT_ALLOWED, `Webhook URL not allowed: ${problem}`));
+        }
+      }
+    }
+
+    const webhooks = createWebhookDtos.map(dto =>
+      manager.create(Webhook, {
+        pollId,
+        url: dto.url,
+        events: dto.events,
+        secret: generateSecretToken(),
+      })
+    );
+
+    const saved = await manager.save(webhooks);
+
+    return saved.map(webhook => ({
+      ...this.transformWebhookForResponse(webhook),
+      secret: webhook.secret,
+    }));
+  }
+
+  async listWebhooks(pollId: string): Promise<WebhookResponseDto[]> {
+    await this.validatePollExists(pollId);
+
+    const webhooks = await this.webhookRepository.find({
+      where: { pollId },
+      order: { createdAt: 'ASC' },
+    });
+
+    return webhooks.map(webhook => this.transformWebhookForResponse(webhook));
+  }
+
+  /**
+   * Removes a webhook - its pending deliveries go with it (cascade)
+   */
+  async deleteWebhook(pollId: string, webhookId: string): Promise<{ message: string }> {
+    const webhook = await this.findWebhook(pollId, webhookId);
+    await this.webhookRepository.remove(webhook);
+
+    this.logger.log(`Deleted webhook ${webhookId} from poll ${pollId}`);
+    return { message: 'Webhook deleted successfully' };
+  }
+
+  /**
+   * Recent deliveries for one webhook, newest first
+   */
+  async listDeliveries(pollId: string, webhookId: string): Promise<WebhookDeliveryResponseDto[]> {
+    await this.findWebhook(pollId, webhookId);
+
+    const deliveries = await this.deliveryRepository.find({
+      where: { webhookId },
+      order: { createdAt: 'DESC' },
+      take: this.deliveryHistoryLimit,
+    });
+
+    return deliveries.map(delivery => ({
+      id: delivery.id,
+      event: delivery.event,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      lastStatusCode: delivery.lastStatusCode,
+      lastError: delivery.lastError,
+      nextAttemptAt: delivery.status === WebhookDeliveryStatus.PENDING ? delivery.nextAttemptAt.toISOString() : null,
+      deliveredAt: delivery.deliveredAt ? delivery.deliveredAt.toISOString() : null,
+      createdAt: delivery.createdAt.toISOString(),
+    }));
+  }
+
+  /**
+   * Queues an event for every webhook on the poll that asked for it
+   *
+   * Called after the thing already happened (vote saved, poll closed), so
+   * like the SSE broadcasts this logs failures instead of throwing them.
+   */
+  async enqueue(pollId: string, event: WebhookEvent, data: any): Promise<void> {
+    try {
+      const webhooks = await this.webhookRepository.find({ where: { pollId } });
+      const subscribed = webhooks.filter(webhook => webhook.events.includes(event));
+
+      if (subscribed.length === 0) {
+        return;
+      }
+
+      // One body for everyone, stored as-is so retries send exactly the same bytes
+      const payload: WebhookPayload = { event, pollId, occurredAt: new Date().toISOString(), data };
+      const body = JSON.stringify(payload);
+      const now = new Date();
+
+      // insert() rather than save(): no transaction of its own, so this can't
+      // trip over a vote transaction running on the same SQLite connection
+      await this.deliveryRepository.insert(
+        subscribed.map(webhook =>
+          this.deliveryRepository.create({
+            webhookId: webhook.id,
+            pollId,
+            event,
+            payload: body,
+            status: WebhookDeliveryStatus.PENDING,
+            attempts: 0,
+            nextAttemptAt: now,
+          })
+        )
+      );
+    } catch (error) {
+      this.logger.error(`Error queueing ${event} webhooks for poll ${pollId}: ${error.message}`);
+    }
+  }
+
+  // --- Private helpers ---
+
+  private async validatePollExists(pollId: string): Promise<void> {
+    const poll = await this.pollRepository.findOne({ where: { id: pollId } });
+    if (!poll) {
+      throw new NotFoundException(coded(ErrorCode.POLL_NOT_FOUND, `Poll with ID ${pollId} not found`));
+    }
+  }
+
+  private async findWebhook(pollId: string, webhookId: string): Promise<Webhook> {
+    await this.validatePollExists(pollId);
+
+    const webhook = await this.webhookRepository.findOne({ where: { id: webhookId, pollId } });
+    if (!webhook) {
+      throw new NotFoundException(coded(ErrorCode.WEBHOOK_NOT_FOUND, `Webhook with ID ${webhookId} not found`));
+    }
+
+    return webhook;
+  }
+
+  private transformWebhookForResponse(webhook: Webhook): WebhookResponseDto {
+    return {
+      id: webhook.id,
+      url: webhook.url,
+      events: webhook.events,
+      createdAt: webhook.createdAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,128 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { NotFoundException, BadRequestException } from '@nestjs/common';
+import { Subject } from 'rxjs';
+import { WebSocket } from 'ws';
+import { ResultsGateway } from './results.gateway';
+import { PollsService, VoteEvent, PollLifecycleEvent } from '../polls.service';
+import { ResultsService } from '../results/results.service';
+import { Poll } from '../entities/poll.entity';
+import { RATE_LIMIT_STORE } from '../../common/rate-limit/rate-limit.store';
+import { APP_CONFIG, loadAppConfig } from '../../config/app-config';
+
+describe('ResultsGateway', () => {
+  let gateway: ResultsGateway;
+  let pollRepository: Repository<Poll>;
+
+  const pollId = '123e4567-e89b-12d3-a456-426614174000';
+  const otherPollId = 'f9f4d6b1-1e3b-4f2f-8a6f-2a0a9d2f3e21';
+
+  const mockPollsService = {
+    voteEvents$: new Subject<VoteEvent>(),
+    lifecycleEvents$: new Subject<PollLifecycleEvent>(),
+    castVote: jest.fn().mockResolvedValue({ message: 'Vote cast successfully' }),
+  };
+
+  const mockResultsService = {
+    getPollResults: jest.fn().mockResolvedValue({ totalVotes: 0 }),
+  };
+
+  // Just enough of a socket to see what the gateway sends
+  const buildClient = () => ({ readyState: WebSocket.OPEN, send: jest.fn() }) as unknown as WebSocket;
+  const sentEvents = (client: WebSocket) =>
+    (client.send as jest.Mock).mock.calls.map(([message]) => JSON.parse(message).event);
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ResultsGateway,
+        { provide: PollsService, useValue: mockPollsService },
+        { provide: ResultsService, useValue: mockResultsService },
+        // The vote handler's rate limit guard needs a store, even though these tests call handlers directly
+        { provide: RATE_LIMIT_STORE, useValue: { hit: jest.fn() } },
+        { provide: APP_CONFIG, useValue: loadAppConfig({}) },
+        {
+          provide: getRepositoryToken(Poll),
+          useValue: {
+            findOne: jest.fn().mockResolvedValue({ id: pollId }),
+          },
+        },
+      ],
+    }).compile();
+
+    gateway = module.get<ResultsGateway>(ResultsGateway);
+    pollRepository = module.get<Repository<Poll>>(getRepositoryToken(Poll));
+    gateway.afterInit();
+  });
+
+  afterEach(() => {
+    gateway.onModuleDestroy();
+    jest.clearAllMocks();
+  });
+
+  it('should reply to a subscription with the current results', async () => {
+    const client = buildClient();
+    gateway.handleConnection(client);
+
+    const reply = await gateway.subscribe(client, { pollId });
+
+    expect(reply).toEqual({ event: 'subscribed', data: { pollId, results: { totalVotes: 0 } } });
+  });
+
+  it('should only push updates for polls the client follows', async () => {
+    const follower = buildClient();
+    const bystander = buildClient();
+    gateway.handleConnection(follower);
+    gateway.handleConnection(bystander);
+    await gateway.subscribe(follower, { pollId });
+    await gateway.subscribe(bystander, { pollId: otherPollId });
+
+    mockPollsService.voteEvents$.next({ pollId, results: { totalVotes: 1 } });
+
+    expect(sentEvents(follower)).toEqual(['connected', 'results']);
+    expect(sentEvents(bystander)).toEqual(['connected']);
+  });
+
+  it('should stop pushing updates after unsubscribe or disconnect', async () => {
+    const leaver = buildClient();
+    const dropped = buildClient();
+    gateway.handleConnection(leaver);
+    gateway.handleConnection(dropped);
+    await gateway.subscribe(leaver, { pollId });
+    await gateway.subscribe(dropped, { pollId });
+
+    gateway.unsubscribe(leaver, { pollId });
+    gateway.handleDisconnect(dropped);
+    mockPollsService.lifecycleEvents$.next({ pollId, type: 'poll-closed', occurredAt: new Date().toISOString() });
+
+    expect(sentEvents(leaver)).toEqual(['connected']);
+    expect(sentEvents(dropped)).toEqual(['connected']);
+  });
+
+  it('should reject subscriptions to polls that do not exist', async () => {
+    const client = buildClient();
+    gateway.handleConnection(client);
+    jest.spyOn(pollRepository, 'findOne').mockResolvedValue(null);
+
+    await expect(gateway.subscribe(client, { pollId })).rejects.toThrow(NotFoundException);
+  });
+
+  it('should cap how many polls one connection follows', async () => {
+    const client = buildClient();
+    gateway.handleConnection(client);
+
+    for (let i = 0; i < 50; i++) {
+      await gateway.subscribe(client, { pollId: `poll-${i}` });
+    }
+
+    await expect(gateway.subscribe(client, { pollId })).rejects.toThrow(BadRequestException);
+  });
+
+  it('should hand votes to PollsService just like the REST route', async () => {
+    const reply = await gateway.vote({ pollId, userUuid: 'user-1', optionId: 'option-1' });
+
+    expect(mockPollsService.castVote).toHaveBeenCalledWith(pollId, { userUuid: 'user-1', optionId: 'option-1' });
+    expect(reply).toEqual({ event: 'vote-accepted', data: { pollId, message: 'Vote cast successfully' } });
+  });
+});
@@ -0,0 +1,189 @@
+import { Inject, Logger, NotFoundException, BadRequestException, UseFilters, UsePipes, ValidationPipe, OnModuleDestroy } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  WebSocketGateway,
+  SubscribeMessage,
+  MessageBody,
+  ConnectedSocket,
+  OnGatewayInit,
+  OnGatewayConnection,
+  OnGatewayDisconnect,
+  WsResponse,
+} from '@nestjs/websockets';
+import { Repository } from 'typeorm';
+import { Subscription } from 'rxjs';
+import { WebSocket } from 'ws';
+import { PollsService } from '../polls.service';
+import { ResultsService } from '../results/results.service';
+import { Poll } from '../entities/poll.entity';
+import { PollSubscriptionDto, WsVoteDto } from '../dtos/ws-message.dto';
+import { RateLimit } from '../../common/rate-limit/rate-limit.decorator';
+import { WsExceptionFilter } from './ws-exception.filter';
+import { APP_CONFIG, AppConfig } from '../../config/app-config';
+import { ErrorCode, coded } from '../../common/errors/error-codes';
+import { validationExceptionFactory } from '../../common/errors/validation-exception.factory';
+
+/**
+ * WebSocket endpoint for live results (ws://host/ws)
+ *
+ * The SSE stream is one poll per connection and one-way. Here a single
+ * connection can follow as many polls as it likes and also send votes.
+ * Messages both ways are JSON: { "event": "...", "data": { ... } }
+ *
+ * Client -> server:
+ * - subscribe { pollId }     -> subscribed { pollId, results }
+ * - unsubscribe { pollId }   -> unsubscribed { pollId }
+ * - vote { pollId, ...vote } -> vote-accepted { pollId, message }
+ *
+ * Server -> client: results, poll-opened, poll-closed (for subscribed polls),
+ * heartbeat, and error { event, statusCode, message } when a message fails.
+ *
+ * Votes go through PollsService.castVote and the cast-vote rate limit,
+ * exactly like POST /polls/:id/votes.
+ */
+@UseFilters(new WsExceptionFilter())
+@UsePipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true, transform: true, exceptionFactory: validationExceptionFactory }))
+@WebSocketGateway({ path: '/ws' })
+export class ResultsGateway implements OnGatewayInit, OnGatewayConnection, OnGatewayDisconnect, OnModuleDestroy {
+  private readonly logger = new Logger(ResultsGateway.name);
+
+  // Who follows which poll, kept both ways round:
+  // by poll for fan-out, by client for cleanup on disconnect
+  private readonly pollSubscribers = new Map<string, Set<WebSocket>>();
+  private readonly clientPolls = new Map<WebSocket, Set<string>>();
+
+  private eventsSubscription: Subscription | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly pollsService: PollsService,
+    private readonly resultsService: ResultsService,
+    @InjectRepository(Poll)
+    private readonly pollRepository: Repository<Poll>,
+    @Inject(APP_CONFIG)
+    private readonly config: AppConfig,
+  ) {}
+
+  afterInit(): void {
+    this.eventsSubscription = this.pollsService.voteEvents$.subscribe(event => {
+      this.sendToSubscribers(event.pollId, 'results', { pollId: event.pollId, results: event.results });
+    });
+
+    this.eventsSubscription.add(
+      this.pollsService.lifecycleEvents$.subscribe(event => {
+        this.sendToSubscribers(event.pollId, event.type, event);
+      })
+    );
+
+    // One timer for everyone rather than one per connection
+    this.heartbeatTimer = setInterval(() => {
+      const heartbeat = { timestamp: new Date().toISOString() };
+      this.clientPolls.forEach((_polls, client) => this.send(client, 'heartbeat', heartbeat));
+    }, this.config.ws.heartbeatIntervalMs);
+    this.heartbeatTimer.unref(); // don't keep the process alive just for this
+  }
+
+  handleConnection(client: WebSocket): void {
+    this.clientPolls.set(client, new Set());
+    this.send(client, 'connected', { timestamp: new Date().toISOString() });
+  }
+
+  handleDisconnect(client: WebSocket): void {
+    const polls = this.clientPolls.get(client) ?? new Set<string>();
+    polls.forEach(pollId => this.removeSubscriber(pollId, client));
+    this.clientPolls.delete(client);
+  }
+
+  onModuleDestroy(): void {
+    this.eventsSubscription?.unsubscribe();
+    this.eventsSubscription = null;
+
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  // Start following a poll - the reply carries its current results
+  @SubscribeMessage('subscribe')
+  async subscribe(
+    @ConnectedSocket() client: WebSocket,
+    @MessageBody() { pollId }: PollSubscriptionDto,
+  ): Promise<WsResponse> {
+    const polls = this.clientPolls.get(client);
+    if (!polls) {
+      return; // connection went away while the message was in flight
+    }
+
+    if (!polls.has(pollId) && polls.size >= this.config.ws.maxSubscriptionsPerClient) {
+      throw new BadRequestException(
+        coded(ErrorCode.SUBSCRIPTION_LIMIT_REACHED, `A connection can follow at most ${this.config.ws.maxSubscriptionsPerClient} polls`),
+      );
+    }
+
+    const poll = await this.pollRepository.findOne({ where: { id: pollId } });
+    if (!poll) {
+      throw new NotFoundException(coded(ErrorCode.POLL_NOT_FOUND, `Poll with ID ${pollId} not found`));
+    }
+
+    polls.add(pollId);
+    if (!this.pollSubscribers.has(pollId)) {
+      this.pollSubscribers.set(pollId, new Set());
+    }
+    this.pollSubscribers.get(pollId).add(client);
+
+    const results = await this.resultsService.getPollResults(pollId);
+    return { event: 'subscribed', data: { pollId, results } };
+  }
+
+  @SubscribeMessage('unsubscribe')
+  unsubscribe(
+    @ConnectedSocket() client: WebSocket,
+    @MessageBody() { pollId }: PollSubscriptionDto,
+  ): WsResponse {
+    this.clientPolls.get(client)?.delete(pollId);
+    this.removeSubscriber(pollId, client);
+
+    return { event: 'unsubscribed', data: { pollId } };
+  }
+
+  // Same rules as POST /polls/:id/votes - PollsService does all the checking
+  @SubscribeMessage('vote')
+  @RateLimit('cast-vote')
+  async vote(@MessageBody() { pollId, ...voteDto }: WsVoteDto): Promise<WsResponse> {
+    this.logger.log(`WS vote - User ${voteDto.userUuid} voting in poll ${pollId}`);
+
+    const result = await this.pollsService.castVote(pollId, voteDto);
+    return { event: 'vote-accepted', data: { pollId, ...result } };
+  }
+
+  // --- Private helper methods ---
+
+  private sendToSubscribers(pollId: string, event: string, data: any): void {
+    this.pollSubscribers.get(pollId)?.forEach(client => this.send(client, event, data));
+  }
+
+  private removeSubscriber(pollId: string, client: WebSocket): void {
+    const subscribers = this.pollSubscribers.get(pollId);
+    if (!subscribers) {
+      return;
+    }
+
+    subscribers.delete(client);
+    if (subscribers.size === 0) {
+      this.pollSubscribers.delete(pollId);
+    }
+  }
+
+  private send(client: WebSocket, event: string, data: any): void {
+    if (client.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    try {
+      client.send(JSON.stringify({ event, data }));
+    } catch (error) {
+      this.logger.error(`Failed to send WebSocket message: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { Catch, ArgumentsHost, HttpException, Logger, WsExceptionFilter as NestWsExceptionFilter } from '@nestjs/common';
+import { WsException } from '@nestjs/websockets';
+import { WebSocket } from 'ws';
+import { TooManyRequestsException } from '../../common/rate-limit/too-many-requests.exception';
+import { ErrorCode, getDefaultErrorCode } from '../../common/errors/error-codes';
+
+/**
+ * Turns anything thrown by a gateway handler into an `error` message
+ *
+ * Same idea as the HTTP filters: HttpExceptions keep their status code and
+ * message (so a 409 from PollsService is still a 409 over the socket) and
+ * the same error code as over HTTP, everything else is a 500. The message
+ * names the event that failed, and the connection stays open either way.
+ */
+@Catch()
+export class WsExceptionFilter implements NestWsExceptionFilter {
+  private readonly logger = new Logger(WsExceptionFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost) {
+    const ws = host.switchToWs();
+    const client = ws.getClient<WebSocket>();
+    const event = ws.getPattern();
+
+    let statusCode = 500;
+    let code: ErrorCode | string = ErrorCode.INTERNAL_ERROR;
+    let message: string | string[] = 'Internal server error';
+
+    if (exception instanceof HttpException) {
+      const exceptionResponse = exception.getResponse();
+      statusCode = exception.getStatus();
+      code = (exceptionResponse as any).code ?? getDefaultErrorCode(statusCode);
+      message = typeof exceptionResponse === 'string'
+        ? exceptionResponse
+        : (exceptionResponse as any).message || exception.message;
+      this.logger.warn(`WebSocket exception on ${event} - Status: ${statusCode} - Message: ${message}`);
+    } else if (exception instanceof WsException) {
+      statusCode = 400;
+      code = ErrorCode.BAD_REQUEST;
+      message = String(exception.getError());
+    } else {
+      this.logger.error(
+        `Unhandled WebSocket exception on ${event}: ${exception instanceof Error ? exception.message : String(exception)}`,
+        exception instanceof Error ? exception.stack : undefined,
+      );
+    }
+
+    const data = {
+      event,
+      statusCode,
+      code,
+      message,
+      // Rate-limited clients get told when to come back
+      ...(exception instanceof TooManyRequestsException && { retryAfterSeconds: exception.retryAfterSeconds }),
+    };
+
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(JSON.stringify({ event: 'error', data }));
+    }
+  }
+}
@@ -0,0 +1,7 @@
+import { describePollsApi } from './support/polls-api.e2e-suite';
+
+// TEST_POSTGRES_URL comes from the global setup (or from you) - see support/postgres.global-setup.ts
+process.env.DATABASE_TYPE = 'postgres';
+process.env.DATABASE_URL = process.env.TEST_POSTGRES_URL;
+
+describePollsApi('PostgreSQL');
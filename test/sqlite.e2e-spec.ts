@@ -0,0 +1,10 @@
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describePollsApi } from './support/polls-api.e2e-suite';
+
+// A fresh file per run - the migration round trip needs a database that outlives one connection
+process.env.DATABASE_TYPE = 'sqlite';
+process.env.DATABASE_PATH = join(mkdtempSync(join(tmpdir(), 'onevote-sqlite-')), 'onevote.sqlite');
+
+describePollsApi('SQLite');
@@ -0,0 +1,348 @@
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { WsAdapter } from '@nestjs/platform-ws';
+import { DataSource } from 'typeorm';
+import request from 'supertest';
+import { randomUUID } from 'crypto';
+import { validationExceptionFactory } from '../../src/common/errors/validation-exception.factory';
+
+/**
+ * The end-to-end checks every supported database has to pass
+ *
+ * Set DATABASE_TYPE and the connection settings before calling this. The app
+ * is only loaded in beforeAll, because the entities pick their column types
+ * from the environment when they're first imported.
+ */
+export function describePollsApi(databaseName: string): void {
+  describe(`Polls API on ${databaseName}`, () => {
+    let app: INestApplication;
+    let dataSource: DataSource;
+
+    const closesAt = () => new Date(Date.now() + 86400000).toISOString(); // closes tomorrow
+
+    const createPoll = async (body: Record<string, unknown> = {}) => {
+      const response = await request(app.getHttpServer())
+        .post('/polls')
+        .send({ question: 'Which database?', options: ['SQLite', 'PostgreSQL', 'Both'], closesAt: closesAt(), ...body })
+        .expect(201);
+
+      return response.body;
+    };
+
+    const vote = (pollId: string, body: Record<string, unknown>) =>
+      request(app.getHttpServer()).post(`/polls/${pollId}/votes`).send({ userUuid: randomUUID(), ...body });
+
+    beforeAll(async () => {
+      // Every request comes from the same IP, and the suite creates more polls than one IP may per window
+      process.env.RATE_LIMIT_CREATE_POLL_PER_IP = '0';
+
+      // Imported here, after the spec file has set up the environment
+      const { loadAppConfig } = await import('../../src/config/app-config');
+      const { buildDataSourceOptions } = await import('../../src/database/data-source-options');
+      const { AppModule } = await import('../../src/app.module');
+      const { useBallotImportParsers } = await import('../../src/polls/import/ballot-import-format');
+
+      // Take every migration up, all the way down and up again, so each down() gets exercised too
+      const migrator = new DataSource({ ...buildDataSourceOptions(loadAppConfig().database), migrationsRun: false, logging: false });
+      await migrator.initialize();
+      await migrator.runMigrations();
+      for (let i = 0; i < migrator.migrations.length; i++) {
+        await migrator.undoLastMigration();
+      }
+      await migrator.runMigrations();
+      await migrator.destroy();
+
+      const moduleRef = await Test.createTestingModule({ imports: [AppModule] }).compile();
+
+      app = moduleRef.createNestApplication();
+      useBallotImportParsers(app);
+      app.useGlobalPipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true, transform: true, exceptionFactory: validationExceptionFactory }));
+      app.useWebSocketAdapter(new WsAdapter(app));
+      await app.init();
+
+      dataSource = app.get(DataSource);
+    });
+
+    afterAll(async () => {
+      await app?.close();
+    });
+
+    it('should have no pending migrations', async () => {
+      expect(await dataSource.showMigrations()).toBe(false);
+    });
+
+    it('should create a poll and read it back', async () => {
+      const poll = await createPoll();
+
+      const response = await request(app.getHttpServer()).get(`/polls/${poll.id}`).expect(200);
+
+      expect(response.body.question).toBe('Which database?');
+      expect(response.body.options.map((option: { text: string }) => option.text)).toEqual(['SQLite', 'PostgreSQL', 'Both']);
+      expect(new Date(response.body.closesAt).getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should count votes and keep the ledger valid', async () => {
+      const poll = await createPoll();
+      const [sqlite, postgres] = poll.options;
+
+      await vote(poll.id, { optionId: postgres.id }).expect(200);
+      await vote(poll.id, { optionId: postgres.id }).expect(200);
+      await vote(poll.id, { optionId: sqlite.id }).expect(200);
+
+      const results = await request(app.getHttpServer()).get(`/polls/${poll.id}/results`).expect(200);
+      expect(results.body.total).toBe(3);
+      expect(results.body.options.find((option: { optionId: string }) => option.optionId === postgres.id).count).toBe(2);
+
+      const audit = await request(app.getHttpServer())
+        .post(`/polls/${poll.id}/audit/verify`)
+        .set('Authorization', `Bearer ${poll.managementToken}`)
+        .expect(200);
+      expect(audit.body.valid).toBe(true);
+      expect(audit.body.entriesChecked).toBe(3);
+    });
+
+    it('should reject a second vote from the same user with 409', async () => {
+      const poll = await createPoll();
+      const userUuid = randomUUID();
+
+      await vote(poll.id, { userUuid, optionId: poll.options[0].id }).expect(200);
+      const second = await vote(poll.id, { userUuid, optionId: poll.options[1].id }).expect(409);
+
+      expect(second.body.code).toBe('DUPLICATE_VOTE');
+    });
+
+    it('should move a changed vote to its new option', async () => {
+      const poll = await createPoll();
+      const userUuid = randomUUID();
+
+      await vote(poll.id, { userUuid, optionId: poll.options[0].id }).expect(200);
+      await request(app.getHttpServer())
+        .put(`/polls/${poll.id}/votes/${userUuid}`)
+        .send({ optionId: poll.options[2].id })
+        .expect(200);
+
+      const results = await request(app.getHttpServer()).get(`/polls/${poll.id}/results`).expect(200);
+      const counts = results.body.options.map((option: { count: number }) => option.count);
+      expect(counts).toEqual([0, 0, 1]);
+
+      const audit = await request(app.getHttpServer())
+        .post(`/polls/${poll.id}/audit/verify`)
+        .set('Authorization', `Bearer ${poll.managementToken}`)
+        .expect(200);
+      expect(audit.body.valid).toBe(true);
+    });
+
+    it('should run an instant-runoff count on ranked ballots', async () => {
+      const poll = await createPoll({ votingMethod: 'ranked-choice' });
+      const [a, b, c] = poll.options.map((option: { id: string }) => option.id);
+
+      // Nobody has a majority at first - c goes out and its ballot moves to b
+      for (const rankings of [[a, b], [a, c], [b, a], [b, c], [c, b]]) {
+        await vote(poll.id, { rankings }).expect(200);
+      }
+
+      const results = await request(app.getHttpServer()).get(`/polls/${poll.id}/results`).expect(200);
+      expect(results.body.total).toBe(5);
+      expect(results.body.rankedChoice.winnerOptionId).toBe(b);
+    });
+
+    it('should group votes into timeline buckets', async () => {
+      const poll = await createPoll({ votingMethod: 'approval', maxSelections: 2 });
+      const [a, b] = poll.options.map((option: { id: string }) => option.id);
+
+      await vote(poll.id, { optionIds: [a, b] }).expect(200);
+      await vote(poll.id, { optionIds: [a] }).expect(200);
+
+      const timeline = await request(app.getHttpServer())
+        .get(`/polls/${poll.id}/results/timeline`)
+        .query({ bucket: '1m' })
+        .expect(200);
+
+      const buckets = timeline.body.buckets;
+      expect(buckets[buckets.length - 1].runningTotal).toBe(2);
+      expect(new Date(buckets[0].start).getUTCSeconds()).toBe(0);
+
+      const counts = new Map<string, number>();
+      buckets.forEach((bucket: { options: { optionId: string; count: number }[] }) => {
+        bucket.options.forEach(option => counts.set(option.optionId, (counts.get(option.optionId) ?? 0) + option.count));
+      });
+      expect(counts.get(a)).toBe(2);
+      expect(counts.get(b)).toBe(1);
+    });
+
+    it('should search and sort the poll list', async () => {
+      const tag = randomUUID().slice(0, 8);
+      const quiet = await createPoll({ question: `Quiet poll ${tag}` });
+      const busy = await createPoll({ question: `Busy poll ${tag}` });
+
+      await vote(busy.id, { optionId: busy.options[0].id }).expect(200);
+
+      const response = await request(app.getHttpServer())
+        .get('/polls')
+        .query({ q: `POLL ${tag.toUpperCase()}`, sort: 'totalVotes', order: 'desc' })
+        .expect(200);
+
+      expect(response.body.items.map((item: { id: string }) => item.id)).toEqual([busy.id, quiet.id]);
+    });
+
+    it('should pass X-Request-Id through and quote it in errors', async () => {
+      const response = await request(app.getHttpServer())
+        .get(`/polls/${randomUUID()}`)
+        .set('X-Request-Id', 'e2e-trace-1')
+        .expect(404);
+
+      expect(response.headers['x-request-id']).toBe('e2e-trace-1');
+      expect(response.body.requestId).toBe('e2e-trace-1');
+
+      const generated = await request(app.getHttpServer()).get('/health').expect(200);
+      expect(generated.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+    });
+
+    it('should replay retried requests that carry the same Idempotency-Key', async () => {
+      const body = { question: 'Retry me?', options: ['Yes', 'No'], closesAt: closesAt() };
+      const pollKey = randomUUID();
+
+      const first = await request(app.getHttpServer()).post('/polls').set('Idempotency-Key', pollKey).send(body).expect(201);
+      const retry = await request(app.getHttpServer()).post('/polls').set('Idempotency-Key', pollKey).send(body).expect(201);
+
+      expect(retry.body.id).toBe(first.body.id);
+      expect(retry.headers['idempotent-replayed']).toBe('true');
+
+      const ballot = { userUuid: randomUUID(), optionId: first.body.options[0].id };
+      const voteKey = randomUUID();
+      const castWithKey = (sent: Record<string, unknown>) =>
+        request(app.getHttpServer()).post(`/polls/${first.body.id}/votes`).set('Idempotency-Key', voteKey).send(sent);
+
+      await castWithKey(ballot).expect(200);
+      await castWithKey(ballot).expect(200);
+
+      const changed = await castWithKey({ ...ballot, optionId: first.body.options[1].id }).expect(422);
+      expect(changed.body.code).toBe('IDEMPOTENCY_KEY_REUSED');
+
+      const results = await request(app.getHttpServer()).get(`/polls/${first.body.id}/results`).expect(200);
+      expect(results.body.total).toBe(1);
+    });
+
+    it('should import offline ballots cast before the poll closed', async () => {
+      const poll = await createPoll();
+      const [sqlite, postgres] = poll.options;
+      const [liveVoter, paperVoter, confusedVoter, lateVoter] = [randomUUID(), randomUUID(), randomUUID(), randomUUID()];
+
+      await vote(poll.id, { userUuid: liveVoter, optionId: sqlite.id }).expect(200);
+      await request(app.getHttpServer())
+        .post(`/polls/${poll.id}/close`)
+        .set('Authorization', `Bearer ${poll.managementToken}`)
+        .expect(200);
+
+      // Somewhere between opening and closing
+      const closed = await request(app.getHttpServer()).get(`/polls/${poll.id}`).expect(200);
+      const castAt = new Date((Date.parse(poll.createdAt) + Date.parse(closed.body.closesAt)) / 2).toISOString();
+
+      const csv = [
+        'userUuid,timestamp,optionText',
+        `${paperVoter},${castAt},PostgreSQL`,
+        `${liveVoter},${castAt},Both`,
+        `${confusedVoter},${castAt},"Oracle, probably"`,
+        `${lateVoter},${new Date().toISOString()},SQLite`,
+      ].join('\r\n');
+
+      const imported = await request(app.getHttpServer())
+        .post(`/polls/${poll.id}/votes/import`)
+        .set('Authorization', `Bearer ${poll.managementToken}`)
+        .set('Content-Type', 'text/csv')
+        .send(csv)
+        .expect(200);
+
+      expect(imported.body.rows.map((row: { status: string }) => row.status)).toEqual(['imported', 'duplicate', 'unknown_option', 'poll_closed']);
+      expect(imported.body.summary).toEqual({ imported: 1, duplicate: 1, unknown_option: 1, poll_closed: 1, invalid: 0 });
+
+      const results = await request(app.getHttpServer()).get(`/polls/${poll.id}/results`).expect(200);
+      expect(results.body.total).toBe(2);
+      expect(results.body.options.find((option: { optionId: string }) => option.optionId === postgres.id).count).toBe(1);
+
+      // Kept its original time
+      const ballots = await request(app.getHttpServer())
+        .get(`/polls/${poll.id}/export/ballots?format=json`)
+        .set('Authorization', `Bearer ${poll.managementToken}`)
+        .expect(200);
+      expect(ballots.body.find((ballot: { voterId: string }) => ballot.voterId === paperVoter).timestamp).toBe(castAt);
+
+      const audit = await request(app.getHttpServer())
+        .post(`/polls/${poll.id}/audit/verify`)
+        .set('Authorization', `Bearer ${poll.managementToken}`)
+        .expect(200);
+      expect(audit.body.valid).toBe(true);
+      expect(audit.body.entriesChecked).toBe(2);
+
+      // Only the poll owner may import
+      await request(app.getHttpServer()).post(`/polls/${poll.id}/votes/import`).send({ ballots: [] }).expect(401);
+    });
+
+    it('should import a JSON file well past the usual 100kb body limit', async () => {
+      const poll = await createPoll({ votingMethod: 'ranked-choice' });
+      const rankings = poll.options.map((option: { id: string }) => option.id);
+      const ballots = Array.from({ length: 1000 }, () => ({ userUuid: randomUUID(), timestamp: poll.createdAt, choices: rankings }));
+      const body = { ballots };
+      expect(JSON.stringify(body).length).toBeGreaterThan(150 * 1024);
+
+      const imported = await request(app.getHttpServer())
+        .post(`/polls/${poll.id}/votes/import`)
+        .set('Authorization', `Bearer ${poll.managementToken}`)
+        .send(body)
+        .expect(200);
+
+      expect(imported.body.summary.imported).toBe(1000);
+
+      const results = await request(app.getHttpServer()).get(`/polls/${poll.id}/results`).expect(200);
+      expect(results.body.total).toBe(1000);
+    });
+
+    it('should only export results for the poll owner, hidden or not', async () => {
+      const poll = await createPoll({ hideResultsUntilClose: true });
+      await vote(poll.id, { optionId: poll.options[0].id }).expect(200);
+
+      await request(app.getHttpServer()).get(`/polls/${poll.id}/export/results?format=csv`).expect(401);
+
+      const csv = await request(app.getHttpServer())
+        .get(`/polls/${poll.id}/export/results?format=csv`)
+        .set('Authorization', `Bearer ${poll.managementToken}`)
+        .expect(200);
+      expect(csv.headers['content-type']).toContain('text/csv');
+      expect(csv.text.split('\r\n')).toHaveLength(poll.options.length + 2); // header, one row each, trailing break
+    });
+
+    it('should answer errors as problem details with a stable code', async () => {
+      const pollId = randomUUID();
+      const missing = await request(app.getHttpServer()).get(`/polls/${pollId}`).expect(404);
+
+      expect(missing.headers['content-type']).toContain('application/problem+json');
+      expect(missing.body).toMatchObject({ status: 404, code: 'POLL_NOT_FOUND', instance: `/polls/${pollId}` });
+
+      const invalid = await request(app.getHttpServer())
+        .post('/polls')
+        .send({ question: 'Only one option?', options: ['Yes'], closesAt: closesAt() })
+        .expect(400);
+
+      expect(invalid.body.code).toBe('VALIDATION_FAILED');
+      expect(invalid.body.errors).toEqual([{ field: 'options', messages: ['please provide at least two options'] }]);
+
+      // Owner-only routes check the ID before the management token is looked up
+      const badId = await request(app.getHttpServer())
+        .post('/polls/not-a-uuid/close')
+        .set('Authorization', 'Bearer some-token')
+        .expect(400);
+
+      expect(badId.body.code).toBe('BAD_REQUEST');
+    });
+
+    it('should report ready and expose metrics', async () => {
+      const ready = await request(app.getHttpServer()).get('/ready').expect(200);
+      expect(ready.body.checks.database.status).toBe('up');
+
+      const metrics = await request(app.getHttpServer()).get('/metrics').expect(200);
+      expect(metrics.headers['content-type']).toContain('text/plain');
+      expect(metrics.text).toMatch(/onevote_votes_cast_total\{outcome="success"\} \d+/);
+      expect(metrics.text).toContain('onevote_http_request_duration_seconds_bucket{method="POST",route="/polls",status="201",le="+Inf"}');
+    });
+  });
+}
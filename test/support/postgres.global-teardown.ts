@@ -0,0 +1,4 @@
+// Stops the embedded Postgres from the global setup (nothing to do if you brought your own)
+export default async function stopTestPostgres(): Promise<void> {
+  await (globalThis as any).__EMBEDDED_POSTGRES__?.stop();
+}